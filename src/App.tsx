@@ -9,6 +9,7 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import ProAccess from "./pages/ProAccess";
 import CustomerPortal from "./pages/CustomerPortal";
+import InvoiceView from "./pages/InvoiceView";
 import { AuthProvider } from "./contexts/AuthContext";
 
 const queryClient = new QueryClient();
@@ -26,6 +27,7 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/pro" element={<ProAccess />} />
             <Route path="/portal" element={<CustomerPortal />} />
+            <Route path="/invoice/:token" element={<InvoiceView />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,26 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CURRENCIES } from "@/lib/currency";
+
+interface CurrencySelectProps {
+  id?: string;
+  value: string;
+  onValueChange: (currency: string) => void;
+  // Currencies that can't be picked, e.g. ones that already have a rate
+  exclude?: string[];
+  disabled?: boolean;
+}
+
+export const CurrencySelect = ({ id, value, onValueChange, exclude = [], disabled }: CurrencySelectProps) => (
+  <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+    <SelectTrigger id={id}>
+      <SelectValue placeholder="Select currency" />
+    </SelectTrigger>
+    <SelectContent>
+      {CURRENCIES.filter((currency) => currency.code === value || !exclude.includes(currency.code)).map((currency) => (
+        <SelectItem key={currency.code} value={currency.code}>
+          {currency.code} - {currency.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,114 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useFormatters } from "@/hooks/useFormatters";
+
+export interface EmailHistoryInvoice {
+  id: string;
+  number: string;
+}
+
+interface EmailHistoryDialogProps {
+  invoice: EmailHistoryInvoice | null;
+  onClose: () => void;
+}
+
+const statusColors = {
+  queued: "bg-yellow-100 text-yellow-800",
+  sending: "bg-gray-100 text-gray-800",
+  sent: "bg-blue-100 text-blue-800",
+  delivered: "bg-green-100 text-green-800",
+  bounced: "bg-red-100 text-red-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const templateLabel = (template: string) => {
+  if (template === "invoice") return "Invoice";
+  if (template.startsWith("reminder:")) {
+    const reminderType = template.slice("reminder:".length);
+    return `${reminderType.charAt(0).toUpperCase()}${reminderType.slice(1)} reminder`;
+  }
+  return template;
+};
+
+export const EmailHistoryDialog = ({ invoice, onClose }: EmailHistoryDialogProps) => {
+  const { formatDateTime } = useFormatters();
+  const { data: messages, isLoading } = useQuery({
+    queryKey: ["email-messages", invoice?.id],
+    enabled: !!invoice,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("email_messages")
+        .select("id, recipient, template, subject, status, attempts, last_error, created_at, sent_at, delivered_at")
+        .eq("invoice_id", invoice!.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Email History</DialogTitle>
+          <DialogDescription>
+            Every email sent for invoice {invoice?.number}. Failed attempts are retried automatically.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : messages?.length ? (
+                messages.map((message) => (
+                  <TableRow key={message.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDateTime(message.sent_at ?? message.created_at)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{templateLabel(message.template)}</div>
+                      <div className="text-xs text-muted-foreground">{message.subject}</div>
+                    </TableCell>
+                    <TableCell>{message.recipient}</TableCell>
+                    <TableCell>
+                      <Badge className={statusColors[message.status as keyof typeof statusColors] || statusColors.sending}>
+                        {message.status}
+                      </Badge>
+                      {message.attempts > 1 && (
+                        <div className="text-xs text-muted-foreground mt-1">{message.attempts} attempts</div>
+                      )}
+                      {message.last_error && message.status !== "sent" && message.status !== "delivered" && (
+                        <div className="text-xs text-destructive mt-1">{message.last_error}</div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                    No emails sent for this invoice yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useAddSendingDomain,
+  useEmailSenderSettings,
+  useRemoveSendingDomain,
+  useSaveEmailSenderSettings,
+  useSendingDomain,
+  useVerifySendingDomain,
+} from "@/hooks/useSendingDomain";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Mail, RefreshCw, Trash2 } from "lucide-react";
+
+const domainStatusColors = {
+  verified: "bg-green-100 text-green-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  not_started: "bg-yellow-100 text-yellow-800",
+  temporary_failure: "bg-orange-100 text-orange-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const EmailSenderSettings = () => {
+  const { user } = useAuth();
+  const { data: settings } = useEmailSenderSettings();
+  const { data: sendingDomain, isLoading: isLoadingDomain } = useSendingDomain();
+  const saveSettings = useSaveEmailSenderSettings();
+  const addDomain = useAddSendingDomain();
+  const verifyDomain = useVerifySendingDomain();
+  const removeDomain = useRemoveSendingDomain();
+
+  const [fromName, setFromName] = useState("");
+  const [replyTo, setReplyTo] = useState("");
+  const [domain, setDomain] = useState("");
+
+  useEffect(() => {
+    setFromName(settings?.email_from_name || "");
+    setReplyTo(settings?.email_reply_to || "");
+  }, [settings]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Sender
+        </CardTitle>
+        <CardDescription>
+          How invoices, quotes and reminders appear in your clients' inboxes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="grid grid-cols-1 gap-4 md:grid-cols-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveSettings.mutate({ email_from_name: fromName || null, email_reply_to: replyTo || null });
+          }}
+        >
+          <div>
+            <Label htmlFor="from-name">From name</Label>
+            <Input
+              id="from-name"
+              value={fromName}
+              onChange={(e) => setFromName(e.target.value)}
+              placeholder="Defaults to your company name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="reply-to">Reply-to address</Label>
+            <Input
+              id="reply-to"
+              type="email"
+              value={replyTo}
+              onChange={(e) => setReplyTo(e.target.value)}
+              placeholder={user?.email ?? "Defaults to your login email"}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Button type="submit" disabled={saveSettings.isPending}>Save Sender</Button>
+          </div>
+        </form>
+
+        <div className="space-y-3">
+          <div>
+            <Label>Custom sending domain</Label>
+            <p className="text-sm text-muted-foreground">
+              Send from your own domain instead of ours. Add the DNS records below at your DNS provider, then verify.
+            </p>
+          </div>
+
+          {isLoadingDomain ? (
+            <div className="h-6 w-32 bg-muted animate-pulse rounded" />
+          ) : sendingDomain ? (
+            <>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{sendingDomain.domain}</span>
+                <Badge
+                  className={
+                    domainStatusColors[sendingDomain.status as keyof typeof domainStatusColors] ||
+                    domainStatusColors.pending
+                  }
+                >
+                  {sendingDomain.status.replace("_", " ")}
+                </Badge>
+              </div>
+
+              {sendingDomain.status !== "verified" && sendingDomain.dns_records.length > 0 && (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Value</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sendingDomain.dns_records.map((record, index) => (
+                        <TableRow key={index}>
+                          <TableCell>{record.type}</TableCell>
+                          <TableCell className="font-mono text-xs break-all">{record.name}</TableCell>
+                          <TableCell className="font-mono text-xs break-all">
+                            {record.priority != null ? `${record.priority} ` : ""}{record.value}
+                          </TableCell>
+                          <TableCell>{record.status.replace("_", " ")}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {sendingDomain.status !== "verified" && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => verifyDomain.mutate(undefined)}
+                    disabled={verifyDomain.isPending}
+                    className="flex items-center gap-2"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                    Verify DNS records
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => removeDomain.mutate(undefined)}
+                  disabled={removeDomain.isPending}
+                  className="flex items-center gap-2"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Remove domain
+                </Button>
+              </div>
+            </>
+          ) : (
+            <form
+              className="flex gap-2 max-w-md"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addDomain.mutate(domain, { onSuccess: () => setDomain("") });
+              }}
+            >
+              <Input value={domain} onChange={(e) => setDomain(e.target.value)} placeholder="mail.example.com" />
+              <Button type="submit" disabled={addDomain.isPending || !domain.trim()}>Add Domain</Button>
+            </form>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailSenderSettings;
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import {
+  ExchangeRateDraft,
+  useBaseCurrency,
+  useDeleteExchangeRate,
+  useExchangeRates,
+  useSaveExchangeRate,
+} from "@/hooks/useExchangeRates";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeftRight, Trash } from "lucide-react";
+
+const emptyExchangeRate: ExchangeRateDraft = {
+  currency: "",
+  rate: 1,
+};
+
+interface ExchangeRateRowProps {
+  exchangeRate: ExchangeRateDraft;
+  baseCurrency: string;
+  // Currencies that already have a row
+  taken: string[];
+}
+
+const ExchangeRateRow = ({ exchangeRate, baseCurrency, taken }: ExchangeRateRowProps) => {
+  const saveExchangeRate = useSaveExchangeRate();
+  const deleteExchangeRate = useDeleteExchangeRate();
+  const [draft, setDraft] = useState(exchangeRate);
+
+  useEffect(() => {
+    setDraft(exchangeRate);
+  }, [exchangeRate]);
+
+  const id = `exchange-rate-${exchangeRate.id ?? "new"}`;
+
+  return (
+    <form
+      className="grid grid-cols-1 gap-4 items-end md:grid-cols-4 border-b pb-4 last:border-b-0 last:pb-0"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveExchangeRate.mutate(draft, {
+          // The new rate shows up in the list, so the blank row is cleared for the next one
+          onSuccess: () => {
+            if (!exchangeRate.id) setDraft(emptyExchangeRate);
+          },
+        });
+      }}
+    >
+      <div>
+        <Label htmlFor={`${id}-currency`}>Currency</Label>
+        <CurrencySelect
+          id={`${id}-currency`}
+          value={draft.currency}
+          onValueChange={(currency) => setDraft((current) => ({ ...current, currency }))}
+          exclude={[baseCurrency, ...taken]}
+          disabled={!!exchangeRate.id}
+        />
+      </div>
+      <div className="md:col-span-2">
+        <Label htmlFor={`${id}-rate`}>
+          1 {draft.currency || "unit"} = ? {baseCurrency}
+        </Label>
+        <Input
+          id={`${id}-rate`}
+          type="number"
+          step="any"
+          min="0"
+          value={draft.rate}
+          onChange={(e) => setDraft((current) => ({ ...current, rate: Number(e.target.value) }))}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" variant="outline" disabled={saveExchangeRate.isPending}>
+          {exchangeRate.id ? "Save" : "Add"}
+        </Button>
+        {exchangeRate.id && (
+          <Button
+            type="button"
+            variant="destructive"
+            size="icon"
+            onClick={() => deleteExchangeRate.mutate(exchangeRate.id!)}
+            disabled={deleteExchangeRate.isPending}
+          >
+            <Trash className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+const ExchangeRatesSettings = () => {
+  const { data: exchangeRates, isLoading } = useExchangeRates();
+  const baseCurrency = useBaseCurrency();
+  const taken = (exchangeRates ?? []).map((exchangeRate) => exchangeRate.currency);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          Exchange Rates
+        </CardTitle>
+        <CardDescription>
+          Invoices, quotes and expenses in another currency need a rate to {baseCurrency}, your base currency. Each
+          document keeps the rate it was created with, and reports convert it to {baseCurrency} at that rate; ones
+          from before a change of base currency are converted again at the rate of the old one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-6 w-32 bg-muted animate-pulse rounded" />
+        ) : (
+          <>
+            {exchangeRates?.filter((exchangeRate) => exchangeRate.currency !== baseCurrency).map((exchangeRate) => (
+              <ExchangeRateRow key={exchangeRate.id} exchangeRate={exchangeRate} baseCurrency={baseCurrency} taken={taken} />
+            ))}
+            <ExchangeRateRow exchangeRate={emptyExchangeRate} baseCurrency={baseCurrency} taken={taken} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRatesSettings;
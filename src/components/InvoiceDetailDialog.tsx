@@ -0,0 +1,479 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DiscountInput, LineItemDraft, LineItemsEditor, LineItemsSummary } from "@/components/LineItemsEditor";
+import {
+  Discount,
+  hasIncompleteLineItems,
+  lineItemAmount,
+  lineItemDraftTotals,
+  lineItemTotals,
+  noDiscount,
+  parseDiscount,
+  parseLineItemTaxes,
+  toDiscountDraft,
+  toLineItemDraft,
+  toSavedDiscount,
+  toSavedLineItem,
+} from "@/lib/lineItems";
+import { downloadCreditNotePdf } from "@/lib/invoiceDocuments";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { toast } from "sonner";
+import { useFormatters } from "@/hooks/useFormatters";
+
+interface InvoiceDetailDialogProps {
+  invoiceId: string | null;
+  clients: { id: string; name: string }[];
+  onClose: () => void;
+  // Called with the new draft after a reissue, so it can be opened for editing
+  onReissued: (invoiceId: string) => void;
+}
+
+export const InvoiceDetailDialog = ({ invoiceId, clients, onClose, onReissued }: InvoiceDetailDialogProps) => {
+  const queryClient = useQueryClient();
+  const { formatMoney, formatDate } = useFormatters();
+  const [clientId, setClientId] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [items, setItems] = useState<LineItemDraft[]>([]);
+  const [discount, setDiscount] = useState<Discount>(noDiscount);
+  const [currency, setCurrency] = useState("");
+  const [creditReason, setCreditReason] = useState("");
+  const [creditItems, setCreditItems] = useState<LineItemDraft[]>([]);
+  const [creditDiscount, setCreditDiscount] = useState<Discount>(noDiscount);
+
+  const invoice = useQuery({
+    queryKey: ["invoice", invoiceId],
+    enabled: !!invoiceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("invoices")
+        .select("id, number, status, client_id, issue_date, due_date, notes, currency, subtotal, discount_type, discount_value, discount, tax, total, amount_paid, amount_credited, balance_due, voided_at, void_reason")
+        .eq("id", invoiceId!)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const savedItems = useQuery({
+    queryKey: ["invoice-items", invoiceId],
+    enabled: !!invoiceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("invoice_items")
+        .select("id, description, quantity, unit_price, amount, taxes, discount_type, discount_value")
+        .eq("invoice_id", invoiceId!)
+        .order("position")
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const creditNotes = useQuery({
+    queryKey: ["invoice-credit-notes", invoiceId],
+    enabled: !!invoiceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("credit_notes")
+        .select("id, number, issue_date, reason, total, refund_id")
+        .eq("invoice_id", invoiceId!)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!invoice.data) return;
+    setClientId(invoice.data.client_id);
+    setDueDate(invoice.data.due_date ?? "");
+    setNotes(invoice.data.notes ?? "");
+    setDiscount(toDiscountDraft(invoice.data, invoice.data.currency));
+    setCurrency(invoice.data.currency);
+    setCreditReason("");
+    // Credit notes are discounted like the invoice they credit
+    setCreditDiscount(toDiscountDraft(invoice.data, invoice.data.currency));
+  }, [invoice.data]);
+
+  // Credit notes are always in the invoice's currency
+  const invoiceCurrency = invoice.data?.currency ?? DEFAULT_CURRENCY;
+
+  useEffect(() => {
+    // Saved amounts are read in the invoice's currency, so they wait for it
+    if (!savedItems.data || !invoice.data) return;
+    const lines: LineItemDraft[] =
+      savedItems.data.length > 0
+        ? savedItems.data.map((item) => toLineItemDraft(item, invoiceCurrency))
+        : [{ description: "", quantity: 1, unit_price: "" }];
+    setItems(lines);
+    // Credit notes start out crediting every line in full, with the taxes it was charged
+    setCreditItems(lines);
+  }, [savedItems.data, invoice.data, invoiceCurrency]);
+
+  const isDraft = invoice.data?.status === "draft";
+  const isVoid = invoice.data?.status === "void";
+  const isCredited = invoice.data?.status === "credited";
+  const totals = useMemo(() => lineItemDraftTotals(items, discount, currency), [items, discount, currency]);
+  const creditTotals = useMemo(
+    () => lineItemDraftTotals(creditItems, creditDiscount, invoiceCurrency),
+    [creditItems, creditDiscount, invoiceCurrency]
+  );
+  // Issued invoices show their tax per rate when their lines carry taxes
+  const issuedTaxes = useMemo(
+    () =>
+      lineItemTotals(
+        savedItems.data?.map((item) => ({ ...item, taxes: parseLineItemTaxes(item.taxes), ...parseDiscount(item) })) ?? [],
+        invoice.data ? parseDiscount(invoice.data) : noDiscount
+      ).taxes,
+    [savedItems.data, invoice.data]
+  );
+  const leftToCredit = Number(invoice.data?.total ?? 0) - Number(invoice.data?.amount_credited ?? 0);
+  // Reissuing credits the whole invoice, so it has to be untouched by payments and credit notes
+  const canReissue = Number(invoice.data?.amount_paid) === 0 && Number(invoice.data?.amount_credited) === 0;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["invoice", invoiceId] });
+    queryClient.invalidateQueries({ queryKey: ["invoice-items", invoiceId] });
+    queryClient.invalidateQueries({ queryKey: ["invoice-credit-notes", invoiceId] });
+  };
+
+  const saveDraft = useMutation({
+    mutationFn: async () => {
+      if (!invoiceId) throw new Error("No invoice selected");
+      if (!clientId) throw new Error("Please choose a client");
+      if (hasIncompleteLineItems(items)) throw new Error("Please fill all item fields.");
+
+      // The details and items are replaced in one transaction. Changing the currency of a
+      // draft takes the current exchange rate, and the totals are recomputed from the items.
+      const documentDiscount = toSavedDiscount(discount, currency);
+      const { error } = await supabase.rpc("update_invoice", {
+        p_invoice_id: invoiceId,
+        p_client_id: clientId,
+        p_items: items.map((item) => toSavedLineItem(item, currency)),
+        p_currency: currency,
+        p_due_date: dueDate || null,
+        p_notes: notes || null,
+        p_discount_type: documentDiscount.discount_type,
+        p_discount_value: documentDiscount.discount_value,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success(`Invoice ${invoice.data?.number} saved`);
+      onClose();
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to save invoice"),
+  });
+
+  const issueCreditNote = useMutation({
+    mutationFn: async () => {
+      if (!creditReason.trim()) throw new Error("Please give a reason for the credit note");
+      if (hasIncompleteLineItems(creditItems)) throw new Error("Please fill all item fields.");
+      if (creditTotals.total > leftToCredit) {
+        throw new Error(`Only ${formatMoney(leftToCredit, invoiceCurrency)} is left to credit on this invoice`);
+      }
+
+      // Totals are computed from the lines by the database
+      const documentDiscount = toSavedDiscount(creditDiscount, invoiceCurrency);
+      const { data, error } = await supabase.rpc("create_credit_note", {
+        p_invoice_id: invoiceId!,
+        p_reason: creditReason,
+        p_items: creditItems.map((item) => toSavedLineItem(item, invoiceCurrency)),
+        p_discount_type: documentDiscount.discount_type,
+        p_discount_value: documentDiscount.discount_value,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidate();
+      setCreditReason("");
+      toast.success(`Credit note issued for invoice ${invoice.data?.number}`);
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to issue credit note"),
+  });
+
+  const downloadCreditNote = async (creditNoteId: string) => {
+    try {
+      await downloadCreditNotePdf(creditNoteId);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to download credit note");
+    }
+  };
+
+  const reissueInvoice = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("reissue_invoice", { p_invoice_id: invoiceId!, p_reason: creditReason });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (newInvoiceId) => {
+      invalidate();
+      toast.success(`Invoice ${invoice.data?.number} cancelled. Edit the replacement draft and send it.`);
+      onReissued(newInvoiceId);
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to reissue invoice"),
+  });
+
+  return (
+    <Dialog open={!!invoiceId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Invoice {invoice.data?.number}</DialogTitle>
+          <DialogDescription>
+            {isDraft
+              ? "Drafts can be edited until they are sent."
+              : isVoid
+                ? "This invoice is void."
+                : isCredited
+                  ? "This invoice has been credited in full."
+                  : "This invoice has been issued. To correct it, issue a credit note and, if needed, a replacement."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {invoice.isLoading || savedItems.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : isDraft ? (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveDraft.mutate();
+            }}
+          >
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <Label>Client</Label>
+                <Select value={clientId} onValueChange={setClientId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select client" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="edit_due">Due date</Label>
+                <Input id="edit_due" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="edit_currency">Currency</Label>
+                <CurrencySelect id="edit_currency" value={currency} onValueChange={setCurrency} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Items</Label>
+              <LineItemsEditor items={items} onChange={setItems} currency={currency} />
+            </div>
+
+            <div>
+              <Label htmlFor="edit_notes">Notes</Label>
+              <Textarea id="edit_notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 items-start">
+              <div>
+                <Label htmlFor="edit_discount">Invoice discount</Label>
+                <DiscountInput id="edit_discount" discount={discount} onChange={setDiscount} currency={currency} />
+              </div>
+              <LineItemsSummary totals={totals} currency={currency} />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveDraft.isPending}>
+                {saveDraft.isPending ? "Saving..." : "Save Invoice"}
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : invoice.data ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <span className="text-muted-foreground">Client</span>
+              <span>{clients.find((c) => c.id === invoice.data.client_id)?.name ?? "—"}</span>
+              <span className="text-muted-foreground">Status</span>
+              <span className="capitalize">{invoice.data.status.replace("_", " ")}</span>
+              <span className="text-muted-foreground">Issued</span>
+              <span>{formatDate(invoice.data.issue_date)}</span>
+              <span className="text-muted-foreground">Due</span>
+              <span>{invoice.data.due_date ? formatDate(invoice.data.due_date) : "—"}</span>
+              <span className="text-muted-foreground">Currency</span>
+              <span>{invoice.data.currency}</span>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">Discount</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {savedItems.data?.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell className="text-right">{Number(item.quantity)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(item.unit_price, invoiceCurrency)}</TableCell>
+                    <TableCell className="text-right">
+                      {Number(item.discount_value) > 0
+                        ? item.discount_type === "fixed"
+                          ? formatMoney(item.discount_value, invoiceCurrency)
+                          : `${Number(item.discount_value)}%`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(lineItemAmount({ quantity: item.quantity, unit_price: item.unit_price, ...parseDiscount(item) }), invoiceCurrency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="text-sm space-y-1 text-right">
+              <p>Subtotal: {formatMoney(invoice.data.subtotal, invoiceCurrency)}</p>
+              {Number(invoice.data.discount) > 0 && <p>Discount: {formatMoney(-invoice.data.discount, invoiceCurrency)}</p>}
+              {issuedTaxes.length > 0 ? (
+                issuedTaxes.map((tax) => (
+                  <p key={`${tax.name}-${tax.rate}`}>
+                    {tax.name} ({tax.rate}%): {formatMoney(tax.amount, invoiceCurrency)}
+                  </p>
+                ))
+              ) : (
+                <p>Tax: {formatMoney(invoice.data.tax, invoiceCurrency)}</p>
+              )}
+              <p className="font-semibold">Total: {formatMoney(invoice.data.total, invoiceCurrency)}</p>
+              {Number(invoice.data.amount_credited) > 0 && (
+                <p>Credited: {formatMoney(invoice.data.amount_credited, invoiceCurrency)}</p>
+              )}
+              <p>Balance Due: {formatMoney(invoice.data.balance_due, invoiceCurrency)}</p>
+            </div>
+
+            {invoice.data.notes && <p className="text-sm whitespace-pre-line">{invoice.data.notes}</p>}
+
+            {creditNotes.data && creditNotes.data.length > 0 && (
+              <div className="space-y-2">
+                <Label>Credit Notes</Label>
+                <Table>
+                  <TableBody>
+                    {creditNotes.data.map((creditNote) => (
+                      <TableRow key={creditNote.id}>
+                        <TableCell className="font-medium">{creditNote.number}</TableCell>
+                        <TableCell>{formatDate(creditNote.issue_date)}</TableCell>
+                        <TableCell>{creditNote.reason}</TableCell>
+                        <TableCell className="text-right">{formatMoney(creditNote.total, invoiceCurrency)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" variant="outline" onClick={() => downloadCreditNote(creditNote.id)} title="Download Credit Note">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {isVoid || isCredited ? (
+              <div className="rounded-md border p-3 text-sm space-y-2">
+                {isVoid && (
+                  <p>
+                    Voided {invoice.data.voided_at ? formatDate(invoice.data.voided_at) : ""}
+                    {invoice.data.void_reason ? `: ${invoice.data.void_reason}` : ""}
+                  </p>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => reissueInvoice.mutate()}
+                  disabled={reissueInvoice.isPending}
+                >
+                  Issue Replacement
+                </Button>
+              </div>
+            ) : (
+              <div className="rounded-md border p-3 space-y-3">
+                <div>
+                  <Label htmlFor="credit_reason">Reason for the credit note</Label>
+                  <Input
+                    id="credit_reason"
+                    value={creditReason}
+                    onChange={(e) => setCreditReason(e.target.value)}
+                    placeholder="e.g. Wrong quantity billed"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Lines to credit</Label>
+                  <LineItemsEditor items={creditItems} onChange={setCreditItems} currency={invoiceCurrency} />
+                </div>
+                <div>
+                  <Label htmlFor="credit_discount">Credit note discount</Label>
+                  <DiscountInput
+                    id="credit_discount"
+                    discount={creditDiscount}
+                    onChange={setCreditDiscount}
+                    currency={invoiceCurrency}
+                    className="sm:w-60"
+                  />
+                </div>
+                <div className="text-sm space-y-1 text-right">
+                  <p className="font-semibold">Credit Total: {formatMoney(creditTotals.total, invoiceCurrency)}</p>
+                  <p className="text-muted-foreground">Left to credit: {formatMoney(leftToCredit, invoiceCurrency)}</p>
+                </div>
+                {!canReissue && (
+                  <p className="text-sm text-muted-foreground">
+                    This invoice has payments or credit notes recorded, so it can only be reissued once it has been
+                    credited in full.
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    onClick={() => issueCreditNote.mutate()}
+                    disabled={!creditReason.trim() || issueCreditNote.isPending}
+                  >
+                    Issue Credit Note
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => reissueInvoice.mutate()}
+                    disabled={!creditReason.trim() || reissueInvoice.isPending || !canReissue}
+                  >
+                    Credit in Full & Reissue
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+};
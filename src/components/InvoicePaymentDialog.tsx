@@ -1,7 +1,6 @@
-import { useState } from "react";
-import { useAuth } from "@/contexts/AuthContext";
+import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -13,78 +12,80 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { CreditCard, DollarSign } from "lucide-react";
+import { CreditCard } from "lucide-react";
+import { amountStep } from "@/lib/currency";
+import { fromMinorUnits, toMinorUnits } from "@shared/formatting";
+import { useFormatters } from "@/hooks/useFormatters";
 
 interface InvoicePaymentDialogProps {
   invoice: any;
   isOpen: boolean;
   onClose: () => void;
+  // Amounts and dates are written in the client's locale
+  locale?: string | null;
 }
 
-export const InvoicePaymentDialog = ({ invoice, isOpen, onClose }: InvoicePaymentDialogProps) => {
-  const { user } = useAuth();
-  const queryClient = useQueryClient();
-  const [paymentMethod, setPaymentMethod] = useState("credit_card");
-  const [amount, setAmount] = useState(invoice?.total?.toString() || "");
-  const [isProcessing, setIsProcessing] = useState(false);
-
-  const processPayment = useMutation({
-    mutationFn: async ({ invoiceId, amount, method }: { invoiceId: string; amount: number; method: string }) => {
-      // In a real application, this would integrate with Stripe or another payment processor
-      // For demo purposes, we'll simulate a payment and update the invoice status
-      
-      setIsProcessing(true);
-      
-      // Simulate payment processing delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Update invoice status to paid
-      const { error } = await supabase
-        .from("invoices")
-        .update({ 
-          status: "paid",
-          updated_at: new Date().toISOString()
-        })
-        .eq("id", invoiceId);
-
-      if (error) throw error;
-
-      return { invoiceId, amount, method };
+export const InvoicePaymentDialog = ({ invoice, isOpen, onClose, locale }: InvoicePaymentDialogProps) => {
+  const { formatMoney, formatDate } = useFormatters(locale);
+  // Typed in major units, e.g. 12.50; sent in minor units
+  const [amount, setAmount] = useState("");
+
+  useEffect(() => {
+    setAmount(invoice?.balance_due ? fromMinorUnits(invoice.balance_due, invoice.currency).toString() : "");
+  }, [invoice]);
+
+  const startCheckout = useMutation({
+    mutationFn: async ({ invoiceId, amount }: { invoiceId: string; amount: number }) => {
+      const portalUrl = `${window.location.origin}/portal`;
+
+      // The payment is recorded by the stripe-webhook function once Stripe confirms it
+      const { data, error } = await supabase.functions.invoke("invoice-checkout", {
+        body: {
+          invoice_id: invoiceId,
+          amount,
+          success_url: `${portalUrl}?payment=success`,
+          cancel_url: `${portalUrl}?payment=canceled`,
+        },
+      });
+
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+      }
+
+      return data.url as string;
     },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["customer-invoices"] });
-      queryClient.invalidateQueries({ queryKey: ["customer-payments"] });
-      toast.success(`Payment of $${data.amount} processed successfully!`);
-      onClose();
-      setIsProcessing(false);
+    onSuccess: (url) => {
+      window.location.href = url;
     },
-    onError: (error) => {
-      toast.error("Payment failed. Please try again.");
+    onError: (error: Error) => {
+      toast.error(error.message || "Payment failed. Please try again.");
       console.error("Payment error:", error);
-      setIsProcessing(false);
     },
   });
 
   const handlePayment = () => {
-    if (!amount || parseFloat(amount) <= 0) {
+    const value = toMinorUnits(amount, invoice.currency);
+
+    if (value <= 0) {
       toast.error("Please enter a valid amount");
       return;
     }
 
-    if (parseFloat(amount) > invoice.total) {
-      toast.error("Payment amount cannot exceed invoice total");
+    if (value > invoice.balance_due) {
+      toast.error("Payment amount cannot exceed the balance due");
       return;
     }
 
-    processPayment.mutate({
+    startCheckout.mutate({
       invoiceId: invoice.id,
-      amount: parseFloat(amount),
-      method: paymentMethod
+      amount: value,
     });
   };
 
+  const isProcessing = startCheckout.isPending || startCheckout.isSuccess;
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[525px]">
@@ -94,7 +95,7 @@ export const InvoicePaymentDialog = ({ invoice, isOpen, onClose }: InvoicePaymen
             Pay Invoice: {invoice?.number}
           </DialogTitle>
           <DialogDescription>
-            Complete your payment securely. Your payment will be processed immediately.
+            You will be redirected to Stripe to complete your payment securely.
           </DialogDescription>
         </DialogHeader>
 
@@ -108,15 +109,25 @@ export const InvoicePaymentDialog = ({ invoice, isOpen, onClose }: InvoicePaymen
               </div>
               <div className="flex justify-between">
                 <span className="font-medium">Issue Date:</span>
-                <span>{new Date(invoice.issue_date).toLocaleDateString()}</span>
+                <span>{formatDate(invoice.issue_date)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="font-medium">Due Date:</span>
-                <span>{invoice.due_date ? new Date(invoice.due_date).toLocaleDateString() : 'No due date'}</span>
+                <span>{invoice.due_date ? formatDate(invoice.due_date) : 'No due date'}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="font-medium">Total Amount:</span>
+                <span>{formatMoney(invoice.total, invoice.currency)}</span>
               </div>
+              {invoice.amount_paid > 0 && (
+                <div className="flex justify-between">
+                  <span className="font-medium">Already Paid:</span>
+                  <span>{formatMoney(invoice.amount_paid, invoice.currency)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-lg font-bold">
-                <span>Total Amount:</span>
-                <span className="text-primary">${invoice.total.toFixed(2)}</span>
+                <span>Balance Due:</span>
+                <span className="text-primary">{formatMoney(invoice.balance_due, invoice.currency)}</span>
               </div>
             </div>
 
@@ -125,69 +136,22 @@ export const InvoicePaymentDialog = ({ invoice, isOpen, onClose }: InvoicePaymen
               <div>
                 <Label htmlFor="amount">Payment Amount</Label>
                 <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-xs text-gray-400">{invoice.currency}</span>
                   <Input
                     id="amount"
                     type="number"
-                    step="0.01"
+                    step={amountStep(invoice.currency)}
                     placeholder="0.00"
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
-                    className="pl-9"
+                    className="pl-12"
                   />
                 </div>
               </div>
-
-              <div>
-                <Label htmlFor="paymentMethod">Payment Method</Label>
-                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="credit_card">Credit Card</SelectItem>
-                    <SelectItem value="debit_card">Debit Card</SelectItem>
-                    <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
-                    <SelectItem value="paypal">PayPal</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {paymentMethod === "credit_card" && (
-                <div className="space-y-3">
-                  <div>
-                    <Label htmlFor="cardNumber">Card Number</Label>
-                    <Input
-                      id="cardNumber"
-                      placeholder="1234 5678 9012 3456"
-                      className="font-mono"
-                    />
-                  </div>
-                  <div className="grid grid-cols-2 gap-3">
-                    <div>
-                      <Label htmlFor="expiry">Expiry Date</Label>
-                      <Input
-                        id="expiry"
-                        placeholder="MM/YY"
-                        className="font-mono"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="cvv">CVV</Label>
-                      <Input
-                        id="cvv"
-                        placeholder="123"
-                        type="password"
-                        className="font-mono"
-                      />
-                    </div>
-                  </div>
-                </div>
-              )}
             </div>
 
             <div className="p-3 bg-blue-50 rounded-lg text-sm text-blue-800">
-              <strong>Note:</strong> This is a demo payment system. In production, this would integrate with a real payment processor like Stripe.
+              Card details are collected by Stripe. Your payment is applied to the invoice once Stripe confirms it, and any remaining balance can be paid later.
             </div>
           </div>
         )}
@@ -198,16 +162,16 @@ export const InvoicePaymentDialog = ({ invoice, isOpen, onClose }: InvoicePaymen
           </Button>
           <Button 
             onClick={handlePayment}
-            disabled={processPayment.isPending || isProcessing || !amount}
+            disabled={isProcessing || !amount}
             className="min-w-[120px]"
           >
             {isProcessing ? (
               <div className="flex items-center gap-2">
                 <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                Processing...
+                Redirecting...
               </div>
             ) : (
-              `Pay $${amount || '0.00'}`
+              `Pay ${formatMoney(toMinorUnits(amount, invoice?.currency ?? ""), invoice?.currency)}`
             )}
           </Button>
         </DialogFooter>
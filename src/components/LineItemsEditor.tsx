@@ -0,0 +1,238 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Discount, DiscountType, LineItemTax, lineItemTotals } from "@/lib/lineItems";
+import { sortLineItemTaxes, toLineItemTax, useTaxRates } from "@/hooks/useTaxRates";
+import { DEFAULT_CURRENCY, amountStep } from "@/lib/currency";
+import { useFormatters } from "@/hooks/useFormatters";
+import { ChevronDown, Trash } from "lucide-react";
+
+export interface LineItemDraft {
+  description: string;
+  quantity: number | string;
+  unit_price: number | string;
+  // Left out until the account's default rates are known; see LineItemsEditor
+  taxes?: LineItemTax[];
+  discount_type?: DiscountType;
+  discount_value?: number | string;
+}
+
+interface LineItemsEditorProps {
+  items: LineItemDraft[];
+  onChange: (items: LineItemDraft[]) => void;
+  currency?: string;
+}
+
+const taxLabel = (tax: LineItemTax) => `${tax.name} ${tax.rate}%${tax.inclusive ? " incl." : ""}`;
+
+const isSameTax = (a: LineItemTax, b: LineItemTax) =>
+  a.tax_rate_id && b.tax_rate_id ? a.tax_rate_id === b.tax_rate_id : a.name === b.name && a.rate === b.rate;
+
+interface LineTaxPickerProps {
+  taxes: LineItemTax[];
+  options: LineItemTax[];
+  onChange: (taxes: LineItemTax[]) => void;
+}
+
+const LineTaxPicker = ({ taxes, options, onChange }: LineTaxPickerProps) => {
+  // Taxes copied from rates that were since changed or deleted can still be removed
+  const choices = [...options, ...taxes.filter((tax) => !options.some((option) => isSameTax(option, tax)))];
+
+  const toggle = (tax: LineItemTax, checked: boolean) => {
+    onChange(sortLineItemTaxes(checked ? [...taxes, tax] : taxes.filter((current) => !isSameTax(current, tax))));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" className="w-full sm:w-40 justify-between font-normal">
+          <span className="truncate">{taxes.length > 0 ? taxes.map((tax) => tax.name).join(" + ") : "No tax"}</span>
+          <ChevronDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Taxes</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {choices.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">Add tax rates in Settings</p>
+        ) : (
+          choices.map((tax) => (
+            <DropdownMenuCheckboxItem
+              key={tax.tax_rate_id ?? `${tax.name}-${tax.rate}`}
+              checked={taxes.some((current) => isSameTax(current, tax))}
+              onCheckedChange={(checked) => toggle(tax, checked)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {taxLabel(tax)}
+              {tax.compound && <span className="ml-1 text-xs text-muted-foreground">(compound)</span>}
+            </DropdownMenuCheckboxItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+interface DiscountInputProps {
+  id?: string;
+  discount: Partial<Discount>;
+  onChange: (discount: Discount) => void;
+  // Of fixed discounts
+  currency?: string;
+  className?: string;
+}
+
+/**
+ * A discount as a percentage or a fixed amount, for a line or a whole document.
+ */
+export const DiscountInput = ({ id, discount, onChange, currency = DEFAULT_CURRENCY, className }: DiscountInputProps) => {
+  const discountType = discount.discount_type ?? "percent";
+  const discountValue = discount.discount_value ?? "";
+
+  return (
+    <div className={`flex gap-1 ${className ?? ""}`}>
+      <Input
+        id={id}
+        type="number"
+        step={discountType === "fixed" ? amountStep(currency) : "0.01"}
+        min="0"
+        max={discountType === "percent" ? "100" : undefined}
+        placeholder="Discount"
+        value={discountValue === 0 ? "" : discountValue}
+        onChange={(e) => onChange({ discount_type: discountType, discount_value: e.target.value ? Number(e.target.value) : 0 })}
+        className="w-full"
+      />
+      <Select
+        value={discountType}
+        onValueChange={(value) => onChange({ discount_type: value as DiscountType, discount_value: discountValue || 0 })}
+      >
+        <SelectTrigger className="w-20 shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="percent">%</SelectItem>
+          <SelectItem value="fixed">{currency}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export const LineItemsEditor = ({ items, onChange, currency }: LineItemsEditorProps) => {
+  const { data: taxRates } = useTaxRates();
+  const options = (taxRates ?? []).map(toLineItemTax);
+  const defaultTaxes = sortLineItemTaxes((taxRates ?? []).filter((taxRate) => taxRate.is_default).map(toLineItemTax));
+
+  // Lines start out with the account's default rates once they have loaded
+  useEffect(() => {
+    if (!taxRates || !items.some((item) => !item.taxes)) return;
+    onChange(items.map((item) => (item.taxes ? item : { ...item, taxes: defaultTaxes })));
+  }, [taxRates, items, onChange, defaultTaxes]);
+
+  const handleItemChange = (index: number, changes: Partial<LineItemDraft>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addItem = () => {
+    onChange([...items, { description: "", quantity: 1, unit_price: "", taxes: taxRates ? defaultTaxes : undefined }]);
+  };
+
+  const removeItem = (index: number) => {
+    if (items.length > 1) {
+      onChange(items.filter((_, i) => i !== index));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {items.map((item, index) => (
+          <div key={index} className="flex flex-col sm:flex-row items-start sm:items-center gap-2">
+            <Input
+              placeholder="Item description"
+              value={item.description}
+              onChange={(e) => handleItemChange(index, { description: e.target.value })}
+              className="w-full"
+              required
+            />
+            <div className="flex gap-2 w-full sm:w-auto">
+              <Input
+                type="number"
+                placeholder="Qty"
+                value={item.quantity}
+                onChange={(e) => handleItemChange(index, { quantity: e.target.value ? Number(e.target.value) : "" })}
+                className="w-1/2 sm:w-20"
+                min="1"
+                required
+              />
+              <Input
+                type="number"
+                step={amountStep(currency)}
+                placeholder="Unit Price"
+                value={item.unit_price}
+                onChange={(e) => handleItemChange(index, { unit_price: e.target.value ? Number(e.target.value) : "" })}
+                className="w-1/2 sm:w-28"
+                min="0"
+                required
+              />
+            </div>
+            <DiscountInput
+              discount={item}
+              onChange={(discount) => handleItemChange(index, discount)}
+              currency={currency}
+              className="w-full sm:w-40"
+            />
+            <LineTaxPicker
+              taxes={item.taxes ?? []}
+              options={options}
+              onChange={(taxes) => handleItemChange(index, { taxes })}
+            />
+            <Button type="button" variant="destructive" size="icon" onClick={() => removeItem(index)} disabled={items.length <= 1}>
+              <Trash className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={addItem}>Add Item</Button>
+    </div>
+  );
+};
+
+interface LineItemsSummaryProps {
+  totals: ReturnType<typeof lineItemTotals>;
+  totalLabel?: string;
+  currency?: string;
+}
+
+/**
+ * Subtotal, discount, tax per rate and total of the lines being edited.
+ */
+export const LineItemsSummary = ({ totals, totalLabel = "Total", currency }: LineItemsSummaryProps) => {
+  const { formatMoney } = useFormatters();
+
+  return (
+    <div className="text-sm space-y-1 text-right">
+      <p>Subtotal: {formatMoney(totals.subtotal, currency)}</p>
+      {totals.discount > 0 && <p>Discount: {formatMoney(-totals.discount, currency)}</p>}
+      {totals.taxes.length > 0 ? (
+        totals.taxes.map((tax) => (
+          <p key={`${tax.name}-${tax.rate}`}>
+            {tax.name} ({tax.rate}%): {formatMoney(tax.amount, currency)}
+          </p>
+        ))
+      ) : (
+        <p>Tax: {formatMoney(totals.taxAmount, currency)}</p>
+      )}
+      <p className="font-semibold">{totalLabel}: {formatMoney(totals.total, currency)}</p>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LOCALES } from "@shared/formatting";
+
+// Stands in for "no locale of its own", as select items can't have an empty value
+const INHERIT = "inherit";
+
+interface LocaleSelectProps {
+  id?: string;
+  // Empty for the inherited locale when inheritLabel is given
+  value: string;
+  onValueChange: (locale: string) => void;
+  // Offers a choice of no locale of its own, e.g. for a client to use the account's
+  inheritLabel?: string;
+}
+
+export const LocaleSelect = ({ id, value, onValueChange, inheritLabel }: LocaleSelectProps) => (
+  <Select
+    value={inheritLabel && !value ? INHERIT : value}
+    onValueChange={(locale) => onValueChange(locale === INHERIT ? "" : locale)}
+  >
+    <SelectTrigger id={id}>
+      <SelectValue placeholder="Select locale" />
+    </SelectTrigger>
+    <SelectContent>
+      {inheritLabel && <SelectItem value={INHERIT}>{inheritLabel}</SelectItem>}
+      {LOCALES.map((locale) => (
+        <SelectItem key={locale.code} value={locale.code}>
+          {locale.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import {
+  formatDocumentNumber,
+  NumberedDocumentType,
+  NumberingScheme,
+  useNumberingSchemes,
+  useSaveNumberingScheme,
+} from "@/hooks/useNumberingSchemes";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Hash } from "lucide-react";
+
+const documentTypes: { value: NumberedDocumentType; label: string }[] = [
+  { value: "invoice", label: "Invoices" },
+  { value: "quote", label: "Quotes" },
+  { value: "credit_note", label: "Credit notes" },
+];
+
+interface NumberingSchemeRowProps {
+  label: string;
+  scheme: NumberingScheme;
+}
+
+const NumberingSchemeRow = ({ label, scheme }: NumberingSchemeRowProps) => {
+  const saveScheme = useSaveNumberingScheme();
+  const [draft, setDraft] = useState(scheme);
+
+  useEffect(() => {
+    setDraft(scheme);
+  }, [scheme]);
+
+  const update = (changes: Partial<NumberingScheme>) => setDraft((current) => ({ ...current, ...changes }));
+  const id = `numbering-${scheme.document_type}`;
+
+  return (
+    <form
+      className="grid grid-cols-1 gap-4 items-end md:grid-cols-6 border-b pb-4 last:border-b-0 last:pb-0"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveScheme.mutate(draft);
+      }}
+    >
+      <div className="md:col-span-6 flex items-baseline justify-between">
+        <span className="font-medium">{label}</span>
+        <span className="text-sm text-muted-foreground">
+          Example: <span className="font-mono">{formatDocumentNumber(draft, new Date().getFullYear(), 42)}</span>
+        </span>
+      </div>
+      <div>
+        <Label htmlFor={`${id}-prefix`}>Prefix</Label>
+        <Input
+          id={`${id}-prefix`}
+          value={draft.prefix}
+          maxLength={20}
+          onChange={(e) => update({ prefix: e.target.value })}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${id}-padding`}>Digits</Label>
+        <Input
+          id={`${id}-padding`}
+          type="number"
+          min="1"
+          max="10"
+          value={draft.padding}
+          onChange={(e) => update({ padding: Number(e.target.value) })}
+        />
+      </div>
+      <div className="flex items-center gap-2 md:col-span-1">
+        <Switch
+          id={`${id}-year`}
+          checked={draft.include_year}
+          onCheckedChange={(checked) => update({ include_year: checked })}
+        />
+        <Label htmlFor={`${id}-year`}>Include year</Label>
+      </div>
+      <div className="flex items-center gap-2 md:col-span-2">
+        <Switch
+          id={`${id}-reset`}
+          checked={draft.reset_yearly}
+          onCheckedChange={(checked) => update({ reset_yearly: checked })}
+        />
+        <Label htmlFor={`${id}-reset`}>Restart at 1 every year</Label>
+      </div>
+      <div>
+        <Button type="submit" variant="outline" disabled={saveScheme.isPending}>Save</Button>
+      </div>
+    </form>
+  );
+};
+
+const NumberingSettings = () => {
+  const { data: schemes, isLoading } = useNumberingSchemes();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          Document Numbering
+        </CardTitle>
+        <CardDescription>
+          Numbers are assigned when a document is saved, so they never repeat, even across devices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !schemes ? (
+          <div className="h-6 w-32 bg-muted animate-pulse rounded" />
+        ) : (
+          documentTypes.map((type) => (
+            <NumberingSchemeRow key={type.value} label={type.label} scheme={schemes[type.value]} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NumberingSettings;
@@ -14,15 +14,19 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
+import { useFormatters } from "@/hooks/useFormatters";
 
 interface QuoteApprovalDialogProps {
   quote: any;
   isOpen: boolean;
   onClose: () => void;
+  // Amounts and dates are written in the client's locale
+  locale?: string | null;
 }
 
-export const QuoteApprovalDialog = ({ quote, isOpen, onClose }: QuoteApprovalDialogProps) => {
+export const QuoteApprovalDialog = ({ quote, isOpen, onClose, locale }: QuoteApprovalDialogProps) => {
   const { user } = useAuth();
+  const { formatMoney, formatDate } = useFormatters(locale);
   const queryClient = useQueryClient();
   const [comments, setComments] = useState("");
   const [action, setAction] = useState<"approve" | "reject" | null>(null);
@@ -81,13 +85,13 @@ export const QuoteApprovalDialog = ({ quote, isOpen, onClose }: QuoteApprovalDia
                 <strong>Quote Number:</strong> {quote.quote_number}
               </div>
               <div>
-                <strong>Total Amount:</strong> ${quote.total?.toFixed(2)}
+                <strong>Total Amount:</strong> {formatMoney(quote.total, quote.currency)}
               </div>
               <div>
-                <strong>Issue Date:</strong> {new Date(quote.issue_date).toLocaleDateString()}
+                <strong>Issue Date:</strong> {formatDate(quote.issue_date)}
               </div>
               <div>
-                <strong>Expiry Date:</strong> {quote.expiry_date ? new Date(quote.expiry_date).toLocaleDateString() : 'No expiry'}
+                <strong>Expiry Date:</strong> {quote.expiry_date ? formatDate(quote.expiry_date) : 'No expiry'}
               </div>
             </div>
 
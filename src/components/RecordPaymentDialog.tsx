@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { amountStep } from "@/lib/currency";
+import { fromMinorUnits, toMinorUnits } from "@shared/formatting";
+import { useFormatters } from "@/hooks/useFormatters";
+
+const paymentMethods = [
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "card", label: "Card" },
+  { value: "cash", label: "Cash" },
+  { value: "check", label: "Check" },
+  { value: "paypal", label: "PayPal" },
+  { value: "other", label: "Other" },
+];
+
+export interface RecordPaymentInvoice {
+  id: string;
+  number: string;
+  currency: string;
+  balance_due: number | null;
+}
+
+interface RecordPaymentDialogProps {
+  invoice: RecordPaymentInvoice | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const RecordPaymentDialog = ({ invoice, isOpen, onClose }: RecordPaymentDialogProps) => {
+  const { user } = useAuth();
+  const { formatMoney } = useFormatters();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState("bank_transfer");
+  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().slice(0, 10));
+  const [reference, setReference] = useState("");
+
+  useEffect(() => {
+    // Typed in major units, e.g. 12.50; saved in minor units
+    setAmount(invoice?.balance_due != null ? fromMinorUnits(invoice.balance_due, invoice.currency).toString() : "");
+    setMethod("bank_transfer");
+    setPaymentDate(new Date().toISOString().slice(0, 10));
+    setReference("");
+  }, [invoice]);
+
+  const recordPayment = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      if (!invoice) throw new Error("No invoice selected");
+
+      const value = toMinorUnits(amount, invoice.currency);
+      if (value <= 0) throw new Error("Please enter a valid amount");
+      if (value > Number(invoice.balance_due)) throw new Error("Payment amount cannot exceed the balance due");
+
+      // The invoice balance and status are updated from the ledger by the database
+      const { error } = await supabase.from("payments").insert({
+        user_id: user.id,
+        invoice_id: invoice.id,
+        amount: value,
+        method,
+        payment_date: paymentDate,
+        reference: reference || null,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoices", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["invoice-payments", invoice?.id] });
+      toast.success("Payment recorded");
+      onClose();
+    },
+    onError: (e: Error) => toast.error(e.message || "Failed to record payment"),
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Record Payment: {invoice?.number}</DialogTitle>
+          <DialogDescription>
+            Record a payment received outside of online card payments.
+          </DialogDescription>
+        </DialogHeader>
+
+        {invoice && (
+          <div className="space-y-4">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">Balance Due:</span>
+              <span>{formatMoney(invoice.balance_due, invoice.currency)}</span>
+            </div>
+            <div>
+              <Label htmlFor="payment-amount">Amount ({invoice.currency})</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                step={amountStep(invoice.currency)}
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Method</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentMethods.map((m) => (
+                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="payment-date">Date</Label>
+              <Input id="payment-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input
+                id="payment-reference"
+                placeholder="e.g. transfer or check number"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => recordPayment.mutate()} disabled={recordPayment.isPending || !amount}>
+            Record Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { DiscountInput, LineItemDraft, LineItemsEditor, LineItemsSummary } from "@/components/LineItemsEditor";
+import {
+  Discount,
+  hasIncompleteLineItems,
+  lineItemDraftTotals,
+  noDiscount,
+  toDiscountDraft,
+  toLineItemDraft,
+  toSavedDiscount,
+  toSavedLineItem,
+} from "@/lib/lineItems";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { fromMinorUnits } from "@shared/formatting";
+import { toast } from "sonner";
+
+export interface RecurringItemsTemplate {
+  id: string;
+  template_number: string;
+  currency: string;
+  subtotal: number;
+  discount_type: string;
+  discount_value: number;
+  tax: number;
+}
+
+interface RecurringItemsDialogProps {
+  template: RecurringItemsTemplate | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const RecurringItemsDialog = ({ template, isOpen, onClose }: RecurringItemsDialogProps) => {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<LineItemDraft[]>([]);
+  const [discount, setDiscount] = useState<Discount>(noDiscount);
+
+  const savedItems = useQuery({
+    queryKey: ["recurring-invoice-items", template?.id],
+    enabled: !!template && isOpen,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("recurring_invoice_items")
+        .select("id, description, quantity, unit_price, taxes, discount_type, discount_value")
+        .eq("recurring_invoice_id", template!.id)
+        .order("position")
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!template || !savedItems.data) return;
+    setDiscount(toDiscountDraft(template, template.currency));
+
+    if (savedItems.data.length > 0) {
+      setItems(savedItems.data.map((item) => toLineItemDraft(item, template.currency)));
+    } else {
+      // Templates created before line items only have totals; start from those
+      const subtotal = Number(template.subtotal);
+      const rate = subtotal > 0 && Number(template.tax) > 0 ? Math.round((Number(template.tax) / subtotal) * 10000) / 100 : 0;
+      setItems([
+        {
+          description: "",
+          quantity: 1,
+          unit_price: fromMinorUnits(subtotal, template.currency) || "",
+          taxes: rate > 0 ? [{ tax_rate_id: null, name: "Tax", rate, compound: false, inclusive: false }] : undefined,
+        },
+      ]);
+    }
+  }, [template, savedItems.data]);
+
+  const currency = template?.currency ?? DEFAULT_CURRENCY;
+  const totals = useMemo(() => lineItemDraftTotals(items, discount, currency), [items, discount, currency]);
+
+  const saveItems = useMutation({
+    mutationFn: async () => {
+      if (!template) throw new Error("No recurring invoice selected");
+      if (hasIncompleteLineItems(items)) throw new Error("Please fill all item fields.");
+
+      // Insert the new lines before removing the old ones, so a failure never leaves the template empty
+      const { error: insertError } = await supabase.from("recurring_invoice_items").insert(
+        items.map((item, index) => ({
+          recurring_invoice_id: template.id,
+          position: index,
+          ...toSavedLineItem(item, template.currency),
+        }))
+      );
+      if (insertError) throw insertError;
+
+      const previousIds = savedItems.data?.map((item) => item.id) ?? [];
+      if (previousIds.length > 0) {
+        const { error: deleteError } = await supabase.from("recurring_invoice_items").delete().in("id", previousIds);
+        if (deleteError) throw deleteError;
+      }
+
+      // The database recomputes the template's totals from its items
+      const { error: updateError } = await supabase
+        .from("recurring_invoices")
+        .update(toSavedDiscount(discount, template.currency))
+        .eq("id", template.id);
+      if (updateError) throw updateError;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-invoice-items", template?.id] });
+      queryClient.invalidateQueries({ queryKey: ["recurring-invoices"] });
+      toast.success("Recurring invoice items saved");
+      onClose();
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to save recurring invoice items"),
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Line Items</DialogTitle>
+          <DialogDescription>
+            Items billed on every invoice generated from {template?.template_number}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveItems.mutate();
+          }}
+        >
+          {savedItems.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading…</p>
+          ) : (
+            <LineItemsEditor items={items} onChange={setItems} currency={template?.currency} />
+          )}
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 items-start">
+            <div>
+              <Label htmlFor="recurring_discount">Invoice discount</Label>
+              <DiscountInput id="recurring_discount" discount={discount} onChange={setDiscount} currency={template?.currency} />
+            </div>
+            <LineItemsSummary totals={totals} currency={template?.currency} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveItems.isPending || savedItems.isLoading}>
+              {saveItems.isPending ? "Saving..." : "Save Items"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
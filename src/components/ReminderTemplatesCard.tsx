@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Eye, RotateCcw, Save } from "lucide-react";
+import type { ReminderType } from "@/hooks/useDunningPolicy";
+import {
+  REMINDER_PLACEHOLDERS,
+  ReminderEmailPreview,
+  usePreviewReminderEmail,
+  useReminderTemplates,
+  useResetReminderTemplate,
+  useSaveReminderTemplate,
+} from "@/hooks/useReminderTemplates";
+
+interface ReminderTemplatesCardProps {
+  reminderTypes: { value: string; label: string }[];
+}
+
+export const ReminderTemplatesCard = ({ reminderTypes }: ReminderTemplatesCardProps) => {
+  const { data: templates } = useReminderTemplates();
+  const saveTemplate = useSaveReminderTemplate();
+  const resetTemplate = useResetReminderTemplate();
+  const previewEmail = usePreviewReminderEmail();
+
+  const [reminderType, setReminderType] = useState<ReminderType>("gentle");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [preview, setPreview] = useState<ReminderEmailPreview | null>(null);
+
+  const savedTemplate = templates?.find((template) => template.reminder_type === reminderType);
+
+  // Blank fields mean the built-in wording is used
+  useEffect(() => {
+    setSubject(savedTemplate?.subject ?? "");
+    setBody(savedTemplate?.body ?? "");
+  }, [savedTemplate]);
+
+  const showPreview = () => {
+    previewEmail.mutate({ reminder_type: reminderType, subject, body }, { onSuccess: setPreview });
+  };
+
+  const loadDefaultWording = () => {
+    previewEmail.mutate(
+      { reminder_type: reminderType, subject: "", body: "" },
+      {
+        onSuccess: ({ defaults }) => {
+          setSubject(defaults.subject);
+          setBody(defaults.body);
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reminder Templates</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={reminderType} onValueChange={(value) => setReminderType(value as ReminderType)}>
+          <TabsList>
+            {reminderTypes.map((type) => (
+              <TabsTrigger key={type.value} value={type.value}>
+                {type.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <p className="text-sm text-muted-foreground">
+          {savedTemplate
+            ? "This reminder uses your own wording."
+            : "This reminder uses the default wording. Leave the fields blank to keep it."}
+          {" "}Available placeholders: {REMINDER_PLACEHOLDERS.map((name) => `{{${name}}}`).join(", ")}
+        </p>
+
+        <div>
+          <Label htmlFor="reminder-subject">Subject</Label>
+          <Input
+            id="reminder-subject"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            placeholder="Default subject"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="reminder-body">Message</Label>
+          <Textarea
+            id="reminder-body"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Default message. Separate paragraphs with a blank line."
+            rows={8}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => saveTemplate.mutate({ reminder_type: reminderType, subject, body })}
+            disabled={saveTemplate.isPending}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save Template
+          </Button>
+          <Button variant="outline" onClick={showPreview} disabled={previewEmail.isPending}>
+            <Eye className="h-4 w-4 mr-2" />
+            Preview
+          </Button>
+          {!subject && !body && (
+            <Button variant="outline" onClick={loadDefaultWording} disabled={previewEmail.isPending}>
+              Edit Default Wording
+            </Button>
+          )}
+          {savedTemplate && (
+            <Button
+              variant="outline"
+              onClick={() => resetTemplate.mutate(reminderType)}
+              disabled={resetTemplate.isPending}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to Default
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.subject}</DialogTitle>
+            <DialogDescription>Preview with a sample invoice. Your clients see their own invoice details.</DialogDescription>
+          </DialogHeader>
+          <iframe
+            title="Reminder preview"
+            srcDoc={preview?.html}
+            sandbox=""
+            className="w-full h-[60vh] border rounded-md"
+          />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
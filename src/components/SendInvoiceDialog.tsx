@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Send } from "lucide-react";
+import { toast } from "sonner";
+
+export interface SendInvoiceTarget {
+  id: string;
+  number: string;
+}
+
+interface SendInvoiceDialogProps {
+  invoice: SendInvoiceTarget | null;
+  onClose: () => void;
+}
+
+export const SendInvoiceDialog = ({ invoice, onClose }: SendInvoiceDialogProps) => {
+  const queryClient = useQueryClient();
+  const [attachPdf, setAttachPdf] = useState(true);
+  const [includeViewLink, setIncludeViewLink] = useState(false);
+
+  useEffect(() => {
+    setAttachPdf(true);
+    setIncludeViewLink(false);
+  }, [invoice]);
+
+  const sendInvoice = useMutation({
+    mutationFn: async () => {
+      if (!invoice) throw new Error("No invoice selected");
+
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await supabase.functions.invoke("send-invoice-email", {
+        body: { invoiceId: invoice.id, attachPdf, includeViewLink },
+        headers: {
+          Authorization: `Bearer ${session?.access_token}`,
+        },
+      });
+
+      if (response.error) throw response.error;
+      return response.data as { status: string; error: string | null };
+    },
+    onSuccess: (data) => {
+      // The outbox keeps retrying emails the provider did not accept straight away
+      if (data?.status === "sent") {
+        toast.success(`Invoice ${invoice?.number} sent successfully`);
+      } else {
+        toast.warning(`Invoice ${invoice?.number} is queued and will be retried: ${data?.error || "Unknown error"}`);
+      }
+      // Sending a draft issues it
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["invoice", invoice?.id] });
+      queryClient.invalidateQueries({ queryKey: ["email-messages", invoice?.id] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      console.error("Email sending error:", error);
+      toast.error("Failed to send invoice: " + (error.message || "Unknown error"));
+    },
+  });
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Send Invoice: {invoice?.number}</DialogTitle>
+          <DialogDescription>
+            Email the invoice to the client's address on file. A draft is issued when it is sent and can no
+            longer be edited.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="attach-pdf">Attach PDF</Label>
+              <p className="text-sm text-muted-foreground">Include the invoice as a PDF file.</p>
+            </div>
+            <Switch id="attach-pdf" checked={attachPdf} onCheckedChange={setAttachPdf} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="include-view-link">Link to view online</Label>
+              <p className="text-sm text-muted-foreground">
+                Anyone with the link can view this invoice without signing in.
+              </p>
+            </div>
+            <Switch id="include-view-link" checked={includeViewLink} onCheckedChange={setIncludeViewLink} />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => sendInvoice.mutate()} disabled={sendInvoice.isPending}>
+            <Send className="h-4 w-4 mr-2" />
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  ConnectAccountType,
+  useConnectAccount,
+  useOpenConnectDashboard,
+  useRefreshConnectStatus,
+  useStartConnectOnboarding,
+} from '@/hooks/useStripeConnect';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CreditCard, ExternalLink, RefreshCw } from 'lucide-react';
+
+const StripeConnectSettings = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [accountType, setAccountType] = useState<ConnectAccountType>('express');
+  const { data: account, isLoading } = useConnectAccount();
+  const startOnboarding = useStartConnectOnboarding();
+  const refreshStatus = useRefreshConnectStatus();
+  const openDashboard = useOpenConnectDashboard();
+  // mutate keeps its identity across renders, unlike the mutation objects
+  const { mutate: refreshConnectStatus } = refreshStatus;
+  const { mutate: restartOnboarding } = startOnboarding;
+
+  // Stripe sends the user back to return_url when onboarding is left, and to
+  // refresh_url when the account link expired and a new one is needed
+  useEffect(() => {
+    const connectResult = searchParams.get('connect');
+    if (!connectResult) return;
+
+    if (connectResult === 'return') {
+      refreshConnectStatus();
+    } else if (connectResult === 'refresh') {
+      restartOnboarding({});
+    }
+
+    searchParams.delete('connect');
+    setSearchParams(searchParams, { replace: true });
+  }, [searchParams, setSearchParams, refreshConnectStatus, restartOnboarding]);
+
+  const getStatusBadge = () => {
+    if (!account) return <Badge variant="secondary">Not connected</Badge>;
+    if (account.is_verified) return <Badge className="bg-green-100 text-green-800">Accepting payments</Badge>;
+    if (account.details_submitted) return <Badge className="bg-yellow-100 text-yellow-800">Pending verification</Badge>;
+    return <Badge className="bg-orange-100 text-orange-800">Onboarding incomplete</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CreditCard className="h-5 w-5" />
+          Online Payments
+        </CardTitle>
+        <CardDescription>
+          Connect a Stripe account so clients can pay your invoices by card from the customer portal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-6 w-32 bg-muted animate-pulse rounded" />
+        ) : (
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">Status:</span>
+            {getStatusBadge()}
+          </div>
+        )}
+
+        {!account && !isLoading && (
+          <div className="max-w-xs">
+            <Label>Account type</Label>
+            <Select value={accountType} onValueChange={(value) => setAccountType(value as ConnectAccountType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="express">Express (managed by HonestInvoice)</SelectItem>
+                <SelectItem value="standard">Standard (your own Stripe dashboard)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {!account?.is_verified && (
+            <Button
+              type="button"
+              onClick={() => startOnboarding.mutate({ accountType })}
+              disabled={isLoading || startOnboarding.isPending}
+            >
+              {account ? 'Continue Stripe onboarding' : 'Connect with Stripe'}
+            </Button>
+          )}
+          {account && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => refreshStatus.mutate()}
+              disabled={refreshStatus.isPending}
+              className="flex items-center gap-2"
+            >
+              <RefreshCw className="h-4 w-4" />
+              Refresh status
+            </Button>
+          )}
+          {account?.details_submitted && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => openDashboard.mutate()}
+              disabled={openDashboard.isPending}
+              className="flex items-center gap-2"
+            >
+              <ExternalLink className="h-4 w-4" />
+              Stripe dashboard
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StripeConnectSettings;
@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { TaxRateDraft, useDeleteTaxRate, useSaveTaxRate, useTaxRates } from "@/hooks/useTaxRates";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Percent, Trash } from "lucide-react";
+
+const emptyTaxRate: TaxRateDraft = {
+  name: "",
+  rate: 0,
+  is_compound: false,
+  is_inclusive: false,
+  is_default: false,
+};
+
+interface TaxRateRowProps {
+  taxRate: TaxRateDraft;
+}
+
+const TaxRateRow = ({ taxRate }: TaxRateRowProps) => {
+  const saveTaxRate = useSaveTaxRate();
+  const deleteTaxRate = useDeleteTaxRate();
+  const [draft, setDraft] = useState(taxRate);
+
+  useEffect(() => {
+    setDraft(taxRate);
+  }, [taxRate]);
+
+  const update = (changes: Partial<TaxRateDraft>) => setDraft((current) => ({ ...current, ...changes }));
+  const id = `tax-rate-${taxRate.id ?? "new"}`;
+
+  return (
+    <form
+      className="grid grid-cols-1 gap-4 items-end md:grid-cols-7 border-b pb-4 last:border-b-0 last:pb-0"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveTaxRate.mutate(draft, {
+          // The new rate shows up in the list, so the blank row is cleared for the next one
+          onSuccess: () => {
+            if (!taxRate.id) setDraft(emptyTaxRate);
+          },
+        });
+      }}
+    >
+      <div className="md:col-span-2">
+        <Label htmlFor={`${id}-name`}>Name</Label>
+        <Input
+          id={`${id}-name`}
+          value={draft.name}
+          maxLength={50}
+          placeholder="e.g. GST"
+          onChange={(e) => update({ name: e.target.value })}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${id}-rate`}>Rate (%)</Label>
+        <Input
+          id={`${id}-rate`}
+          type="number"
+          step="0.001"
+          min="0"
+          max="100"
+          value={draft.rate}
+          onChange={(e) => update({ rate: Number(e.target.value) })}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`${id}-compound`}
+          checked={draft.is_compound}
+          onCheckedChange={(checked) => update({ is_compound: checked })}
+        />
+        <Label htmlFor={`${id}-compound`}>Compound</Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`${id}-inclusive`}
+          checked={draft.is_inclusive}
+          onCheckedChange={(checked) => update({ is_inclusive: checked })}
+        />
+        <Label htmlFor={`${id}-inclusive`}>Included in prices</Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`${id}-default`}
+          checked={draft.is_default}
+          onCheckedChange={(checked) => update({ is_default: checked })}
+        />
+        <Label htmlFor={`${id}-default`}>Default</Label>
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" variant="outline" disabled={saveTaxRate.isPending}>
+          {taxRate.id ? "Save" : "Add"}
+        </Button>
+        {taxRate.id && (
+          <Button
+            type="button"
+            variant="destructive"
+            size="icon"
+            onClick={() => deleteTaxRate.mutate(taxRate.id!)}
+            disabled={deleteTaxRate.isPending}
+          >
+            <Trash className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+const TaxRatesSettings = () => {
+  const { data: taxRates, isLoading } = useTaxRates();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="h-5 w-5" />
+          Tax Rates
+        </CardTitle>
+        <CardDescription>
+          Rates are picked per line item on invoices, quotes and recurring invoices. Compound taxes are charged on
+          top of the other taxes on the line, and default rates are applied to new lines.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-6 w-32 bg-muted animate-pulse rounded" />
+        ) : (
+          <>
+            {taxRates?.map((taxRate) => (
+              <TaxRateRow key={taxRate.id} taxRate={taxRate} />
+            ))}
+            <TaxRateRow taxRate={emptyTaxRate} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaxRatesSettings;
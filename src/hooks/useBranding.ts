@@ -0,0 +1,112 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export interface BrandingData {
+  company_name: string | null;
+  tagline: string | null;
+  primary_color: string;
+  secondary_color: string;
+  footer_text: string | null;
+  logo_path: string | null;
+}
+
+const BRANDING_BUCKET = 'branding';
+const BRANDING_COLUMNS = 'company_name, tagline, primary_color, secondary_color, footer_text, logo_path';
+
+export const brandingLogoUrl = (logoPath: string | null | undefined) => {
+  if (!logoPath) return null;
+  return supabase.storage.from(BRANDING_BUCKET).getPublicUrl(logoPath).data.publicUrl;
+};
+
+/**
+ * Branding of the given business owner. Defaults to the signed-in user; portal
+ * customers pass the owner of their client, or null while it is still loading.
+ */
+export const useBranding = (ownerId?: string | null) => {
+  const { user } = useAuth();
+  const userId = ownerId === undefined ? user?.id : ownerId;
+
+  return useQuery({
+    queryKey: ['branding', userId],
+    enabled: !!userId,
+    queryFn: async (): Promise<BrandingData | null> => {
+      const { data, error } = await supabase
+        .from('branding_settings')
+        .select(BRANDING_COLUMNS)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching branding:', error);
+        throw error;
+      }
+
+      return data;
+    },
+  });
+};
+
+export const useUploadBrandingLogo = () => {
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (file: File) => {
+      if (!user) throw new Error('Not authenticated');
+
+      if (!['image/png', 'image/jpeg'].includes(file.type)) {
+        throw new Error('Please upload a PNG or JPEG image');
+      }
+
+      // A new path per upload, so cached copies of the previous logo are never served
+      const extension = file.type === 'image/png' ? 'png' : 'jpg';
+      const path = `${user.id}/logo-${Date.now()}.${extension}`;
+
+      const { error } = await supabase.storage.from(BRANDING_BUCKET).upload(path, file, {
+        contentType: file.type,
+      });
+
+      if (error) throw error;
+
+      return path;
+    },
+    onError: (error: Error) => {
+      console.error('Logo upload error:', error);
+      toast.error(error.message || 'Failed to upload logo');
+    },
+  });
+};
+
+export const useSaveBranding = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ branding, previousLogoPath }: { branding: BrandingData; previousLogoPath?: string | null }) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('branding_settings')
+        .upsert({ user_id: user.id, ...branding }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+
+      // The old logo is only removed once the new settings no longer reference it
+      if (previousLogoPath && previousLogoPath !== branding.logo_path) {
+        const { error: removeError } = await supabase.storage.from(BRANDING_BUCKET).remove([previousLogoPath]);
+        if (removeError) {
+          console.error('Failed to remove previous logo:', removeError);
+        }
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['branding', user?.id] });
+      toast.success('Branding settings saved successfully!');
+    },
+    onError: (error: Error) => {
+      console.error('Branding save error:', error);
+      toast.error(error.message || 'Failed to save branding settings');
+    },
+  });
+};
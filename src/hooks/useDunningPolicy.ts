@@ -0,0 +1,177 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export type ReminderType = 'gentle' | 'standard' | 'urgent' | 'final';
+
+export interface DunningStep {
+  days_after_due: number;
+  reminder_type: ReminderType;
+}
+
+export interface DunningPolicy {
+  is_enabled: boolean;
+  pause_on_partial_payment: boolean;
+  stop_on_dispute: boolean;
+  steps: DunningStep[];
+}
+
+export interface DunningRunResult {
+  markedOverdue: number;
+  due: number;
+  sent: number;
+  failures: { invoiceId: string; error: string }[];
+}
+
+// Used until the user saves a policy of their own
+export const DEFAULT_DUNNING_POLICY: DunningPolicy = {
+  is_enabled: false,
+  pause_on_partial_payment: false,
+  stop_on_dispute: true,
+  steps: [
+    { days_after_due: 3, reminder_type: 'gentle' },
+    { days_after_due: 7, reminder_type: 'standard' },
+    { days_after_due: 14, reminder_type: 'urgent' },
+    { days_after_due: 30, reminder_type: 'final' },
+  ],
+};
+
+export const useDunningPolicy = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['dunning-policy', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<DunningPolicy | null> => {
+      const { data, error } = await supabase
+        .from('dunning_policies')
+        .select('is_enabled, pause_on_partial_payment, stop_on_dispute, steps:dunning_steps(days_after_due, reminder_type)')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching dunning policy:', error);
+        throw error;
+      }
+
+      if (!data) return null;
+
+      return {
+        ...data,
+        steps: (data.steps as DunningStep[]).sort((a, b) => a.days_after_due - b.days_after_due),
+      };
+    },
+  });
+};
+
+/**
+ * Saves the policy and its steps. Steps are matched on their day offset, so steps that
+ * are kept keep their send history and are not sent again.
+ */
+export const saveDunningPolicy = async (userId: string, policy: DunningPolicy) => {
+  const offsets = policy.steps.map((step) => step.days_after_due);
+  if (new Set(offsets).size !== offsets.length) {
+    throw new Error('Each reminder step needs a different number of days');
+  }
+
+  const { data: saved, error } = await supabase
+    .from('dunning_policies')
+    .upsert(
+      {
+        user_id: userId,
+        is_enabled: policy.is_enabled,
+        pause_on_partial_payment: policy.pause_on_partial_payment,
+        stop_on_dispute: policy.stop_on_dispute,
+      },
+      { onConflict: 'user_id' }
+    )
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  if (policy.steps.length > 0) {
+    const { error: stepsError } = await supabase
+      .from('dunning_steps')
+      .upsert(
+        policy.steps.map((step) => ({ policy_id: saved.id, ...step })),
+        { onConflict: 'policy_id,days_after_due' }
+      );
+
+    if (stepsError) throw stepsError;
+  }
+
+  let removeQuery = supabase.from('dunning_steps').delete().eq('policy_id', saved.id);
+  if (offsets.length > 0) {
+    removeQuery = removeQuery.not('days_after_due', 'in', `(${offsets.join(',')})`);
+  }
+
+  const { error: removeError } = await removeQuery;
+  if (removeError) throw removeError;
+};
+
+export const useSaveDunningPolicy = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (policy: DunningPolicy) => {
+      if (!user) throw new Error('Not authenticated');
+      await saveDunningPolicy(user.id, policy);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dunning-policy', user?.id] });
+      toast.success('Reminder policy saved');
+    },
+    onError: (error: Error) => {
+      console.error('Dunning policy save error:', error);
+      toast.error(error.message || 'Failed to save reminder policy');
+    },
+  });
+};
+
+/**
+ * Runs the signed-in user's policy now, whether or not automatic reminders are enabled.
+ */
+export const useRunDunning = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<DunningRunResult> => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/run-dunning`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({}),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to send reminders');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payment-reminders', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['overdue-invoices', user?.id] });
+    },
+    onError: (error: Error) => {
+      console.error('Dunning run error:', error);
+      toast.error(error.message || 'Failed to send reminders');
+    },
+  });
+};
@@ -0,0 +1,119 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  // Units of the base currency one unit of this currency is worth
+  rate: number;
+  updated_at: string;
+}
+
+export type ExchangeRateDraft = Pick<ExchangeRate, 'currency' | 'rate'> & { id?: string };
+
+/**
+ * The account's base currency: what new documents default to and what reports are in.
+ */
+export const useBaseCurrency = () => {
+  const { user } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: ['base-currency', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<string> => {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('currency')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching base currency:', error);
+        throw error;
+      }
+
+      return data?.currency?.toUpperCase() || DEFAULT_CURRENCY;
+    },
+  });
+
+  return data ?? DEFAULT_CURRENCY;
+};
+
+export const useExchangeRates = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['exchange-rates', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<ExchangeRate[]> => {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('id, currency, rate, updated_at')
+        .eq('user_id', user.id)
+        .order('currency');
+
+      if (error) {
+        console.error('Error fetching exchange rates:', error);
+        throw error;
+      }
+
+      return data;
+    },
+  });
+};
+
+// Documents keep the rate they were created with, so changing it only affects new ones
+export const useSaveExchangeRate = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...exchangeRate }: ExchangeRateDraft) => {
+      if (!user) throw new Error('Not authenticated');
+      if (!exchangeRate.currency) throw new Error('Please choose a currency');
+      if (!(Number(exchangeRate.rate) > 0)) throw new Error('The rate must be more than 0');
+
+      const values = { currency: exchangeRate.currency, rate: Number(exchangeRate.rate) };
+      // Adding a currency that already has a rate replaces it
+      const { error } = id
+        ? await supabase.from('exchange_rates').update(values).eq('id', id)
+        : await supabase
+            .from('exchange_rates')
+            .upsert({ user_id: user.id, ...values }, { onConflict: 'user_id,currency' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchange-rates', user?.id] });
+      toast.success('Exchange rate saved');
+    },
+    onError: (error: Error) => {
+      console.error('Exchange rate save error:', error);
+      toast.error(error.message || 'Failed to save exchange rate');
+    },
+  });
+};
+
+export const useDeleteExchangeRate = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('exchange_rates').delete().eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchange-rates', user?.id] });
+      toast.success('Exchange rate deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Exchange rate delete error:', error);
+      toast.error(error.message || 'Failed to delete exchange rate');
+    },
+  });
+};
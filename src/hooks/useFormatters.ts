@@ -0,0 +1,63 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_CURRENCY, formatMoneyByCurrency } from '@/lib/currency';
+import {
+  type Amount,
+  DEFAULT_LOCALE,
+  formatDate,
+  formatDateTime,
+  formatMoney,
+  formatTime,
+} from '@shared/formatting';
+
+/**
+ * The account's locale, which its own pages are written in.
+ */
+export const useAccountLocale = () => {
+  const { user } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: ['locale', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<string> => {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('locale')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching locale:', error);
+        throw error;
+      }
+
+      return data?.locale || DEFAULT_LOCALE;
+    },
+  });
+
+  return data ?? DEFAULT_LOCALE;
+};
+
+/**
+ * Money and date formatters for a locale: the one given, e.g. a client's, else the
+ * account's. They match the edge functions', so pages read the same as PDFs and emails.
+ */
+export const useFormatters = (locale?: string | null) => {
+  const accountLocale = useAccountLocale();
+  const resolved = locale || accountLocale;
+
+  return useMemo(
+    () => ({
+      locale: resolved,
+      formatMoney: (amount: Amount, currency = DEFAULT_CURRENCY) => formatMoney(amount, currency, resolved),
+      formatMoneyByCurrency: (amounts: Parameters<typeof formatMoneyByCurrency>[0]) =>
+        formatMoneyByCurrency(amounts, resolved),
+      formatDate: (value: string | Date) => formatDate(value, resolved),
+      formatDateTime: (value: string | Date) => formatDateTime(value, resolved),
+      formatTime: (value: string | Date) => formatTime(value, resolved),
+    }),
+    [resolved],
+  );
+};
@@ -0,0 +1,101 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export type NumberedDocumentType = 'invoice' | 'quote' | 'credit_note';
+
+export interface NumberingScheme {
+  document_type: NumberedDocumentType;
+  prefix: string;
+  include_year: boolean;
+  padding: number;
+  reset_yearly: boolean;
+}
+
+// Matches public.numbering_scheme, used for accounts that have not saved their own
+export const DEFAULT_NUMBERING_SCHEMES: Record<NumberedDocumentType, NumberingScheme> = {
+  invoice: { document_type: 'invoice', prefix: 'INV-', include_year: true, padding: 4, reset_yearly: true },
+  quote: { document_type: 'quote', prefix: 'QUO-', include_year: true, padding: 4, reset_yearly: true },
+  credit_note: { document_type: 'credit_note', prefix: 'CN-', include_year: true, padding: 4, reset_yearly: true },
+};
+
+/**
+ * Formats a number the way public.format_document_number does, for examples in settings.
+ */
+export const formatDocumentNumber = (scheme: NumberingScheme, year: number, value: number) =>
+  `${scheme.prefix}${scheme.include_year ? `${year}-` : ''}${String(value).padStart(scheme.padding, '0')}`;
+
+export const useNumberingSchemes = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['numbering-schemes', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<Record<NumberedDocumentType, NumberingScheme>> => {
+      const { data, error } = await supabase
+        .from('numbering_schemes')
+        .select('document_type, prefix, include_year, padding, reset_yearly')
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error fetching numbering schemes:', error);
+        throw error;
+      }
+
+      const schemes = { ...DEFAULT_NUMBERING_SCHEMES };
+      for (const scheme of data as NumberingScheme[]) {
+        schemes[scheme.document_type] = scheme;
+      }
+      return schemes;
+    },
+  });
+};
+
+export const useSaveNumberingScheme = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (scheme: NumberingScheme) => {
+      if (!user) throw new Error('Not authenticated');
+      if (!Number.isInteger(scheme.padding) || scheme.padding < 1 || scheme.padding > 10) {
+        throw new Error('Digits must be between 1 and 10');
+      }
+
+      const { error } = await supabase
+        .from('numbering_schemes')
+        .upsert({ user_id: user.id, ...scheme }, { onConflict: 'user_id,document_type' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['numbering-schemes', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['next-document-number'] });
+      toast.success('Numbering saved');
+    },
+    onError: (error: Error) => {
+      console.error('Numbering save error:', error);
+      toast.error(error.message || 'Failed to save numbering');
+    },
+  });
+};
+
+/**
+ * The number the next document of a type will get. The number is assigned by the
+ * database when the document is saved, so it can differ if another one is saved first.
+ */
+export const useNextDocumentNumber = (documentType: NumberedDocumentType) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['next-document-number', documentType, user?.id],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('preview_document_number', { p_document_type: documentType });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+};
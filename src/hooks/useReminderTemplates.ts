@@ -0,0 +1,148 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { ReminderType } from '@/hooks/useDunningPolicy';
+
+export interface ReminderTemplateData {
+  reminder_type: ReminderType;
+  subject: string;
+  body: string;
+}
+
+export interface ReminderEmailPreview {
+  subject: string;
+  html: string;
+  // The built-in wording for the type
+  defaults: { subject: string; body: string };
+}
+
+export const REMINDER_PLACEHOLDERS = [
+  'client_name',
+  'company_name',
+  'invoice_number',
+  'balance_due',
+  'invoice_total',
+  'due_date',
+  'days_overdue',
+];
+
+export const useReminderTemplates = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['reminder-templates', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<ReminderTemplateData[]> => {
+      const { data, error } = await supabase
+        .from('reminder_templates')
+        .select('reminder_type, subject, body')
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error fetching reminder templates:', error);
+        throw error;
+      }
+
+      return data as ReminderTemplateData[];
+    },
+  });
+};
+
+export const useSaveReminderTemplate = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: ReminderTemplateData) => {
+      if (!user) throw new Error('Not authenticated');
+      if (!template.subject.trim() || !template.body.trim()) {
+        throw new Error('Please fill in both the subject and the message');
+      }
+
+      const { error } = await supabase
+        .from('reminder_templates')
+        .upsert({ user_id: user.id, ...template }, { onConflict: 'user_id,reminder_type' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminder-templates', user?.id] });
+      toast.success('Reminder template saved');
+    },
+    onError: (error: Error) => {
+      console.error('Reminder template save error:', error);
+      toast.error(error.message || 'Failed to save reminder template');
+    },
+  });
+};
+
+// Removing the account's template switches the type back to the built-in wording
+export const useResetReminderTemplate = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (reminderType: ReminderType) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('reminder_templates')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('reminder_type', reminderType);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminder-templates', user?.id] });
+      toast.success('Reminder template reset to the default wording');
+    },
+    onError: (error: Error) => {
+      console.error('Reminder template reset error:', error);
+      toast.error(error.message || 'Failed to reset reminder template');
+    },
+  });
+};
+
+/**
+ * Renders a draft template against a sample invoice. Blank fields use the built-in wording.
+ */
+export const usePreviewReminderEmail = () => {
+  return useMutation({
+    mutationFn: async (template: ReminderTemplateData): Promise<ReminderEmailPreview> => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/preview-reminder-email`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            reminderType: template.reminder_type,
+            subject: template.subject,
+            body: template.body,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to preview reminder');
+      }
+
+      return response.json();
+    },
+    onError: (error: Error) => {
+      console.error('Reminder preview error:', error);
+      toast.error(error.message || 'Failed to preview reminder');
+    },
+  });
+};
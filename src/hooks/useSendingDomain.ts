@@ -0,0 +1,157 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export interface DnsRecord {
+  record: string;
+  type: string;
+  name: string;
+  value: string;
+  priority?: number;
+  status: string;
+}
+
+export interface SendingDomain {
+  domain: string;
+  status: string;
+  dns_records: DnsRecord[];
+  verified_at: string | null;
+}
+
+export interface EmailSenderSettings {
+  email_from_name: string | null;
+  email_reply_to: string | null;
+}
+
+const invokeSendingDomain = async (body: Record<string, unknown>) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sending-domain`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Sending domain request failed');
+  }
+
+  return response.json();
+};
+
+export const useEmailSenderSettings = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['email-sender-settings', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<EmailSenderSettings | null> => {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('email_from_name, email_reply_to')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching email sender settings:', error);
+        throw error;
+      }
+
+      return data;
+    },
+  });
+};
+
+export const useSaveEmailSenderSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (settings: EmailSenderSettings) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert({ user_id: user.id, ...settings }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['email-sender-settings', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['user-settings', user?.id] });
+      toast.success('Email sender saved');
+    },
+    onError: (error: Error) => {
+      console.error('Email sender save error:', error);
+      toast.error(error.message || 'Failed to save email sender');
+    },
+  });
+};
+
+export const useSendingDomain = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['sending-domain', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<SendingDomain | null> => {
+      const { data, error } = await supabase
+        .from('sending_domains')
+        .select('domain, status, dns_records, verified_at')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching sending domain:', error);
+        throw error;
+      }
+
+      return data as unknown as SendingDomain | null;
+    },
+  });
+};
+
+const useSendingDomainAction = (action: 'add' | 'verify' | 'remove', errorMessage: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (domain?: string): Promise<SendingDomain | null> => {
+      const data = await invokeSendingDomain({ action, domain });
+      return data.domain;
+    },
+    onSuccess: (domain) => {
+      queryClient.invalidateQueries({ queryKey: ['sending-domain', user?.id] });
+
+      if (action === 'verify') {
+        if (domain?.status === 'verified') {
+          toast.success('Domain verified. Emails are now sent from your domain.');
+        } else {
+          toast.info('The DNS records are not verified yet. This can take a few hours after publishing them.');
+        }
+      }
+    },
+    onError: (error: Error) => {
+      console.error(`Sending domain ${action} error:`, error);
+      toast.error(error.message || errorMessage);
+    },
+  });
+};
+
+export const useAddSendingDomain = () => useSendingDomainAction('add', 'Failed to add domain');
+
+export const useVerifySendingDomain = () => useSendingDomainAction('verify', 'Failed to verify domain');
+
+export const useRemoveSendingDomain = () => useSendingDomainAction('remove', 'Failed to remove domain');
@@ -0,0 +1,123 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export type ConnectAccountType = 'express' | 'standard';
+
+export interface ConnectAccountData {
+  stripe_account_id: string;
+  account_type: ConnectAccountType;
+  is_verified: boolean | null;
+  charges_enabled: boolean;
+  payouts_enabled: boolean;
+  details_submitted: boolean;
+}
+
+const invokeConnectOnboarding = async (body: Record<string, unknown>) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/stripe-connect-onboarding`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Stripe Connect request failed');
+  }
+
+  return response.json();
+};
+
+export const useConnectAccount = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['connect-account', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<ConnectAccountData | null> => {
+      const { data, error } = await supabase
+        .from('stripe_connect_accounts')
+        .select('stripe_account_id, account_type, is_verified, charges_enabled, payouts_enabled, details_submitted')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching connected account:', error);
+        throw error;
+      }
+
+      return data as ConnectAccountData | null;
+    },
+  });
+};
+
+export const useStartConnectOnboarding = () => {
+  return useMutation({
+    mutationFn: async ({ accountType = 'express' }: { accountType?: ConnectAccountType } = {}) => {
+      const settingsUrl = `${window.location.origin}/dashboard?tab=settings`;
+      const { url } = await invokeConnectOnboarding({
+        action: 'onboard',
+        account_type: accountType,
+        return_url: `${settingsUrl}&connect=return`,
+        refresh_url: `${settingsUrl}&connect=refresh`,
+      });
+      return url as string;
+    },
+    onSuccess: (url: string) => {
+      window.location.href = url;
+    },
+    onError: (error: Error) => {
+      console.error('Connect onboarding error:', error);
+      toast.error(error.message || 'Failed to start Stripe onboarding');
+    },
+  });
+};
+
+export const useRefreshConnectStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => invokeConnectOnboarding({ action: 'status' }),
+    onSuccess: (status: { is_verified: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: ['connect-account'] });
+      if (status.is_verified) {
+        toast.success('Your Stripe account is ready to accept payments');
+      } else {
+        toast.info('Stripe still needs more information before you can accept payments');
+      }
+    },
+    onError: (error: Error) => {
+      console.error('Connect status error:', error);
+      toast.error(error.message || 'Failed to refresh Stripe account status');
+    },
+  });
+};
+
+export const useOpenConnectDashboard = () => {
+  return useMutation({
+    mutationFn: async () => {
+      const { url } = await invokeConnectOnboarding({ action: 'dashboard' });
+      return url as string;
+    },
+    onSuccess: (url: string) => {
+      window.open(url, '_blank');
+    },
+    onError: (error: Error) => {
+      console.error('Connect dashboard error:', error);
+      toast.error(error.message || 'Failed to open Stripe dashboard');
+    },
+  });
+};
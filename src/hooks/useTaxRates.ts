@@ -0,0 +1,114 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { LineItemTax } from '@/lib/lineItems';
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number;
+  is_compound: boolean;
+  is_inclusive: boolean;
+  is_default: boolean;
+}
+
+export type TaxRateDraft = Omit<TaxRate, 'id'> & { id?: string };
+
+/**
+ * The copy of a saved rate that is stored on a line item.
+ */
+export const toLineItemTax = (taxRate: TaxRate): LineItemTax => ({
+  tax_rate_id: taxRate.id,
+  name: taxRate.name,
+  rate: Number(taxRate.rate),
+  compound: taxRate.is_compound,
+  inclusive: taxRate.is_inclusive,
+});
+
+// Compound taxes go last, since they are charged on the taxes before them
+export const sortLineItemTaxes = (taxes: LineItemTax[]) =>
+  [...taxes].sort((a, b) => Number(a.compound) - Number(b.compound));
+
+export const useTaxRates = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['tax-rates', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<TaxRate[]> => {
+      const { data, error } = await supabase
+        .from('tax_rates')
+        .select('id, name, rate, is_compound, is_inclusive, is_default')
+        .eq('user_id', user.id)
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching tax rates:', error);
+        throw error;
+      }
+
+      return data;
+    },
+  });
+};
+
+/**
+ * The taxes new line items start with: the account's default rates.
+ */
+export const useDefaultLineItemTaxes = () => {
+  const { data: taxRates } = useTaxRates();
+  return sortLineItemTaxes((taxRates ?? []).filter((taxRate) => taxRate.is_default).map(toLineItemTax));
+};
+
+export const useSaveTaxRate = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...taxRate }: TaxRateDraft) => {
+      if (!user) throw new Error('Not authenticated');
+      if (!taxRate.name.trim()) throw new Error('Please give the tax rate a name');
+      if (!(Number(taxRate.rate) >= 0 && Number(taxRate.rate) <= 100)) {
+        throw new Error('The rate must be a percentage between 0 and 100');
+      }
+
+      const values = { ...taxRate, name: taxRate.name.trim(), rate: Number(taxRate.rate) };
+      const { error } = id
+        ? await supabase.from('tax_rates').update(values).eq('id', id)
+        : await supabase.from('tax_rates').insert({ user_id: user.id, ...values });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax-rates', user?.id] });
+      toast.success('Tax rate saved');
+    },
+    onError: (error: Error) => {
+      console.error('Tax rate save error:', error);
+      toast.error(error.message || 'Failed to save tax rate');
+    },
+  });
+};
+
+// Documents keep their own copy of the rate, so deleting it doesn't change them
+export const useDeleteTaxRate = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('tax_rates').delete().eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax-rates', user?.id] });
+      toast.success('Tax rate deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Tax rate delete error:', error);
+      toast.error(error.message || 'Failed to delete tax rate');
+    },
+  });
+};
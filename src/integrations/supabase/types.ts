@@ -14,6 +14,45 @@ export type Database = {
   }
   public: {
     Tables: {
+      branding_settings: {
+        Row: {
+          company_name: string | null
+          created_at: string
+          footer_text: string | null
+          id: string
+          logo_path: string | null
+          primary_color: string
+          secondary_color: string
+          tagline: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          company_name?: string | null
+          created_at?: string
+          footer_text?: string | null
+          id?: string
+          logo_path?: string | null
+          primary_color?: string
+          secondary_color?: string
+          tagline?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          company_name?: string | null
+          created_at?: string
+          footer_text?: string | null
+          id?: string
+          logo_path?: string | null
+          primary_color?: string
+          secondary_color?: string
+          tagline?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       clients: {
         Row: {
           address: string | null
@@ -21,6 +60,7 @@ export type Database = {
           created_at: string
           email: string | null
           id: string
+          locale: string | null
           name: string
           notes: string | null
           "s.customer_id": number
@@ -34,6 +74,7 @@ export type Database = {
           created_at?: string
           email?: string | null
           id?: string
+          locale?: string | null
           name: string
           notes?: string | null
           "s.customer_id"?: number
@@ -47,6 +88,7 @@ export type Database = {
           created_at?: string
           email?: string | null
           id?: string
+          locale?: string | null
           name?: string
           notes?: string | null
           "s.customer_id"?: number
@@ -56,6 +98,135 @@ export type Database = {
         }
         Relationships: []
       }
+      credit_note_items: {
+        Row: {
+          amount: number | null
+          created_at: string
+          credit_note_id: string
+          description: string
+          discount_type: string
+          discount_value: number
+          id: string
+          position: number
+          quantity: number
+          taxes: Json
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          credit_note_id: string
+          description: string
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          position?: number
+          quantity?: number
+          taxes?: Json
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          credit_note_id?: string
+          description?: string
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          position?: number
+          quantity?: number
+          taxes?: Json
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_notes: {
+        Row: {
+          base_currency: string
+          client_id: string
+          created_at: string
+          currency: string
+          discount: number
+          discount_type: string
+          discount_value: number
+          exchange_rate: number
+          id: string
+          invoice_id: string
+          issue_date: string
+          number: string
+          reason: string
+          refund_id: string | null
+          subtotal: number
+          tax: number
+          total: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          base_currency?: string
+          client_id: string
+          created_at?: string
+          currency?: string
+          discount?: number
+          discount_type?: string
+          discount_value?: number
+          exchange_rate?: number
+          id?: string
+          invoice_id: string
+          issue_date?: string
+          number?: string
+          reason: string
+          refund_id?: string | null
+          subtotal: number
+          tax?: number
+          total: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          base_currency?: string
+          client_id?: string
+          created_at?: string
+          currency?: string
+          discount?: number
+          discount_type?: string
+          discount_value?: number
+          exchange_rate?: number
+          id?: string
+          invoice_id?: string
+          issue_date?: string
+          number?: string
+          reason?: string
+          refund_id?: string | null
+          subtotal?: number
+          tax?: number
+          total?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customer_users: {
         Row: {
           client_id: string
@@ -92,14 +263,256 @@ export type Database = {
         }
         Relationships: []
       }
+      disputes: {
+        Row: {
+          amount: number
+          created_at: string
+          evidence_due_by: string | null
+          id: string
+          invoice_id: string
+          payment_id: string | null
+          reason: string | null
+          status: string
+          stripe_charge_id: string | null
+          stripe_dispute_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          evidence_due_by?: string | null
+          id?: string
+          invoice_id: string
+          payment_id?: string | null
+          reason?: string | null
+          status: string
+          stripe_charge_id?: string | null
+          stripe_dispute_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          evidence_due_by?: string | null
+          id?: string
+          invoice_id?: string
+          payment_id?: string | null
+          reason?: string | null
+          status?: string
+          stripe_charge_id?: string | null
+          stripe_dispute_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_disputes_invoice"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_disputes_payment"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dunning_policies: {
+        Row: {
+          created_at: string
+          id: string
+          is_enabled: boolean
+          pause_on_partial_payment: boolean
+          stop_on_dispute: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_enabled?: boolean
+          pause_on_partial_payment?: boolean
+          stop_on_dispute?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_enabled?: boolean
+          pause_on_partial_payment?: boolean
+          stop_on_dispute?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      dunning_steps: {
+        Row: {
+          created_at: string
+          days_after_due: number
+          id: string
+          policy_id: string
+          reminder_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          days_after_due: number
+          id?: string
+          policy_id: string
+          reminder_type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          days_after_due?: number
+          id?: string
+          policy_id?: string
+          reminder_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dunning_steps_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "dunning_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_messages: {
+        Row: {
+          attachments: Json
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          html: string
+          id: string
+          invoice_id: string | null
+          last_error: string | null
+          next_attempt_at: string
+          provider: string | null
+          provider_message_id: string | null
+          quote_id: string | null
+          recipient: string
+          reply_to: string | null
+          sender: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          template: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attachments?: Json
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          html: string
+          id?: string
+          invoice_id?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          quote_id?: string | null
+          recipient: string
+          reply_to?: string | null
+          sender?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          template: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attachments?: Json
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          html?: string
+          id?: string
+          invoice_id?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          quote_id?: string | null
+          recipient?: string
+          reply_to?: string | null
+          sender?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          template?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_messages_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_messages_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          currency: string
+          id: string
+          rate: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          id?: string
+          rate: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          id?: string
+          rate?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       expenses: {
         Row: {
           amount: number
+          base_currency: string
           category: string | null
           client_id: string | null
           created_at: string
+          currency: string
           date: string
           description: string
+          exchange_rate: number
           id: string
           invoice_id: string | null
           is_billable: boolean
@@ -110,11 +523,14 @@ export type Database = {
         }
         Insert: {
           amount: number
+          base_currency?: string
           category?: string | null
           client_id?: string | null
           created_at?: string
+          currency?: string
           date?: string
           description: string
+          exchange_rate?: number
           id?: string
           invoice_id?: string | null
           is_billable?: boolean
@@ -125,11 +541,14 @@ export type Database = {
         }
         Update: {
           amount?: number
+          base_currency?: string
           category?: string | null
           client_id?: string | null
           created_at?: string
+          currency?: string
           date?: string
           description?: string
+          exchange_rate?: number
           id?: string
           invoice_id?: string | null
           is_billable?: boolean
@@ -145,32 +564,39 @@ export type Database = {
           amount: number | null
           created_at: string
           description: string
+          discount_type: string
+          discount_value: number
           id: string
           invoice_id: string
           position: number
           quantity: number
+          taxes: Json
           unit_price: number
           updated_at: string
         }
         Insert: {
-          amount?: number | null
           created_at?: string
           description: string
+          discount_type?: string
+          discount_value?: number
           id?: string
           invoice_id: string
           position?: number
           quantity?: number
+          taxes?: Json
           unit_price?: number
           updated_at?: string
         }
         Update: {
-          amount?: number | null
           created_at?: string
           description?: string
+          discount_type?: string
+          discount_value?: number
           id?: string
           invoice_id?: string
           position?: number
           quantity?: number
+          taxes?: Json
           unit_price?: number
           updated_at?: string
         }
@@ -186,89 +612,267 @@ export type Database = {
       }
       invoices: {
         Row: {
+          amount_credited: number
+          amount_paid: number
+          balance_due: number | null
+          base_currency: string
           client_id: string
           created_at: string
+          currency: string
+          discount: number
+          discount_type: string
+          discount_value: number
           due_date: string | null
+          exchange_rate: number
           id: string
           issue_date: string
           notes: string | null
           number: string
+          recurring_invoice_id: string | null
+          recurring_period: string | null
+          reissued_from_id: string | null
+          send_claimed_at: string | null
           status: Database["public"]["Enums"]["invoice_status"]
           subtotal: number
           tax: number
           total: number
           updated_at: string
           user_id: string
+          view_token: string
+          void_reason: string | null
+          voided_at: string | null
         }
         Insert: {
+          amount_credited?: number
+          amount_paid?: number
+          base_currency?: string
           client_id: string
           created_at?: string
+          currency?: string
+          discount?: number
+          discount_type?: string
+          discount_value?: number
           due_date?: string | null
+          exchange_rate?: number
           id?: string
           issue_date?: string
           notes?: string | null
-          number: string
+          number?: string
+          recurring_invoice_id?: string | null
+          recurring_period?: string | null
+          reissued_from_id?: string | null
+          send_claimed_at?: string | null
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          tax?: number
+          total?: number
+          updated_at?: string
+          user_id: string
+          view_token?: string
+          void_reason?: string | null
+          voided_at?: string | null
+        }
+        Update: {
+          amount_credited?: number
+          amount_paid?: number
+          base_currency?: string
+          client_id?: string
+          created_at?: string
+          currency?: string
+          discount?: number
+          discount_type?: string
+          discount_value?: number
+          due_date?: string | null
+          exchange_rate?: number
+          id?: string
+          issue_date?: string
+          notes?: string | null
+          number?: string
+          recurring_invoice_id?: string | null
+          recurring_period?: string | null
+          reissued_from_id?: string | null
+          send_claimed_at?: string | null
           status?: Database["public"]["Enums"]["invoice_status"]
           subtotal?: number
           tax?: number
           total?: number
           updated_at?: string
+          user_id?: string
+          view_token?: string
+          void_reason?: string | null
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_reissued_from_id_fkey"
+            columns: ["reissued_from_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      numbering_counters: {
+        Row: {
+          document_type: string
+          last_value: number
+          period: number
+          user_id: string
+        }
+        Insert: {
+          document_type: string
+          last_value?: number
+          period: number
+          user_id: string
+        }
+        Update: {
+          document_type?: string
+          last_value?: number
+          period?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      numbering_schemes: {
+        Row: {
+          created_at: string
+          document_type: string
+          id: string
+          include_year: boolean
+          padding: number
+          prefix: string
+          reset_yearly: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_type: string
+          id?: string
+          include_year?: boolean
+          padding?: number
+          prefix?: string
+          reset_yearly?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          document_type?: string
+          id?: string
+          include_year?: boolean
+          padding?: number
+          prefix?: string
+          reset_yearly?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      payment_reminders: {
+        Row: {
+          created_at: string
+          days_overdue: number
+          dunning_step_id: string | null
+          id: string
+          invoice_id: string
+          reminder_type: string
+          sent_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          days_overdue?: number
+          dunning_step_id?: string | null
+          id?: string
+          invoice_id: string
+          reminder_type: string
+          sent_at?: string | null
           user_id: string
         }
         Update: {
-          client_id?: string
           created_at?: string
-          due_date?: string | null
+          days_overdue?: number
+          dunning_step_id?: string | null
           id?: string
-          issue_date?: string
-          notes?: string | null
-          number?: string
-          status?: Database["public"]["Enums"]["invoice_status"]
-          subtotal?: number
-          tax?: number
-          total?: number
-          updated_at?: string
+          invoice_id?: string
+          reminder_type?: string
+          sent_at?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "invoices_client_id_fkey"
-            columns: ["client_id"]
+            foreignKeyName: "payment_reminders_dunning_step_id_fkey"
+            columns: ["dunning_step_id"]
             isOneToOne: false
-            referencedRelation: "clients"
+            referencedRelation: "dunning_steps"
             referencedColumns: ["id"]
           },
         ]
       }
-      payment_reminders: {
+      payments: {
         Row: {
+          amount: number
           created_at: string
-          days_overdue: number
           id: string
           invoice_id: string
-          reminder_type: string
-          sent_at: string | null
+          method: string
+          payment_date: string
+          reference: string | null
+          stripe_charge_id: string | null
+          stripe_payment_intent_id: string | null
+          updated_at: string
           user_id: string
         }
         Insert: {
+          amount: number
           created_at?: string
-          days_overdue?: number
           id?: string
           invoice_id: string
-          reminder_type: string
-          sent_at?: string | null
+          method?: string
+          payment_date?: string
+          reference?: string | null
+          stripe_charge_id?: string | null
+          stripe_payment_intent_id?: string | null
+          updated_at?: string
           user_id: string
         }
         Update: {
+          amount?: number
           created_at?: string
-          days_overdue?: number
           id?: string
           invoice_id?: string
-          reminder_type?: string
-          sent_at?: string | null
+          method?: string
+          payment_date?: string
+          reference?: string | null
+          stripe_charge_id?: string | null
+          stripe_payment_intent_id?: string | null
+          updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "fk_payments_invoice"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -332,32 +936,39 @@ export type Database = {
           amount: number | null
           created_at: string
           description: string
+          discount_type: string
+          discount_value: number
           id: string
           position: number
           quantity: number
           quote_id: string
+          taxes: Json
           unit_price: number
           updated_at: string
         }
         Insert: {
-          amount?: number | null
           created_at?: string
           description: string
+          discount_type?: string
+          discount_value?: number
           id?: string
           position?: number
           quantity?: number
           quote_id: string
+          taxes?: Json
           unit_price?: number
           updated_at?: string
         }
         Update: {
-          amount?: number | null
           created_at?: string
           description?: string
+          discount_type?: string
+          discount_value?: number
           id?: string
           position?: number
           quantity?: number
           quote_id?: string
+          taxes?: Json
           unit_price?: number
           updated_at?: string
         }
@@ -365,8 +976,14 @@ export type Database = {
       }
       quotes: {
         Row: {
+          base_currency: string
           client_id: string
           created_at: string
+          currency: string
+          discount: number
+          discount_type: string
+          discount_value: number
+          exchange_rate: number
           expiry_date: string | null
           id: string
           issue_date: string
@@ -380,13 +997,19 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          base_currency?: string
           client_id: string
           created_at?: string
+          currency?: string
+          discount?: number
+          discount_type?: string
+          discount_value?: number
+          exchange_rate?: number
           expiry_date?: string | null
           id?: string
           issue_date?: string
           notes?: string | null
-          quote_number: string
+          quote_number?: string
           status?: string
           subtotal?: number
           tax?: number
@@ -395,8 +1018,14 @@ export type Database = {
           user_id: string
         }
         Update: {
+          base_currency?: string
           client_id?: string
           created_at?: string
+          currency?: string
+          discount?: number
+          discount_type?: string
+          discount_value?: number
+          exchange_rate?: number
           expiry_date?: string | null
           id?: string
           issue_date?: string
@@ -416,32 +1045,39 @@ export type Database = {
           amount: number | null
           created_at: string
           description: string
+          discount_type: string
+          discount_value: number
           id: string
           position: number
           quantity: number
           recurring_invoice_id: string
+          taxes: Json
           unit_price: number
           updated_at: string
         }
         Insert: {
-          amount?: number | null
           created_at?: string
           description: string
+          discount_type?: string
+          discount_value?: number
           id?: string
           position?: number
           quantity?: number
           recurring_invoice_id: string
+          taxes?: Json
           unit_price?: number
           updated_at?: string
         }
         Update: {
-          amount?: number | null
           created_at?: string
           description?: string
+          discount_type?: string
+          discount_value?: number
           id?: string
           position?: number
           quantity?: number
           recurring_invoice_id?: string
+          taxes?: Json
           unit_price?: number
           updated_at?: string
         }
@@ -457,14 +1093,23 @@ export type Database = {
       }
       recurring_invoices: {
         Row: {
+          anchor_day: number
+          auto_send: boolean
+          base_currency: string
           client_id: string
           created_at: string
+          currency: string
+          discount: number
+          discount_type: string
+          discount_value: number
+          exchange_rate: number
           frequency: Database["public"]["Enums"]["recurring_frequency"]
           id: string
           is_active: boolean
           last_generated_date: string | null
           next_due_date: string
           notes: string | null
+          payment_terms_days: number
           subtotal: number
           tax: number
           template_number: string
@@ -473,14 +1118,23 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          anchor_day?: number
+          auto_send?: boolean
+          base_currency?: string
           client_id: string
           created_at?: string
+          currency?: string
+          discount?: number
+          discount_type?: string
+          discount_value?: number
+          exchange_rate?: number
           frequency?: Database["public"]["Enums"]["recurring_frequency"]
           id?: string
           is_active?: boolean
           last_generated_date?: string | null
           next_due_date: string
           notes?: string | null
+          payment_terms_days?: number
           subtotal?: number
           tax?: number
           template_number: string
@@ -489,14 +1143,23 @@ export type Database = {
           user_id: string
         }
         Update: {
+          anchor_day?: number
+          auto_send?: boolean
+          base_currency?: string
           client_id?: string
           created_at?: string
+          currency?: string
+          discount?: number
+          discount_type?: string
+          discount_value?: number
+          exchange_rate?: number
           frequency?: Database["public"]["Enums"]["recurring_frequency"]
           id?: string
           is_active?: boolean
           last_generated_date?: string | null
           next_due_date?: string
           notes?: string | null
+          payment_terms_days?: number
           subtotal?: number
           tax?: number
           template_number?: string
@@ -514,29 +1177,167 @@ export type Database = {
           },
         ]
       }
+      refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          invoice_id: string
+          payment_id: string | null
+          reason: string | null
+          status: string
+          stripe_charge_id: string | null
+          stripe_refund_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          invoice_id: string
+          payment_id?: string | null
+          reason?: string | null
+          status?: string
+          stripe_charge_id?: string | null
+          stripe_refund_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          payment_id?: string | null
+          reason?: string | null
+          status?: string
+          stripe_charge_id?: string | null
+          stripe_refund_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_refunds_invoice"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_refunds_payment"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reminder_templates: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          reminder_type: string
+          subject: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          reminder_type: string
+          subject: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          reminder_type?: string
+          subject?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sending_domains: {
+        Row: {
+          created_at: string
+          dns_records: Json
+          domain: string
+          id: string
+          provider: string
+          provider_domain_id: string
+          status: string
+          updated_at: string
+          user_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          dns_records?: Json
+          domain: string
+          id?: string
+          provider: string
+          provider_domain_id: string
+          status?: string
+          updated_at?: string
+          user_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          dns_records?: Json
+          domain?: string
+          id?: string
+          provider?: string
+          provider_domain_id?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
       stripe_connect_accounts: {
         Row: {
+          account_type: string
+          charges_enabled: boolean
           created_at: string | null
+          details_submitted: boolean
           id: string
           is_verified: boolean | null
+          payouts_enabled: boolean
           stripe_account_id: string
           stripe_publishable_key: string | null
           updated_at: string | null
           user_id: string | null
         }
         Insert: {
+          account_type?: string
+          charges_enabled?: boolean
           created_at?: string | null
+          details_submitted?: boolean
           id?: string
           is_verified?: boolean | null
+          payouts_enabled?: boolean
           stripe_account_id: string
           stripe_publishable_key?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
         Update: {
+          account_type?: string
+          charges_enabled?: boolean
           created_at?: string | null
+          details_submitted?: boolean
           id?: string
           is_verified?: boolean | null
+          payouts_enabled?: boolean
           stripe_account_id?: string
           stripe_publishable_key?: string | null
           updated_at?: string | null
@@ -705,6 +1506,27 @@ export type Database = {
         }
         Relationships: []
       }
+      stripe_webhook_events: {
+        Row: {
+          account_id: string | null
+          id: string
+          processed_at: string
+          type: string
+        }
+        Insert: {
+          account_id?: string | null
+          id: string
+          processed_at?: string
+          type: string
+        }
+        Update: {
+          account_id?: string | null
+          id?: string
+          processed_at?: string
+          type?: string
+        }
+        Relationships: []
+      }
       subscription_plans: {
         Row: {
           created_at: string
@@ -789,6 +1611,42 @@ export type Database = {
         }
         Relationships: []
       }
+      tax_rates: {
+        Row: {
+          created_at: string
+          id: string
+          is_compound: boolean
+          is_default: boolean
+          is_inclusive: boolean
+          name: string
+          rate: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_compound?: boolean
+          is_default?: boolean
+          is_inclusive?: boolean
+          name: string
+          rate: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_compound?: boolean
+          is_default?: boolean
+          is_inclusive?: boolean
+          name?: string
+          rate?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       time_entries: {
         Row: {
           client_id: string | null
@@ -818,7 +1676,6 @@ export type Database = {
           is_billable?: boolean
           is_invoiced?: boolean
           project_name?: string | null
-          total_amount?: number | null
           updated_at?: string
           user_id: string
         }
@@ -834,7 +1691,6 @@ export type Database = {
           is_billable?: boolean
           is_invoiced?: boolean
           project_name?: string | null
-          total_amount?: number | null
           updated_at?: string
           user_id?: string
         }
@@ -847,6 +1703,9 @@ export type Database = {
           created_at: string
           currency: string
           display_name: string | null
+          email_from_name: string | null
+          email_reply_to: string | null
+          locale: string
           updated_at: string
           user_id: string
         }
@@ -856,6 +1715,9 @@ export type Database = {
           created_at?: string
           currency?: string
           display_name?: string | null
+          email_from_name?: string | null
+          email_reply_to?: string | null
+          locale?: string
           updated_at?: string
           user_id: string
         }
@@ -865,6 +1727,9 @@ export type Database = {
           created_at?: string
           currency?: string
           display_name?: string | null
+          email_from_name?: string | null
+          email_reply_to?: string | null
+          locale?: string
           updated_at?: string
           user_id?: string
         }
@@ -925,10 +1790,142 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      claim_email_messages: {
+        Args: { p_limit?: number }
+        Returns: {
+          attachments: Json
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          html: string
+          id: string
+          invoice_id: string | null
+          last_error: string | null
+          next_attempt_at: string
+          provider: string | null
+          provider_message_id: string | null
+          quote_id: string | null
+          recipient: string
+          reply_to: string | null
+          sender: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          template: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
       convert_quote_to_invoice: {
         Args: { quote_id: string }
         Returns: string
       }
+      create_credit_note: {
+        Args: {
+          p_discount_type?: string
+          p_discount_value?: number
+          p_invoice_id: string
+          p_items: Json
+          p_reason: string
+        }
+        Returns: string
+      }
+      create_invoice: {
+        Args: {
+          p_client_id: string
+          p_currency?: string
+          p_discount_type?: string
+          p_discount_value?: number
+          p_due_date?: string
+          p_items: Json
+          p_notes?: string
+          p_status?: Database["public"]["Enums"]["invoice_status"]
+        }
+        Returns: string
+      }
+      create_quote: {
+        Args: {
+          p_client_id: string
+          p_currency?: string
+          p_discount_type?: string
+          p_discount_value?: number
+          p_expiry_date?: string
+          p_items: Json
+          p_notes?: string
+        }
+        Returns: string
+      }
+      currency_exponent: {
+        Args: { p_currency: string }
+        Returns: number
+      }
+      discount_amount: {
+        Args: {
+          p_amount: number
+          p_discount_type: string
+          p_discount_value: number
+        }
+        Returns: number
+      }
+      document_lines: {
+        Args: { p_items: Json }
+        Returns: {
+          description: string
+          discount_type: string
+          discount_value: number
+          position: number
+          quantity: number
+          taxes: Json
+          unit_price: number
+        }[]
+      }
+      document_number_taken: {
+        Args: { p_document_type: string; p_number: string; p_user_id: string }
+        Returns: boolean
+      }
+      document_totals: {
+        Args: {
+          p_discount_type: string
+          p_discount_value: number
+          p_items: Json
+        }
+        Returns: {
+          discount: number
+          subtotal: number
+          tax: number
+          total: number
+        }[]
+      }
+      due_dunning_reminders: {
+        Args: { p_as_of?: string; p_user_id?: string }
+        Returns: {
+          days_overdue: number
+          invoice_id: string
+          reminder_type: string
+          step_id: string
+          user_id: string
+        }[]
+      }
+      from_minor_units: {
+        Args: { p_amount: number; p_currency: string }
+        Returns: number
+      }
+      generate_due_recurring_invoices: {
+        Args: { p_as_of?: string }
+        Returns: {
+          error: string
+          generated_invoice_id: string
+          template_id: string
+        }[]
+      }
+      generate_recurring_invoice: {
+        Args: { p_recurring_invoice_id: string }
+        Returns: string
+      }
+      generate_recurring_invoice_period: {
+        Args: { p_template: Database["public"]["Tables"]["recurring_invoices"]["Row"] }
+        Returns: string
+      }
       get_user_id_from_stripe_customer: {
         Args: { stripe_customer_id: string }
         Returns: string
@@ -958,10 +1955,50 @@ export type Database = {
         Args: { uid: string }
         Returns: boolean
       }
+      line_net_amount: {
+        Args: { p_amount: number; p_taxes: Json }
+        Returns: number
+      }
+      line_tax_amounts: {
+        Args: { p_amount: number; p_taxes: Json }
+        Returns: {
+          amount: number
+          name: string
+          rate: number
+        }[]
+      }
       link_stripe_order_to_user: {
         Args: { p_checkout_session_id: string; p_user_id: string }
         Returns: boolean
       }
+      mark_overdue_invoices: {
+        Args: { p_user_id?: string }
+        Returns: number
+      }
+      next_document_number: {
+        Args: { p_document_type: string; p_user_id: string }
+        Returns: string
+      }
+      preview_document_number: {
+        Args: { p_document_type: string }
+        Returns: string
+      }
+      recurring_next_date: {
+        Args: {
+          p_anchor_day: number
+          p_date: string
+          p_frequency: Database["public"]["Enums"]["recurring_frequency"]
+        }
+        Returns: string
+      }
+      refresh_invoice_balance: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
+      reissue_invoice: {
+        Args: { p_invoice_id: string; p_reason: string }
+        Returns: string
+      }
       save_stripe_customer: {
         Args: { p_email: string; p_stripe_customer_id: string }
         Returns: {
@@ -999,13 +2036,50 @@ export type Database = {
           updated_at: string
         }
       }
+      to_minor_units: {
+        Args: { p_amount: number; p_currency: string }
+        Returns: number
+      }
+      update_invoice: {
+        Args: {
+          p_client_id: string
+          p_currency: string
+          p_discount_type?: string
+          p_discount_value?: number
+          p_due_date?: string
+          p_invoice_id: string
+          p_items: Json
+          p_notes?: string
+        }
+        Returns: undefined
+      }
+      update_quote: {
+        Args: {
+          p_client_id: string
+          p_currency: string
+          p_discount_type?: string
+          p_discount_value?: number
+          p_expiry_date?: string
+          p_items: Json
+          p_notes?: string
+          p_quote_id: string
+        }
+        Returns: undefined
+      }
       verify_stripe_subscriptions_table: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
     }
     Enums: {
-      invoice_status: "draft" | "sent" | "paid" | "overdue" | "void"
+      invoice_status:
+        | "draft"
+        | "sent"
+        | "partially_paid"
+        | "paid"
+        | "overdue"
+        | "credited"
+        | "void"
       recurring_frequency: "weekly" | "monthly" | "quarterly" | "annually"
       stripe_subscription_status:
         | "not_started"
@@ -1145,7 +2219,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      invoice_status: ["draft", "sent", "paid", "overdue", "void"],
+      invoice_status: [
+        "draft",
+        "sent",
+        "partially_paid",
+        "paid",
+        "overdue",
+        "credited",
+        "void",
+      ],
       recurring_frequency: ["weekly", "monthly", "quarterly", "annually"],
       stripe_subscription_status: [
         "not_started",
@@ -0,0 +1,69 @@
+import { DEFAULT_LOCALE, currencyExponent, formatMoney, fromMinorUnits, toMinorUnits } from '@shared/formatting';
+
+// Currencies an account can bill, spend and report in
+export const CURRENCIES = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'NZD', name: 'New Zealand Dollar' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'SEK', name: 'Swedish Krona' },
+  { code: 'NOK', name: 'Norwegian Krone' },
+  { code: 'DKK', name: 'Danish Krone' },
+  { code: 'PLN', name: 'Polish Zloty' },
+  { code: 'INR', name: 'Indian Rupee' },
+  { code: 'SGD', name: 'Singapore Dollar' },
+  { code: 'HKD', name: 'Hong Kong Dollar' },
+  { code: 'ZAR', name: 'South African Rand' },
+  { code: 'BRL', name: 'Brazilian Real' },
+  { code: 'MXN', name: 'Mexican Peso' },
+];
+
+// What user_settings.currency falls back to, like the database
+export const DEFAULT_CURRENCY = 'USD';
+
+// Step of amount inputs, e.g. 0.01 for EUR and 1 for JPY
+export const amountStep = (currency = DEFAULT_CURRENCY) => String(10 ** -currencyExponent(currency));
+
+/**
+ * An amount in minor units of a document, in minor units of the account's base currency, at
+ * the rate saved on the document when it was created. Documents from before the base currency
+ * was changed are converted once more, at today's rate of their base currency.
+ */
+export const toBaseCurrency = (
+  amount: number | string | null | undefined,
+  document: { currency: string; exchange_rate: number | string | null; base_currency: string },
+  baseCurrency: string,
+  exchangeRates: { currency: string; rate: number }[] = [],
+) => {
+  const rebaseRate =
+    document.base_currency === baseCurrency
+      ? 1
+      : exchangeRates.find((exchangeRate) => exchangeRate.currency === document.base_currency)?.rate;
+
+  return toMinorUnits(
+    fromMinorUnits(amount, document.currency) * (Number(document.exchange_rate) || 1) * (Number(rebaseRate) || 1),
+    baseCurrency,
+  );
+};
+
+/**
+ * A sum of amounts that may be in different currencies, as e.g. "€120.00 + $40.00", for
+ * places without a base currency to convert to, like the customer portal.
+ */
+export const formatMoneyByCurrency = (
+  amounts: { amount: number | string | null; currency: string }[],
+  locale = DEFAULT_LOCALE,
+) => {
+  const totals = new Map<string, number>();
+  for (const { amount, currency } of amounts) {
+    totals.set(currency, (totals.get(currency) ?? 0) + (Number(amount) || 0));
+  }
+
+  return totals.size > 0
+    ? [...totals].map(([currency, total]) => formatMoney(total, currency, locale)).join(' + ')
+    : formatMoney(0, DEFAULT_CURRENCY, locale);
+};
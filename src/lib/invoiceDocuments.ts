@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type InvoiceDocumentFormat = 'pdf' | 'html';
+
+/**
+ * Fetches a rendered invoice from the generate-invoice-pdf function. This calls the
+ * function directly because supabase.functions.invoke decodes PDF responses as text.
+ */
+export const fetchInvoiceDocument = async (invoiceId: string, format: InvoiceDocumentFormat = 'pdf') => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-invoice-pdf`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ invoiceId, format }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || 'Failed to generate invoice');
+  }
+
+  return response.blob();
+};
+
+export const downloadInvoicePdf = async (invoiceId: string, invoiceNumber: string) => {
+  const blob = await fetchInvoiceDocument(invoiceId, 'pdf');
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `invoice-${invoiceNumber}.pdf`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const previewInvoiceHtml = async (invoiceId: string) => {
+  const blob = await fetchInvoiceDocument(invoiceId, 'html');
+  const url = URL.createObjectURL(new Blob([blob], { type: 'text/html' }));
+  window.open(url, '_blank');
+};
+
+/**
+ * Downloads a credit note from the generate-credit-note-pdf function, named like the
+ * function's content-disposition header.
+ */
+export const downloadCreditNotePdf = async (creditNoteId: string) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-credit-note-pdf`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ creditNoteId, format: 'pdf' }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || 'Failed to generate credit note');
+  }
+
+  const filename = response.headers.get('content-disposition')?.match(/filename="(.+)"/)?.[1] ?? 'credit-note.pdf';
+  const url = URL.createObjectURL(await response.blob());
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Fetches an invoice through its "view online" link. No session is needed; the token
+ * from the link is checked by the view-invoice function.
+ */
+export const fetchSharedInvoiceDocument = async (token: string, format: InvoiceDocumentFormat = 'html') => {
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/view-invoice`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+      },
+      body: JSON.stringify({ token, format }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || 'Failed to load invoice');
+  }
+
+  return response;
+};
+
+export const downloadSharedInvoicePdf = async (token: string) => {
+  const response = await fetchSharedInvoiceDocument(token, 'pdf');
+  const filename = response.headers.get('content-disposition')?.match(/filename="(.+)"/)?.[1] ?? 'invoice.pdf';
+  const url = URL.createObjectURL(await response.blob());
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import { type LineItemTax, lineItemDraftTotals, lineItemTotals } from './lineItems';
+
+const tax = (name: string, rate: number, options: Partial<LineItemTax> = {}): LineItemTax => ({
+  tax_rate_id: null,
+  name,
+  rate,
+  compound: false,
+  inclusive: false,
+  ...options,
+});
+
+// Expected values are worked out the way public.document_totals computes them
+describe('lineItemTotals', () => {
+  it('adds up lines without taxes or discounts', () => {
+    expect(lineItemTotals([{ quantity: 2, unit_price: 1050 }, { quantity: 1, unit_price: 400 }])).toEqual({
+      subtotal: 2500,
+      discount: 0,
+      taxes: [],
+      taxAmount: 0,
+      total: 2500,
+    });
+  });
+
+  it('is all zeros without lines', () => {
+    expect(lineItemTotals([])).toEqual({ subtotal: 0, discount: 0, taxes: [], taxAmount: 0, total: 0 });
+  });
+
+  it('adds exclusive taxes on top', () => {
+    expect(lineItemTotals([{ quantity: 1, unit_price: 10000, taxes: [tax('VAT', 20)] }])).toEqual({
+      subtotal: 10000,
+      discount: 0,
+      taxes: [{ name: 'VAT', rate: 20, amount: 2000 }],
+      taxAmount: 2000,
+      total: 12000,
+    });
+  });
+
+  it('rounds tax once per rate rather than per line', () => {
+    // 3 × 33.3 is 99.9, where rounding each line would give 99
+    const items = [1, 2, 3].map(() => ({ quantity: 1, unit_price: 333, taxes: [tax('VAT', 10)] }));
+
+    expect(lineItemTotals(items)).toMatchObject({ subtotal: 999, taxes: [{ name: 'VAT', rate: 10, amount: 100 }], total: 1099 });
+  });
+
+  it('rounds half a minor unit up, like round() on numeric', () => {
+    expect(lineItemTotals([{ quantity: 1, unit_price: 105, taxes: [tax('VAT', 10)] }])).toMatchObject({
+      taxAmount: 11,
+      total: 116,
+    });
+  });
+
+  it('keeps taxes with the same name and a different rate apart', () => {
+    const totals = lineItemTotals([
+      { quantity: 1, unit_price: 1000, taxes: [tax('VAT', 20)] },
+      { quantity: 1, unit_price: 1000, taxes: [tax('VAT', 5)] },
+      { quantity: 1, unit_price: 1000, taxes: [tax('VAT', 20)] },
+    ]);
+
+    expect(totals.taxes).toEqual([
+      { name: 'VAT', rate: 20, amount: 400 },
+      { name: 'VAT', rate: 5, amount: 50 },
+    ]);
+    expect(totals.total).toBe(3450);
+  });
+
+  describe('discounts', () => {
+    it('takes percentage line discounts off before tax', () => {
+      expect(
+        lineItemTotals([{ quantity: 4, unit_price: 2500, discount_type: 'percent', discount_value: 10, taxes: [tax('VAT', 20)] }]),
+      ).toEqual({
+        subtotal: 10000,
+        discount: 1000,
+        taxes: [{ name: 'VAT', rate: 20, amount: 1800 }],
+        taxAmount: 1800,
+        total: 10800,
+      });
+    });
+
+    it('takes fixed line discounts off in minor units', () => {
+      expect(lineItemTotals([{ quantity: 2, unit_price: 1500, discount_type: 'fixed', discount_value: 250 }])).toMatchObject({
+        subtotal: 3000,
+        discount: 250,
+        total: 2750,
+      });
+    });
+
+    it('shares a fixed document discount between the lines in proportion to their amounts', () => {
+      const items = [
+        { quantity: 1, unit_price: 6000, taxes: [tax('VAT', 20)] },
+        { quantity: 1, unit_price: 4000 },
+      ];
+
+      // The taxed line takes 600 of the 1000, so its tax is charged on 5400
+      expect(lineItemTotals(items, { discount_type: 'fixed', discount_value: 1000 })).toEqual({
+        subtotal: 10000,
+        discount: 1000,
+        taxes: [{ name: 'VAT', rate: 20, amount: 1080 }],
+        taxAmount: 1080,
+        total: 10080,
+      });
+    });
+
+    it('shares a percentage document discount the same way', () => {
+      const items = [
+        { quantity: 1, unit_price: 6000, taxes: [tax('VAT', 20)] },
+        { quantity: 1, unit_price: 4000 },
+      ];
+
+      expect(lineItemTotals(items, { discount_type: 'percent', discount_value: 10 })).toEqual(
+        lineItemTotals(items, { discount_type: 'fixed', discount_value: 1000 }),
+      );
+    });
+
+    it('applies the document discount after line discounts', () => {
+      const items = [{ quantity: 1, unit_price: 10000, discount_type: 'percent' as const, discount_value: 10 }];
+
+      expect(lineItemTotals(items, { discount_type: 'percent', discount_value: 10 })).toMatchObject({
+        subtotal: 10000,
+        discount: 1900,
+        total: 8100,
+      });
+    });
+
+    it('never takes off more than the amount', () => {
+      const items = [{ quantity: 1, unit_price: 10000 }];
+
+      expect(lineItemTotals(items, { discount_type: 'fixed', discount_value: 50000 })).toMatchObject({ discount: 10000, total: 0 });
+      expect(lineItemTotals(items, { discount_type: 'percent', discount_value: 150 })).toMatchObject({ discount: 10000, total: 0 });
+    });
+
+    it('ignores negative discounts', () => {
+      expect(lineItemTotals([{ quantity: 1, unit_price: 10000 }], { discount_type: 'fixed', discount_value: -500 })).toMatchObject({
+        discount: 0,
+        total: 10000,
+      });
+    });
+  });
+
+  describe('inclusive and compound taxes', () => {
+    it('takes inclusive taxes out of the price', () => {
+      expect(lineItemTotals([{ quantity: 1, unit_price: 12000, taxes: [tax('VAT', 20, { inclusive: true })] }])).toEqual({
+        subtotal: 10000,
+        discount: 0,
+        taxes: [{ name: 'VAT', rate: 20, amount: 2000 }],
+        taxAmount: 2000,
+        total: 12000,
+      });
+    });
+
+    it('charges compound taxes on the amount plus the taxes before them', () => {
+      // QST is 9.975% of 10500
+      const totals = lineItemTotals([
+        { quantity: 1, unit_price: 10000, taxes: [tax('QST', 9.975, { compound: true }), tax('GST', 5)] },
+      ]);
+
+      expect(totals).toEqual({
+        subtotal: 10000,
+        discount: 0,
+        taxes: [
+          { name: 'GST', rate: 5, amount: 500 },
+          { name: 'QST', rate: 9.975, amount: 1047 },
+        ],
+        taxAmount: 1547,
+        total: 11547,
+      });
+    });
+
+    it('takes inclusive compound taxes out of the price too', () => {
+      // 11550 / (1.05 × 1.10) is 10000
+      const totals = lineItemTotals([
+        {
+          quantity: 1,
+          unit_price: 11550,
+          taxes: [tax('GST', 5, { inclusive: true }), tax('PST', 10, { compound: true, inclusive: true })],
+        },
+      ]);
+
+      expect(totals).toEqual({
+        subtotal: 10000,
+        discount: 0,
+        taxes: [
+          { name: 'GST', rate: 5, amount: 500 },
+          { name: 'PST', rate: 10, amount: 1050 },
+        ],
+        taxAmount: 1550,
+        total: 11550,
+      });
+    });
+
+    it('discounts inclusive prices before taking the tax out', () => {
+      expect(
+        lineItemTotals([{ quantity: 1, unit_price: 12000, taxes: [tax('VAT', 20, { inclusive: true })] }], {
+          discount_type: 'fixed',
+          discount_value: 1200,
+        }),
+      ).toEqual({
+        subtotal: 10000,
+        discount: 1000,
+        taxes: [{ name: 'VAT', rate: 20, amount: 1800 }],
+        taxAmount: 1800,
+        total: 10800,
+      });
+    });
+  });
+});
+
+describe('lineItemDraftTotals', () => {
+  it('reads draft amounts in major units of the currency', () => {
+    const items = [{ description: 'Design', quantity: '2', unit_price: '12.50' }];
+
+    expect(lineItemDraftTotals(items, { discount_type: 'fixed', discount_value: '5' }, 'EUR')).toMatchObject({
+      subtotal: 2500,
+      discount: 500,
+      total: 2000,
+    });
+    expect(lineItemDraftTotals([{ description: 'Design', quantity: '2', unit_price: '1250' }], {}, 'JPY')).toMatchObject({
+      subtotal: 2500,
+      total: 2500,
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import type { Json } from '@/integrations/supabase/types';
+import { fromMinorUnits, toMinorUnits } from '@shared/formatting';
+
+// A tax applied to a line item. Lines keep a copy of the saved rate, so editing the
+// rate later doesn't change documents that used it. A type rather than an interface so
+// that it can be saved as JSON.
+export type LineItemTax = {
+  tax_rate_id: string | null;
+  name: string;
+  // Percentage
+  rate: number;
+  // Charged on the line amount plus the taxes before it
+  compound: boolean;
+  // Already included in the line's price
+  inclusive: boolean;
+};
+
+// A discount taken off before tax: a percentage, or a fixed amount in minor units
+export type DiscountType = 'percent' | 'fixed';
+
+export interface Discount {
+  discount_type: DiscountType;
+  discount_value: number | string;
+}
+
+// Unit prices are in minor units, like fixed discounts
+export interface LineItemAmounts {
+  quantity: number | string;
+  unit_price: number | string;
+  taxes?: LineItemTax[];
+  discount_type?: DiscountType;
+  discount_value?: number | string;
+}
+
+export interface TaxAmount {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export const noDiscount: Discount = { discount_type: 'percent', discount_value: 0 };
+
+/**
+ * The amount a discount takes off, unrounded, like public.discount_amount. Fixed
+ * discounts never take off more than the amount.
+ */
+export const discountAmount = (amount: number, discount: Partial<Discount>) => {
+  const value = Number(discount.discount_value) || 0;
+  if (value <= 0 || amount <= 0) return 0;
+  return discount.discount_type === 'fixed' ? Math.min(value, amount) : (amount * Math.min(value, 100)) / 100;
+};
+
+// Quantity times unit price, less the line's own discount
+export const lineItemAmount = (item: LineItemAmounts) => {
+  const amount = (Number(item.quantity) || 0) * (Number(item.unit_price) || 0);
+  return amount - discountAmount(amount, item);
+};
+
+/**
+ * Splits a line amount into its net amount and the tax charged for each of its taxes,
+ * the same way public.line_tax_amounts does. Amounts are unrounded.
+ */
+export const lineTaxes = (amount: number, lineTaxList: LineItemTax[] = []): { net: number; taxes: TaxAmount[] } => {
+  const simple = lineTaxList.filter((tax) => !tax.compound);
+  const compound = lineTaxList.filter((tax) => tax.compound);
+
+  // Inclusive taxes are part of the amount, so they are taken out to get the net amount
+  const inclusiveFactor = compound
+    .filter((tax) => tax.inclusive)
+    .reduce(
+      (factor, tax) => factor * (1 + tax.rate / 100),
+      1 + simple.filter((tax) => tax.inclusive).reduce((sum, tax) => sum + tax.rate, 0) / 100
+    );
+  const net = amount / inclusiveFactor;
+
+  const taxes: TaxAmount[] = simple.map((tax) => ({ name: tax.name, rate: tax.rate, amount: (net * tax.rate) / 100 }));
+  let running = net + taxes.reduce((sum, tax) => sum + tax.amount, 0);
+
+  for (const tax of compound) {
+    const taxAmount = (running * tax.rate) / 100;
+    taxes.push({ name: tax.name, rate: tax.rate, amount: taxAmount });
+    running += taxAmount;
+  }
+
+  return { net, taxes };
+};
+
+/**
+ * Subtotal (net of tax, before discounts), discount, tax per rate and total of a set of
+ * line items, in whole minor units, like public.document_totals. Discounts come off
+ * before tax; the document discount is shared between the lines in proportion to their
+ * discounted amounts. The database computes the totals that are saved; this previews them.
+ */
+export const lineItemTotals = (items: LineItemAmounts[], discount: Partial<Discount> = noDiscount) => {
+  const amounts = items.map(lineItemAmount);
+  const documentAmount = amounts.reduce((sum, amount) => sum + amount, 0);
+  const share = documentAmount > 0 ? 1 - discountAmount(documentAmount, discount) / documentAmount : 1;
+
+  const rates = new Map<string, TaxAmount>();
+  let grossNet = 0;
+  let net = 0;
+
+  items.forEach((item, index) => {
+    grossNet += lineTaxes((Number(item.quantity) || 0) * (Number(item.unit_price) || 0), item.taxes).net;
+    const line = lineTaxes(amounts[index] * share, item.taxes);
+    net += line.net;
+
+    for (const tax of line.taxes) {
+      const key = `${tax.name}|${tax.rate}`;
+      const entry = rates.get(key) ?? { name: tax.name, rate: tax.rate, amount: 0 };
+      entry.amount += tax.amount;
+      rates.set(key, entry);
+    }
+  });
+
+  const subtotal = Math.round(grossNet);
+  const netAmount = Math.round(net);
+  const taxes = [...rates.values()].map((tax) => ({ ...tax, amount: Math.round(tax.amount) }));
+  const taxAmount = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+
+  return {
+    subtotal,
+    discount: subtotal - netAmount,
+    taxes,
+    taxAmount,
+    total: netAmount + taxAmount,
+  };
+};
+
+/**
+ * Reads the taxes column of a saved line item.
+ */
+export const parseLineItemTaxes = (taxes: Json | null | undefined): LineItemTax[] =>
+  Array.isArray(taxes)
+    ? taxes.map((tax) => {
+        const value = tax as Record<string, Json>;
+        return {
+          tax_rate_id: typeof value.tax_rate_id === 'string' ? value.tax_rate_id : null,
+          name: String(value.name ?? 'Tax'),
+          rate: Number(value.rate) || 0,
+          compound: value.compound === true,
+          inclusive: value.inclusive === true,
+        };
+      })
+    : [];
+
+/**
+ * The discount fields of a saved record or a draft, as they are saved.
+ */
+export const parseDiscount = (record: { discount_type?: string | null; discount_value?: number | string | null }) => ({
+  discount_type: (record.discount_type === 'fixed' ? 'fixed' : 'percent') as DiscountType,
+  discount_value: Number(record.discount_value) || 0,
+});
+
+// Drafts are typed in major units, e.g. 12.50; they are saved in minor units, e.g. 1250
+export const toSavedDiscount = (discount: Partial<Discount>, currency: string) => {
+  const parsed = parseDiscount(discount);
+  return parsed.discount_type === 'fixed' ? { ...parsed, discount_value: toMinorUnits(parsed.discount_value, currency) } : parsed;
+};
+
+export const toDiscountDraft = (record: { discount_type?: string | null; discount_value?: number | string | null }, currency: string) => {
+  const parsed = parseDiscount(record);
+  return parsed.discount_type === 'fixed' ? { ...parsed, discount_value: fromMinorUnits(parsed.discount_value, currency) } : parsed;
+};
+
+export const toSavedLineItem = (item: LineItemAmounts & { description: string }, currency: string) => ({
+  description: item.description,
+  quantity: Number(item.quantity),
+  unit_price: toMinorUnits(item.unit_price, currency),
+  taxes: item.taxes ?? [],
+  ...toSavedDiscount(item, currency),
+});
+
+/**
+ * A saved line item as it is edited.
+ */
+export const toLineItemDraft = (
+  item: {
+    description: string;
+    quantity: number;
+    unit_price: number;
+    taxes: Json;
+    discount_type?: string | null;
+    discount_value?: number | string | null;
+  },
+  currency: string
+) => ({
+  description: item.description,
+  quantity: item.quantity,
+  unit_price: fromMinorUnits(item.unit_price, currency),
+  taxes: parseLineItemTaxes(item.taxes),
+  ...toDiscountDraft(item, currency),
+});
+
+// The totals the database will save for lines being edited
+export const lineItemDraftTotals = (items: (LineItemAmounts & { description: string })[], discount: Partial<Discount>, currency: string) =>
+  lineItemTotals(
+    items.map((item) => toSavedLineItem(item, currency)),
+    toSavedDiscount(discount, currency)
+  );
+
+export const hasIncompleteLineItems = (items: { description: string; quantity: number | string; unit_price: number | string }[]) =>
+  items.some(item => !item.description || !item.quantity || item.unit_price === "");
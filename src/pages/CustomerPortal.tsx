@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -11,19 +11,37 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { Download, Eye, CreditCard, FileText, DollarSign, Clock, CheckCircle, XCircle } from "lucide-react";
-import { format } from "date-fns";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { QuoteApprovalDialog } from "@/components/QuoteApprovalDialog";
 import { InvoicePaymentDialog } from "@/components/InvoicePaymentDialog";
+import { downloadCreditNotePdf, downloadInvoicePdf } from "@/lib/invoiceDocuments";
+import { brandingLogoUrl, useBranding } from "@/hooks/useBranding";
+import { useFormatters } from "@/hooks/useFormatters";
+
+const paymentMethodLabels: Record<string, string> = {
+  card: "Credit Card",
+  bank_transfer: "Bank Transfer",
+  cash: "Cash",
+  check: "Check",
+  paypal: "PayPal",
+  other: "Other",
+};
+
+const isOpenInvoice = (invoice: { status: string }) =>
+  invoice.status === 'sent' || invoice.status === 'partially_paid' || invoice.status === 'overdue';
 
 const CustomerPortal = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [customerData, setCustomerData] = useState<any>(null);
   const [selectedQuote, setSelectedQuote] = useState<any>(null);
   const [selectedInvoice, setSelectedInvoice] = useState<any>(null);
   const [showQuoteDialog, setShowQuoteDialog] = useState(false);
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
+  // The portal is written in the client's locale
+  const { locale, formatMoney, formatMoneyByCurrency, formatDate } = useFormatters(customerData?.client?.locale);
 
   // Check if user is a customer portal user
   useEffect(() => {
@@ -51,6 +69,23 @@ const CustomerPortal = () => {
     checkCustomerAccess();
   }, [user, navigate]);
 
+  // Handle the redirect back from Stripe Checkout
+  useEffect(() => {
+    const paymentResult = searchParams.get("payment");
+    if (!paymentResult) return;
+
+    if (paymentResult === "success") {
+      toast.success("Thank you! Your payment is being confirmed and the invoice will update shortly.");
+      queryClient.invalidateQueries({ queryKey: ["customer-invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-payments"] });
+    } else if (paymentResult === "canceled") {
+      toast.info("Payment was canceled. You have not been charged.");
+    }
+
+    searchParams.delete("payment");
+    setSearchParams(searchParams, { replace: true });
+  }, [searchParams, setSearchParams, queryClient]);
+
   // Fetch customer invoices
   const { data: invoices } = useQuery({
     queryKey: ["customer-invoices", customerData?.client_id],
@@ -69,6 +104,23 @@ const CustomerPortal = () => {
     enabled: !!customerData?.client_id,
   });
 
+  // Pay-now links in reminder emails open the payment dialog for their invoice
+  useEffect(() => {
+    const payInvoiceId = searchParams.get("pay");
+    if (!payInvoiceId || !invoices) return;
+
+    const invoice = invoices.find((inv) => inv.id === payInvoiceId);
+    if (invoice && isOpenInvoice(invoice)) {
+      setSelectedInvoice(invoice);
+      setShowPaymentDialog(true);
+    } else {
+      toast.info("This invoice has already been paid or is no longer available.");
+    }
+
+    searchParams.delete("pay");
+    setSearchParams(searchParams, { replace: true });
+  }, [invoices, searchParams, setSearchParams]);
+
   // Fetch customer quotes
   const { data: quotes } = useQuery({
     queryKey: ["customer-quotes", customerData?.client_id],
@@ -93,14 +145,35 @@ const CustomerPortal = () => {
     queryFn: async () => {
       if (!customerData?.client_id) return [];
 
-      // This would typically come from Stripe or payment processor
-      // For now, return paid invoices as payment history
       const { data, error } = await supabase
-        .from("invoices")
-        .select("*")
+        .from("payments")
+        .select(`
+          *,
+          invoice:invoices!inner(number, client_id, currency)
+        `)
+        .eq("invoice.client_id", customerData.client_id)
+        .order("payment_date", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!customerData?.client_id,
+  });
+
+  // Fetch credit notes on the customer's invoices
+  const { data: creditNotes } = useQuery({
+    queryKey: ["customer-credit-notes", customerData?.client_id],
+    queryFn: async () => {
+      if (!customerData?.client_id) return [];
+
+      const { data, error } = await supabase
+        .from("credit_notes")
+        .select(`
+          id, number, issue_date, reason, total, currency,
+          invoice:invoices(number)
+        `)
         .eq("client_id", customerData.client_id)
-        .eq("status", "paid")
-        .order("updated_at", { ascending: false });
+        .order("issue_date", { ascending: false });
 
       if (error) throw error;
       return data;
@@ -120,22 +193,7 @@ const CustomerPortal = () => {
 
   const downloadInvoice = async (invoiceId: string, invoiceNumber: string) => {
     try {
-      const { data, error } = await supabase.functions.invoke('generate-invoice-pdf', {
-        body: { invoiceId }
-      });
-
-      if (error) throw error;
-
-      // Create and download the HTML file
-      const htmlBlob = new Blob([data.html], { type: 'text/html' });
-      const url = URL.createObjectURL(htmlBlob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `invoice-${invoiceNumber}.html`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await downloadInvoicePdf(invoiceId, invoiceNumber);
 
       toast.success("Invoice downloaded successfully");
     } catch (error: any) {
@@ -144,6 +202,21 @@ const CustomerPortal = () => {
     }
   };
 
+  const downloadCreditNote = async (creditNoteId: string) => {
+    try {
+      await downloadCreditNotePdf(creditNoteId);
+
+      toast.success("Credit note downloaded successfully");
+    } catch (error) {
+      toast.error("Failed to download credit note");
+      console.error("Download error:", error);
+    }
+  };
+
+  // Branding of the business that bills this customer
+  const { data: branding } = useBranding(customerData?.client?.user_id ?? null);
+  const logoUrl = brandingLogoUrl(branding?.logo_path);
+
   if (!customerData) {
     return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
   }
@@ -152,30 +225,44 @@ const CustomerPortal = () => {
     const statusColors = {
       draft: "bg-gray-100 text-gray-800",
       sent: "bg-blue-100 text-blue-800",
+      partially_paid: "bg-yellow-100 text-yellow-800",
       paid: "bg-green-100 text-green-800",
       overdue: "bg-red-100 text-red-800",
+      credited: "bg-purple-100 text-purple-800",
       approved: "bg-green-100 text-green-800",
       rejected: "bg-red-100 text-red-800"
     };
     return statusColors[status as keyof typeof statusColors] || statusColors.draft;
   };
 
-  const totalOwed = invoices?.reduce((sum, inv) => {
-    return inv.status === 'sent' || inv.status === 'overdue' ? sum + inv.total : sum;
-  }, 0) || 0;
+  // Invoices can be in different currencies, so totals are kept per currency
+  const totalOwed = formatMoneyByCurrency(
+    (invoices ?? []).filter(isOpenInvoice).map((inv) => ({ amount: inv.balance_due, currency: inv.currency }))
+  );
 
-  const totalPaid = payments?.reduce((sum, payment) => sum + payment.total, 0) || 0;
+  // Amount paid on each invoice is already net of refunds
+  const totalPaid = formatMoneyByCurrency((invoices ?? []).map((inv) => ({ amount: inv.amount_paid, currency: inv.currency })));
 
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
-      <div className="border-b">
+      <div className="border-b" style={branding ? { borderBottomColor: branding.primary_color } : undefined}>
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
-          <div>
-            <h1 className="text-2xl font-bold">Customer Portal</h1>
-            <p className="text-muted-foreground">
-              Welcome back, {customerData.client.name}
-            </p>
+          <div className="flex items-center gap-4">
+            {logoUrl && (
+              <img src={logoUrl} alt={branding?.company_name ?? "Logo"} className="h-12 max-w-[160px] object-contain" />
+            )}
+            <div>
+              <h1 className="text-2xl font-bold" style={branding ? { color: branding.primary_color } : undefined}>
+                {branding?.company_name || "Customer Portal"}
+              </h1>
+              {branding?.tagline && (
+                <p className="text-sm" style={{ color: branding.secondary_color }}>{branding.tagline}</p>
+              )}
+              <p className="text-muted-foreground">
+                Welcome back, {customerData.client.name}
+              </p>
+            </div>
           </div>
           <Button onClick={signOut} variant="outline">
             Sign Out
@@ -192,7 +279,7 @@ const CustomerPortal = () => {
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">${totalOwed.toFixed(2)}</div>
+              <div className="text-2xl font-bold">{totalOwed}</div>
             </CardContent>
           </Card>
 
@@ -202,7 +289,7 @@ const CustomerPortal = () => {
               <CreditCard className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">${totalPaid.toFixed(2)}</div>
+              <div className="text-2xl font-bold">{totalPaid}</div>
             </CardContent>
           </Card>
 
@@ -213,7 +300,7 @@ const CustomerPortal = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {invoices?.filter(inv => inv.status === 'sent' || inv.status === 'overdue').length || 0}
+                {invoices?.filter(isOpenInvoice).length || 0}
               </div>
             </CardContent>
           </Card>
@@ -225,6 +312,7 @@ const CustomerPortal = () => {
             <TabsTrigger value="invoices">Invoices</TabsTrigger>
             <TabsTrigger value="quotes">Quotes</TabsTrigger>
             <TabsTrigger value="payments">Payment History</TabsTrigger>
+            <TabsTrigger value="credit-notes">Credit Notes</TabsTrigger>
           </TabsList>
 
           <TabsContent value="invoices" className="space-y-4">
@@ -243,6 +331,7 @@ const CustomerPortal = () => {
                         <TableHead>Issue Date</TableHead>
                         <TableHead>Due Date</TableHead>
                         <TableHead>Amount</TableHead>
+                        <TableHead>Balance</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead>Actions</TableHead>
                       </TableRow>
@@ -251,12 +340,13 @@ const CustomerPortal = () => {
                       {invoices?.map((invoice) => (
                         <TableRow key={invoice.id}>
                           <TableCell className="font-medium">{invoice.number}</TableCell>
-                          <TableCell>{format(new Date(invoice.issue_date), 'MMM dd, yyyy')}</TableCell>
-                          <TableCell>{invoice.due_date ? format(new Date(invoice.due_date), 'MMM dd, yyyy') : '-'}</TableCell>
-                          <TableCell>${invoice.total.toFixed(2)}</TableCell>
+                          <TableCell>{formatDate(invoice.issue_date)}</TableCell>
+                          <TableCell>{invoice.due_date ? formatDate(invoice.due_date) : '-'}</TableCell>
+                          <TableCell>{formatMoney(invoice.total, invoice.currency)}</TableCell>
+                          <TableCell>{formatMoney(invoice.balance_due, invoice.currency)}</TableCell>
                           <TableCell>
                             <Badge className={getStatusBadge(invoice.status)}>
-                              {invoice.status}
+                              {invoice.status.replace('_', ' ')}
                             </Badge>
                           </TableCell>
                           <TableCell>
@@ -269,7 +359,7 @@ const CustomerPortal = () => {
                               >
                                 <Download className="h-4 w-4" />
                               </Button>
-                              {(invoice.status === 'sent' || invoice.status === 'overdue') && (
+                              {isOpenInvoice(invoice) && (
                                 <Button
                                   size="sm"
                                   onClick={() => handlePayment(invoice)}
@@ -315,9 +405,9 @@ const CustomerPortal = () => {
                       {quotes?.map((quote) => (
                         <TableRow key={quote.id}>
                           <TableCell className="font-medium">{quote.quote_number}</TableCell>
-                          <TableCell>{format(new Date(quote.issue_date), 'MMM dd, yyyy')}</TableCell>
-                          <TableCell>{quote.expiry_date ? format(new Date(quote.expiry_date), 'MMM dd, yyyy') : '-'}</TableCell>
-                          <TableCell>${quote.total.toFixed(2)}</TableCell>
+                          <TableCell>{formatDate(quote.issue_date)}</TableCell>
+                          <TableCell>{quote.expiry_date ? formatDate(quote.expiry_date) : '-'}</TableCell>
+                          <TableCell>{formatMoney(quote.total, quote.currency)}</TableCell>
                           <TableCell>
                             <Badge className={getStatusBadge(quote.status)}>
                               {quote.status}
@@ -386,10 +476,57 @@ const CustomerPortal = () => {
                     <TableBody>
                       {payments?.map((payment) => (
                         <TableRow key={payment.id}>
-                          <TableCell className="font-medium">{payment.number}</TableCell>
-                          <TableCell>{format(new Date(payment.updated_at), 'MMM dd, yyyy')}</TableCell>
-                          <TableCell>${payment.total.toFixed(2)}</TableCell>
-                          <TableCell>Credit Card</TableCell>
+                          <TableCell className="font-medium">{payment.invoice.number}</TableCell>
+                          <TableCell>{formatDate(payment.payment_date)}</TableCell>
+                          <TableCell>{formatMoney(payment.amount, payment.invoice.currency)}</TableCell>
+                          <TableCell>{paymentMethodLabels[payment.method] || payment.method}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="credit-notes" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Credit Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {creditNotes?.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">No credit notes found</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Credit Note #</TableHead>
+                        <TableHead>Invoice #</TableHead>
+                        <TableHead>Issue Date</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {creditNotes?.map((creditNote) => (
+                        <TableRow key={creditNote.id}>
+                          <TableCell className="font-medium">{creditNote.number}</TableCell>
+                          <TableCell>{creditNote.invoice?.number ?? '-'}</TableCell>
+                          <TableCell>{formatDate(creditNote.issue_date)}</TableCell>
+                          <TableCell>{formatMoney(creditNote.total, creditNote.currency)}</TableCell>
+                          <TableCell>{creditNote.reason}</TableCell>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => downloadCreditNote(creditNote.id)}
+                              title="Download Credit Note"
+                            >
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -403,6 +540,7 @@ const CustomerPortal = () => {
         {/* Dialogs */}
         <QuoteApprovalDialog
           quote={selectedQuote}
+          locale={locale}
           isOpen={showQuoteDialog}
           onClose={() => {
             setShowQuoteDialog(false);
@@ -412,12 +550,19 @@ const CustomerPortal = () => {
         
         <InvoicePaymentDialog
           invoice={selectedInvoice}
+          locale={locale}
           isOpen={showPaymentDialog}
           onClose={() => {
             setShowPaymentDialog(false);
             setSelectedInvoice(null);
           }}
         />
+
+        {branding?.footer_text && (
+          <p className="text-center text-sm whitespace-pre-line pt-6" style={{ color: branding.secondary_color }}>
+            {branding.footer_text}
+          </p>
+        )}
       </div>
     </div>
   );
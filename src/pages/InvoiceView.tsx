@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { downloadSharedInvoicePdf, fetchSharedInvoiceDocument } from "@/lib/invoiceDocuments";
+
+// Opened from the "view online" link in invoice emails; works without signing in
+const InvoiceView = () => {
+  const { token = "" } = useParams();
+
+  const { data: invoiceHtml, isLoading, error } = useQuery({
+    queryKey: ["shared-invoice", token],
+    enabled: !!token,
+    retry: false,
+    queryFn: async () => (await fetchSharedInvoiceDocument(token, "html")).text(),
+  });
+
+  const downloadPDF = async () => {
+    try {
+      await downloadSharedInvoicePdf(token);
+    } catch (e) {
+      toast.error("Failed to download PDF: " + ((e as Error).message || "Unknown error"));
+    }
+  };
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  if (error || !invoiceHtml) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Invoice not available</h1>
+          <p className="text-muted-foreground">This link is invalid or the invoice has been removed.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <div className="flex justify-end border-b p-3">
+        <Button onClick={downloadPDF}>
+          <Download className="h-4 w-4 mr-2" />
+          Download PDF
+        </Button>
+      </div>
+      <iframe title="Invoice" srcDoc={invoiceHtml} sandbox="" className="flex-1 w-full" />
+    </div>
+  );
+};
+
+export default InvoiceView;
@@ -5,13 +5,19 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { TrendingUp, DollarSign, Users, FileText, Calendar } from "lucide-react";
 import ProFeatureGate from "@/components/ProFeatureGate";
+import { useBaseCurrency, useExchangeRates } from "@/hooks/useExchangeRates";
+import { toBaseCurrency } from "@/lib/currency";
+import { useFormatters } from "@/hooks/useFormatters";
 
 const Analytics = () => {
   const { user } = useAuth();
+  const baseCurrency = useBaseCurrency();
+  const { data: exchangeRates } = useExchangeRates();
+  const { formatMoney } = useFormatters();
 
   const analyticsData = useQuery({
-    queryKey: ["analytics", user?.id],
-    enabled: !!user,
+    queryKey: ["analytics", user?.id, baseCurrency, exchangeRates],
+    enabled: !!user && !!exchangeRates,
     queryFn: async () => {
       const [clientsResult, invoicesResult, revenueResult] = await Promise.all([
         supabase
@@ -20,7 +26,7 @@ const Analytics = () => {
           .eq("user_id", user!.id),
         supabase
           .from("invoices")
-          .select("total, status, created_at, due_date")
+          .select("total, amount_paid, balance_due, currency, exchange_rate, base_currency, status, created_at, due_date")
           .eq("user_id", user!.id),
         supabase
           .from("invoices")
@@ -37,10 +43,11 @@ const Analytics = () => {
       const invoices = invoicesResult.data || [];
       const paidInvoices = revenueResult.data || [];
 
-      const totalRevenue = paidInvoices.reduce((sum, inv) => sum + (inv.total || 0), 0);
+      // Revenue is in the base currency, at each invoice's exchange rate
+      const totalRevenue = invoices.reduce((sum, inv) => sum + toBaseCurrency(inv.amount_paid, inv, baseCurrency, exchangeRates), 0);
       const pendingRevenue = invoices
-        .filter(inv => inv.status === 'sent' || inv.status === 'overdue')
-        .reduce((sum, inv) => sum + (inv.total || 0), 0);
+        .filter(inv => inv.status === 'sent' || inv.status === 'partially_paid' || inv.status === 'overdue')
+        .reduce((sum, inv) => sum + toBaseCurrency(inv.balance_due, inv, baseCurrency, exchangeRates), 0);
 
       const now = new Date();
       const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
@@ -56,7 +63,7 @@ const Analytics = () => {
       const overdueInvoices = invoices.filter(invoice => {
         return invoice.due_date && 
                new Date(invoice.due_date) < now && 
-               (invoice.status === 'sent' || invoice.status === 'draft');
+               (invoice.status === 'sent' || invoice.status === 'partially_paid' || invoice.status === 'draft');
       }).length;
 
       return {
@@ -100,7 +107,7 @@ const Analytics = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold text-green-700 dark:text-green-400">
-                    ${analyticsData.data?.totalRevenue?.toFixed(2) || '0.00'}
+                    {formatMoney(analyticsData.data?.totalRevenue, baseCurrency)}
                   </div>
                   <p className="text-xs text-green-600 dark:text-green-500">
                     From {analyticsData.data?.paidInvoices || 0} paid invoices
@@ -115,7 +122,7 @@ const Analytics = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold text-yellow-700 dark:text-yellow-400">
-                    ${analyticsData.data?.pendingRevenue?.toFixed(2) || '0.00'}
+                    {formatMoney(analyticsData.data?.pendingRevenue, baseCurrency)}
                   </div>
                   <p className="text-xs text-yellow-600 dark:text-yellow-500">
                     Awaiting payment
@@ -7,8 +7,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Check, CreditCard, Calendar } from 'lucide-react';
 import { toast } from 'sonner';
+import { useFormatters } from "@/hooks/useFormatters";
 
 const Billing = () => {
+  const { formatDate } = useFormatters();
   const [searchParams, setSearchParams] = useSearchParams();
   const { data: subscription, isLoading: subscriptionLoading } = useSubscription();
   const createCheckout = useCreateCheckout();
@@ -78,7 +80,7 @@ const Billing = () => {
                     <Calendar className="h-4 w-4" />
                     <span>
                       Renews on{' '}
-                      {new Date(subscription.current_period_end!).toLocaleDateString()}
+                      {formatDate(subscription.current_period_end!)}
                     </span>
                   </div>
                 )}
@@ -8,17 +8,21 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { toast } from "sonner";
+import { LocaleSelect } from "@/components/LocaleSelect";
+import { useFormatters } from "@/hooks/useFormatters";
 
 const sb = supabase as any;
 
 const Clients = () => {
   const { user } = useAuth();
+  const { formatDate } = useFormatters();
   const qc = useQueryClient();
 
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [company, setCompany] = useState("");
   const [address, setAddress] = useState("");
+  const [locale, setLocale] = useState("");
 
   const clients = useQuery({
     queryKey: ["clients", user?.id],
@@ -43,6 +47,7 @@ const Clients = () => {
         email: email || null,
         company: company || null,
         address: address || null,
+        locale: locale || null,
       };
       const { error } = await sb.from("clients").insert([payload]);
       if (error) throw error;
@@ -53,6 +58,7 @@ const Clients = () => {
       setEmail("");
       setCompany("");
       setAddress("");
+      setLocale("");
       toast.success("Client added");
     },
     onError: (e: any) => toast.error(e.message || "Failed to add client"),
@@ -88,6 +94,13 @@ const Clients = () => {
               <Label htmlFor="address">Address</Label>
               <Input id="address" value={address} onChange={(e) => setAddress(e.target.value)} />
             </div>
+            <div>
+              <Label htmlFor="locale">Locale</Label>
+              <LocaleSelect id="locale" value={locale} onValueChange={setLocale} inheritLabel="Account default" />
+              <p className="text-xs text-muted-foreground mt-1">
+                How amounts and dates are written on their documents, emails and portal.
+              </p>
+            </div>
             <div className="md:col-span-2">
               <Button type="submit" disabled={addClient.isPending}>Save Client</Button>
             </div>
@@ -121,7 +134,7 @@ const Clients = () => {
                       <TableCell className="font-medium">{c.name}</TableCell>
                       <TableCell className="text-sm">{c.email || "—"}</TableCell>
                       <TableCell className="text-sm">{c.company || "—"}</TableCell>
-                      <TableCell className="text-sm">{new Date(c.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-sm">{formatDate(c.created_at)}</TableCell>
                     </TableRow>
                   ))
                 ) : (
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,6 +8,9 @@ import { Badge } from "@/components/ui/badge";
 import { Upload, Palette, Save } from "lucide-react";
 import ProFeatureGate from "@/components/ProFeatureGate";
 import { toast } from "sonner";
+import { brandingLogoUrl, useBranding, useSaveBranding, useUploadBrandingLogo } from "@/hooks/useBranding";
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
 
 const CustomBranding = () => {
   const [formData, setFormData] = useState({
@@ -15,23 +18,57 @@ const CustomBranding = () => {
     tagline: "",
     primaryColor: "#3b82f6",
     secondaryColor: "#64748b",
+    logoPath: "",
     logoUrl: "",
     footerText: ""
   });
+  const { data: branding } = useBranding();
+  const saveBranding = useSaveBranding();
+  const uploadLogo = useUploadBrandingLogo();
+
+  useEffect(() => {
+    if (!branding) return;
+    setFormData({
+      companyName: branding.company_name ?? "",
+      tagline: branding.tagline ?? "",
+      primaryColor: branding.primary_color,
+      secondaryColor: branding.secondary_color,
+      logoPath: branding.logo_path ?? "",
+      logoUrl: brandingLogoUrl(branding.logo_path) ?? "",
+      footerText: branding.footer_text ?? ""
+    });
+  }, [branding]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // In a real app, this would save to the database
-    toast.success("Branding settings saved successfully!");
+
+    if (!HEX_COLOR.test(formData.primaryColor) || !HEX_COLOR.test(formData.secondaryColor)) {
+      toast.error("Colors must be hex values like #3b82f6");
+      return;
+    }
+
+    saveBranding.mutate({
+      branding: {
+        company_name: formData.companyName || null,
+        tagline: formData.tagline || null,
+        primary_color: formData.primaryColor,
+        secondary_color: formData.secondaryColor,
+        footer_text: formData.footerText || null,
+        logo_path: formData.logoPath || null,
+      },
+      previousLogoPath: branding?.logo_path,
+    });
   };
 
   const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      // In a real app, this would upload to storage
-      const url = URL.createObjectURL(file);
-      setFormData(prev => ({ ...prev, logoUrl: url }));
-      toast.success("Logo uploaded successfully!");
+      uploadLogo.mutate(file, {
+        onSuccess: (path) => {
+          setFormData(prev => ({ ...prev, logoPath: path, logoUrl: brandingLogoUrl(path) ?? "" }));
+          toast.success("Logo uploaded. Save your branding settings to apply it.");
+        },
+      });
     }
   };
 
@@ -119,8 +156,9 @@ const CustomBranding = () => {
                     )}
                     <Input
                       type="file"
-                      accept="image/*"
+                      accept="image/png,image/jpeg"
                       onChange={handleLogoUpload}
+                      disabled={uploadLogo.isPending}
                       className="mt-2"
                     />
                   </div>
@@ -211,7 +249,7 @@ const CustomBranding = () => {
           </Card>
 
           <div className="flex justify-end">
-            <Button type="submit" className="flex items-center gap-2">
+            <Button type="submit" className="flex items-center gap-2" disabled={saveBranding.isPending || uploadLogo.isPending}>
               <Save className="h-4 w-4" />
               Save Branding Settings
             </Button>
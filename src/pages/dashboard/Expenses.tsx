@@ -13,7 +13,11 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { DollarSign, TrendingDown, FileText, Receipt } from "lucide-react";
-import { format } from "date-fns";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { useBaseCurrency, useExchangeRates } from "@/hooks/useExchangeRates";
+import { amountStep, toBaseCurrency } from "@/lib/currency";
+import { toMinorUnits } from "@shared/formatting";
+import { useFormatters } from "@/hooks/useFormatters";
 
 const expenseCategories = [
   "Travel & Transportation",
@@ -30,6 +34,7 @@ const expenseCategories = [
 
 const Expenses = () => {
   const { user } = useAuth();
+  const { formatMoney, formatDate } = useFormatters();
   const queryClient = useQueryClient();
 
   const [clientId, setClientId] = useState("");
@@ -38,6 +43,11 @@ const Expenses = () => {
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [category, setCategory] = useState("");
   const [isBillable, setIsBillable] = useState(false);
+  // Empty until picked, so that it follows the base currency once that has loaded
+  const [currency, setCurrency] = useState("");
+  const baseCurrency = useBaseCurrency();
+  const { data: exchangeRates } = useExchangeRates();
+  const expenseCurrency = currency || baseCurrency;
 
   // Fetch clients
   const { data: clients } = useQuery({
@@ -94,7 +104,9 @@ const Expenses = () => {
           user_id: user.id,
           client_id: clientId || null,
           description,
-          amount: parseFloat(amount),
+          amount: toMinorUnits(amount, expenseCurrency),
+          // The exchange rate to the base currency is looked up on insert
+          currency: expenseCurrency,
           date,
           category: category || null,
           is_billable: isBillable,
@@ -112,6 +124,7 @@ const Expenses = () => {
       setDate(new Date().toISOString().split('T')[0]);
       setCategory("");
       setIsBillable(false);
+      setCurrency("");
     },
     onError: (error) => {
       toast.error("Failed to create expense");
@@ -142,16 +155,17 @@ const Expenses = () => {
     },
   });
 
-  const totalExpenses = expenses?.reduce((sum, expense) => sum + expense.amount, 0) || 0;
+  // Totals are in the base currency
+  const totalExpenses = expenses?.reduce((sum, expense) => sum + toBaseCurrency(expense.amount, expense, baseCurrency, exchangeRates), 0) || 0;
   const billableExpenses = expenses?.reduce((sum, expense) => {
-    return expense.is_billable && !expense.is_invoiced ? sum + expense.amount : sum;
+    return expense.is_billable && !expense.is_invoiced ? sum + toBaseCurrency(expense.amount, expense, baseCurrency, exchangeRates) : sum;
   }, 0) || 0;
 
   const thisMonthExpenses = expenses?.reduce((sum, expense) => {
     const expenseDate = new Date(expense.date);
     const now = new Date();
     if (expenseDate.getMonth() === now.getMonth() && expenseDate.getFullYear() === now.getFullYear()) {
-      return sum + expense.amount;
+      return sum + toBaseCurrency(expense.amount, expense, baseCurrency, exchangeRates);
     }
     return sum;
   }, 0) || 0;
@@ -170,7 +184,7 @@ const Expenses = () => {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${totalExpenses.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(totalExpenses, baseCurrency)}</div>
           </CardContent>
         </Card>
         <Card>
@@ -179,7 +193,7 @@ const Expenses = () => {
             <TrendingDown className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${thisMonthExpenses.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(thisMonthExpenses, baseCurrency)}</div>
           </CardContent>
         </Card>
         <Card>
@@ -188,7 +202,7 @@ const Expenses = () => {
             <Receipt className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${billableExpenses.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(billableExpenses, baseCurrency)}</div>
           </CardContent>
         </Card>
       </div>
@@ -215,13 +229,17 @@ const Expenses = () => {
                 <Input
                   id="amount"
                   type="number"
-                  step="0.01"
+                  step={amountStep(expenseCurrency)}
                   value={amount}
                   onChange={(e) => setAmount(e.target.value)}
                   placeholder="0.00"
                   required
                 />
               </div>
+              <div>
+                <Label htmlFor="currency">Currency</Label>
+                <CurrencySelect id="currency" value={expenseCurrency} onValueChange={setCurrency} />
+              </div>
               <div>
                 <Label htmlFor="date">Date</Label>
                 <Input
@@ -312,11 +330,11 @@ const Expenses = () => {
               <TableBody>
                 {expenses?.map((expense) => (
                   <TableRow key={expense.id}>
-                    <TableCell>{format(new Date(expense.date), 'MMM dd, yyyy')}</TableCell>
+                    <TableCell>{formatDate(expense.date)}</TableCell>
                     <TableCell className="max-w-xs truncate">{expense.description}</TableCell>
                     <TableCell>{expense.category || '-'}</TableCell>
                     <TableCell>{expense.client?.name || '-'}</TableCell>
-                    <TableCell>${expense.amount.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(expense.amount, expense.currency)}</TableCell>
                     <TableCell>
                       <div className="flex gap-1">
                         {expense.is_billable && (
@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
@@ -10,63 +10,42 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { toast } from "sonner";
 import { useProAccess } from "@/hooks/useProAccess";
-import { Download, Send, Crown, Trash } from "lucide-react";
+import { Download, Eye, Send, Crown, DollarSign, History } from "lucide-react";
+import { RecordPaymentDialog, RecordPaymentInvoice } from "@/components/RecordPaymentDialog";
+import { EmailHistoryDialog, EmailHistoryInvoice } from "@/components/EmailHistoryDialog";
+import { SendInvoiceDialog, SendInvoiceTarget } from "@/components/SendInvoiceDialog";
+import { InvoiceDetailDialog } from "@/components/InvoiceDetailDialog";
+import { downloadInvoicePdf, previewInvoiceHtml } from "@/lib/invoiceDocuments";
+import { useNextDocumentNumber } from "@/hooks/useNumberingSchemes";
+import { DiscountInput, LineItemDraft, LineItemsEditor, LineItemsSummary } from "@/components/LineItemsEditor";
+import { Discount, hasIncompleteLineItems, lineItemDraftTotals, noDiscount, toSavedDiscount, toSavedLineItem } from "@/lib/lineItems";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { useBaseCurrency } from "@/hooks/useExchangeRates";
+import { useFormatters } from "@/hooks/useFormatters";
 
 const sb = supabase as any;
 
-interface InvoiceItem {
-  description: string;
-  quantity: number | string;
-  unit_price: number | string;
-}
-
 const Invoices = () => {
   const { user } = useAuth();
+  const { formatMoney, formatDate } = useFormatters();
   const qc = useQueryClient();
   const { isPro } = useProAccess();
 
-  const [number, setNumber] = useState("");
   const [clientId, setClientId] = useState<string>("");
   const [status, setStatus] = useState("draft");
   const [dueDate, setDueDate] = useState<string>("");
-  const [items, setItems] = useState<InvoiceItem[]>([{ description: "", quantity: 1, unit_price: "" }]);
-  const [taxRate, setTaxRate] = useState(""); // As a percentage
-
-  const { data: latestInvoice, isLoading: isLoadingLatestInvoice } = useQuery({
-    queryKey: ["latest-invoice-number", user?.id],
-    enabled: !!user,
-    queryFn: async () => {
-      if (!user) return null;
-      const { data, error } = await sb
-        .from("invoices")
-        .select("number")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false })
-        .limit(1)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        // PGRST116 means no rows found, which is expected for a new user
-        throw error;
-      }
-      return data;
-    },
-  });
-
-  useEffect(() => {
-    if (isLoadingLatestInvoice) {
-      setNumber("...");
-    } else if (latestInvoice && latestInvoice.number) {
-      const lastNum = parseInt(latestInvoice.number, 10);
-      if (!isNaN(lastNum)) {
-        setNumber((lastNum + 1).toString());
-      } else {
-        setNumber("1");
-      }
-    } else {
-      setNumber("1");
-    }
-  }, [latestInvoice, isLoadingLatestInvoice]);
+  const [items, setItems] = useState<LineItemDraft[]>([{ description: "", quantity: 1, unit_price: "" }]);
+  const [discount, setDiscount] = useState<Discount>(noDiscount);
+  // Empty until picked, so that it follows the base currency once that has loaded
+  const [currency, setCurrency] = useState("");
+  const [paymentInvoice, setPaymentInvoice] = useState<RecordPaymentInvoice | null>(null);
+  const [historyInvoice, setHistoryInvoice] = useState<EmailHistoryInvoice | null>(null);
+  const [sendingInvoice, setSendingInvoice] = useState<SendInvoiceTarget | null>(null);
+  const [detailInvoiceId, setDetailInvoiceId] = useState<string | null>(null);
+
+  const { data: nextNumber, isLoading: isLoadingNextNumber } = useNextDocumentNumber("invoice");
+  const baseCurrency = useBaseCurrency();
+  const invoiceCurrency = currency || baseCurrency;
 
   const clients = useQuery({
     queryKey: ["invoice-clients", user?.id],
@@ -88,7 +67,7 @@ const Invoices = () => {
     queryFn: async () => {
       const { data, error } = await sb
         .from("invoices")
-        .select("id, number, status, total, issue_date, due_date, client:clients(name)")
+        .select("id, number, status, currency, total, amount_paid, balance_due, issue_date, due_date, client:clients(name)")
         .eq("user_id", user!.id)
         .order("created_at", { ascending: false });
       if (error) throw error;
@@ -96,63 +75,36 @@ const Invoices = () => {
     },
   });
 
-  const { subtotal, taxAmount, total } = useMemo(() => {
-    const subtotal = items.reduce((acc, item) => {
-      const quantity = Number(item.quantity) || 0;
-      const price = Number(item.unit_price) || 0;
-      return acc + quantity * price;
-    }, 0);
-    const tax = subtotal * (Number(taxRate) / 100);
-    const total = subtotal + tax;
-    return { subtotal, taxAmount: tax, total };
-  }, [items, taxRate]);
+  const totals = useMemo(() => lineItemDraftTotals(items, discount, invoiceCurrency), [items, discount, invoiceCurrency]);
 
   const addInvoice = useMutation({
     mutationFn: async () => {
       if (!user) throw new Error("Not authenticated");
       if (!clientId) throw new Error("Please choose a client");
-      if (items.some(item => !item.description || !item.quantity || !item.unit_price)) {
-        throw new Error("Please fill all item fields.");
-      }
-
-      const { data: invoiceData, error: invoiceError } = await sb.from("invoices").insert([
-        {
-          user_id: user.id,
-          client_id: clientId,
-          number,
-          status,
-          issue_date: new Date().toISOString().slice(0, 10),
-          due_date: dueDate || null,
-          subtotal: subtotal,
-          tax: taxAmount,
-          total: total,
-        },
-      ]).select();
-
-      if (invoiceError) throw invoiceError;
-
-      const invoiceId = invoiceData[0].id;
-      const invoiceItems = items.map(item => ({
-        invoice_id: invoiceId,
-        description: item.description,
-        quantity: Number(item.quantity),
-        unit_price: Number(item.unit_price),
-      }));
-
-      const { error: itemsError } = await sb.from("invoice_items").insert(invoiceItems);
-
-      if (itemsError) {
-        // Attempt to clean up the created invoice if items fail to insert
-        await sb.from("invoices").delete().eq("id", invoiceId);
-        throw itemsError;
-      }
+      if (hasIncompleteLineItems(items)) throw new Error("Please fill all item fields.");
+
+      // The invoice and its items are written in one transaction. The number is assigned
+      // from the account's numbering scheme, the exchange rate to the base currency is looked
+      // up and the totals are computed from the items by the database.
+      const documentDiscount = toSavedDiscount(discount, invoiceCurrency);
+      const { error } = await sb.rpc("create_invoice", {
+        p_client_id: clientId,
+        p_items: items.map((item) => toSavedLineItem(item, invoiceCurrency)),
+        p_currency: invoiceCurrency,
+        p_due_date: dueDate || null,
+        p_discount_type: documentDiscount.discount_type,
+        p_discount_value: documentDiscount.discount_value,
+        p_status: status,
+      });
+      if (error) throw error;
     },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["invoices", user?.id] });
-      setNumber("");
+      qc.invalidateQueries({ queryKey: ["next-document-number", "invoice"] });
       setClientId("");
       setItems([{ description: "", quantity: 1, unit_price: "" }]);
-      setTaxRate("");
+      setDiscount(noDiscount);
+      setCurrency("");
       setStatus("draft");
       setDueDate("");
       toast.success("Invoice created successfully");
@@ -160,59 +112,22 @@ const Invoices = () => {
     onError: (e: any) => toast.error(e.message || "Failed to create invoice"),
   });
 
-  const handleItemChange = (index: number, field: keyof InvoiceItem, value: string | number) => {
-    const newItems = [...items];
-    newItems[index][field] = value;
-    setItems(newItems);
-  };
-
-  const addItem = () => {
-    setItems([...items, { description: "", quantity: 1, unit_price: "" }]);
-  };
-
-  const removeItem = (index: number) => {
-    if (items.length > 1) {
-      const newItems = items.filter((_, i) => i !== index);
-      setItems(newItems);
-    }
-  };
-
-  const downloadPDF = async (invoiceId: string) => {
+  const downloadPDF = async (invoiceId: string, invoiceNumber: string) => {
     try {
-      const { data, error } = await supabase.functions.invoke('generate-invoice-pdf', {
-        body: { invoiceId },
-      });
-
-      if (error) throw error;
-
-      const blob = new Blob([data], { type: 'text/html' });
-      const url = window.URL.createObjectURL(blob);
-      window.open(url, '_blank');
-      toast.success("Invoice opened in new tab. Use Print to save as PDF.");
-
+      await downloadInvoicePdf(invoiceId, invoiceNumber);
+      toast.success("Invoice downloaded successfully");
     } catch (error: any) {
       console.error('PDF generation error:', error);
       toast.error("Failed to generate invoice: " + (error.message || 'Unknown error'));
     }
   };
 
-  const sendInvoice = async (invoiceId: string, invoiceNumber: string) => {
+  const previewInvoice = async (invoiceId: string) => {
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      const response = await supabase.functions.invoke('send-invoice-email', {
-        body: { invoiceId },
-        headers: {
-          Authorization: `Bearer ${session?.access_token}`,
-        },
-      });
-      
-      if (response.error) throw response.error;
-      
-      toast.success(`Invoice ${invoiceNumber} sent successfully`);
-    } catch (error: any) {
-      console.error('Email sending error:', error);
-      toast.error("Failed to send invoice: " + (error.message || 'Unknown error'));
+      await previewInvoiceHtml(invoiceId);
+    } catch (error) {
+      console.error('Invoice preview error:', error);
+      toast.error("Failed to preview invoice: " + ((error as Error).message || 'Unknown error'));
     }
   };
 
@@ -232,7 +147,7 @@ const Invoices = () => {
           >
             <div>
               <Label htmlFor="number">Invoice #</Label>
-              <Input id="number" value={number} readOnly disabled={isLoadingLatestInvoice} />
+              <Input id="number" value={isLoadingNextNumber ? "..." : nextNumber ?? ""} readOnly disabled />
             </div>
             <div>
               <Label>Client</Label>
@@ -251,52 +166,19 @@ const Invoices = () => {
               <Label htmlFor="due">Due date</Label>
               <Input id="due" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
             </div>
+            <div>
+              <Label htmlFor="currency">Currency</Label>
+              <CurrencySelect id="currency" value={invoiceCurrency} onValueChange={setCurrency} />
+            </div>
 
             <div className="md:col-span-2 lg:col-span-3 space-y-4">
               <Label>Items</Label>
-              <div className="space-y-2">
-                {items.map((item, index) => (
-                  <div key={index} className="flex flex-col sm:flex-row items-start sm:items-center gap-2">
-                    <Input
-                      placeholder="Item description"
-                      value={item.description}
-                      onChange={(e) => handleItemChange(index, "description", e.target.value)}
-                      className="w-full"
-                      required
-                    />
-                    <div className="flex gap-2 w-full sm:w-auto">
-                      <Input
-                        type="number"
-                        placeholder="Qty"
-                        value={item.quantity}
-                        onChange={(e) => handleItemChange(index, "quantity", e.target.value ? Number(e.target.value) : "")}
-                        className="w-1/2 sm:w-20"
-                        min="1"
-                        required
-                      />
-                      <Input
-                        type="number"
-                        step="0.01"
-                        placeholder="Unit Price"
-                        value={item.unit_price}
-                        onChange={(e) => handleItemChange(index, "unit_price", e.target.value ? Number(e.target.value) : "")}
-                        className="w-1/2 sm:w-28"
-                        min="0"
-                        required
-                      />
-                    </div>
-                    <Button type="button" variant="destructive" size="icon" onClick={() => removeItem(index)} disabled={items.length <= 1}>
-                      <Trash className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
-              </div>
-              <Button type="button" variant="outline" size="sm" onClick={addItem}>Add Item</Button>
+              <LineItemsEditor items={items} onChange={setItems} currency={invoiceCurrency} />
             </div>
 
             <div>
-              <Label htmlFor="tax">Tax Rate (%)</Label>
-              <Input id="tax" type="number" step="0.01" value={taxRate} onChange={(e) => setTaxRate(e.target.value)} placeholder="e.g. 10" />
+              <Label htmlFor="discount">Invoice discount</Label>
+              <DiscountInput id="discount" discount={discount} onChange={setDiscount} currency={invoiceCurrency} />
             </div>
 
             <div>
@@ -308,19 +190,17 @@ const Invoices = () => {
                 <SelectContent>
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="sent">Sent</SelectItem>
-                  <SelectItem value="paid">Paid</SelectItem>
                   <SelectItem value="overdue">Overdue</SelectItem>
-                  <SelectItem value="void">Void</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="md:col-span-2 lg:col-span-3">
-              <div className="text-lg font-semibold">Total: ${total.toFixed(2)}</div>
+              <LineItemsSummary totals={totals} currency={invoiceCurrency} />
             </div>
 
             <div className="md:col-span-2 lg:col-span-3">
-              <Button type="submit" disabled={addInvoice.isPending || isLoadingLatestInvoice}>Create Invoice</Button>
+              <Button type="submit" disabled={addInvoice.isPending}>Create Invoice</Button>
             </div>
           </form>
         </CardContent>
@@ -339,6 +219,7 @@ const Invoices = () => {
                   <TableHead className="min-w-[120px]">Client</TableHead>
                   <TableHead className="min-w-[80px]">Status</TableHead>
                   <TableHead className="min-w-[80px]">Total</TableHead>
+                  <TableHead className="min-w-[80px]">Balance</TableHead>
                   <TableHead className="min-w-[100px]">Issued</TableHead>
                   <TableHead className="min-w-[100px]">Due</TableHead>
                   <TableHead className="min-w-[200px]">Actions</TableHead>
@@ -347,7 +228,7 @@ const Invoices = () => {
               <TableBody>
                 {invoices.isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={7}>Loading…</TableCell>
+                    <TableCell colSpan={8}>Loading…</TableCell>
                   </TableRow>
                 ) : invoices.data && invoices.data.length > 0 ? (
                   invoices.data.map((inv: any) => (
@@ -358,38 +239,72 @@ const Invoices = () => {
                         <span className={`px-2 py-1 rounded-full text-xs ${
                           inv.status === 'paid' ? 'bg-green-100 text-green-700' :
                           inv.status === 'sent' ? 'bg-blue-100 text-blue-700' :
+                          inv.status === 'partially_paid' ? 'bg-yellow-100 text-yellow-700' :
                           inv.status === 'overdue' ? 'bg-red-100 text-red-700' :
+                          inv.status === 'credited' ? 'bg-purple-100 text-purple-700' :
                           'bg-gray-100 text-gray-700'
                         }`}>
-                          {inv.status}
+                          {inv.status.replace('_', ' ')}
                         </span>
                       </TableCell>
-                      <TableCell className="font-medium text-sm">${Number(inv.total).toFixed(2)}</TableCell>
-                      <TableCell className="text-sm">{inv.issue_date}</TableCell>
-                      <TableCell className="text-sm">{inv.due_date || "—"}</TableCell>
+                      <TableCell className="font-medium text-sm">{formatMoney(inv.total, inv.currency)}</TableCell>
+                      <TableCell className="text-sm">{formatMoney(inv.balance_due, inv.currency)}</TableCell>
+                      <TableCell className="text-sm">{formatDate(inv.issue_date)}</TableCell>
+                      <TableCell className="text-sm">{inv.due_date ? formatDate(inv.due_date) : "—"}</TableCell>
                       <TableCell>
                         <div className="flex gap-1 flex-wrap">
-                          <Button size="sm" variant="outline" className="text-xs px-2">Edit</Button>
+                          <Button size="sm" variant="outline" className="text-xs px-2" onClick={() => setDetailInvoiceId(inv.id)}>
+                            {inv.status === 'draft' ? 'Edit' : 'View'}
+                          </Button>
+                          {inv.status !== 'draft' && inv.status !== 'void' && Number(inv.balance_due) > 0 && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="flex items-center gap-1 text-xs px-2"
+                              onClick={() => setPaymentInvoice(inv)}
+                            >
+                              <DollarSign className="h-3 w-3" />
+                              <span className="hidden sm:inline">Payment</span>
+                            </Button>
+                          )}
                           {isPro ? (
                             <>
                               <Button 
                                 size="sm" 
                                 variant="secondary" 
                                 className="flex items-center gap-1 text-xs px-2"
-                                onClick={() => downloadPDF(inv.id)}
+                                onClick={() => previewInvoice(inv.id)}
+                              >
+                                <Eye className="h-3 w-3" />
+                                <span className="hidden sm:inline">Preview</span>
+                              </Button>
+                              <Button 
+                                size="sm" 
+                                variant="secondary" 
+                                className="flex items-center gap-1 text-xs px-2"
+                                onClick={() => downloadPDF(inv.id, inv.number)}
                               >
                                 <Download className="h-3 w-3" />
-                                <span className="hidden sm:inline">HTML</span>
+                                <span className="hidden sm:inline">PDF</span>
                               </Button>
                               <Button 
                                 size="sm" 
                                 variant="default" 
                                 className="flex items-center gap-1 text-xs px-2"
-                                onClick={() => sendInvoice(inv.id, inv.number)}
+                                onClick={() => setSendingInvoice(inv)}
                               >
                                 <Send className="h-3 w-3" />
                                 <span className="hidden sm:inline">Send</span>
                               </Button>
+                              <Button 
+                                size="sm" 
+                                variant="outline" 
+                                className="flex items-center gap-1 text-xs px-2"
+                                onClick={() => setHistoryInvoice(inv)}
+                              >
+                                <History className="h-3 w-3" />
+                                <span className="hidden sm:inline">History</span>
+                              </Button>
                             </>
                           ) : (
                             <Button 
@@ -402,17 +317,20 @@ const Invoices = () => {
                               <span className="hidden sm:inline">Pro</span>
                             </Button>
                           )}
-                          <Button size="sm" variant="destructive" className="text-xs px-2">
-                            <span className="hidden sm:inline">Delete</span>
-                            <span className="sm:hidden">×</span>
-                          </Button>
+                          {/* Issued invoices are cancelled with a credit note instead */}
+                          {inv.status === 'draft' && (
+                            <Button size="sm" variant="destructive" className="text-xs px-2">
+                              <span className="hidden sm:inline">Delete</span>
+                              <span className="sm:hidden">×</span>
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">No invoices yet</TableCell>
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">No invoices yet</TableCell>
                   </TableRow>
                 )}
               </TableBody>
@@ -420,6 +338,23 @@ const Invoices = () => {
           </div>
         </CardContent>
       </Card>
+
+      <RecordPaymentDialog
+        invoice={paymentInvoice}
+        isOpen={!!paymentInvoice}
+        onClose={() => setPaymentInvoice(null)}
+      />
+
+      <InvoiceDetailDialog
+        invoiceId={detailInvoiceId}
+        clients={clients.data ?? []}
+        onClose={() => setDetailInvoiceId(null)}
+        onReissued={setDetailInvoiceId}
+      />
+
+      <SendInvoiceDialog invoice={sendingInvoice} onClose={() => setSendingInvoice(null)} />
+
+      <EmailHistoryDialog invoice={historyInvoice} onClose={() => setHistoryInvoice(null)} />
     </section>
   );
 };
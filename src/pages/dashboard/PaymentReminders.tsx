@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -11,8 +11,21 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Send, Clock, AlertTriangle, DollarSign, Mail } from "lucide-react";
-import { format, addDays, differenceInDays } from "date-fns";
+import { Send, Clock, AlertTriangle, DollarSign, Mail, Plus, Save, Trash2 } from "lucide-react";
+import { addDays, differenceInDays } from "date-fns";
+import {
+  DEFAULT_DUNNING_POLICY,
+  DunningPolicy,
+  ReminderType,
+  saveDunningPolicy,
+  useDunningPolicy,
+  useRunDunning,
+  useSaveDunningPolicy,
+} from "@/hooks/useDunningPolicy";
+import { ReminderTemplatesCard } from "@/components/ReminderTemplatesCard";
+import { useBaseCurrency, useExchangeRates } from "@/hooks/useExchangeRates";
+import { toBaseCurrency } from "@/lib/currency";
+import { useFormatters } from "@/hooks/useFormatters";
 
 const reminderTypes = [
   { value: "gentle", label: "Gentle Reminder", daysAfter: 3 },
@@ -23,11 +36,21 @@ const reminderTypes = [
 
 const PaymentReminders = () => {
   const { user } = useAuth();
+  const baseCurrency = useBaseCurrency();
+  const { data: exchangeRates } = useExchangeRates();
+  const { formatMoney, formatDate, formatDateTime } = useFormatters();
   const queryClient = useQueryClient();
 
   const [selectedInvoice, setSelectedInvoice] = useState("");
   const [reminderType, setReminderType] = useState("");
-  const [autoReminders, setAutoReminders] = useState(false);
+  const { data: policy } = useDunningPolicy();
+  const savePolicy = useSaveDunningPolicy();
+  const runDunning = useRunDunning();
+  const [draftPolicy, setDraftPolicy] = useState<DunningPolicy>(DEFAULT_DUNNING_POLICY);
+
+  useEffect(() => {
+    if (policy) setDraftPolicy(policy);
+  }, [policy]);
 
   // Fetch overdue invoices
   const { data: overdueInvoices } = useQuery({
@@ -40,7 +63,7 @@ const PaymentReminders = () => {
           client:clients(name, email, company)
         `)
         .eq("user_id", user.id)
-        .in("status", ["sent", "overdue"])
+        .in("status", ["sent", "partially_paid", "overdue"])
         .order("due_date", { ascending: true });
       
       if (error) throw error;
@@ -134,78 +157,51 @@ const PaymentReminders = () => {
     },
   });
 
-  const sendBulkReminders = useMutation({
-    mutationFn: async () => {
-      if (!overdueInvoices) return;
-
-      const results = [];
-      
-      for (const invoice of overdueInvoices) {
-        // Determine appropriate reminder type based on days overdue
-        let reminderType = "gentle";
-        if (invoice.daysOverdue >= 30) reminderType = "final";
-        else if (invoice.daysOverdue >= 14) reminderType = "urgent";
-        else if (invoice.daysOverdue >= 7) reminderType = "standard";
-
-        // Check if we've already sent this type of reminder
-        const existingReminder = await supabase
-          .from("payment_reminders")
-          .select("*")
-          .eq("invoice_id", invoice.id)
-          .eq("reminder_type", reminderType)
-          .single();
-
-        if (existingReminder.data) continue; // Skip if already sent
-
-        try {
-          // Create reminder record
-          await supabase
-            .from("payment_reminders")
-            .insert({
-              user_id: user.id,
-              invoice_id: invoice.id,
-              reminder_type: reminderType,
-              days_overdue: invoice.daysOverdue,
-              sent_at: new Date().toISOString(),
-            });
-
-          // Send email
-          await supabase.functions.invoke('send-invoice-email', {
-            body: { 
-              invoiceId: invoice.id,
-              isReminder: true,
-              reminderType
-            }
-          });
-
-          results.push({ invoice: invoice.number, type: reminderType, success: true });
-        } catch (error) {
-          results.push({ invoice: invoice.number, type: reminderType, success: false, error });
-        }
+  // Sends whatever the reminder policy says is due now, using the defaults if none was saved yet
+  const sendAllDue = async () => {
+    if (!policy) {
+      try {
+        await saveDunningPolicy(user.id, draftPolicy);
+      } catch (error) {
+        toast.error((error as Error).message || "Failed to save reminder policy");
+        return;
       }
+    }
+
+    runDunning.mutate(undefined, {
+      onSuccess: (result) => {
+        if (result.failures.length === 0) {
+          toast.success(`Successfully sent ${result.sent} payment reminders`);
+        } else {
+          toast.warning(`Sent ${result.sent} of ${result.sent + result.failures.length} reminders. Some failed.`);
+        }
+      },
+    });
+  };
 
-      return results;
-    },
-    onSuccess: (results) => {
-      queryClient.invalidateQueries({ queryKey: ["payment-reminders"] });
-      queryClient.invalidateQueries({ queryKey: ["overdue-invoices"] });
-      
-      const successful = results?.filter(r => r.success).length || 0;
-      const total = results?.length || 0;
-      
-      if (successful === total) {
-        toast.success(`Successfully sent ${successful} payment reminders`);
-      } else {
-        toast.warning(`Sent ${successful} of ${total} reminders. Some failed.`);
-      }
-    },
-    onError: (error: any) => {
-      toast.error("Failed to send bulk reminders");
-      console.error("Error sending bulk reminders:", error);
-    },
-  });
+  const toggleAutoReminders = (enabled: boolean) => {
+    savePolicy.mutate({ ...(policy ?? draftPolicy), is_enabled: enabled });
+  };
 
-  const totalOverdue = overdueInvoices?.reduce((sum, inv) => sum + inv.total, 0) || 0;
+  const updateStep = (index: number, step: Partial<DunningPolicy["steps"][number]>) => {
+    setDraftPolicy((prev) => ({
+      ...prev,
+      steps: prev.steps.map((existing, i) => (i === index ? { ...existing, ...step } : existing)),
+    }));
+  };
+
+  const addStep = () => {
+    setDraftPolicy((prev) => {
+      const lastOffset = prev.steps.length ? prev.steps[prev.steps.length - 1].days_after_due : 0;
+      return { ...prev, steps: [...prev.steps, { days_after_due: lastOffset + 7, reminder_type: "standard" }] };
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setDraftPolicy((prev) => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }));
+  };
+
+  const totalOverdue = overdueInvoices?.reduce((sum, inv) => sum + toBaseCurrency(inv.balance_due, inv, baseCurrency, exchangeRates), 0) || 0;
   const criticalOverdue = overdueInvoices?.filter(inv => inv.daysOverdue > 30).length || 0;
   const recentReminders = reminders?.filter(r => 
     differenceInDays(new Date(), new Date(r.created_at)) <= 7
@@ -236,14 +232,15 @@ const PaymentReminders = () => {
           <div className="flex items-center space-x-2">
             <Switch
               id="auto-reminders"
-              checked={autoReminders}
-              onCheckedChange={setAutoReminders}
+              checked={policy?.is_enabled ?? false}
+              onCheckedChange={toggleAutoReminders}
+              disabled={savePolicy.isPending}
             />
             <Label htmlFor="auto-reminders">Auto-send reminders</Label>
           </div>
           <Button 
-            onClick={() => sendBulkReminders.mutate()}
-            disabled={sendBulkReminders.isPending || !overdueInvoices?.length}
+            onClick={sendAllDue}
+            disabled={runDunning.isPending || !overdueInvoices?.length}
           >
             <Send className="h-4 w-4 mr-2" />
             Send All Due
@@ -259,7 +256,7 @@ const PaymentReminders = () => {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${totalOverdue.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(totalOverdue, baseCurrency)}</div>
             <p className="text-xs text-muted-foreground">
               {overdueInvoices?.length || 0} overdue invoices
             </p>
@@ -289,6 +286,84 @@ const PaymentReminders = () => {
         </Card>
       </div>
 
+      {/* Reminder Policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Reminder Policy</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            When auto-send is on, reminders are sent every morning. Each step is sent once per invoice,
+            the given number of days after its due date. Use negative days to remind before the due date.
+          </p>
+          <div className="space-y-2">
+            {draftPolicy.steps.map((step, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  value={step.days_after_due}
+                  onChange={(e) => updateStep(index, { days_after_due: Number(e.target.value) })}
+                  className="w-24"
+                  aria-label="Days after due date"
+                />
+                <span className="text-sm text-muted-foreground whitespace-nowrap">days after due:</span>
+                <Select
+                  value={step.reminder_type}
+                  onValueChange={(value) => updateStep(index, { reminder_type: value as ReminderType })}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reminderTypes.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="button" variant="destructive" size="icon" onClick={() => removeStep(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={addStep}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Step
+          </Button>
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="pause-on-partial"
+                checked={draftPolicy.pause_on_partial_payment}
+                onCheckedChange={(checked) => setDraftPolicy((prev) => ({ ...prev, pause_on_partial_payment: checked }))}
+              />
+              <Label htmlFor="pause-on-partial">Stop reminding once a partial payment is received</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="stop-on-dispute"
+                checked={draftPolicy.stop_on_dispute}
+                onCheckedChange={(checked) => setDraftPolicy((prev) => ({ ...prev, stop_on_dispute: checked }))}
+              />
+              <Label htmlFor="stop-on-dispute">Stop reminding while a payment is disputed</Label>
+            </div>
+          </div>
+
+          <Button
+            onClick={() => savePolicy.mutate({ ...draftPolicy, is_enabled: policy?.is_enabled ?? false })}
+            disabled={savePolicy.isPending}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save Policy
+          </Button>
+        </CardContent>
+      </Card>
+
+      <ReminderTemplatesCard reminderTypes={reminderTypes} />
+
       {/* Send Individual Reminder */}
       <Card>
         <CardHeader>
@@ -359,7 +434,7 @@ const PaymentReminders = () => {
                 <TableRow>
                   <TableHead>Invoice #</TableHead>
                   <TableHead>Client</TableHead>
-                  <TableHead>Amount</TableHead>
+                  <TableHead>Balance</TableHead>
                   <TableHead>Due Date</TableHead>
                   <TableHead>Days Overdue</TableHead>
                   <TableHead>Last Reminder</TableHead>
@@ -381,9 +456,9 @@ const PaymentReminders = () => {
                           <div className="text-sm text-gray-500">{invoice.client?.email}</div>
                         </div>
                       </TableCell>
-                      <TableCell>${invoice.total.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(invoice.balance_due, invoice.currency)}</TableCell>
                       <TableCell>
-                        {invoice.due_date ? format(new Date(invoice.due_date), 'MMM dd, yyyy') : '-'}
+                        {invoice.due_date ? formatDate(invoice.due_date) : '-'}
                       </TableCell>
                       <TableCell>
                         <Badge className={getOverdueBadge(invoice.daysOverdue)}>
@@ -397,7 +472,7 @@ const PaymentReminders = () => {
                               {lastReminder.reminder_type}
                             </Badge>
                             <div className="text-xs text-gray-500 mt-1">
-                              {format(new Date(lastReminder.sent_at!), 'MMM dd')}
+                              {formatDate(lastReminder.sent_at!)}
                             </div>
                           </div>
                         ) : (
@@ -457,7 +532,7 @@ const PaymentReminders = () => {
                 {reminders?.map((reminder) => (
                   <TableRow key={reminder.id}>
                     <TableCell>
-                      {reminder.sent_at ? format(new Date(reminder.sent_at), 'MMM dd, yyyy HH:mm') : '-'}
+                      {reminder.sent_at ? formatDateTime(reminder.sent_at) : '-'}
                     </TableCell>
                     <TableCell className="font-medium">
                       {reminder.invoice?.number}
@@ -469,12 +544,21 @@ const PaymentReminders = () => {
                       <Badge className={getReminderBadge(reminder.reminder_type)}>
                         {reminder.reminder_type}
                       </Badge>
+                      {reminder.dunning_step_id && (
+                        <span className="ml-2 text-xs text-muted-foreground">Automatic</span>
+                      )}
                     </TableCell>
                     <TableCell>{reminder.days_overdue} days</TableCell>
                     <TableCell>
-                      <Badge variant="outline" className="bg-green-100 text-green-800">
-                        Sent
-                      </Badge>
+                      {reminder.sent_at ? (
+                        <Badge variant="outline" className="bg-green-100 text-green-800">
+                          Sent
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-yellow-100 text-yellow-800">
+                          Sending
+                        </Badge>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
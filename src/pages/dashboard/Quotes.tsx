@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -11,20 +11,30 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { Trash2, Plus, FileText, CircleCheck as CheckCircle } from "lucide-react";
-import { format } from "date-fns";
+import { FileText, CircleCheck as CheckCircle } from "lucide-react";
+import { useNextDocumentNumber } from "@/hooks/useNumberingSchemes";
+import { DiscountInput, LineItemDraft, LineItemsEditor, LineItemsSummary } from "@/components/LineItemsEditor";
+import { Discount, hasIncompleteLineItems, lineItemDraftTotals, noDiscount, toSavedDiscount, toSavedLineItem } from "@/lib/lineItems";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { useBaseCurrency } from "@/hooks/useExchangeRates";
+import { useFormatters } from "@/hooks/useFormatters";
 
 const Quotes = () => {
   const { user } = useAuth();
+  const { formatMoney, formatDate } = useFormatters();
   const queryClient = useQueryClient();
 
-  const [quoteNumber, setQuoteNumber] = useState(`QUO-${new Date().getFullYear()}-${Date.now().toString().slice(-4)}`);
   const [clientId, setClientId] = useState("");
-  const [subtotal, setSubtotal] = useState("");
-  const [tax, setTax] = useState("");
   const [expiryDate, setExpiryDate] = useState("");
   const [notes, setNotes] = useState("");
-  const [items, setItems] = useState([{ description: "", quantity: 1, unitPrice: 0 }]);
+  const [items, setItems] = useState<LineItemDraft[]>([{ description: "", quantity: 1, unit_price: "" }]);
+  const [discount, setDiscount] = useState<Discount>(noDiscount);
+  // Empty until picked, so that it follows the base currency once that has loaded
+  const [currency, setCurrency] = useState("");
+  const baseCurrency = useBaseCurrency();
+  const quoteCurrency = currency || baseCurrency;
+  const { data: nextQuoteNumber, isLoading: isLoadingNextNumber } = useNextDocumentNumber("quote");
+  const totals = useMemo(() => lineItemDraftTotals(items, discount, quoteCurrency), [items, discount, quoteCurrency]);
 
   // Fetch clients
   const { data: clients } = useQuery({
@@ -81,60 +91,37 @@ const Quotes = () => {
         throw new Error("Please select a client");
       }
 
-      if (!subtotal || isNaN(parseFloat(subtotal))) {
-        throw new Error("Please enter a valid subtotal");
+      if (hasIncompleteLineItems(items)) {
+        throw new Error("Please fill all item fields.");
       }
 
-      const subtotalNum = parseFloat(subtotal);
-      const taxNum = parseFloat(tax) || 0;
-      const total = subtotalNum + taxNum;
+      // The quote and its items are written in one transaction. The quote number is assigned
+      // from the account's numbering scheme, the exchange rate to the base currency is looked
+      // up and the totals are computed from the items by the database.
+      const documentDiscount = toSavedDiscount(discount, quoteCurrency);
+      const { error } = await supabase.rpc("create_quote", {
+        p_client_id: clientId,
+        p_items: items.map((item) => toSavedLineItem(item, quoteCurrency)),
+        p_currency: quoteCurrency,
+        p_expiry_date: expiryDate || null,
+        p_notes: notes || null,
+        p_discount_type: documentDiscount.discount_type,
+        p_discount_value: documentDiscount.discount_value,
+      });
 
-      const { data: quote, error: quoteError } = await supabase
-        .from("quotes")
-        .insert({
-          user_id: user.id,
-          client_id: clientId,
-          quote_number: quoteNumber,
-          subtotal: subtotalNum,
-          tax: taxNum,
-          total,
-          notes,
-          expiry_date: expiryDate || null,
-        })
-        .select()
-        .single();
-
-      if (quoteError) throw quoteError;
-
-      // Add quote items
-      for (const [index, item] of items.entries()) {
-        if (item.description) {
-          const { error: itemError } = await supabase
-            .from("quote_items")
-            .insert({
-              quote_id: quote.id,
-              description: item.description,
-              quantity: item.quantity,
-              unit_price: item.unitPrice,
-              amount: item.quantity * item.unitPrice,
-              position: index + 1,
-            });
-
-          if (itemError) throw itemError;
-        }
-      }
+      if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["next-document-number", "quote"] });
       toast.success("Quote created successfully");
       // Reset form
-      setQuoteNumber(`QUO-${new Date().getFullYear()}-${Date.now().toString().slice(-4)}`);
       setClientId("");
-      setSubtotal("");
-      setTax("");
       setExpiryDate("");
       setNotes("");
-      setItems([{ description: "", quantity: 1, unitPrice: 0 }]);
+      setItems([{ description: "", quantity: 1, unit_price: "" }]);
+      setDiscount(noDiscount);
+      setCurrency("");
     },
     onError: (error: any) => {
       const errorMessage = error?.message || "Failed to create quote";
@@ -162,24 +149,6 @@ const Quotes = () => {
     },
   });
 
-  const addItem = () => {
-    setItems([...items, { description: "", quantity: 1, unitPrice: 0 }]);
-  };
-
-  const removeItem = (index: number) => {
-    setItems(items.filter((_, i) => i !== index));
-  };
-
-  const updateItem = (index: number, field: string, value: any) => {
-    const newItems = [...items];
-    newItems[index] = { ...newItems[index], [field]: value };
-    setItems(newItems);
-    
-    // Recalculate subtotal
-    const newSubtotal = newItems.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0);
-    setSubtotal(newSubtotal.toString());
-  };
-
   const getStatusBadge = (status: string) => {
     const statusColors = {
       draft: "bg-gray-100 text-gray-800",
@@ -202,14 +171,14 @@ const Quotes = () => {
           <CardTitle>Create New Quote</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
               <Label htmlFor="quoteNumber">Quote Number</Label>
               <Input
                 id="quoteNumber"
-                value={quoteNumber}
-                onChange={(e) => setQuoteNumber(e.target.value)}
-                placeholder="Quote number"
+                value={isLoadingNextNumber ? "..." : nextQuoteNumber ?? ""}
+                readOnly
+                disabled
               />
             </div>
             <div>
@@ -236,95 +205,26 @@ const Quotes = () => {
                 onChange={(e) => setExpiryDate(e.target.value)}
               />
             </div>
+            <div>
+              <Label htmlFor="currency">Currency</Label>
+              <CurrencySelect id="currency" value={quoteCurrency} onValueChange={setCurrency} />
+            </div>
           </div>
 
           <div>
             <Label>Quote Items</Label>
-            <div className="space-y-2 mt-2">
-              {items.map((item, index) => (
-                <div key={index} className="grid grid-cols-12 gap-2 items-end">
-                  <div className="col-span-5">
-                    <Input
-                      placeholder="Description"
-                      value={item.description}
-                      onChange={(e) => updateItem(index, "description", e.target.value)}
-                    />
-                  </div>
-                  <div className="col-span-2">
-                    <Input
-                      type="number"
-                      placeholder="Qty"
-                      value={item.quantity}
-                      onChange={(e) => updateItem(index, "quantity", parseFloat(e.target.value) || 0)}
-                    />
-                  </div>
-                  <div className="col-span-2">
-                    <Input
-                      type="number"
-                      step="0.01"
-                      placeholder="Unit Price"
-                      value={item.unitPrice}
-                      onChange={(e) => updateItem(index, "unitPrice", parseFloat(e.target.value) || 0)}
-                    />
-                  </div>
-                  <div className="col-span-2">
-                    <Input
-                      value={`$${(item.quantity * item.unitPrice).toFixed(2)}`}
-                      readOnly
-                      className="bg-gray-50"
-                    />
-                  </div>
-                  <div className="col-span-1">
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removeItem(index)}
-                      disabled={items.length === 1}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              ))}
+            <div className="mt-2">
+              <LineItemsEditor items={items} onChange={setItems} currency={quoteCurrency} />
             </div>
-            <Button type="button" variant="outline" onClick={addItem} className="mt-2">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Item
-            </Button>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
             <div>
-              <Label htmlFor="subtotal">Subtotal</Label>
-              <Input
-                id="subtotal"
-                type="number"
-                step="0.01"
-                value={subtotal}
-                onChange={(e) => setSubtotal(e.target.value)}
-                placeholder="0.00"
-              />
+              <Label htmlFor="discount">Quote Discount</Label>
+              <DiscountInput id="discount" discount={discount} onChange={setDiscount} currency={quoteCurrency} />
             </div>
-            <div>
-              <Label htmlFor="tax">Tax</Label>
-              <Input
-                id="tax"
-                type="number"
-                step="0.01"
-                value={tax}
-                onChange={(e) => setTax(e.target.value)}
-                placeholder="0.00"
-              />
-            </div>
-            <div>
-              <Label htmlFor="total">Total</Label>
-              <Input
-                id="total"
-                value={`$${((parseFloat(subtotal) || 0) + (parseFloat(tax) || 0)).toFixed(2)}`}
-                readOnly
-                className="bg-gray-50"
-              />
+            <div className="md:col-span-2">
+              <LineItemsSummary totals={totals} currency={quoteCurrency} />
             </div>
           </div>
 
@@ -340,7 +240,7 @@ const Quotes = () => {
 
           <Button
             onClick={() => addQuote.mutate({})}
-            disabled={!clientId || !subtotal || addQuote.isPending}
+            disabled={!clientId || addQuote.isPending}
             className="w-full"
           >
             Create Quote
@@ -380,9 +280,9 @@ const Quotes = () => {
                         {quote.status}
                       </Badge>
                     </TableCell>
-                    <TableCell>${quote.total?.toFixed(2)}</TableCell>
-                    <TableCell>{format(new Date(quote.issue_date), 'MMM dd, yyyy')}</TableCell>
-                    <TableCell>{quote.expiry_date ? format(new Date(quote.expiry_date), 'MMM dd, yyyy') : '-'}</TableCell>
+                    <TableCell>{formatMoney(quote.total, quote.currency)}</TableCell>
+                    <TableCell>{formatDate(quote.issue_date)}</TableCell>
+                    <TableCell>{quote.expiry_date ? formatDate(quote.expiry_date) : '-'}</TableCell>
                     <TableCell>
                       <div className="flex gap-2">
                         <Button
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
@@ -12,23 +12,36 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { Calendar, RefreshCw, Plus, Trash2 } from "lucide-react";
-import { format, addDays, addWeeks, addMonths, addYears } from "date-fns";
+import { Calendar, RefreshCw, Plus, Trash2, List } from "lucide-react";
 import ProFeatureGate from "@/components/ProFeatureGate";
+import { DiscountInput, LineItemDraft, LineItemsEditor, LineItemsSummary } from "@/components/LineItemsEditor";
+import { RecurringItemsDialog, RecurringItemsTemplate } from "@/components/RecurringItemsDialog";
+import { Discount, hasIncompleteLineItems, lineItemDraftTotals, noDiscount, toSavedDiscount, toSavedLineItem } from "@/lib/lineItems";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { useBaseCurrency } from "@/hooks/useExchangeRates";
+import { useFormatters } from "@/hooks/useFormatters";
 
 const sb = supabase as any;
 
 const RecurringInvoices = () => {
   const { user } = useAuth();
+  const { formatMoney, formatDate } = useFormatters();
   const qc = useQueryClient();
 
   const [templateNumber, setTemplateNumber] = useState("");
   const [clientId, setClientId] = useState<string>("");
   const [frequency, setFrequency] = useState<string>("monthly");
   const [nextDueDate, setNextDueDate] = useState<string>("");
-  const [subtotal, setSubtotal] = useState("");
-  const [tax, setTax] = useState("");
+  const [paymentTermsDays, setPaymentTermsDays] = useState("30");
+  const [items, setItems] = useState<LineItemDraft[]>([{ description: "", quantity: 1, unit_price: "" }]);
+  const [discount, setDiscount] = useState<Discount>(noDiscount);
+  // Empty until picked, so that it follows the base currency once that has loaded
+  const [currency, setCurrency] = useState("");
   const [notes, setNotes] = useState("");
+  const [autoSend, setAutoSend] = useState(false);
+  const [itemsTemplate, setItemsTemplate] = useState<RecurringItemsTemplate | null>(null);
+  const baseCurrency = useBaseCurrency();
+  const templateCurrency = currency || baseCurrency;
 
   const clients = useQuery({
     queryKey: ["recurring-clients", user?.id],
@@ -52,7 +65,7 @@ const RecurringInvoices = () => {
         .from("recurring_invoices")
         .select(`
           id, template_number, frequency, next_due_date, last_generated_date, 
-          is_active, total, notes, created_at,
+          is_active, auto_send, currency, subtotal, discount_type, discount_value, tax, total, notes, created_at,
           client:clients(name)
         `)
         .eq("user_id", user!.id)
@@ -62,27 +75,48 @@ const RecurringInvoices = () => {
     },
   });
 
+  const totals = useMemo(() => lineItemDraftTotals(items, discount, templateCurrency), [items, discount, templateCurrency]);
+
   const addRecurringInvoice = useMutation({
     mutationFn: async () => {
       if (!user) throw new Error("Not authenticated");
       if (!clientId) throw new Error("Please choose a client");
       if (!nextDueDate) throw new Error("Please set next due date");
-      
-      const total = Number(subtotal || 0) + Number(tax || 0);
-      const { error } = await sb.from("recurring_invoices").insert([
+      if (!/^\d+$/.test(paymentTermsDays)) throw new Error("Payment terms must be a whole number of days");
+      if (hasIncompleteLineItems(items)) throw new Error("Please fill all item fields.");
+
+      const { data: recurringData, error } = await sb.from("recurring_invoices").insert([
         {
           user_id: user.id,
           client_id: clientId,
           template_number: templateNumber,
           frequency,
           next_due_date: nextDueDate,
-          subtotal: Number(subtotal || 0),
-          tax: Number(tax || 0),
-          total,
+          payment_terms_days: Number(paymentTermsDays),
+          // Each generated invoice takes the exchange rate of the day it is generated
+          currency: templateCurrency,
+          // The totals are computed from the items by the database
+          ...toSavedDiscount(discount, templateCurrency),
           notes: notes || null,
+          auto_send: autoSend,
         },
-      ]);
+      ]).select();
       if (error) throw error;
+
+      const recurringInvoiceId = recurringData[0].id;
+      const { error: itemsError } = await sb.from("recurring_invoice_items").insert(
+        items.map((item, index) => ({
+          recurring_invoice_id: recurringInvoiceId,
+          position: index,
+          ...toSavedLineItem(item, templateCurrency),
+        }))
+      );
+
+      if (itemsError) {
+        // Attempt to clean up the created template if items fail to insert
+        await sb.from("recurring_invoices").delete().eq("id", recurringInvoiceId);
+        throw itemsError;
+      }
     },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["recurring-invoices", user?.id] });
@@ -90,9 +124,12 @@ const RecurringInvoices = () => {
       setClientId("");
       setFrequency("monthly");
       setNextDueDate("");
-      setSubtotal("");
-      setTax("");
+      setPaymentTermsDays("30");
+      setItems([{ description: "", quantity: 1, unit_price: "" }]);
+      setDiscount(noDiscount);
+      setCurrency("");
       setNotes("");
+      setAutoSend(false);
       toast.success("Recurring invoice template created");
     },
     onError: (e: any) => toast.error(e.message || "Failed to create recurring invoice"),
@@ -113,6 +150,21 @@ const RecurringInvoices = () => {
     onError: (e: any) => toast.error(e.message || "Failed to update recurring invoice"),
   });
 
+  const toggleAutoSend = useMutation({
+    mutationFn: async ({ id, autoSend }: { id: string; autoSend: boolean }) => {
+      const { error } = await sb
+        .from("recurring_invoices")
+        .update({ auto_send: !autoSend })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["recurring-invoices", user?.id] });
+      toast.success("Recurring invoice updated");
+    },
+    onError: (e: Error) => toast.error(e.message || "Failed to update recurring invoice"),
+  });
+
   const deleteRecurringInvoice = useMutation({
     mutationFn: async (id: string) => {
       const { error } = await sb
@@ -128,57 +180,13 @@ const RecurringInvoices = () => {
     onError: (e: any) => toast.error(e.message || "Failed to delete recurring invoice"),
   });
 
+  // Bills the template's next period now. The database advances the schedule and refuses to bill a period twice.
   const generateInvoice = useMutation({
     mutationFn: async (recurringInvoiceId: string) => {
-      const recurring = recurringInvoices.data?.find(r => r.id === recurringInvoiceId);
-      if (!recurring) throw new Error("Recurring invoice not found");
-
-      // Generate invoice number based on template
-      const invoiceNumber = `${recurring.template_number}-${Date.now()}`;
-      
-      const { error } = await sb.from("invoices").insert([
-        {
-          user_id: user!.id,
-          client_id: recurring.client_id,
-          number: invoiceNumber,
-          status: 'sent',
-          issue_date: new Date().toISOString().slice(0, 10),
-          subtotal: recurring.subtotal,
-          tax: recurring.tax,
-          total: recurring.total,
-          notes: recurring.notes,
-        },
-      ]);
+      const { error } = await sb.rpc("generate_recurring_invoice", {
+        p_recurring_invoice_id: recurringInvoiceId,
+      });
       if (error) throw error;
-
-      // Update next due date based on frequency
-      const currentDate = new Date();
-      let nextDate;
-      switch (recurring.frequency) {
-        case 'weekly':
-          nextDate = addWeeks(currentDate, 1);
-          break;
-        case 'monthly':
-          nextDate = addMonths(currentDate, 1);
-          break;
-        case 'quarterly':
-          nextDate = addMonths(currentDate, 3);
-          break;
-        case 'annually':
-          nextDate = addYears(currentDate, 1);
-          break;
-        default:
-          nextDate = addMonths(currentDate, 1);
-      }
-
-      const { error: updateError } = await sb
-        .from("recurring_invoices")
-        .update({ 
-          next_due_date: format(nextDate, 'yyyy-MM-dd'),
-          last_generated_date: format(currentDate, 'yyyy-MM-dd')
-        })
-        .eq("id", recurringInvoiceId);
-      if (updateError) throw updateError;
     },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["recurring-invoices", user?.id] });
@@ -261,26 +269,41 @@ const RecurringInvoices = () => {
                   onChange={(e) => setNextDueDate(e.target.value)} 
                   required
                 />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Monthly and longer schedules stay on this day of the month, or the last day of shorter months.
+                </p>
               </div>
               <div>
-                <Label htmlFor="subtotal">Subtotal</Label>
-                <Input 
-                  id="subtotal" 
-                  type="number" 
-                  step="0.01" 
-                  value={subtotal} 
-                  onChange={(e) => setSubtotal(e.target.value)} 
+                <Label htmlFor="payment_terms">Payment terms (days)</Label>
+                <Input
+                  id="payment_terms"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={paymentTermsDays}
+                  onChange={(e) => setPaymentTermsDays(e.target.value)}
+                  required
                 />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Generated invoices are due this many days after they are issued.
+                </p>
+              </div>
+              <div className="md:col-span-2 space-y-2">
+                <Label>Items</Label>
+                <LineItemsEditor items={items} onChange={setItems} currency={templateCurrency} />
+              </div>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="currency">Currency</Label>
+                  <CurrencySelect id="currency" value={templateCurrency} onValueChange={setCurrency} />
+                </div>
+                <div>
+                  <Label htmlFor="discount">Invoice discount</Label>
+                  <DiscountInput id="discount" discount={discount} onChange={setDiscount} currency={templateCurrency} />
+                </div>
               </div>
               <div>
-                <Label htmlFor="tax">Tax</Label>
-                <Input 
-                  id="tax" 
-                  type="number" 
-                  step="0.01" 
-                  value={tax} 
-                  onChange={(e) => setTax(e.target.value)} 
-                />
+                <LineItemsSummary totals={totals} totalLabel="Total per invoice" currency={templateCurrency} />
               </div>
               <div className="md:col-span-2">
                 <Label htmlFor="notes">Notes</Label>
@@ -292,6 +315,10 @@ const RecurringInvoices = () => {
                   rows={3}
                 />
               </div>
+              <div className="md:col-span-2 flex items-center gap-2">
+                <Switch id="auto_send" checked={autoSend} onCheckedChange={setAutoSend} />
+                <Label htmlFor="auto_send">Email generated invoices to the client automatically</Label>
+              </div>
               <div className="md:col-span-2">
                 <Button type="submit" disabled={addRecurringInvoice.isPending} className="flex items-center gap-2">
                   <Plus className="h-4 w-4" />
@@ -318,13 +345,14 @@ const RecurringInvoices = () => {
                   <TableHead>Last Generated</TableHead>
                   <TableHead>Total</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Auto-send</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {recurringInvoices.isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={8}>Loading…</TableCell>
+                    <TableCell colSpan={9}>Loading…</TableCell>
                   </TableRow>
                 ) : recurringInvoices.data && recurringInvoices.data.length > 0 ? (
                   recurringInvoices.data.map((recurring: any) => (
@@ -335,16 +363,16 @@ const RecurringInvoices = () => {
                       <TableCell>
                         <div className="flex items-center gap-1">
                           <Calendar className="h-3 w-3" />
-                          {format(new Date(recurring.next_due_date), 'MMM dd, yyyy')}
+                          {formatDate(recurring.next_due_date)}
                         </div>
                       </TableCell>
                       <TableCell>
                         {recurring.last_generated_date 
-                          ? format(new Date(recurring.last_generated_date), 'MMM dd, yyyy')
+                          ? formatDate(recurring.last_generated_date)
                           : "Never"
                         }
                       </TableCell>
-                      <TableCell>${Number(recurring.total).toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(recurring.total, recurring.currency)}</TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Switch
@@ -361,6 +389,17 @@ const RecurringInvoices = () => {
                           </span>
                         </div>
                       </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={recurring.auto_send}
+                          onCheckedChange={() =>
+                            toggleAutoSend.mutate({
+                              id: recurring.id,
+                              autoSend: recurring.auto_send
+                            })
+                          }
+                        />
+                      </TableCell>
                       <TableCell>
                         <div className="flex gap-2">
                           <Button 
@@ -371,6 +410,15 @@ const RecurringInvoices = () => {
                           >
                             Generate
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setItemsTemplate(recurring)}
+                            className="flex items-center gap-1"
+                          >
+                            <List className="h-3 w-3" />
+                            Items
+                          </Button>
                           <Button 
                             size="sm" 
                             variant="destructive"
@@ -384,7 +432,7 @@ const RecurringInvoices = () => {
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">
                       No recurring invoice templates yet. Create one to get started!
                     </TableCell>
                   </TableRow>
@@ -393,6 +441,12 @@ const RecurringInvoices = () => {
             </Table>
           </CardContent>
         </Card>
+
+        <RecurringItemsDialog
+          template={itemsTemplate}
+          isOpen={!!itemsTemplate}
+          onClose={() => setItemsTemplate(null)}
+        />
       </div>
     </ProFeatureGate>
   );
@@ -8,11 +8,17 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { DollarSign, FileText, Users, Clock, TrendingUp, TrendingDown, Calendar } from "lucide-react";
-import { format, subDays, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
+import { subDays, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
+import { useBaseCurrency, useExchangeRates } from "@/hooks/useExchangeRates";
+import { toBaseCurrency } from "@/lib/currency";
+import { useFormatters } from "@/hooks/useFormatters";
 
 const Reports = () => {
   const { user } = useAuth();
   const [dateRange, setDateRange] = useState("this_month");
+  const baseCurrency = useBaseCurrency();
+  const { data: exchangeRates } = useExchangeRates();
+  const { formatMoney, formatDate } = useFormatters();
 
   // Get date range based on selection
   const getDateRange = (range: string) => {
@@ -77,28 +83,28 @@ const Reports = () => {
     enabled: !!user?.id,
   });
 
-  // Calculate metrics
-  const totalRevenue = dashboardData?.invoices.reduce((sum, inv) => {
-    return inv.status === 'paid' ? sum + inv.total : sum;
-  }, 0) || 0;
+  // Calculate metrics, in the base currency at each document's exchange rate
+  const totalRevenue = dashboardData?.invoices.reduce((sum, inv) => sum + toBaseCurrency(inv.amount_paid, inv, baseCurrency, exchangeRates), 0) || 0;
 
   const outstandingInvoices = dashboardData?.invoices.reduce((sum, inv) => {
-    return inv.status === 'sent' || inv.status === 'overdue' ? sum + inv.total : sum;
+    return inv.status === 'sent' || inv.status === 'partially_paid' || inv.status === 'overdue'
+      ? sum + toBaseCurrency(inv.balance_due, inv, baseCurrency, exchangeRates)
+      : sum;
   }, 0) || 0;
 
-  const totalQuotes = dashboardData?.quotes.reduce((sum, quote) => sum + quote.total, 0) || 0;
+  const totalQuotes = dashboardData?.quotes.reduce((sum, quote) => sum + toBaseCurrency(quote.total, quote, baseCurrency, exchangeRates), 0) || 0;
   const approvedQuotes = dashboardData?.quotes.filter(q => q.status === 'approved').length || 0;
   const totalHours = dashboardData?.timeEntries.reduce((sum, entry) => sum + entry.hours_worked, 0) || 0;
   const billableHours = dashboardData?.timeEntries.reduce((sum, entry) => {
     return entry.is_billable ? sum + entry.hours_worked : sum;
   }, 0) || 0;
-  const totalExpenses = dashboardData?.expenses.reduce((sum, exp) => sum + exp.amount, 0) || 0;
+  const totalExpenses = dashboardData?.expenses.reduce((sum, exp) => sum + toBaseCurrency(exp.amount, exp, baseCurrency, exchangeRates), 0) || 0;
 
   // Top clients by revenue
   const clientRevenue = dashboardData?.invoices.reduce((acc, inv) => {
-    if (inv.status === 'paid' && inv.client) {
+    if (inv.amount_paid > 0 && inv.client) {
       const clientName = inv.client.name;
-      acc[clientName] = (acc[clientName] || 0) + inv.total;
+      acc[clientName] = (acc[clientName] || 0) + toBaseCurrency(inv.amount_paid, inv, baseCurrency, exchangeRates);
     }
     return acc;
   }, {} as Record<string, number>) || {};
@@ -119,6 +125,7 @@ const Reports = () => {
       type: 'invoice',
       description: `Invoice ${inv.number} for ${inv.client?.name}`,
       amount: inv.total,
+      currency: inv.currency,
       date: inv.created_at,
       status: inv.status
     })) || []),
@@ -126,6 +133,7 @@ const Reports = () => {
       type: 'quote',
       description: `Quote ${quote.quote_number}`,
       amount: quote.total,
+      currency: quote.currency,
       date: quote.created_at,
       status: quote.status
     })) || [])
@@ -155,8 +163,8 @@ const Reports = () => {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${totalRevenue.toFixed(2)}</div>
-            <p className="text-xs text-muted-foreground">From paid invoices</p>
+            <div className="text-2xl font-bold">{formatMoney(totalRevenue, baseCurrency)}</div>
+            <p className="text-xs text-muted-foreground">From invoice payments</p>
           </CardContent>
         </Card>
 
@@ -166,7 +174,7 @@ const Reports = () => {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${outstandingInvoices.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(outstandingInvoices, baseCurrency)}</div>
             <p className="text-xs text-muted-foreground">Pending payments</p>
           </CardContent>
         </Card>
@@ -219,7 +227,7 @@ const Reports = () => {
             <TrendingDown className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${totalExpenses.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(totalExpenses, baseCurrency)}</div>
             <p className="text-xs text-muted-foreground">Business expenses</p>
           </CardContent>
         </Card>
@@ -230,7 +238,7 @@ const Reports = () => {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${(totalRevenue - totalExpenses).toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(totalRevenue - totalExpenses, baseCurrency)}</div>
             <p className="text-xs text-muted-foreground">Revenue minus expenses</p>
           </CardContent>
         </Card>
@@ -257,7 +265,7 @@ const Reports = () => {
                       <TableCell className="font-medium">
                         #{index + 1} {client}
                       </TableCell>
-                      <TableCell className="text-right">${revenue.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(revenue, baseCurrency)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -280,7 +288,7 @@ const Reports = () => {
                   <div key={status} className="flex items-center justify-between">
                     <div className="flex items-center gap-2">
                       <Badge variant="outline" className="capitalize">
-                        {status}
+                        {status.replace('_', ' ')}
                       </Badge>
                       <span className="text-sm text-muted-foreground">
                         {count} invoice{count !== 1 ? 's' : ''}
@@ -325,13 +333,13 @@ const Reports = () => {
                       </Badge>
                     </TableCell>
                     <TableCell>{activity.description}</TableCell>
-                    <TableCell>${activity.amount.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(activity.amount, activity.currency)}</TableCell>
                     <TableCell>
                       <Badge variant="secondary" className="capitalize">
                         {activity.status}
                       </Badge>
                     </TableCell>
-                    <TableCell>{format(new Date(activity.date), 'MMM dd, yyyy')}</TableCell>
+                    <TableCell>{formatDate(activity.date)}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -6,8 +6,15 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
+import StripeConnectSettings from "@/components/StripeConnectSettings";
+import EmailSenderSettings from "@/components/EmailSenderSettings";
+import NumberingSettings from "@/components/NumberingSettings";
+import TaxRatesSettings from "@/components/TaxRatesSettings";
+import ExchangeRatesSettings from "@/components/ExchangeRatesSettings";
+import { CurrencySelect } from "@/components/CurrencySelect";
+import { LocaleSelect } from "@/components/LocaleSelect";
+import { DEFAULT_LOCALE } from "@shared/formatting";
 
 const sb = supabase as any;
 
@@ -19,6 +26,7 @@ const Settings = () => {
   const [companyName, setCompanyName] = useState("");
   const [address, setAddress] = useState("");
   const [currency, setCurrency] = useState("USD");
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
 
   const settings = useQuery({
     queryKey: ["user-settings", user?.id],
@@ -40,6 +48,7 @@ const Settings = () => {
       setCompanyName(settings.data.company_name || "");
       setAddress(settings.data.address || "");
       setCurrency(settings.data.currency || "USD");
+      setLocale(settings.data.locale || DEFAULT_LOCALE);
     }
   }, [settings.data]);
 
@@ -52,18 +61,22 @@ const Settings = () => {
         company_name: companyName || null,
         address: address || null,
         currency,
+        locale,
       });
       if (error) throw error;
     },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["user-settings", user?.id] });
+      qc.invalidateQueries({ queryKey: ["base-currency", user?.id] });
+      qc.invalidateQueries({ queryKey: ["exchange-rates", user?.id] });
+      qc.invalidateQueries({ queryKey: ["locale", user?.id] });
       toast.success("Settings saved");
     },
     onError: (e: any) => toast.error(e.message || "Failed to save settings"),
   });
 
   return (
-    <section>
+    <section className="space-y-6">
       <Card>
         <CardHeader>
           <CardTitle>Account & Company Settings</CardTitle>
@@ -89,18 +102,19 @@ const Settings = () => {
               <Input id="addr" value={address} onChange={(e) => setAddress(e.target.value)} />
             </div>
             <div>
-              <Label>Currency</Label>
-              <Select value={currency} onValueChange={setCurrency}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select currency" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="USD">USD</SelectItem>
-                  <SelectItem value="EUR">EUR</SelectItem>
-                  <SelectItem value="GBP">GBP</SelectItem>
-                  <SelectItem value="JPY">JPY</SelectItem>
-                </SelectContent>
-              </Select>
+              <Label htmlFor="currency">Base currency</Label>
+              <CurrencySelect id="currency" value={currency} onValueChange={setCurrency} />
+              <p className="text-xs text-muted-foreground mt-1">
+                New documents are in this currency and reports are shown in it. Changing it needs an exchange
+                rate for the new currency first; the other rates are then restated against it.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="locale">Locale</Label>
+              <LocaleSelect id="locale" value={locale} onValueChange={setLocale} />
+              <p className="text-xs text-muted-foreground mt-1">
+                How amounts and dates are written, here and on documents for clients without their own.
+              </p>
             </div>
             <div className="md:col-span-2">
               <Button type="submit" disabled={save.isPending}>Save Settings</Button>
@@ -108,6 +122,16 @@ const Settings = () => {
           </form>
         </CardContent>
       </Card>
+
+      <NumberingSettings />
+
+      <TaxRatesSettings />
+
+      <ExchangeRatesSettings />
+
+      <EmailSenderSettings />
+
+      <StripeConnectSettings />
     </section>
   );
 };
@@ -13,10 +13,16 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { Play, Square, Clock, DollarSign, FileText } from "lucide-react";
-import { format } from "date-fns";
+import { useBaseCurrency } from "@/hooks/useExchangeRates";
+import { amountStep } from "@/lib/currency";
+import { toMinorUnits } from "@shared/formatting";
+import { useFormatters } from "@/hooks/useFormatters";
 
 const TimeTracking = () => {
   const { user } = useAuth();
+  // Hourly rates are in the base currency
+  const baseCurrency = useBaseCurrency();
+  const { formatMoney, formatDate, formatTime } = useFormatters();
   const queryClient = useQueryClient();
 
   const [clientId, setClientId] = useState("");
@@ -78,8 +84,6 @@ const TimeTracking = () => {
 
   const addTimeEntry = useMutation({
     mutationFn: async (timeData: any) => {
-      const totalAmount = parseFloat(hoursWorked) * parseFloat(hourlyRate);
-      
       const { error } = await supabase
         .from("time_entries")
         .insert({
@@ -88,8 +92,8 @@ const TimeTracking = () => {
           project_name: projectName || null,
           description,
           hours_worked: parseFloat(hoursWorked),
-          hourly_rate: parseFloat(hourlyRate),
-          total_amount: totalAmount,
+          // In the base currency; the total is computed from the hours and the rate
+          hourly_rate: toMinorUnits(hourlyRate, baseCurrency),
           date,
           is_billable: isBillable,
         });
@@ -186,7 +190,7 @@ const TimeTracking = () => {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${totalUnbilledAmount.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(totalUnbilledAmount, baseCurrency)}</div>
           </CardContent>
         </Card>
         <Card>
@@ -198,7 +202,7 @@ const TimeTracking = () => {
             <div className="text-2xl font-bold">{isTracking ? "Running" : "Stopped"}</div>
             {isTracking && startTime && (
               <div className="text-sm text-muted-foreground">
-                Started: {format(startTime, 'HH:mm')}
+                Started: {formatTime(startTime)}
               </div>
             )}
           </CardContent>
@@ -273,11 +277,11 @@ const TimeTracking = () => {
               </div>
             </div>
             <div>
-              <Label htmlFor="hourlyRate">Hourly Rate</Label>
+              <Label htmlFor="hourlyRate">Hourly Rate ({baseCurrency})</Label>
               <Input
                 id="hourlyRate"
                 type="number"
-                step="0.01"
+                step={amountStep(baseCurrency)}
                 value={hourlyRate}
                 onChange={(e) => setHourlyRate(e.target.value)}
                 placeholder="0.00"
@@ -309,7 +313,7 @@ const TimeTracking = () => {
           <div>
             <Label>Total Amount</Label>
             <Input
-              value={`$${((parseFloat(hoursWorked) || 0) * (parseFloat(hourlyRate) || 0)).toFixed(2)}`}
+              value={formatMoney((parseFloat(hoursWorked) || 0) * toMinorUnits(hourlyRate, baseCurrency), baseCurrency)}
               readOnly
               className="bg-gray-50"
             />
@@ -352,13 +356,13 @@ const TimeTracking = () => {
               <TableBody>
                 {timeEntries?.map((entry) => (
                   <TableRow key={entry.id}>
-                    <TableCell>{format(new Date(entry.date), 'MMM dd, yyyy')}</TableCell>
+                    <TableCell>{formatDate(entry.date)}</TableCell>
                     <TableCell>{entry.client?.name || '-'}</TableCell>
                     <TableCell>{entry.project_name || '-'}</TableCell>
                     <TableCell className="max-w-xs truncate">{entry.description}</TableCell>
                     <TableCell>{entry.hours_worked}</TableCell>
-                    <TableCell>${entry.hourly_rate}</TableCell>
-                    <TableCell>${entry.total_amount?.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(entry.hourly_rate, baseCurrency)}</TableCell>
+                    <TableCell>{formatMoney(entry.total_amount, baseCurrency)}</TableCell>
                     <TableCell>
                       <div className="flex gap-1">
                         {entry.is_billable && (
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { authorizeInvoice } from './auth.ts';
+
+type Row = Record<string, unknown>;
+
+const owner = { id: 'owner-id', email: 'owner@example.com' };
+const customer = { id: 'customer-id', email: 'customer@example.com' };
+const stranger = { id: 'stranger-id', email: 'stranger@example.com' };
+const formerCustomer = { id: 'former-customer-id', email: 'former@example.com' };
+
+const tables: Record<string, Row[]> = {
+  invoices: [
+    { id: 'invoice-id', user_id: owner.id, client_id: 'client-id', status: 'sent' },
+    { id: 'draft-invoice-id', user_id: owner.id, client_id: 'client-id', status: 'draft' },
+  ],
+  customer_users: [
+    { id: 'customer-user-id', client_id: 'client-id', user_id: customer.id, is_active: true },
+    { id: 'former-customer-user-id', client_id: 'client-id', user_id: formerCustomer.id, is_active: false },
+  ],
+};
+
+// Bearer tokens and the users they belong to
+const users: Record<string, Row> = {
+  'owner-token': owner,
+  'customer-token': customer,
+  'stranger-token': stranger,
+  'former-customer-token': formerCustomer,
+};
+
+/**
+ * A local stand-in for the service-role client, with just what auth.ts uses: auth.getUser
+ * and from(table).select().eq().maybeSingle() over the rows above.
+ */
+function createSupabaseStandIn() {
+  return {
+    auth: {
+      getUser: async (token: string) =>
+        users[token]
+          ? { data: { user: users[token] }, error: null }
+          : { data: { user: null }, error: { message: 'Invalid JWT' } },
+    },
+    from: (table: string) => {
+      const filters: [string, unknown][] = [];
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return query;
+        },
+        maybeSingle: async () => ({
+          data: (tables[table] ?? []).find((row) => filters.every(([column, value]) => row[column] === value)) ?? null,
+          error: null,
+        }),
+      };
+      return query;
+    },
+  } as unknown as Parameters<typeof authorizeInvoice>[0];
+}
+
+function request(token?: string) {
+  return new Request('http://localhost/functions/v1/generate-invoice-pdf', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('authorizeInvoice', () => {
+  const supabase = createSupabaseStandIn();
+
+  it('lets the owner in', async () => {
+    const access = await authorizeInvoice(supabase, request('owner-token'), 'invoice-id', ['owner']);
+
+    expect(access).toEqual({ user: owner, role: 'owner' });
+  });
+
+  it('lets an active portal user of the invoice client in when customers are allowed', async () => {
+    const access = await authorizeInvoice(supabase, request('customer-token'), 'invoice-id', ['owner', 'customer']);
+
+    expect(access).toEqual({ user: customer, role: 'customer' });
+  });
+
+  it('keeps portal users out when only the owner is allowed', async () => {
+    const access = await authorizeInvoice(supabase, request('customer-token'), 'invoice-id', ['owner']);
+
+    expect(access).toEqual({ status: 403, error: 'You do not have access to this invoice' });
+  });
+
+  it('keeps portal users away from drafts', async () => {
+    const access = await authorizeInvoice(supabase, request('customer-token'), 'draft-invoice-id', ['owner', 'customer']);
+
+    expect(access).toEqual({ status: 403, error: 'You do not have access to this invoice' });
+  });
+
+  it('lets the owner see their drafts', async () => {
+    const access = await authorizeInvoice(supabase, request('owner-token'), 'draft-invoice-id', ['owner', 'customer']);
+
+    expect(access).toEqual({ user: owner, role: 'owner' });
+  });
+
+  it('keeps inactive portal users out', async () => {
+    const access = await authorizeInvoice(supabase, request('former-customer-token'), 'invoice-id', ['owner', 'customer']);
+
+    expect(access).toEqual({ status: 403, error: 'You do not have access to this invoice' });
+  });
+
+  it('rejects requests without a token with 401', async () => {
+    const access = await authorizeInvoice(supabase, request(), 'invoice-id', ['owner', 'customer']);
+
+    expect(access).toEqual({ status: 401, error: 'Failed to authenticate user' });
+  });
+
+  it('rejects requests with an unknown token with 401', async () => {
+    const access = await authorizeInvoice(supabase, request('expired-token'), 'invoice-id', ['owner', 'customer']);
+
+    expect(access).toEqual({ status: 401, error: 'Failed to authenticate user' });
+  });
+
+  it('rejects another user with 403', async () => {
+    const access = await authorizeInvoice(supabase, request('stranger-token'), 'invoice-id', ['owner', 'customer']);
+
+    expect(access).toEqual({ status: 403, error: 'You do not have access to this invoice' });
+  });
+
+  it('rejects a missing invoice with 404', async () => {
+    const access = await authorizeInvoice(supabase, request('owner-token'), 'missing-invoice-id', ['owner']);
+
+    expect(access).toEqual({ status: 404, error: 'Invoice not found' });
+  });
+
+  it('rejects a request without an invoice id with 400', async () => {
+    const access = await authorizeInvoice(supabase, request('owner-token'), undefined, ['owner']);
+
+    expect(access).toEqual({ status: 400, error: 'Expected parameter invoiceId to be a string' });
+  });
+});
@@ -0,0 +1,95 @@
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+export type InvoiceRole = 'owner' | 'customer';
+
+export interface InvoiceAccess {
+  user: User;
+  role: InvoiceRole;
+}
+
+export interface AccessDenied {
+  status: 400 | 401 | 403 | 404 | 500;
+  error: string;
+}
+
+/**
+ * Resolves the caller from the request's bearer token. Functions use the service-role
+ * client, so this is the only thing tying a request to a user.
+ */
+export async function getRequestUser(supabase: SupabaseClient, req: Request): Promise<User | null> {
+  const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+
+  if (!token) {
+    return null;
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return null;
+  }
+
+  return user;
+}
+
+/**
+ * Checks that the caller owns the invoice, or (when customers are in `roles`) is an
+ * active portal user of the invoice's client. Customers never see drafts, which have not
+ * been issued to them yet.
+ */
+export async function authorizeInvoice(
+  supabase: SupabaseClient,
+  req: Request,
+  invoiceId: unknown,
+  roles: InvoiceRole[],
+): Promise<InvoiceAccess | AccessDenied> {
+  if (typeof invoiceId !== 'string' || !invoiceId) {
+    return { status: 400, error: 'Expected parameter invoiceId to be a string' };
+  }
+
+  const user = await getRequestUser(supabase, req);
+
+  if (!user) {
+    return { status: 401, error: 'Failed to authenticate user' };
+  }
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('user_id, client_id, status')
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (invoiceError) {
+    console.error('Failed to fetch invoice from the database', invoiceError);
+    return { status: 500, error: 'Failed to fetch invoice' };
+  }
+
+  if (!invoice) {
+    return { status: 404, error: 'Invoice not found' };
+  }
+
+  if (roles.includes('owner') && invoice.user_id === user.id) {
+    return { user, role: 'owner' };
+  }
+
+  if (roles.includes('customer') && invoice.status !== 'draft') {
+    const { data: customerUser, error: customerError } = await supabase
+      .from('customer_users')
+      .select('id')
+      .eq('client_id', invoice.client_id)
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (customerError) {
+      console.error('Failed to fetch customer portal access from the database', customerError);
+      return { status: 500, error: 'Failed to verify portal access' };
+    }
+
+    if (customerUser) {
+      return { user, role: 'customer' };
+    }
+  }
+
+  return { status: 403, error: 'You do not have access to this invoice' };
+}
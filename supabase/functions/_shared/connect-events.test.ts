@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { processConnectEvent } from './connect-events.ts';
+
+type Row = Record<string, unknown>;
+
+const accountId = 'acct_owner';
+
+function createTables(): Record<string, Row[]> {
+  return {
+    stripe_webhook_events: [],
+    stripe_connect_accounts: [{ stripe_account_id: accountId, user_id: 'owner-id' }],
+    invoices: [
+      { id: 'invoice-id', user_id: 'owner-id' },
+      { id: 'other-invoice-id', user_id: 'other-owner-id' },
+    ],
+    payments: [],
+    refunds: [],
+    disputes: [],
+  };
+}
+
+/**
+ * A local stand-in for the service-role client, with just what connect-events.ts uses:
+ * select, update, upsert and delete with eq filters over the tables above. Writes to the
+ * tables in `failing` return an error, like a constraint violation would.
+ */
+function createSupabaseStandIn(tables: Record<string, Row[]>, failing = new Set<string>()) {
+  return {
+    from: (table: string) => {
+      const rows = tables[table];
+      const filters: [string, unknown][] = [];
+      const matches = (row: Row) => filters.every(([column, value]) => row[column] === value);
+      let write = false;
+      let run = () => rows.filter(matches);
+
+      const result = () =>
+        write && failing.has(table) ? { data: null, error: { message: `${table} rejected the write` } } : { data: run(), error: null };
+
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return query;
+        },
+        update: (values: Row) => {
+          write = true;
+          run = () => rows.filter(matches).map((row) => Object.assign(row, values));
+          return query;
+        },
+        upsert: (values: Row | Row[], { onConflict, ignoreDuplicates = false }: { onConflict: string; ignoreDuplicates?: boolean }) => {
+          write = true;
+          run = () =>
+            [values].flat().flatMap((value) => {
+              const existing = rows.find((row) => row[onConflict] === value[onConflict]);
+
+              if (!existing) {
+                rows.push({ ...value });
+                return [value];
+              }
+
+              return ignoreDuplicates ? [] : [Object.assign(existing, value)];
+            });
+          return query;
+        },
+        delete: () => {
+          write = true;
+          run = () => rows.filter(matches).map((row) => rows.splice(rows.indexOf(row), 1)[0]);
+          return query;
+        },
+        maybeSingle: async () => {
+          const { data, error } = result();
+          return { data: data?.[0] ?? null, error };
+        },
+        then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve(result()).then(resolve, reject),
+      };
+      return query;
+    },
+  } as unknown as Parameters<typeof processConnectEvent>[0];
+}
+
+// The charges and refunds on the connected account, as the Stripe API returns them
+const charges: Record<string, Row> = {
+  ch_paid: { id: 'ch_paid', payment_intent: 'pi_paid', metadata: { invoice_id: 'invoice-id' } },
+};
+
+function createStripeStandIn(refunds: Row[] = []) {
+  return {
+    paymentIntents: {
+      retrieve: async (id: string) => ({ id, metadata: { invoice_id: 'invoice-id' } }),
+    },
+    charges: {
+      retrieve: async (id: string) => charges[id],
+    },
+    refunds: {
+      list: async ({ charge }: { charge: string }) => ({ data: refunds.filter((refund) => refund.charge === charge) }),
+    },
+  } as unknown as Parameters<typeof processConnectEvent>[1];
+}
+
+function connectEvent(id: string, type: string, object: Row) {
+  return { id, type, account: accountId, data: { object } } as unknown as Parameters<typeof processConnectEvent>[2];
+}
+
+const paymentIntent = {
+  id: 'pi_paid',
+  amount_received: 12000,
+  currency: 'usd',
+  created: Date.UTC(2026, 9, 18) / 1000,
+  latest_charge: 'ch_paid',
+  metadata: { invoice_id: 'invoice-id' },
+};
+
+const refund = (id: string, amount: number, status: string) => ({
+  id,
+  amount,
+  currency: 'usd',
+  status,
+  reason: 'requested_by_customer',
+  charge: 'ch_paid',
+});
+
+const dispute = {
+  id: 'dp_1',
+  amount: 12000,
+  currency: 'usd',
+  reason: 'fraudulent',
+  status: 'needs_response',
+  charge: 'ch_paid',
+  payment_intent: 'pi_paid',
+  evidence_details: { due_by: Date.UTC(2026, 9, 28) / 1000 },
+};
+
+describe('processConnectEvent', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records a payment on the invoice once, however often the event is delivered', async () => {
+    const tables = createTables();
+    const supabase = createSupabaseStandIn(tables);
+    const stripe = createStripeStandIn();
+    const event = connectEvent('evt_paid', 'payment_intent.succeeded', paymentIntent);
+
+    await processConnectEvent(supabase, stripe, event);
+    await processConnectEvent(supabase, stripe, event);
+
+    expect(tables.stripe_webhook_events).toEqual([{ id: 'evt_paid', type: 'payment_intent.succeeded', account_id: accountId }]);
+    expect(tables.payments).toEqual([
+      {
+        user_id: 'owner-id',
+        invoice_id: 'invoice-id',
+        amount: 12000,
+        method: 'card',
+        payment_date: '2026-10-18',
+        reference: 'pi_paid',
+        stripe_payment_intent_id: 'pi_paid',
+        stripe_charge_id: 'ch_paid',
+      },
+    ]);
+  });
+
+  it('records a payment intent once even when it arrives in two events', async () => {
+    const tables = createTables();
+    const supabase = createSupabaseStandIn(tables);
+    const stripe = createStripeStandIn();
+
+    await processConnectEvent(supabase, stripe, connectEvent('evt_paid', 'payment_intent.succeeded', paymentIntent));
+    await processConnectEvent(supabase, stripe, connectEvent('evt_paid_again', 'payment_intent.succeeded', paymentIntent));
+
+    expect(tables.stripe_webhook_events).toHaveLength(2);
+    expect(tables.payments).toHaveLength(1);
+  });
+
+  it('ignores invoices of other accounts', async () => {
+    const tables = createTables();
+    const supabase = createSupabaseStandIn(tables);
+    const event = connectEvent('evt_paid', 'payment_intent.succeeded', {
+      ...paymentIntent,
+      metadata: { invoice_id: 'other-invoice-id' },
+    });
+
+    await processConnectEvent(supabase, createStripeStandIn(), event);
+
+    expect(tables.payments).toEqual([]);
+  });
+
+  it('releases the event when handling it fails, so that the retry is processed', async () => {
+    const tables = createTables();
+    const stripe = createStripeStandIn([refund('re_1', 5000, 'succeeded')]);
+    const event = connectEvent('evt_refunded', 'charge.refunded', charges.ch_paid);
+
+    await expect(processConnectEvent(createSupabaseStandIn(tables, new Set(['refunds'])), stripe, event)).rejects.toThrow(
+      'Failed to record invoice refunds',
+    );
+    expect(tables.stripe_webhook_events).toEqual([]);
+
+    await processConnectEvent(createSupabaseStandIn(tables), stripe, event);
+
+    expect(tables.stripe_webhook_events).toEqual([{ id: 'evt_refunded', type: 'charge.refunded', account_id: accountId }]);
+    expect(tables.refunds).toHaveLength(1);
+  });
+
+  it('upserts refunds by their Stripe id', async () => {
+    const tables = createTables();
+    tables.payments.push({ id: 'payment-id', stripe_payment_intent_id: 'pi_paid' });
+    const supabase = createSupabaseStandIn(tables);
+
+    await processConnectEvent(
+      supabase,
+      createStripeStandIn([refund('re_1', 5000, 'pending')]),
+      connectEvent('evt_refunded', 'charge.refunded', charges.ch_paid),
+    );
+    await processConnectEvent(
+      supabase,
+      createStripeStandIn([refund('re_1', 5000, 'succeeded'), refund('re_2', 2500, 'succeeded')]),
+      connectEvent('evt_refunded_again', 'charge.refunded', charges.ch_paid),
+    );
+
+    expect(tables.refunds).toEqual([
+      {
+        user_id: 'owner-id',
+        invoice_id: 'invoice-id',
+        payment_id: 'payment-id',
+        amount: 5000,
+        reason: 'requested_by_customer',
+        status: 'succeeded',
+        stripe_refund_id: 're_1',
+        stripe_charge_id: 'ch_paid',
+      },
+      {
+        user_id: 'owner-id',
+        invoice_id: 'invoice-id',
+        payment_id: 'payment-id',
+        amount: 2500,
+        reason: 'requested_by_customer',
+        status: 'succeeded',
+        stripe_refund_id: 're_2',
+        stripe_charge_id: 'ch_paid',
+      },
+    ]);
+  });
+
+  it('upserts disputes by their Stripe id', async () => {
+    const tables = createTables();
+    tables.payments.push({ id: 'payment-id', stripe_payment_intent_id: 'pi_paid' });
+    const supabase = createSupabaseStandIn(tables);
+    const stripe = createStripeStandIn();
+
+    await processConnectEvent(supabase, stripe, connectEvent('evt_disputed', 'charge.dispute.created', dispute));
+    await processConnectEvent(
+      supabase,
+      stripe,
+      connectEvent('evt_disputed_again', 'charge.dispute.created', { ...dispute, status: 'under_review' }),
+    );
+
+    expect(tables.disputes).toEqual([
+      {
+        user_id: 'owner-id',
+        invoice_id: 'invoice-id',
+        payment_id: 'payment-id',
+        amount: 12000,
+        reason: 'fraudulent',
+        status: 'under_review',
+        evidence_due_by: '2026-10-28T00:00:00.000Z',
+        stripe_dispute_id: 'dp_1',
+        stripe_charge_id: 'ch_paid',
+      },
+    ]);
+  });
+});
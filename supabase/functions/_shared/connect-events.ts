@@ -0,0 +1,300 @@
+import type Stripe from 'npm:stripe@17.7.0';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { connectAccountStatus } from './connect.ts';
+import { fromStripeAmount } from './currency.ts';
+
+/**
+ * Handles an event from a connected account for stripe-webhook. Connect events are
+ * processed at most once. The event id is claimed before handling and released again on
+ * failure, so that Stripe's retry is processed.
+ */
+export async function processConnectEvent(supabase: SupabaseClient, stripe: Stripe, event: Stripe.Event) {
+  const { data: claimed, error: claimError } = await supabase
+    .from('stripe_webhook_events')
+    .upsert(
+      {
+        id: event.id,
+        type: event.type,
+        account_id: event.account,
+      },
+      {
+        onConflict: 'id',
+        ignoreDuplicates: true,
+      },
+    )
+    .select('id');
+
+  if (claimError) {
+    console.error('Error recording webhook event:', claimError);
+    throw new Error('Failed to record webhook event');
+  }
+
+  if (!claimed?.length) {
+    console.info(`Skipping already processed event ${event.id}`);
+    return;
+  }
+
+  try {
+    await handleConnectEvent(supabase, stripe, event);
+  } catch (error) {
+    const { error: releaseError } = await supabase.from('stripe_webhook_events').delete().eq('id', event.id);
+
+    if (releaseError) {
+      console.error(`Error releasing webhook event ${event.id}:`, releaseError);
+    }
+
+    throw error;
+  }
+}
+
+async function handleConnectEvent(supabase: SupabaseClient, stripe: Stripe, event: Stripe.Event) {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      await recordInvoicePayment(supabase, event.account!, event.data.object as Stripe.PaymentIntent);
+      break;
+    case 'charge.refunded':
+      await recordInvoiceRefunds(supabase, stripe, event.account!, event.data.object as Stripe.Charge);
+      break;
+    case 'charge.dispute.created':
+      await recordInvoiceDispute(supabase, stripe, event.account!, event.data.object as Stripe.Dispute);
+      break;
+    case 'account.updated':
+      await syncConnectAccount(supabase, event.data.object as Stripe.Account);
+      break;
+    default:
+      console.info(`Ignoring connected account event ${event.type} for account ${event.account}`);
+  }
+}
+
+async function syncConnectAccount(supabase: SupabaseClient, account: Stripe.Account) {
+  const { error } = await supabase
+    .from('stripe_connect_accounts')
+    .update(connectAccountStatus(account))
+    .eq('stripe_account_id', account.id);
+
+  if (error) {
+    console.error('Error syncing connected account:', error);
+    throw new Error('Failed to sync connected account');
+  }
+
+  console.info(`Synced verification state for connected account ${account.id}`);
+}
+
+function stripeId(value: string | { id: string } | null | undefined): string | null {
+  return typeof value === 'string' ? value : value?.id ?? null;
+}
+
+/**
+ * Look up the invoice referenced by an event's metadata. The invoice must belong to
+ * the owner of the connected account the event came from.
+ */
+async function findConnectInvoice(supabase: SupabaseClient, accountId: string, invoiceId: string) {
+  const { data: connectAccount, error: accountError } = await supabase
+    .from('stripe_connect_accounts')
+    .select('user_id')
+    .eq('stripe_account_id', accountId)
+    .maybeSingle();
+
+  if (accountError) {
+    console.error('Error fetching connected account:', accountError);
+    throw new Error('Failed to fetch connected account');
+  }
+
+  if (!connectAccount?.user_id) {
+    console.error(`No connected account found for ${accountId}`);
+    return null;
+  }
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('id, user_id')
+    .eq('id', invoiceId)
+    .eq('user_id', connectAccount.user_id)
+    .maybeSingle();
+
+  if (invoiceError) {
+    console.error('Error fetching invoice:', invoiceError);
+    throw new Error('Failed to fetch invoice');
+  }
+
+  if (!invoice) {
+    console.error(`Invoice ${invoiceId} does not belong to connected account ${accountId}`);
+  }
+
+  return invoice;
+}
+
+/**
+ * Charges don't always carry the payment intent's metadata, so fall back to the
+ * payment intent created by invoice-checkout.
+ */
+async function invoiceIdForCharge(stripe: Stripe, accountId: string, charge: Stripe.Charge): Promise<string | null> {
+  if (charge.metadata?.invoice_id) {
+    return charge.metadata.invoice_id;
+  }
+
+  const paymentIntentId = stripeId(charge.payment_intent);
+
+  if (!paymentIntentId) {
+    return null;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId, { stripeAccount: accountId });
+
+  return paymentIntent.metadata?.invoice_id ?? null;
+}
+
+async function findPaymentId(supabase: SupabaseClient, paymentIntentId: string | null): Promise<string | null> {
+  if (!paymentIntentId) {
+    return null;
+  }
+
+  const { data: payment, error } = await supabase
+    .from('payments')
+    .select('id')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching payment:', error);
+    throw new Error('Failed to fetch payment');
+  }
+
+  return payment?.id ?? null;
+}
+
+async function recordInvoicePayment(supabase: SupabaseClient, accountId: string, paymentIntent: Stripe.PaymentIntent) {
+  const invoiceId = paymentIntent.metadata?.invoice_id;
+
+  if (!invoiceId) {
+    console.info(`Payment intent ${paymentIntent.id} is not linked to an invoice`);
+    return;
+  }
+
+  const invoice = await findConnectInvoice(supabase, accountId, invoiceId);
+
+  if (!invoice) {
+    return;
+  }
+
+  // The invoice status follows from the ledger (paid or partially_paid), and the
+  // unique payment intent id makes a payment recorded twice a no-op
+  const { error: paymentError } = await supabase.from('payments').upsert(
+    {
+      user_id: invoice.user_id,
+      invoice_id: invoice.id,
+      amount: fromStripeAmount(paymentIntent.amount_received, paymentIntent.currency),
+      method: 'card',
+      payment_date: new Date(paymentIntent.created * 1000).toISOString().slice(0, 10),
+      reference: paymentIntent.id,
+      stripe_payment_intent_id: paymentIntent.id,
+      stripe_charge_id: stripeId(paymentIntent.latest_charge),
+    },
+    {
+      onConflict: 'stripe_payment_intent_id',
+      ignoreDuplicates: true,
+    },
+  );
+
+  if (paymentError) {
+    console.error('Error recording invoice payment:', paymentError);
+    throw new Error('Failed to record invoice payment');
+  }
+
+  console.info(`Recorded payment for invoice ${invoice.id} from payment intent ${paymentIntent.id}`);
+}
+
+async function recordInvoiceRefunds(supabase: SupabaseClient, stripe: Stripe, accountId: string, charge: Stripe.Charge) {
+  const invoiceId = await invoiceIdForCharge(stripe, accountId, charge);
+
+  if (!invoiceId) {
+    console.info(`Refunded charge ${charge.id} is not linked to an invoice`);
+    return;
+  }
+
+  const invoice = await findConnectInvoice(supabase, accountId, invoiceId);
+
+  if (!invoice) {
+    return;
+  }
+
+  const paymentId = await findPaymentId(supabase, stripeId(charge.payment_intent));
+
+  // The charge only includes its refunds when expanded, so list them instead. Every
+  // refund is upserted, which also picks up status changes of earlier ones. Succeeded
+  // refunds get a credit note on the invoice from the credit_refunded_invoice trigger.
+  const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 }, { stripeAccount: accountId });
+
+  const { error: refundError } = await supabase.from('refunds').upsert(
+    refunds.data.map((refund) => ({
+      user_id: invoice.user_id,
+      invoice_id: invoice.id,
+      payment_id: paymentId,
+      amount: fromStripeAmount(refund.amount, refund.currency),
+      reason: refund.reason,
+      status: refund.status ?? 'pending',
+      stripe_refund_id: refund.id,
+      stripe_charge_id: charge.id,
+    })),
+    {
+      onConflict: 'stripe_refund_id',
+    },
+  );
+
+  if (refundError) {
+    console.error('Error recording invoice refunds:', refundError);
+    throw new Error('Failed to record invoice refunds');
+  }
+
+  console.info(`Recorded ${refunds.data.length} refund(s) for invoice ${invoice.id} from charge ${charge.id}`);
+}
+
+async function recordInvoiceDispute(supabase: SupabaseClient, stripe: Stripe, accountId: string, dispute: Stripe.Dispute) {
+  const chargeId = stripeId(dispute.charge);
+
+  if (!chargeId) {
+    console.error(`Dispute ${dispute.id} has no charge`);
+    return;
+  }
+
+  const charge = await stripe.charges.retrieve(chargeId, { stripeAccount: accountId });
+  const invoiceId = await invoiceIdForCharge(stripe, accountId, charge);
+
+  if (!invoiceId) {
+    console.info(`Disputed charge ${chargeId} is not linked to an invoice`);
+    return;
+  }
+
+  const invoice = await findConnectInvoice(supabase, accountId, invoiceId);
+
+  if (!invoice) {
+    return;
+  }
+
+  const paymentId = await findPaymentId(supabase, stripeId(dispute.payment_intent));
+  const evidenceDueBy = dispute.evidence_details?.due_by;
+
+  const { error: disputeError } = await supabase.from('disputes').upsert(
+    {
+      user_id: invoice.user_id,
+      invoice_id: invoice.id,
+      payment_id: paymentId,
+      amount: fromStripeAmount(dispute.amount, dispute.currency),
+      reason: dispute.reason,
+      status: dispute.status,
+      evidence_due_by: evidenceDueBy ? new Date(evidenceDueBy * 1000).toISOString() : null,
+      stripe_dispute_id: dispute.id,
+      stripe_charge_id: chargeId,
+    },
+    {
+      onConflict: 'stripe_dispute_id',
+    },
+  );
+
+  if (disputeError) {
+    console.error('Error recording invoice dispute:', disputeError);
+    throw new Error('Failed to record invoice dispute');
+  }
+
+  console.info(`Recorded dispute ${dispute.id} for invoice ${invoice.id}`);
+}
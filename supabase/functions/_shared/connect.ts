@@ -0,0 +1,16 @@
+import type Stripe from 'npm:stripe@17.7.0';
+
+// Columns of stripe_connect_accounts derived from the Stripe account. An account
+// can take card payments once onboarding is submitted and charges are enabled.
+export function connectAccountStatus(account: Stripe.Account) {
+  const chargesEnabled = account.charges_enabled ?? false;
+  const detailsSubmitted = account.details_submitted ?? false;
+
+  return {
+    charges_enabled: chargesEnabled,
+    payouts_enabled: account.payouts_enabled ?? false,
+    details_submitted: detailsSubmitted,
+    is_verified: chargesEnabled && detailsSubmitted,
+    updated_at: new Date().toISOString(),
+  };
+}
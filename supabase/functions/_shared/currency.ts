@@ -0,0 +1,16 @@
+import { currencyExponent } from './formatting.ts';
+
+// Stripe expects amounts in the smallest currency unit, which for these currencies is the whole unit
+const ZERO_DECIMAL_CURRENCIES = ['bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf'];
+
+const stripeExponent = (currency: string) => (ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase()) ? 0 : 2);
+
+// Stored amounts are in minor units too, but Stripe's minor unit isn't always the ISO one,
+// e.g. for ISK and MGA
+export function toStripeAmount(amount: number, currency: string) {
+  return Math.round(amount * 10 ** (stripeExponent(currency) - currencyExponent(currency)));
+}
+
+export function fromStripeAmount(amount: number, currency: string) {
+  return Math.round(amount * 10 ** (currencyExponent(currency) - stripeExponent(currency)));
+}
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockTransport, type EmailTransport } from './email-transport.ts';
+import { type EmailMessage, processEmailOutbox, sendEmail } from './email-outbox.ts';
+
+// Deno-only imports of the modules under test; neither is used by these tests
+vi.mock('npm:resend@2.0.0', () => ({ Resend: class {} }));
+vi.mock('https://deno.land/std@0.168.0/encoding/base64.ts', () => ({ encode: () => '' }));
+vi.mock('./sender-identity.ts', () => ({
+  loadSenderIdentity: async () => ({ from: '"Acme Ltd" <billing@example.com>', replyTo: 'owner@example.com' }),
+}));
+
+type Row = Record<string, unknown>;
+
+class FailingTransport implements EmailTransport {
+  readonly name = 'failing';
+
+  async send(): Promise<{ providerMessageId: string | null }> {
+    throw new Error('Provider unavailable');
+  }
+}
+
+/**
+ * A local stand-in for the service-role client, with just what email-outbox.ts uses:
+ * email_messages inserts and updates by id, the attachments bucket and the
+ * claim_email_messages RPC, which claims due messages like the database function does.
+ */
+function createSupabaseStandIn() {
+  const messages: Row[] = [];
+  const files = new Map<string, Uint8Array>();
+  const rpcCalls: { name: string; args: Row }[] = [];
+
+  const supabase = {
+    storage: {
+      from: (bucket: string) => ({
+        upload: async (path: string, content: Uint8Array) => {
+          files.set(`${bucket}/${path}`, content);
+          return { data: { path }, error: null };
+        },
+        download: async (path: string) => {
+          const content = files.get(`${bucket}/${path}`);
+          return content ? { data: new Blob([content]), error: null } : { data: null, error: { message: 'Object not found' } };
+        },
+      }),
+    },
+    from: () => {
+      let insert: Row | undefined;
+      let update: Row | undefined;
+      let id: unknown;
+      const query = {
+        insert: (row: Row) => {
+          insert = row;
+          return query;
+        },
+        update: (values: Row) => {
+          update = values;
+          return query;
+        },
+        eq: (_column: string, value: unknown) => {
+          id = value;
+          return query;
+        },
+        select: () => query,
+        single: async () => {
+          if (insert) {
+            const message = { next_attempt_at: new Date().toISOString(), last_error: null, ...insert };
+            messages.push(message);
+            return { data: { ...message }, error: null };
+          }
+
+          const message = messages.find((row) => row.id === id);
+          Object.assign(message ?? {}, update);
+          return { data: message ? { ...message } : null, error: null };
+        },
+      };
+      return query;
+    },
+    rpc: async (name: string, args: Row) => {
+      rpcCalls.push({ name, args });
+      const claimed = messages
+        .filter((message) => message.status === 'queued' && new Date(message.next_attempt_at as string) <= new Date())
+        .slice(0, args.p_limit as number);
+
+      for (const message of claimed) {
+        message.status = 'sending';
+        message.attempts = (message.attempts as number) + 1;
+      }
+
+      return { data: claimed.map((message) => ({ ...message })), error: null };
+    },
+  } as unknown as Parameters<typeof sendEmail>[0];
+
+  return { supabase, messages, files, rpcCalls };
+}
+
+const email = {
+  userId: 'owner-id',
+  invoiceId: 'invoice-id',
+  recipient: 'client@example.com',
+  template: 'invoice',
+  subject: 'Invoice INV-0001',
+  html: '<p>Your invoice</p>',
+};
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+
+describe('email outbox', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-18T12:00:00Z'));
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('records the email and sends it right away', async () => {
+    const { supabase, messages } = createSupabaseStandIn();
+    const transport = new MockTransport();
+
+    const message = await sendEmail(supabase, transport, email);
+
+    expect(message).toMatchObject({ status: 'sent', attempts: 1, provider: 'mock', last_error: null });
+    expect(message.provider_message_id).toMatch(/^mock_/);
+    expect(messages).toHaveLength(1);
+    expect(transport.sent).toEqual([
+      {
+        from: '"Acme Ltd" <billing@example.com>',
+        replyTo: 'owner@example.com',
+        to: 'client@example.com',
+        subject: 'Invoice INV-0001',
+        html: '<p>Your invoice</p>',
+        attachments: [],
+      },
+    ]);
+  });
+
+  it('stores attachments so that retries send the same files', async () => {
+    const { supabase, files } = createSupabaseStandIn();
+    const transport = new MockTransport();
+    const content = new Uint8Array([37, 80, 68, 70]);
+
+    const message = await sendEmail(supabase, transport, {
+      ...email,
+      attachments: [{ filename: 'INV-0001.pdf', contentType: 'application/pdf', content }],
+    });
+
+    expect(message.attachments).toEqual([
+      { filename: 'INV-0001.pdf', path: `owner-id/${message.id}/INV-0001.pdf`, content_type: 'application/pdf' },
+    ]);
+    expect(files.get(`email-attachments/owner-id/${message.id}/INV-0001.pdf`)).toEqual(content);
+    expect(transport.sent[0].attachments).toEqual([{ filename: 'INV-0001.pdf', contentType: 'application/pdf', content }]);
+  });
+
+  it('queues a rejected email for a retry a minute later', async () => {
+    const { supabase } = createSupabaseStandIn();
+
+    const message = await sendEmail(supabase, new FailingTransport(), email);
+
+    expect(message).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      provider: 'failing',
+      last_error: 'Provider unavailable',
+      next_attempt_at: minutesFromNow(1),
+    });
+  });
+
+  it('backs off 1, 5, 15 and 60 minutes and gives up after 5 attempts', async () => {
+    const { supabase, messages } = createSupabaseStandIn();
+    const transport = new FailingTransport();
+
+    await sendEmail(supabase, transport, email);
+    const retries: Partial<EmailMessage>[] = [];
+
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      vi.setSystemTime(new Date(messages[0].next_attempt_at as string));
+      const [message] = await processEmailOutbox(supabase, transport);
+      retries.push({ attempts: message.attempts, status: message.status });
+
+      if (attempt < 5) {
+        expect(message.next_attempt_at).toBe(minutesFromNow([5, 15, 60, 60][attempt - 2]));
+      }
+    }
+
+    expect(retries).toEqual([
+      { attempts: 2, status: 'queued' },
+      { attempts: 3, status: 'queued' },
+      { attempts: 4, status: 'queued' },
+      { attempts: 5, status: 'failed' },
+    ]);
+
+    // Failed messages are never claimed again
+    vi.setSystemTime(new Date(Date.now() + 24 * 60 * 60_000));
+    expect(await processEmailOutbox(supabase, transport)).toEqual([]);
+  });
+
+  it('only retries messages claimed through claim_email_messages', async () => {
+    const { supabase, rpcCalls } = createSupabaseStandIn();
+    const transport = new MockTransport();
+
+    await sendEmail(supabase, new FailingTransport(), email);
+
+    // Not due yet
+    expect(await processEmailOutbox(supabase, transport, 10)).toEqual([]);
+    expect(transport.sent).toHaveLength(0);
+
+    vi.setSystemTime(new Date(Date.now() + 60_000));
+    const [message] = await processEmailOutbox(supabase, transport, 10);
+
+    expect(message).toMatchObject({ status: 'sent', attempts: 2, provider: 'mock', last_error: null });
+    expect(transport.sent).toHaveLength(1);
+    expect(rpcCalls).toEqual([
+      { name: 'claim_email_messages', args: { p_limit: 10 } },
+      { name: 'claim_email_messages', args: { p_limit: 10 } },
+    ]);
+  });
+
+  it('throws when messages cannot be claimed', async () => {
+    const { supabase } = createSupabaseStandIn();
+    supabase.rpc = async () => ({ data: null, error: { message: 'permission denied' } }) as never;
+
+    await expect(processEmailOutbox(supabase, new MockTransport())).rejects.toThrow(
+      'Failed to claim queued emails: permission denied',
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { type EmailAttachment, type EmailTransport, emailSender } from './email-transport.ts';
+import { loadSenderIdentity } from './sender-identity.ts';
+
+const ATTACHMENTS_BUCKET = 'email-attachments';
+
+export type EmailStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'bounced' | 'failed';
+
+// An attachment as stored on email_messages.attachments
+export interface StoredAttachment {
+  filename: string;
+  path: string;
+  content_type: string;
+}
+
+export interface EmailMessage {
+  id: string;
+  user_id: string;
+  invoice_id: string | null;
+  quote_id: string | null;
+  recipient: string;
+  template: string;
+  subject: string;
+  html: string;
+  status: EmailStatus;
+  attempts: number;
+  last_error: string | null;
+  attachments: StoredAttachment[];
+  // From and Reply-To headers, resolved when the message was queued
+  sender: string | null;
+  reply_to: string | null;
+}
+
+export interface NewEmailMessage {
+  userId: string;
+  invoiceId?: string | null;
+  quoteId?: string | null;
+  recipient: string;
+  template: string;
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+const MAX_ATTEMPTS = 5;
+
+// Minutes to wait after each failed attempt: 1, 5, 15, then 60
+const RETRY_DELAYS = [1, 5, 15, 60];
+
+function retryDelayMinutes(attempts: number) {
+  return RETRY_DELAYS[Math.min(attempts, RETRY_DELAYS.length) - 1];
+}
+
+async function loadAttachments(supabase: SupabaseClient, attachments: StoredAttachment[]) {
+  return await Promise.all(attachments.map(async (attachment): Promise<EmailAttachment> => {
+    const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).download(attachment.path);
+
+    if (error || !data) {
+      throw new Error(`Failed to load attachment ${attachment.filename}: ${error?.message}`);
+    }
+
+    return {
+      filename: attachment.filename,
+      contentType: attachment.content_type,
+      content: new Uint8Array(await data.arrayBuffer()),
+    };
+  }));
+}
+
+/**
+ * Makes one delivery attempt for a message that has been claimed (status 'sending').
+ * Failures are queued again with backoff until MAX_ATTEMPTS, then marked failed.
+ */
+export async function deliverEmail(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  message: EmailMessage,
+): Promise<EmailMessage> {
+  try {
+    const { providerMessageId } = await transport.send({
+      from: message.sender ?? emailSender(),
+      replyTo: message.reply_to,
+      to: message.recipient,
+      subject: message.subject,
+      html: message.html,
+      attachments: await loadAttachments(supabase, message.attachments ?? []),
+    });
+
+    const { data, error } = await supabase
+      .from('email_messages')
+      .update({
+        status: 'sent',
+        provider: transport.name,
+        provider_message_id: providerMessageId,
+        sent_at: new Date().toISOString(),
+        last_error: null,
+      })
+      .eq('id', message.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      // The email went out; only the bookkeeping failed
+      console.error(`Failed to record delivery of email ${message.id}:`, error.message);
+      return { ...message, status: 'sent', last_error: null };
+    }
+
+    return data;
+  } catch (error) {
+    const lastError = (error as Error).message;
+    const failed = message.attempts >= MAX_ATTEMPTS;
+    console.error(`Delivery attempt ${message.attempts} of email ${message.id} failed:`, lastError);
+
+    const nextAttemptAt = new Date(Date.now() + retryDelayMinutes(message.attempts) * 60_000);
+    const { data } = await supabase
+      .from('email_messages')
+      .update({
+        status: failed ? 'failed' : 'queued',
+        next_attempt_at: nextAttemptAt.toISOString(),
+        provider: transport.name,
+        last_error: lastError,
+      })
+      .eq('id', message.id)
+      .select('*')
+      .single();
+
+    return data ?? { ...message, status: failed ? 'failed' : 'queued', last_error: lastError };
+  }
+}
+
+/**
+ * Records an email in the outbox and makes the first delivery attempt right away. It is
+ * sent as the account's sender identity. Attachments are stored first, so retries send
+ * the same files. Returns the message with its status after that attempt.
+ */
+export async function sendEmail(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  email: NewEmailMessage,
+): Promise<EmailMessage> {
+  const id = crypto.randomUUID();
+  const identity = await loadSenderIdentity(supabase, email.userId);
+  const attachments: StoredAttachment[] = [];
+
+  for (const attachment of email.attachments ?? []) {
+    const path = `${email.userId}/${id}/${attachment.filename}`;
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(path, attachment.content, { contentType: attachment.contentType });
+
+    if (uploadError) {
+      throw new Error(`Failed to store attachment ${attachment.filename}: ${uploadError.message}`);
+    }
+
+    attachments.push({ filename: attachment.filename, path, content_type: attachment.contentType });
+  }
+
+  const { data: message, error } = await supabase
+    .from('email_messages')
+    .insert({
+      id,
+      user_id: email.userId,
+      invoice_id: email.invoiceId ?? null,
+      quote_id: email.quoteId ?? null,
+      recipient: email.recipient,
+      template: email.template,
+      subject: email.subject,
+      html: email.html,
+      sender: identity.from,
+      reply_to: identity.replyTo,
+      attachments,
+      // Claimed by this attempt, so the outbox processor leaves it alone
+      status: 'sending',
+      attempts: 1,
+    })
+    .select('*')
+    .single();
+
+  if (error || !message) {
+    throw new Error(`Failed to queue email: ${error?.message}`);
+  }
+
+  return await deliverEmail(supabase, transport, message);
+}
+
+/**
+ * Retries queued messages that are due. Used by process-email-outbox.
+ */
+export async function processEmailOutbox(supabase: SupabaseClient, transport: EmailTransport, limit = 20) {
+  const { data: messages, error } = await supabase.rpc('claim_email_messages', { p_limit: limit });
+
+  if (error) {
+    throw new Error(`Failed to claim queued emails: ${error.message}`);
+  }
+
+  const results: EmailMessage[] = [];
+  for (const message of (messages ?? []) as EmailMessage[]) {
+    results.push(await deliverEmail(supabase, transport, message));
+  }
+
+  return results;
+}
@@ -0,0 +1,95 @@
+import { Resend } from 'npm:resend@2.0.0';
+import { encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  replyTo?: string | null;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  // Stored on email_messages.provider, so webhooks can be matched to the right provider
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<{ providerMessageId: string | null }>;
+}
+
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend';
+  private resend: Resend;
+
+  constructor(apiKey: string) {
+    this.resend = new Resend(apiKey);
+  }
+
+  async send(email: OutgoingEmail) {
+    const { data, error } = await this.resend.emails.send({
+      from: email.from,
+      to: [email.to],
+      subject: email.subject,
+      html: email.html,
+      reply_to: email.replyTo ?? undefined,
+      attachments: email.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: encodeBase64(attachment.content),
+      })),
+    });
+
+    if (error) {
+      throw new Error(`Resend rejected the email: ${error.message}`);
+    }
+
+    return { providerMessageId: data?.id ?? null };
+  }
+}
+
+/**
+ * Keeps emails in memory instead of sending them, for local development and tests.
+ */
+export class MockTransport implements EmailTransport {
+  readonly name = 'mock';
+  readonly sent: OutgoingEmail[] = [];
+
+  async send(email: OutgoingEmail) {
+    this.sent.push(email);
+    const attachments = email.attachments?.map((attachment) => attachment.filename).join(', ');
+    console.info(`[mock email] to ${email.to}: ${email.subject}${attachments ? ` (attached: ${attachments})` : ''}`);
+    return { providerMessageId: `mock_${crypto.randomUUID()}` };
+  }
+}
+
+/**
+ * Picks the transport from EMAIL_TRANSPORT ("resend" by default, or "mock").
+ */
+export function createEmailTransport(): EmailTransport {
+  const transport = Deno.env.get('EMAIL_TRANSPORT') ?? 'resend';
+
+  switch (transport) {
+    case 'resend':
+      return new ResendTransport(Deno.env.get('RESEND_API_KEY') ?? '');
+    case 'mock':
+      return new MockTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+// The platform's own sender address, on a domain verified with the provider. See
+// loadSenderIdentity for the per-account From header.
+export function emailSender() {
+  const sender = Deno.env.get('FROM_EMAIL');
+
+  if (!sender) {
+    throw new Error('FROM_EMAIL is not set');
+  }
+
+  return sender;
+}
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { currencyExponent, formatDate, formatMoney, fromMinorUnits, toMinorUnits } from './formatting.ts';
+
+// Intl puts no-break spaces between amounts and their symbols in many locales
+const nbsp = '\u00a0';
+
+describe('minor units', () => {
+  it('uses the decimals ISO 4217 gives the currency', () => {
+    expect(currencyExponent('USD')).toBe(2);
+    expect(currencyExponent('jpy')).toBe(0);
+    expect(currencyExponent('KWD')).toBe(3);
+  });
+
+  it('converts typed amounts to minor units and back', () => {
+    expect(toMinorUnits('12.50', 'EUR')).toBe(1250);
+    expect(toMinorUnits(1250, 'JPY')).toBe(1250);
+    expect(toMinorUnits('1.2345', 'KWD')).toBe(1235);
+    expect(fromMinorUnits(1250, 'EUR')).toBe(12.5);
+    expect(fromMinorUnits(1250, 'JPY')).toBe(1250);
+    expect(fromMinorUnits(1235, 'KWD')).toBe(1.235);
+  });
+
+  it('reads missing amounts as 0', () => {
+    expect(toMinorUnits('', 'EUR')).toBe(0);
+    expect(fromMinorUnits(null, 'EUR')).toBe(0);
+  });
+});
+
+describe('formatMoney', () => {
+  it('writes amounts in minor units with the currency symbol', () => {
+    expect(formatMoney(120000, 'USD')).toBe('$1,200.00');
+    expect(formatMoney('-500', 'USD')).toBe('-$5.00');
+  });
+
+  it('writes yen without decimals', () => {
+    expect(formatMoney(1200, 'JPY')).toBe('¥1,200');
+    expect(formatMoney(1200, 'JPY', 'de-DE')).toBe(`1.200${nbsp}¥`);
+  });
+
+  it('writes dinars with three decimals', () => {
+    expect(formatMoney(1234, 'KWD')).toBe(`KWD${nbsp}1.234`);
+    expect(formatMoney(1234, 'KWD', 'en-US', 'code')).toBe(`KWD${nbsp}1.234`);
+  });
+
+  it('places the symbol and separators the way the locale does', () => {
+    expect(formatMoney(120000, 'EUR', 'de-DE')).toBe(`1.200,00${nbsp}€`);
+    expect(formatMoney(120000, 'EUR', 'en-IE')).toBe('€1,200.00');
+    expect(formatMoney(120000, 'EUR', 'de-DE', 'code')).toBe(`1.200,00${nbsp}EUR`);
+  });
+});
+
+describe('formatDate', () => {
+  const timeZone = process.env.TZ;
+
+  // West of UTC, where a date-only string read as local time would show the day before
+  beforeAll(() => {
+    process.env.TZ = 'America/Los_Angeles';
+  });
+
+  afterAll(() => {
+    process.env.TZ = timeZone;
+  });
+
+  it('writes date-only strings on their own calendar day', () => {
+    expect(formatDate('2026-03-05')).toBe('Mar 5, 2026');
+    expect(formatDate('2026-01-01', 'en-GB')).toBe('1 Jan 2026');
+    expect(formatDate('2026-03-05', 'de-DE')).toBe('05.03.2026');
+  });
+
+  it("writes timestamps on the reader's own day", () => {
+    expect(formatDate('2026-03-05T02:00:00Z')).toBe('Mar 4, 2026');
+  });
+});
@@ -0,0 +1,107 @@
+// Money and date formatting shared by the app and the edge functions, so a document reads
+// the same on the dashboard, in the portal, in emails and in PDFs. Imports nothing, so the
+// app can import it as @shared/formatting.
+
+// What user_settings.locale falls back to, like the database
+export const DEFAULT_LOCALE = 'en-US';
+
+// Locales an account or client can pick. Only ones written in the Latin script, as the
+// PDFs are drawn with the standard fonts, which only cover WinAnsi (see invoice-pdf.ts).
+export const LOCALES = [
+  { code: 'en-US', name: 'English (United States)' },
+  { code: 'en-GB', name: 'English (United Kingdom)' },
+  { code: 'en-CA', name: 'English (Canada)' },
+  { code: 'en-AU', name: 'English (Australia)' },
+  { code: 'en-NZ', name: 'English (New Zealand)' },
+  { code: 'en-IE', name: 'English (Ireland)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'en-ZA', name: 'English (South Africa)' },
+  { code: 'fr-FR', name: 'Français (France)' },
+  { code: 'fr-CA', name: 'Français (Canada)' },
+  { code: 'de-DE', name: 'Deutsch (Deutschland)' },
+  { code: 'de-CH', name: 'Deutsch (Schweiz)' },
+  { code: 'es-ES', name: 'Español (España)' },
+  { code: 'es-MX', name: 'Español (México)' },
+  { code: 'it-IT', name: 'Italiano (Italia)' },
+  { code: 'nl-NL', name: 'Nederlands (Nederland)' },
+  { code: 'pt-BR', name: 'Português (Brasil)' },
+  { code: 'sv-SE', name: 'Svenska (Sverige)' },
+  { code: 'nb-NO', name: 'Norsk bokmål (Norge)' },
+  { code: 'da-DK', name: 'Dansk (Danmark)' },
+  { code: 'pl-PL', name: 'Polski (Polska)' },
+];
+
+export type Amount = number | string | null | undefined;
+
+// Writes an amount in minor units of one currency, e.g. (500) -> $5.00
+export type MoneyFormat = (amount: Amount) => string;
+
+// Amounts are stored and computed as whole numbers of the currency's minor unit, e.g.
+// cents. These currencies have other than two decimals, as ISO 4217 gives them; kept in
+// step with public.currency_exponent.
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+// Decimals of the currency's minor unit, e.g. 2 for EUR and 0 for JPY
+export function currencyExponent(currency: string) {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? 2;
+}
+
+// An amount as it is typed, e.g. 12.50 EUR, in minor units: 1250
+export function toMinorUnits(amount: Amount, currency: string) {
+  return Math.round((Number(amount) || 0) * 10 ** currencyExponent(currency));
+}
+
+// An amount in minor units as it is typed, e.g. 1250 EUR -> 12.5
+export function fromMinorUnits(amount: Amount, currency: string) {
+  return (Number(amount) || 0) / 10 ** currencyExponent(currency);
+}
+
+/**
+ * An amount in minor units, written in its currency with the symbol, its placement and
+ * the currency's decimals, e.g. 120000 is $1,200.00 in en-US and 1.200,00 € in de-DE, and
+ * 1200 JPY is ¥1,200. Negative amounts, like discounts, keep their sign.
+ */
+export function formatMoney(amount: Amount, currency: string, locale = DEFAULT_LOCALE, currencyDisplay: 'symbol' | 'code' = 'symbol') {
+  const decimals = currencyExponent(currency);
+
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    currencyDisplay,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(fromMinorUnits(amount, currency));
+}
+
+export function moneyFormat(currency: string, locale = DEFAULT_LOCALE): MoneyFormat {
+  return (amount) => formatMoney(amount, currency, locale);
+}
+
+// Date columns come as YYYY-MM-DD. They are calendar dates, so they are read and written
+// in UTC; otherwise a reader west of UTC would see the day before.
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A date in the locale's own order, e.g. Mar 5, 2026 in en-US and 5 Mar 2026 in en-GB.
+ * Timestamps are shown on the reader's own day.
+ */
+export function formatDate(value: string | Date, locale = DEFAULT_LOCALE) {
+  const dateOnly = typeof value === 'string' && DATE_ONLY.test(value);
+
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: dateOnly ? 'UTC' : undefined }).format(new Date(value));
+}
+
+// e.g. Mar 5, 2026, 2:30 PM
+export function formatDateTime(value: string | Date, locale = DEFAULT_LOCALE) {
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+}
+
+// e.g. 2:30 PM in en-US and 14:30 in en-GB
+export function formatTime(value: string | Date, locale = DEFAULT_LOCALE) {
+  return new Intl.DateTimeFormat(locale, { timeStyle: 'short' }).format(new Date(value));
+}
@@ -0,0 +1,183 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { DEFAULT_LOCALE } from './formatting.ts';
+import type {
+  CreditNoteDocumentModel,
+  DocumentBranding,
+  InvoiceDocumentModel,
+  ReminderTemplate,
+  ReminderType,
+} from './templates/models.ts';
+
+/**
+ * Loads a business's custom branding with a public URL for its logo. Documents fall
+ * back to the default look when there is none.
+ */
+export async function loadBranding(supabase: SupabaseClient, userId: string): Promise<DocumentBranding | null> {
+  const { data, error } = await supabase
+    .from('branding_settings')
+    .select('company_name, tagline, primary_color, secondary_color, footer_text, logo_path')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Could not fetch branding settings:', error.message);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const { logo_path, ...branding } = data;
+
+  return {
+    ...branding,
+    logo_url: logo_path ? supabase.storage.from('branding').getPublicUrl(logo_path).data.publicUrl : null,
+  };
+}
+
+// Documents are written in the client's locale, else the account's
+function documentLocale(client: { locale: string | null } | null, settings: { locale: string } | null) {
+  return client?.locale || settings?.locale || DEFAULT_LOCALE;
+}
+
+/**
+ * Loads the account's own wording for a reminder type, or null to use the built-in one.
+ */
+export async function loadReminderTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  reminderType: ReminderType,
+): Promise<ReminderTemplate | null> {
+  const { data, error } = await supabase
+    .from('reminder_templates')
+    .select('subject, body')
+    .eq('user_id', userId)
+    .eq('reminder_type', reminderType)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Could not fetch reminder template:', error.message);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Loads an invoice with everything needed to render it. Missing client details and
+ * settings are logged and left empty; a missing invoice throws.
+ */
+export async function loadInvoiceDocument(supabase: SupabaseClient, invoiceId: string): Promise<InvoiceDocumentModel> {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    throw new Error(`Invoice not found: ${invoiceError?.message}`);
+  }
+
+  const [clientResult, settingsResult, itemsResult, branding] = await Promise.all([
+    supabase
+      .from('clients')
+      .select('name, email, company, address, locale')
+      .eq('id', invoice.client_id)
+      .single(),
+    supabase
+      .from('user_settings')
+      .select('display_name, company_name, address, locale')
+      .eq('user_id', invoice.user_id)
+      .single(),
+    supabase
+      .from('invoice_items')
+      .select('description, quantity, unit_price, amount, taxes, discount_type, discount_value')
+      .eq('invoice_id', invoice.id)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true }),
+    loadBranding(supabase, invoice.user_id),
+  ]);
+
+  if (clientResult.error) {
+    console.error('Could not fetch client details:', clientResult.error.message);
+  }
+
+  if (settingsResult.error) {
+    console.error('Could not fetch user settings:', settingsResult.error.message);
+  }
+
+  if (itemsResult.error) {
+    throw new Error(`Could not fetch invoice items: ${itemsResult.error.message}`);
+  }
+
+  return {
+    invoice,
+    locale: documentLocale(clientResult.data, settingsResult.data),
+    client: clientResult.data,
+    sender: settingsResult.data,
+    branding,
+    items: itemsResult.data ?? [],
+  };
+}
+
+/**
+ * Loads a credit note with everything needed to render it, like loadInvoiceDocument.
+ */
+export async function loadCreditNoteDocument(
+  supabase: SupabaseClient,
+  creditNoteId: string,
+): Promise<CreditNoteDocumentModel> {
+  const { data: creditNote, error: creditNoteError } = await supabase
+    .from('credit_notes')
+    .select('id, user_id, invoice_id, client_id, number, issue_date, reason, currency, subtotal, discount_type, discount_value, discount, tax, total, invoice:invoices(number)')
+    .eq('id', creditNoteId)
+    .single();
+
+  if (creditNoteError || !creditNote) {
+    throw new Error(`Credit note not found: ${creditNoteError?.message}`);
+  }
+
+  const [clientResult, settingsResult, itemsResult, branding] = await Promise.all([
+    supabase
+      .from('clients')
+      .select('name, email, company, address, locale')
+      .eq('id', creditNote.client_id)
+      .single(),
+    supabase
+      .from('user_settings')
+      .select('display_name, company_name, address, locale')
+      .eq('user_id', creditNote.user_id)
+      .single(),
+    supabase
+      .from('credit_note_items')
+      .select('description, quantity, unit_price, amount, taxes, discount_type, discount_value')
+      .eq('credit_note_id', creditNote.id)
+      .order('position', { ascending: true }),
+    loadBranding(supabase, creditNote.user_id),
+  ]);
+
+  if (clientResult.error) {
+    console.error('Could not fetch client details:', clientResult.error.message);
+  }
+
+  if (settingsResult.error) {
+    console.error('Could not fetch user settings:', settingsResult.error.message);
+  }
+
+  if (itemsResult.error) {
+    throw new Error(`Could not fetch credit note items: ${itemsResult.error.message}`);
+  }
+
+  const { invoice, ...record } = creditNote;
+
+  return {
+    creditNote: record,
+    invoiceNumber: invoice?.number ?? '',
+    locale: documentLocale(clientResult.data, settingsResult.data),
+    client: clientResult.data,
+    sender: settingsResult.data,
+    branding,
+    items: itemsResult.data ?? [],
+  };
+}
@@ -0,0 +1,91 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import type { InvoiceDocumentModel, ReminderTemplate, ReminderType } from './templates/models.ts';
+import { renderInvoiceEmail, renderReminderEmail } from './templates/emails.ts';
+import { createEmailTransport, type EmailTransport } from './email-transport.ts';
+import { invoicePdfFilename, renderInvoicePdf } from './invoice-pdf.ts';
+import { sendEmail } from './email-outbox.ts';
+
+export interface InvoiceEmailOptions {
+  isReminder?: boolean;
+  reminderType?: ReminderType;
+  // The account's wording for the reminder type; see loadReminderTemplate
+  template?: ReminderTemplate | null;
+  // Attach the invoice PDF (on by default)
+  attachPdf?: boolean;
+  // Link to the online copy of the invoice; needs SITE_URL
+  includeViewLink?: boolean;
+  // Defaults to the one configured by EMAIL_TRANSPORT
+  transport?: EmailTransport;
+}
+
+// Opens the payment dialog for the invoice in the customer portal. Needs SITE_URL to be set.
+export function invoicePayUrl(invoiceId: string) {
+  const siteUrl = Deno.env.get('SITE_URL');
+  return siteUrl ? `${siteUrl.replace(/\/$/, '')}/portal?pay=${encodeURIComponent(invoiceId)}` : null;
+}
+
+// Opens the invoice without signing in, using its view_token. Needs SITE_URL to be set.
+export function invoiceViewUrl(viewToken: string) {
+  const siteUrl = Deno.env.get('SITE_URL');
+  return siteUrl ? `${siteUrl.replace(/\/$/, '')}/invoice/${encodeURIComponent(viewToken)}` : null;
+}
+
+/**
+ * Emails an invoice, or a reminder for it, to the invoice's client through the outbox.
+ * Throws when the client has no email address. A message the provider rejects stays
+ * queued and is retried by process-email-outbox; check the returned status.
+ */
+export async function sendInvoiceEmail(
+  supabase: SupabaseClient,
+  invoiceDocument: InvoiceDocumentModel,
+  {
+    isReminder = false,
+    reminderType = 'standard',
+    template = null,
+    attachPdf = true,
+    includeViewLink = false,
+    transport = createEmailTransport(),
+  }: InvoiceEmailOptions = {},
+) {
+  const { invoice, client } = invoiceDocument;
+
+  if (!client) {
+    throw new Error('Client not found for invoice');
+  }
+
+  if (!client.email) {
+    throw new Error('Client email not found');
+  }
+
+  const viewUrl = includeViewLink ? invoiceViewUrl(invoice.view_token) : null;
+  const { subject, html } = isReminder
+    ? renderReminderEmail({
+      ...invoiceDocument,
+      reminderType,
+      daysOverdue: invoice.due_date
+        ? Math.max(0, Math.floor((Date.now() - new Date(invoice.due_date).getTime()) / 86_400_000))
+        : 0,
+      template,
+      payUrl: invoicePayUrl(invoice.id),
+      viewUrl,
+    })
+    : renderInvoiceEmail(invoiceDocument, viewUrl);
+
+  const attachments = attachPdf
+    ? [{
+      filename: invoicePdfFilename(invoice.number),
+      contentType: 'application/pdf',
+      content: await renderInvoicePdf(invoiceDocument),
+    }]
+    : [];
+
+  return await sendEmail(supabase, transport, {
+    userId: invoice.user_id,
+    invoiceId: invoice.id,
+    recipient: client.email,
+    template: isReminder ? `reminder:${reminderType}` : 'invoice',
+    subject,
+    html,
+    attachments,
+  });
+}
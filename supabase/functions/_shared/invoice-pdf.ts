@@ -0,0 +1,428 @@
+import { Color, PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'npm:pdf-lib@1.17.1';
+import { type MoneyFormat, formatDate, formatMoney } from './formatting.ts';
+import { formatStatus, lines as splitLines } from './templates/format.ts';
+import type { TotalRow } from './templates/partials.ts';
+import {
+  type CreditNoteDocumentModel,
+  type DocumentBranding,
+  type DocumentLineItem,
+  type DocumentParty,
+  type DocumentSender,
+  type InvoiceDocumentModel,
+  discountLabel,
+  discountShare,
+  lineAmount,
+  lineTax,
+  subtotalRows,
+} from './templates/models.ts';
+
+// US Letter, in PDF points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const BORDER_COLOR = rgb(0.87, 0.87, 0.87);
+const HEADER_FILL = rgb(0.95, 0.95, 0.95);
+
+// The standard fonts only cover WinAnsi, so anything else is replaced rather than failing the
+// render. The narrow spaces and minus sign some locales write numbers with are swapped for
+// their plain forms first.
+function sanitize(text: string) {
+  return text
+    .replace(/[\u2009\u202F]/g, ' ')
+    .replace(/\u2212/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF€]/g, '?');
+}
+
+// Currency symbols WinAnsi can't draw, like ₹, are written as the currency's code instead
+function pdfMoneyFormat(currency: string, locale: string): MoneyFormat {
+  return (amount) => {
+    const formatted = formatMoney(amount, currency, locale);
+    return sanitize(formatted).includes('?') ? formatMoney(amount, currency, locale, 'code') : formatted;
+  };
+}
+
+function lines(text: string | null | undefined) {
+  return splitLines(text).map(sanitize);
+}
+
+// Branding colors are stored as #rrggbb
+function hexColor(hex: string | undefined, fallback: Color) {
+  const match = hex?.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return fallback;
+
+  const [r, g, b] = match.slice(1).map((part) => parseInt(part, 16) / 255);
+  return rgb(r, g, b);
+}
+
+/**
+ * Fetches and embeds the branding logo. A logo that can't be loaded is left out
+ * rather than failing the whole document.
+ */
+async function embedLogo(doc: PDFDocument, branding: DocumentBranding | null): Promise<PDFImage | null> {
+  if (!branding?.logo_url) return null;
+
+  try {
+    const response = await fetch(branding.logo_url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    // PNG files start with 0x89 'P' 'N' 'G'; the bucket only accepts PNG and JPEG
+    const isPng = bytes[0] === 0x89 && bytes[1] === 0x50;
+    return isPng ? await doc.embedPng(bytes) : await doc.embedJpg(bytes);
+  } catch (error) {
+    console.error('Could not embed branding logo:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Writes text top-down and starts a new page when the cursor reaches the bottom margin.
+ */
+class PdfWriter {
+  page: PDFPage;
+  y: number;
+
+  constructor(private doc: PDFDocument, private font: PDFFont, private bold: PDFFont) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  text(value: string, x: number, options: { size?: number; bold?: boolean; color?: Color } = {}) {
+    const { size = 10, bold = false, color = TEXT_COLOR } = options;
+    this.page.drawText(sanitize(value), { x, y: this.y - size, size, font: bold ? this.bold : this.font, color });
+  }
+
+  centered(value: string, size: number, bold = false, color = TEXT_COLOR) {
+    const width = (bold ? this.bold : this.font).widthOfTextAtSize(sanitize(value), size);
+    this.text(value, (PAGE_WIDTH - width) / 2, { size, bold, color });
+  }
+
+  // Draws an image centered on the page, scaled down to fit the given box
+  image(image: PDFImage, maxWidth: number, maxHeight: number) {
+    const { width, height } = image.scaleToFit(maxWidth, maxHeight);
+    this.ensureSpace(height);
+    this.page.drawImage(image, { x: (PAGE_WIDTH - width) / 2, y: this.y - height, width, height });
+    this.y -= height;
+  }
+
+  rightAligned(value: string, right: number, options: { size?: number; bold?: boolean } = {}) {
+    const { size = 10, bold = false } = options;
+    const width = (bold ? this.bold : this.font).widthOfTextAtSize(sanitize(value), size);
+    this.text(value, right - width, { size, bold });
+  }
+
+  // Shortens text with an ellipsis so that it fits in a table cell
+  fit(value: string, width: number, bold: boolean) {
+    const font = bold ? this.bold : this.font;
+    let text = sanitize(value);
+    if (font.widthOfTextAtSize(text, 10) <= width) return text;
+
+    while (text.length > 0 && font.widthOfTextAtSize(`${text}...`, 10) > width) {
+      text = text.slice(0, -1);
+    }
+    return `${text}...`;
+  }
+
+  /**
+   * Draws a bordered table row. Columns are given as fractions of the content width.
+   */
+  row(cells: string[], columns: number[], options: { header?: boolean; bold?: boolean; alignRight?: number[] } = {}) {
+    const { header = false, bold = header, alignRight = [] } = options;
+    const height = 24;
+    this.ensureSpace(height);
+
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      const width = CONTENT_WIDTH * columns[index];
+      this.page.drawRectangle({
+        x,
+        y: this.y - height,
+        width,
+        height,
+        borderColor: BORDER_COLOR,
+        borderWidth: 1,
+        color: header ? HEADER_FILL : undefined,
+      });
+
+      const saved = this.y;
+      const value = this.fit(cell, width - 16, bold);
+      this.y -= 7;
+      if (alignRight.includes(index)) {
+        this.rightAligned(value, x + width - 8, { bold });
+      } else {
+        this.text(value, x + 8, { bold });
+      }
+      this.y = saved;
+      x += width;
+    });
+
+    this.y -= height;
+  }
+
+  // Writes text word-wrapped to the given width, one line at a time
+  paragraph(value: string, width: number, options: { color?: Color } = {}) {
+    for (const line of lines(value)) {
+      let current = '';
+      for (const word of line.split(/\s+/)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && this.font.widthOfTextAtSize(candidate, 10) > width) {
+          this.ensureSpace(14);
+          this.text(current, MARGIN, options);
+          this.space(14);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      }
+      this.ensureSpace(14);
+      this.text(current, MARGIN, options);
+      this.space(14);
+    }
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+}
+
+// File name for downloads and email attachments, e.g. invoice-INV-0001.pdf
+export function invoicePdfFilename(invoiceNumber: string) {
+  return `invoice-${String(invoiceNumber).replace(/[^\w.-]/g, '_')}.pdf`;
+}
+
+// File name for downloads, e.g. credit-note-CN-2026-0001.pdf
+export function creditNotePdfFilename(creditNoteNumber: string) {
+  return `credit-note-${String(creditNoteNumber).replace(/[^\w.-]/g, '_')}.pdf`;
+}
+
+interface PdfDocumentLayout {
+  title: string;
+  heading: string;
+  number: string;
+  sender: DocumentSender | null;
+  client: DocumentParty | null;
+  branding: DocumentBranding | null;
+  details: { label: string; value: string }[];
+  items: DocumentLineItem[];
+  // What the amounts are in, e.g. EUR
+  currency: string;
+  locale: string;
+  // The part of each line still charged after the document's discount
+  share: number;
+  totals: TotalRow[];
+  notes?: string | null;
+}
+
+/**
+ * Lays out a document the same way as the HTML previews: branding, parties, details,
+ * line items, totals and notes.
+ */
+async function renderDocumentPdf({
+  title,
+  heading,
+  number,
+  sender,
+  client,
+  branding,
+  details,
+  items,
+  currency,
+  locale,
+  share,
+  totals,
+  notes,
+}: PdfDocumentLayout): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(title);
+  doc.setCreator('HonestInvoice');
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new PdfWriter(doc, font, bold);
+  const primaryColor = hexColor(branding?.primary_color, TEXT_COLOR);
+  const secondaryColor = hexColor(branding?.secondary_color, MUTED_COLOR);
+
+  const logo = await embedLogo(doc, branding);
+  if (logo) {
+    writer.image(logo, 200, 60);
+    writer.space(12);
+  }
+
+  if (branding?.company_name) {
+    writer.centered(branding.company_name, 16, true, primaryColor);
+    writer.space(20);
+  }
+
+  if (branding?.tagline) {
+    writer.centered(branding.tagline, 10, false, secondaryColor);
+    writer.space(14);
+  }
+
+  if (logo || branding?.company_name || branding?.tagline) {
+    writer.space(16);
+  }
+
+  writer.centered(heading, 24, true, primaryColor);
+  writer.space(32);
+  writer.centered(`#${number}`, 16, true, primaryColor);
+  writer.space(40);
+
+  // From / Bill To columns
+  const fromLines = [...lines(sender?.company_name), ...lines(sender?.address)];
+  const toLines = [...lines(client?.company), ...lines(client?.address), ...lines(client?.email)];
+  const columnX = MARGIN + CONTENT_WIDTH / 2 + 20;
+
+  writer.text('From:', MARGIN, { size: 12, bold: true });
+  writer.text('Bill To:', columnX, { size: 12, bold: true });
+  writer.space(20);
+  writer.text(branding?.company_name || sender?.display_name || 'Your Business', MARGIN, { bold: true });
+  writer.text(client?.name || 'N/A', columnX, { bold: true });
+  writer.space(15);
+
+  for (let i = 0; i < Math.max(fromLines.length, toLines.length); i++) {
+    if (fromLines[i]) writer.text(fromLines[i], MARGIN, { color: MUTED_COLOR });
+    if (toLines[i]) writer.text(toLines[i], columnX, { color: MUTED_COLOR });
+    writer.space(14);
+  }
+
+  writer.space(20);
+
+  const detailColumns = details.map(() => 1 / details.length);
+  writer.row(details.map((detail) => detail.label), detailColumns, { header: true });
+  writer.row(details.map((detail) => detail.value), detailColumns);
+
+  writer.space(30);
+
+  const money = pdfMoneyFormat(currency, locale);
+
+  if (items.length > 0) {
+    // The discount and tax columns are only shown when at least one line is discounted or taxed
+    const showDiscount = items.some((item) => Number(item.discount_value) > 0);
+    const showTax = items.some((item) => item.taxes?.length > 0);
+    const header = [
+      'Description',
+      'Qty',
+      'Unit Price',
+      ...(showDiscount ? ['Discount'] : []),
+      ...(showTax ? ['Tax'] : []),
+      'Amount',
+    ];
+    // The description takes whatever the number columns leave
+    const numberColumns = header.slice(1).map((label) => (label === 'Qty' ? 0.1 : label === 'Amount' ? 0.2 : 0.15));
+    const itemColumns = [1 - numberColumns.reduce((sum, width) => sum + width, 0), ...numberColumns];
+    const numeric = numberColumns.map((_, index) => index + 1);
+
+    writer.row(header, itemColumns, { header: true, alignRight: numeric });
+    for (const item of items) {
+      const cells = [item.description, String(Number(item.quantity)), money(item.unit_price)];
+      if (showDiscount) {
+        cells.push(discountLabel(item, money) ?? '-');
+      }
+      if (showTax) {
+        cells.push(item.taxes?.length ? `${money(lineTax(item, share))} (${item.taxes.map((tax) => `${Number(tax.rate)}%`).join(' + ')})` : '-');
+      }
+      cells.push(money(lineAmount(item)));
+      writer.row(cells, itemColumns, { alignRight: numeric });
+    }
+
+    writer.space(20);
+  }
+
+  const totalColumns = [0.7, 0.3];
+  for (const total of totals) {
+    writer.row([total.label, money(total.amount)], totalColumns, { bold: total.emphasis, alignRight: [1] });
+  }
+
+  if (notes?.trim()) {
+    writer.space(30);
+    writer.ensureSpace(40);
+    writer.text('Notes', MARGIN, { size: 12, bold: true });
+    writer.space(20);
+    writer.paragraph(notes, CONTENT_WIDTH);
+  }
+
+  writer.space(40);
+  for (const line of lines(branding?.footer_text || 'Thank you for your business!')) {
+    writer.ensureSpace(14);
+    writer.centered(writer.fit(line, CONTENT_WIDTH, false), 10, false, secondaryColor);
+    writer.space(14);
+  }
+
+  return await doc.save();
+}
+
+/**
+ * Renders an invoice to PDF bytes with the same layout as the HTML preview.
+ */
+export async function renderInvoicePdf({ invoice, locale, client, sender, branding, items }: InvoiceDocumentModel): Promise<Uint8Array> {
+  return await renderDocumentPdf({
+    title: `Invoice ${invoice.number}`,
+    heading: 'INVOICE',
+    number: invoice.number,
+    sender,
+    client,
+    branding,
+    details: [
+      { label: 'Date Issued', value: formatDate(invoice.issue_date, locale) },
+      { label: 'Due Date', value: invoice.due_date ? formatDate(invoice.due_date, locale) : 'No due date' },
+      { label: 'Status', value: formatStatus(invoice.status) },
+    ],
+    items,
+    currency: invoice.currency,
+    locale,
+    share: discountShare(items, invoice),
+    totals: [
+      ...subtotalRows(items, invoice),
+      { label: 'Total', amount: invoice.total, emphasis: true },
+    ],
+    notes: invoice.notes,
+  });
+}
+
+/**
+ * Renders a credit note to PDF bytes with the same layout as its HTML preview.
+ */
+export async function renderCreditNotePdf({
+  creditNote,
+  invoiceNumber,
+  locale,
+  client,
+  sender,
+  branding,
+  items,
+}: CreditNoteDocumentModel): Promise<Uint8Array> {
+  return await renderDocumentPdf({
+    title: `Credit Note ${creditNote.number}`,
+    heading: 'CREDIT NOTE',
+    number: creditNote.number,
+    sender,
+    client,
+    branding,
+    details: [
+      { label: 'Date Issued', value: formatDate(creditNote.issue_date, locale) },
+      { label: 'Credits Invoice', value: invoiceNumber },
+      { label: 'Reason', value: creditNote.reason },
+    ],
+    items,
+    currency: creditNote.currency,
+    locale,
+    share: discountShare(items, creditNote),
+    totals: [
+      ...subtotalRows(items, creditNote),
+      { label: 'Total Credited', amount: creditNote.total, emphasis: true },
+    ],
+  });
+}
@@ -0,0 +1,64 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { emailSender } from './email-transport.ts';
+import { loadBranding } from './invoice-data.ts';
+import { senderName } from './templates/models.ts';
+
+export interface SenderIdentity {
+  // Full From header, e.g. "Acme Ltd" <billing@acme.com>
+  from: string;
+  replyTo: string | null;
+}
+
+/**
+ * Builds a From header. Characters that would end the display name early are dropped.
+ */
+export function formatSender(name: string | null, address: string) {
+  const displayName = (name ?? '').replace(/["<>\r\n]/g, '').trim();
+  return displayName ? `"${displayName}" <${address}>` : address;
+}
+
+/**
+ * Resolves who an account's emails come from. The address is the platform sender
+ * (FROM_EMAIL), moved onto the account's own domain once that domain is verified.
+ * Replies go to the configured reply-to address, or the account's login email.
+ */
+export async function loadSenderIdentity(supabase: SupabaseClient, userId: string): Promise<SenderIdentity> {
+  const [settingsResult, domainResult, userResult, branding] = await Promise.all([
+    supabase
+      .from('user_settings')
+      .select('display_name, company_name, email_from_name, email_reply_to')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('sending_domains')
+      .select('domain, status')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase.auth.admin.getUserById(userId),
+    loadBranding(supabase, userId),
+  ]);
+
+  if (settingsResult.error) {
+    console.error('Could not fetch user settings:', settingsResult.error.message);
+  }
+
+  if (domainResult.error) {
+    console.error('Could not fetch sending domain:', domainResult.error.message);
+  }
+
+  if (userResult.error) {
+    console.error('Could not fetch account email:', userResult.error.message);
+  }
+
+  const settings = settingsResult.data;
+  const domain = domainResult.data;
+  const platformAddress = emailSender();
+  const address = domain?.status === 'verified'
+    ? `${platformAddress.split('@')[0]}@${domain.domain}`
+    : platformAddress;
+
+  return {
+    from: formatSender(settings?.email_from_name || senderName(settings, branding), address),
+    replyTo: settings?.email_reply_to || userResult.data?.user?.email || null,
+  };
+}
@@ -0,0 +1,92 @@
+import { formatDate, moneyFormat } from '../formatting.ts';
+import { formatStatus } from './format.ts';
+import { type CreditNoteDocumentModel, type InvoiceDocumentModel, type QuoteDocumentModel, discountShare, subtotalRows } from './models.ts';
+import {
+  detailsTable,
+  documentHeader,
+  documentLayout,
+  lineItemsTable,
+  notesBlock,
+  partiesBlock,
+  totalsTable,
+} from './partials.ts';
+
+export function renderInvoiceDocument({ invoice, locale, client, sender, branding, items }: InvoiceDocumentModel) {
+  const money = moneyFormat(invoice.currency, locale);
+
+  return documentLayout({
+    title: `Invoice ${invoice.number}`,
+    branding,
+    body: [
+      documentHeader('INVOICE', invoice.number, branding),
+      partiesBlock({
+        from: { name: branding?.company_name || sender?.display_name || 'Your Business', lines: [sender?.company_name, sender?.address] },
+        to: { name: client?.name || 'N/A', lines: [client?.company, client?.address, client?.email] },
+      }),
+      detailsTable([
+        { label: 'Date Issued', value: formatDate(invoice.issue_date, locale) },
+        { label: 'Due Date', value: invoice.due_date ? formatDate(invoice.due_date, locale) : 'No due date' },
+        { label: 'Status', value: formatStatus(invoice.status) },
+      ]),
+      lineItemsTable(items, money, discountShare(items, invoice)),
+      totalsTable([
+        ...subtotalRows(items, invoice),
+        { label: 'Total', amount: invoice.total, emphasis: true },
+      ], money),
+      notesBlock(invoice.notes),
+    ],
+  });
+}
+
+export function renderQuoteDocument({ quote, locale, client, sender, branding, items }: QuoteDocumentModel) {
+  const money = moneyFormat(quote.currency, locale);
+
+  return documentLayout({
+    title: `Quote ${quote.quote_number}`,
+    branding,
+    body: [
+      documentHeader('QUOTE', quote.quote_number, branding),
+      partiesBlock({
+        from: { name: branding?.company_name || sender?.display_name || 'Your Business', lines: [sender?.company_name, sender?.address] },
+        to: { name: client?.name || 'N/A', lines: [client?.company, client?.address, client?.email] },
+      }),
+      detailsTable([
+        { label: 'Date Issued', value: formatDate(quote.issue_date, locale) },
+        { label: 'Valid Until', value: quote.expiry_date ? formatDate(quote.expiry_date, locale) : 'No expiry date' },
+        { label: 'Status', value: formatStatus(quote.status) },
+      ]),
+      lineItemsTable(items, money, discountShare(items, quote)),
+      totalsTable([
+        ...subtotalRows(items, quote),
+        { label: 'Total', amount: quote.total, emphasis: true },
+      ], money),
+      notesBlock(quote.notes),
+    ],
+  });
+}
+
+export function renderCreditNoteDocument({ creditNote, invoiceNumber, locale, client, sender, branding, items }: CreditNoteDocumentModel) {
+  const money = moneyFormat(creditNote.currency, locale);
+
+  return documentLayout({
+    title: `Credit Note ${creditNote.number}`,
+    branding,
+    body: [
+      documentHeader('CREDIT NOTE', creditNote.number, branding),
+      partiesBlock({
+        from: { name: branding?.company_name || sender?.display_name || 'Your Business', lines: [sender?.company_name, sender?.address] },
+        to: { name: client?.name || 'N/A', lines: [client?.company, client?.address, client?.email] },
+      }),
+      detailsTable([
+        { label: 'Date Issued', value: formatDate(creditNote.issue_date, locale) },
+        { label: 'Credits Invoice', value: invoiceNumber },
+        { label: 'Reason', value: creditNote.reason },
+      ]),
+      lineItemsTable(items, money, discountShare(items, creditNote)),
+      totalsTable([
+        ...subtotalRows(items, creditNote),
+        { label: 'Total Credited', amount: creditNote.total, emphasis: true },
+      ], money),
+    ],
+  });
+}
@@ -0,0 +1,160 @@
+import { formatDate, moneyFormat } from '../formatting.ts';
+import { fillPlaceholders, formatStatus, paragraphs } from './format.ts';
+import type { InvoiceDocumentModel, ReminderDocumentModel, ReminderTemplate, ReminderType } from './models.ts';
+import { discountShare, senderName, subtotalRows } from './models.ts';
+import {
+  emailButton,
+  emailDetails,
+  emailLayout,
+  emailLineItems,
+  emailLink,
+  emailMessage,
+  emailNotes,
+  emailTotals,
+} from './partials.ts';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+/**
+ * Renders the email an invoice is sent with. `viewUrl` adds a button to the online copy;
+ * see invoiceViewUrl.
+ */
+export function renderInvoiceEmail(
+  { invoice, locale, sender, branding, items }: InvoiceDocumentModel,
+  viewUrl: string | null = null,
+): RenderedEmail {
+  const companyName = senderName(sender, branding);
+  const money = moneyFormat(invoice.currency, locale);
+
+  const body = emailLayout({
+    heading: `Invoice from ${companyName}`,
+    branding,
+    body: [
+      emailDetails('Invoice Details', [
+        { label: 'Invoice Number', value: invoice.number },
+        { label: 'Date Issued', value: formatDate(invoice.issue_date, locale) },
+        { label: 'Due Date', value: invoice.due_date ? formatDate(invoice.due_date, locale) : 'No due date' },
+        { label: 'Status', value: formatStatus(invoice.status) },
+      ]),
+      viewUrl && emailButton('View Invoice Online', viewUrl, branding),
+      emailLineItems(items, money, discountShare(items, invoice)),
+      emailTotals('Amount Due', [
+        ...subtotalRows(items, invoice),
+        { label: 'Total', amount: invoice.total, emphasis: true },
+      ], money),
+      emailNotes(invoice.notes),
+    ],
+  });
+
+  return {
+    subject: `Invoice ${invoice.number} from ${companyName}`,
+    html: body.toString(),
+  };
+}
+
+/**
+ * Built-in wording of each reminder type, used unless the account has saved its own.
+ * Placeholders are listed in reminderPlaceholders.
+ */
+export const defaultReminderTemplates: Record<ReminderType, ReminderTemplate> = {
+  gentle: {
+    subject: 'Friendly reminder: Invoice {{invoice_number}} from {{company_name}}',
+    body: `Hi {{client_name}},
+
+This is a friendly reminder that invoice {{invoice_number}} is due on {{due_date}}. The outstanding balance is {{balance_due}}.
+
+If you have already paid, please disregard this message.`,
+  },
+  standard: {
+    subject: 'Payment reminder: Invoice {{invoice_number}} from {{company_name}}',
+    body: `Hi {{client_name}},
+
+Our records show that invoice {{invoice_number}} is {{days_overdue}} days past its due date of {{due_date}}. The outstanding balance is {{balance_due}}.
+
+If you have already paid, please disregard this message.`,
+  },
+  urgent: {
+    subject: 'Payment overdue: Invoice {{invoice_number}} from {{company_name}}',
+    body: `Hi {{client_name}},
+
+Invoice {{invoice_number}} is now {{days_overdue}} days overdue. Please arrange payment of the outstanding balance of {{balance_due}} as soon as possible.
+
+If you have already paid, please disregard this message.`,
+  },
+  final: {
+    subject: 'Final notice: Invoice {{invoice_number}} from {{company_name}}',
+    body: `Hi {{client_name}},
+
+This is a final notice: invoice {{invoice_number}} is {{days_overdue}} days overdue. Please pay the outstanding balance of {{balance_due}} immediately.
+
+If you have already paid, please disregard this message.`,
+  },
+};
+
+export const reminderPlaceholders = [
+  'client_name',
+  'company_name',
+  'invoice_number',
+  'balance_due',
+  'invoice_total',
+  'due_date',
+  'days_overdue',
+] as const;
+
+export function renderReminderEmail({
+  invoice,
+  locale,
+  client,
+  sender,
+  branding,
+  reminderType,
+  daysOverdue,
+  template,
+  payUrl,
+  viewUrl,
+}: ReminderDocumentModel): RenderedEmail {
+  const companyName = senderName(sender, branding);
+  const { subject, body } = template ?? defaultReminderTemplates[reminderType] ?? defaultReminderTemplates.standard;
+  const balanceDue = Number(invoice.balance_due);
+  const money = moneyFormat(invoice.currency, locale);
+
+  const values: Record<(typeof reminderPlaceholders)[number], string> = {
+    client_name: client?.name || 'there',
+    company_name: companyName,
+    invoice_number: invoice.number,
+    balance_due: money(balanceDue),
+    invoice_total: money(invoice.total),
+    due_date: invoice.due_date ? formatDate(invoice.due_date, locale) : 'receipt',
+    days_overdue: String(daysOverdue),
+  };
+  const filledSubject = fillPlaceholders(subject, values);
+
+  const html = emailLayout({
+    heading: filledSubject,
+    branding,
+    body: [
+      emailMessage(paragraphs(fillPlaceholders(body, values))),
+      payUrl && emailButton('Pay Now', payUrl, branding),
+      viewUrl && emailLink('View the invoice online', viewUrl),
+      emailDetails('Invoice Details', [
+        { label: 'Invoice Number', value: invoice.number },
+        { label: 'Date Issued', value: formatDate(invoice.issue_date, locale) },
+        { label: 'Due Date', value: invoice.due_date ? formatDate(invoice.due_date, locale) : 'No due date' },
+      ]),
+      emailTotals('Balance Due', [
+        { label: 'Invoice Total', amount: invoice.total },
+        { label: 'Paid', amount: invoice.amount_paid },
+        ...(Number(invoice.amount_credited) > 0 ? [{ label: 'Credited', amount: invoice.amount_credited }] : []),
+        { label: 'Balance Due', amount: balanceDue, emphasis: true },
+      ], money),
+    ],
+  });
+
+  return {
+    subject: filledSubject,
+    html: html.toString(),
+  };
+}
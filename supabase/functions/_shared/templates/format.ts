@@ -0,0 +1,25 @@
+// e.g. partially_paid -> Partially paid
+export function formatStatus(status: string) {
+  const label = status.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+// Paragraphs are separated by blank lines; single line breaks are kept within a paragraph
+export function paragraphs(text: string | null | undefined) {
+  return (text ?? '')
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0);
+}
+
+// Replaces {{name}} placeholders; unknown placeholders are left as typed
+export function fillPlaceholders(text: string, values: Record<string, string>) {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+export function lines(text: string | null | undefined) {
+  return (text ?? '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
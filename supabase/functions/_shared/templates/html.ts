@@ -0,0 +1,52 @@
+/**
+ * Markup that is already safe to output, either produced by `html` or explicitly
+ * trusted with `raw`. Everything else is escaped when interpolated.
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+export type HtmlValue = SafeHtml | string | number | boolean | null | undefined | HtmlValue[];
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+}
+
+/**
+ * Marks a string as trusted markup. Never pass user-provided data to this.
+ */
+export function raw(value: string) {
+  return new SafeHtml(value);
+}
+
+function render(value: HtmlValue): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(render).join('');
+  // false/null/undefined render nothing so that `${condition && html`...`}` works
+  if (value === null || value === undefined || value === false) return '';
+  return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template that escapes every interpolated value unless it is SafeHtml.
+ * Arrays are rendered item by item, so lists of partials can be interpolated directly.
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]) {
+  let output = strings[0];
+  values.forEach((value, index) => {
+    output += render(value) + strings[index + 1];
+  });
+  return new SafeHtml(output);
+}
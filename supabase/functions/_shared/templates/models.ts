@@ -0,0 +1,266 @@
+import type { MoneyFormat } from '../formatting.ts';
+
+export interface DocumentParty {
+  name: string | null;
+  email: string | null;
+  company: string | null;
+  address: string | null;
+}
+
+export interface DocumentSender {
+  display_name: string | null;
+  company_name: string | null;
+  address: string | null;
+}
+
+// Custom branding set by the business; colors are validated hex values
+export interface DocumentBranding {
+  company_name: string | null;
+  tagline: string | null;
+  primary_color: string;
+  secondary_color: string;
+  footer_text: string | null;
+  logo_url: string | null;
+}
+
+// A tax applied to a line item, copied from the account's saved tax rates
+export interface LineTax {
+  tax_rate_id: string | null;
+  name: string;
+  // Percentage
+  rate: number;
+  // Charged on the line amount plus the taxes before it
+  compound: boolean;
+  // Already included in the line's price
+  inclusive: boolean;
+}
+
+// A discount taken off before tax, as a percentage or a fixed amount
+export interface DocumentDiscount {
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+}
+
+export interface DocumentLineItem extends DocumentDiscount {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  // Quantity times unit price, before the line's discount
+  amount: number;
+  // Empty for untaxed lines
+  taxes: LineTax[];
+}
+
+// The amounts of a document, in its currency. Discount is the total taken off the
+// subtotal, by the lines' discounts and the document's own.
+export interface DocumentTotals extends DocumentDiscount {
+  // ISO 4217 code, e.g. EUR
+  currency: string;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+}
+
+export interface InvoiceRecord extends DocumentTotals {
+  id: string;
+  user_id: string;
+  client_id: string;
+  number: string;
+  status: string;
+  issue_date: string;
+  due_date: string | null;
+  amount_paid: number;
+  amount_credited: number;
+  balance_due: number;
+  notes: string | null;
+  // Secret for the invoice's "view online" link
+  view_token: string;
+}
+
+export interface QuoteRecord extends DocumentTotals {
+  id: string;
+  user_id: string;
+  client_id: string;
+  quote_number: string;
+  status: string;
+  issue_date: string;
+  expiry_date: string | null;
+  notes: string | null;
+}
+
+export interface CreditNoteRecord extends DocumentTotals {
+  id: string;
+  user_id: string;
+  invoice_id: string;
+  number: string;
+  issue_date: string;
+  reason: string;
+}
+
+export interface InvoiceDocumentModel {
+  invoice: InvoiceRecord;
+  // How amounts and dates are written: the client's locale, else the account's
+  locale: string;
+  client: DocumentParty | null;
+  sender: DocumentSender | null;
+  branding: DocumentBranding | null;
+  items: DocumentLineItem[];
+}
+
+export interface QuoteDocumentModel {
+  quote: QuoteRecord;
+  locale: string;
+  client: DocumentParty | null;
+  sender: DocumentSender | null;
+  branding: DocumentBranding | null;
+  items: DocumentLineItem[];
+}
+
+export interface CreditNoteDocumentModel {
+  creditNote: CreditNoteRecord;
+  // The invoice the credit note reverses
+  invoiceNumber: string;
+  locale: string;
+  client: DocumentParty | null;
+  sender: DocumentSender | null;
+  branding: DocumentBranding | null;
+  items: DocumentLineItem[];
+}
+
+// Matches the reminder types offered on the Payment Reminders page
+export type ReminderType = 'gentle' | 'standard' | 'urgent' | 'final';
+
+// The same set as dunning_steps_reminder_type_check
+export const REMINDER_TYPES: ReminderType[] = ['gentle', 'standard', 'urgent', 'final'];
+
+// Subject and body with {{placeholders}}, as customized on the Payment Reminders page
+export interface ReminderTemplate {
+  subject: string;
+  body: string;
+}
+
+export interface ReminderDocumentModel {
+  invoice: InvoiceRecord;
+  locale: string;
+  client: DocumentParty | null;
+  sender: DocumentSender | null;
+  branding: DocumentBranding | null;
+  reminderType: ReminderType;
+  daysOverdue: number;
+  // The account's own wording for this reminder type, if any
+  template: ReminderTemplate | null;
+  payUrl: string | null;
+  viewUrl: string | null;
+}
+
+export interface TaxAmount {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+/**
+ * The amount a discount takes off, unrounded, like public.discount_amount. Fixed
+ * discounts never take off more than the amount.
+ */
+export function discountAmount(amount: number, discount: DocumentDiscount) {
+  const value = Number(discount.discount_value) || 0;
+  if (value <= 0 || amount <= 0) return 0;
+  return discount.discount_type === 'fixed' ? Math.min(value, amount) : (amount * Math.min(value, 100)) / 100;
+}
+
+// e.g. 10% or $5.00; null without a discount
+export function discountLabel(discount: DocumentDiscount, money: MoneyFormat) {
+  if (!(Number(discount.discount_value) > 0)) return null;
+  return discount.discount_type === 'fixed'
+    ? money(discount.discount_value)
+    : `${Number(discount.discount_value)}%`;
+}
+
+// A line's amount less its own discount
+export function lineAmount(item: DocumentLineItem) {
+  const amount = Number(item.amount);
+  return amount - discountAmount(amount, item);
+}
+
+/**
+ * The part of each line's amount still charged after the document's discount, which is
+ * shared between the lines in proportion to their amounts.
+ */
+export function discountShare(items: DocumentLineItem[], discount: DocumentDiscount) {
+  const amount = items.reduce((sum, item) => sum + lineAmount(item), 0);
+  return amount > 0 ? 1 - discountAmount(amount, discount) / amount : 1;
+}
+
+/**
+ * Splits a line into its net amount and the tax charged for each of its taxes, like
+ * public.line_tax_amounts, after the line's discount and its share of the document's.
+ * Amounts are unrounded.
+ */
+export function lineTaxes(item: DocumentLineItem, share = 1): { net: number; taxes: TaxAmount[] } {
+  const taxes = item.taxes ?? [];
+  const simple = taxes.filter((tax) => !tax.compound);
+  const compound = taxes.filter((tax) => tax.compound);
+
+  // Inclusive taxes are part of the amount, so they are taken out to get the net amount
+  const inclusiveFactor = compound
+    .filter((tax) => tax.inclusive)
+    .reduce(
+      (factor, tax) => factor * (1 + Number(tax.rate) / 100),
+      1 + simple.filter((tax) => tax.inclusive).reduce((sum, tax) => sum + Number(tax.rate), 0) / 100,
+    );
+  const net = (lineAmount(item) * share) / inclusiveFactor;
+
+  const amounts: TaxAmount[] = simple.map((tax) => ({ name: tax.name, rate: Number(tax.rate), amount: (net * Number(tax.rate)) / 100 }));
+  let running = net + amounts.reduce((sum, tax) => sum + tax.amount, 0);
+
+  for (const tax of compound) {
+    const amount = (running * Number(tax.rate)) / 100;
+    amounts.push({ name: tax.name, rate: Number(tax.rate), amount });
+    running += amount;
+  }
+
+  return { net, taxes: amounts };
+}
+
+export function lineTax(item: DocumentLineItem, share = 1) {
+  return lineTaxes(item, share).taxes.reduce((sum, tax) => sum + tax.amount, 0);
+}
+
+// Tax per rate across all lines, rounded per rate the same way documents are totalled
+export function taxBreakdown(items: DocumentLineItem[], share = 1): TaxAmount[] {
+  const rates = new Map<string, TaxAmount>();
+
+  for (const item of items) {
+    for (const tax of lineTaxes(item, share).taxes) {
+      const key = `${tax.name}|${tax.rate}`;
+      const entry = rates.get(key) ?? { name: tax.name, rate: tax.rate, amount: 0 };
+      entry.amount += tax.amount;
+      rates.set(key, entry);
+    }
+  }
+
+  return [...rates.values()].map((tax) => ({ ...tax, amount: Math.round(tax.amount) }));
+}
+
+/**
+ * Totals rows from the subtotal to the tax: the subtotal, the discount if there is one,
+ * and one tax row per rate, or a single row with the document's tax when its lines carry
+ * no taxes (e.g. older documents with a tax amount only).
+ */
+export function subtotalRows(items: DocumentLineItem[], document: DocumentTotals) {
+  const breakdown = taxBreakdown(items, discountShare(items, document));
+
+  return [
+    { label: 'Subtotal', amount: document.subtotal },
+    ...(Number(document.discount) > 0 ? [{ label: 'Discount', amount: -document.discount }] : []),
+    ...(breakdown.length === 0
+      ? [{ label: 'Tax', amount: document.tax }]
+      : breakdown.map((rate) => ({ label: `${rate.name} (${rate.rate}%)`, amount: rate.amount }))),
+  ];
+}
+
+export function senderName(sender: DocumentSender | null, branding: DocumentBranding | null = null) {
+  return branding?.company_name || sender?.company_name || sender?.display_name || 'Your Business';
+}
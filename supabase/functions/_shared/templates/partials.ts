@@ -0,0 +1,289 @@
+import { html, type HtmlValue, raw } from './html.ts';
+import type { MoneyFormat } from '../formatting.ts';
+import { lines } from './format.ts';
+import { type DocumentBranding, type DocumentLineItem, discountLabel, lineAmount, lineTax } from './models.ts';
+
+export interface TotalRow {
+  label: string;
+  amount: number;
+  emphasis?: boolean;
+}
+
+// Documents (HTML preview of invoices and quotes)
+
+const documentStyles = `
+  body { font-family: Arial, sans-serif; margin: 0; padding: 20px; }
+  .header { text-align: center; margin-bottom: 30px; }
+  .invoice-details { display: flex; justify-content: space-between; margin-bottom: 30px; }
+  .company-info, .client-info { width: 45%; }
+  .invoice-table { width: 100%; border-collapse: collapse; margin-bottom: 30px; }
+  .invoice-table th, .invoice-table td { border: 1px solid #ddd; padding: 12px; text-align: left; }
+  .invoice-table th { background-color: #f2f2f2; }
+  .invoice-table .number { text-align: right; }
+  .total-row { font-weight: bold; font-size: 18px; }
+  .notes { margin-bottom: 30px; white-space: pre-line; }
+`;
+
+const defaultFooter = 'Thank you for your business!';
+
+// Branding colors are constrained to hex values by the database, so they are safe in style attributes
+function brandingStyles(branding: DocumentBranding | null) {
+  if (!branding) return '';
+
+  return `
+  .header h1, .header h2, h3 { color: ${branding.primary_color}; }
+  .invoice-table th { background-color: ${branding.primary_color}; color: #fff; }
+  .footer { color: ${branding.secondary_color}; }`;
+}
+
+function brandMark(branding: DocumentBranding | null) {
+  if (!branding) return html``;
+
+  return html`
+    ${branding.logo_url && html`<img src="${branding.logo_url}" alt="${branding.company_name ?? 'Logo'}" style="max-height: 80px; max-width: 240px;">`}
+    ${branding.company_name && html`<p style="font-size: 20px; font-weight: bold; color: ${branding.primary_color}; margin: 8px 0 0;">${branding.company_name}</p>`}
+    ${branding.tagline && html`<p style="color: ${branding.secondary_color}; margin: 4px 0 0;">${branding.tagline}</p>`}`;
+}
+
+export function documentLayout({ title, body, branding = null }: {
+  title: string;
+  body: HtmlValue;
+  branding?: DocumentBranding | null;
+}) {
+  return html`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>${raw(documentStyles)}${raw(brandingStyles(branding))}</style>
+</head>
+<body>
+${body}
+  <div class="footer" style="margin-top: 40px; text-align: center; color: #666; white-space: pre-line;">
+    <p>${branding?.footer_text || defaultFooter}</p>
+  </div>
+</body>
+</html>`;
+}
+
+export function documentHeader(heading: string, number: string, branding: DocumentBranding | null = null) {
+  return html`
+  <div class="header">
+    ${brandMark(branding)}
+    <h1>${heading}</h1>
+    <h2>#${number}</h2>
+  </div>`;
+}
+
+function partyLines(values: (string | null | undefined)[]) {
+  return values.flatMap((value) => lines(value)).map((line) => html`<p>${line}</p>`);
+}
+
+export function partiesBlock({ from, to }: {
+  from: { name: string; lines: (string | null | undefined)[] };
+  to: { name: string; lines: (string | null | undefined)[] };
+}) {
+  return html`
+  <div class="invoice-details">
+    <div class="company-info">
+      <h3>From:</h3>
+      <p><strong>${from.name}</strong></p>
+      ${partyLines(from.lines)}
+    </div>
+    <div class="client-info">
+      <h3>Bill To:</h3>
+      <p><strong>${to.name}</strong></p>
+      ${partyLines(to.lines)}
+    </div>
+  </div>`;
+}
+
+export function detailsTable(details: { label: string; value: string }[]) {
+  return html`
+  <table class="invoice-table">
+    <thead>
+      <tr>${details.map((detail) => html`<th>${detail.label}</th>`)}</tr>
+    </thead>
+    <tbody>
+      <tr>${details.map((detail) => html`<td>${detail.value}</td>`)}</tr>
+    </tbody>
+  </table>`;
+}
+
+// The tax column is only shown when at least one line is taxed
+function hasLineTax(items: DocumentLineItem[]) {
+  return items.some((item) => item.taxes?.length > 0);
+}
+
+// Likewise the discount column, when at least one line is discounted
+function hasLineDiscount(items: DocumentLineItem[]) {
+  return items.some((item) => Number(item.discount_value) > 0);
+}
+
+function lineTaxLabel(item: DocumentLineItem, share: number, money: MoneyFormat) {
+  if (!item.taxes?.length) return '-';
+
+  const rates = item.taxes.map((tax) => `${tax.name} ${Number(tax.rate)}%${tax.inclusive ? ' incl.' : ''}`).join(', ');
+  return `${money(lineTax(item, share))} (${rates})`;
+}
+
+/**
+ * Line items with their discounts and taxes, in the document's currency and locale. Share
+ * is the part of each line still charged after the document's discount (see
+ * discountShare), which the tax column reflects.
+ */
+export function lineItemsTable(items: DocumentLineItem[], money: MoneyFormat, share = 1) {
+  if (items.length === 0) return html``;
+  const showTax = hasLineTax(items);
+  const showDiscount = hasLineDiscount(items);
+
+  return html`
+  <table class="invoice-table">
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="number">Qty</th>
+        <th class="number">Unit Price</th>
+        ${showDiscount && html`<th class="number">Discount</th>`}
+        ${showTax && html`<th class="number">Tax</th>`}
+        <th class="number">Amount</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${items.map((item) => html`
+      <tr>
+        <td>${item.description}</td>
+        <td class="number">${Number(item.quantity)}</td>
+        <td class="number">${money(item.unit_price)}</td>
+        ${showDiscount && html`<td class="number">${discountLabel(item, money) ?? '-'}</td>`}
+        ${showTax && html`<td class="number">${lineTaxLabel(item, share, money)}</td>`}
+        <td class="number">${money(lineAmount(item))}</td>
+      </tr>`)}
+    </tbody>
+  </table>`;
+}
+
+export function totalsTable(rows: TotalRow[], money: MoneyFormat) {
+  return html`
+  <table class="invoice-table">
+    <tbody>
+      ${rows.map((row) => row.emphasis
+        ? html`<tr class="total-row"><td><strong>${row.label}</strong></td><td><strong>${money(row.amount)}</strong></td></tr>`
+        : html`<tr><td>${row.label}</td><td>${money(row.amount)}</td></tr>`)}
+    </tbody>
+  </table>`;
+}
+
+export function notesBlock(notes: string | null | undefined) {
+  if (!notes?.trim()) return html``;
+
+  return html`
+  <div class="notes">
+    <h3>Notes</h3>
+    <p>${notes.trim()}</p>
+  </div>`;
+}
+
+// Emails (inline styles, since most mail clients drop <style> blocks)
+
+export function emailLayout({ heading, body, branding = null }: {
+  heading: string;
+  body: HtmlValue;
+  branding?: DocumentBranding | null;
+}) {
+  return html`
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+    ${branding && html`<div style="text-align: center; margin-bottom: 20px;">${brandMark(branding)}</div>`}
+    <h2 style="color: ${branding?.primary_color ?? '#333'}; text-align: center;">${heading}</h2>
+    ${body}
+    <div style="text-align: center; margin: 30px 0; color: ${branding?.secondary_color ?? '#666'};">
+      <p style="white-space: pre-line;">${branding?.footer_text || defaultFooter}</p>
+      <p style="font-size: 14px;">Please contact us if you have any questions about this invoice.</p>
+    </div>
+  </div>`;
+}
+
+export function emailMessage(paragraphs: string[]) {
+  return paragraphs.map((paragraph) => html`<p style="color: #333; line-height: 1.5; white-space: pre-line;">${paragraph}</p>`);
+}
+
+export function emailButton(label: string, url: string, branding: DocumentBranding | null = null) {
+  return html`
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="${url}" style="background: ${branding?.primary_color ?? '#3b82f6'}; color: #fff; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold; display: inline-block;">${label}</a>
+  </div>`;
+}
+
+export function emailLink(label: string, url: string) {
+  return html`<p style="text-align: center; margin: 20px 0;"><a href="${url}" style="color: #3b82f6;">${label}</a></p>`;
+}
+
+export function emailDetails(title: string, details: { label: string; value: string }[]) {
+  return html`
+  <div style="background: #f9f9f9; padding: 20px; border-radius: 8px; margin: 20px 0;">
+    <h3 style="color: #333; margin-top: 0;">${title}</h3>
+    ${details.map((detail) => html`<p><strong>${detail.label}:</strong> ${detail.value}</p>`)}
+  </div>`;
+}
+
+export function emailLineItems(items: DocumentLineItem[], money: MoneyFormat, share = 1) {
+  if (items.length === 0) return html``;
+  const showTax = hasLineTax(items);
+  const showDiscount = hasLineDiscount(items);
+  const cell = 'padding: 8px; border-bottom: 1px solid #e5e5e5;';
+  const numberCell = `${cell} text-align: right;`;
+
+  return html`
+  <table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+    <thead>
+      <tr style="background: #f2f2f2;">
+        <th style="padding: 8px; text-align: left;">Description</th>
+        <th style="padding: 8px; text-align: right;">Qty</th>
+        <th style="padding: 8px; text-align: right;">Unit Price</th>
+        ${showDiscount && html`<th style="padding: 8px; text-align: right;">Discount</th>`}
+        ${showTax && html`<th style="padding: 8px; text-align: right;">Tax</th>`}
+        <th style="padding: 8px; text-align: right;">Amount</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${items.map((item) => html`
+      <tr>
+        <td style="${cell}">${item.description}</td>
+        <td style="${numberCell}">${Number(item.quantity)}</td>
+        <td style="${numberCell}">${money(item.unit_price)}</td>
+        ${showDiscount && html`<td style="${numberCell}">${discountLabel(item, money) ?? '-'}</td>`}
+        ${showTax && html`<td style="${numberCell}">${item.taxes?.length ? money(lineTax(item, share)) : '-'}</td>`}
+        <td style="${numberCell}">${money(lineAmount(item))}</td>
+      </tr>`)}
+    </tbody>
+  </table>`;
+}
+
+export function emailTotals(title: string, rows: TotalRow[], money: MoneyFormat) {
+  return html`
+  <div style="background: #fff; border: 2px solid #e5e5e5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+    <h3 style="color: #333; margin-top: 0;">${title}</h3>
+    ${rows.map((row) => row.emphasis
+      ? html`
+    <hr style="margin: 15px 0;">
+    <div style="display: flex; justify-content: space-between; font-size: 18px; font-weight: bold; color: #333;">
+      <span>${row.label}:</span>
+      <span>${money(row.amount)}</span>
+    </div>`
+      : html`
+    <div style="display: flex; justify-content: space-between; margin: 10px 0;">
+      <span>${row.label}:</span>
+      <span>${money(row.amount)}</span>
+    </div>`)}
+  </div>`;
+}
+
+export function emailNotes(notes: string | null | undefined) {
+  if (!notes?.trim()) return html``;
+
+  return html`
+  <div style="margin: 20px 0; color: #333; white-space: pre-line;">
+    <h3 style="margin-top: 0;">Notes</h3>
+    <p>${notes.trim()}</p>
+  </div>`;
+}
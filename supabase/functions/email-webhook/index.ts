@@ -0,0 +1,109 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const jsonHeaders = { 'Content-Type': 'application/json' };
+
+// Signatures older than this are rejected to stop replays
+const TOLERANCE_SECONDS = 5 * 60;
+
+interface ResendEvent {
+  type: string;
+  created_at: string;
+  data: { email_id: string; bounce?: { message?: string } };
+}
+
+function base64ToBytes(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: ArrayBuffer) {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+/**
+ * Checks the Svix signature Resend puts on webhook requests. The secret is the
+ * "whsec_..." signing secret from the Resend dashboard.
+ */
+async function verifySignature(req: Request, payload: string, secret: string) {
+  const id = req.headers.get('svix-id');
+  const timestamp = req.headers.get('svix-timestamp');
+  const signatures = req.headers.get('svix-signature');
+
+  if (!id || !timestamp || !signatures) {
+    return false;
+  }
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base64ToBytes(secret.replace(/^whsec_/, '')),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const expected = bytesToBase64(
+    await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${payload}`)),
+  );
+
+  // The header lists one or more space-separated "v1,<signature>" entries
+  return signatures.split(' ').some((entry) => entry.split(',')[1] === expected);
+}
+
+// Records delivery and bounce events from Resend against the matching email_messages row
+serve(async (req) => {
+  const secret = Deno.env.get('RESEND_WEBHOOK_SECRET');
+
+  if (!secret) {
+    console.error('RESEND_WEBHOOK_SECRET is not set');
+    return new Response(JSON.stringify({ error: 'Webhook not configured' }), { status: 500, headers: jsonHeaders });
+  }
+
+  const payload = await req.text();
+
+  if (!(await verifySignature(req, payload, secret))) {
+    return new Response(JSON.stringify({ error: 'Invalid signature' }), { status: 400, headers: jsonHeaders });
+  }
+
+  try {
+    const event = JSON.parse(payload) as ResendEvent;
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    let update: Record<string, string> | null = null;
+
+    switch (event.type) {
+      case 'email.delivered':
+        update = { status: 'delivered', delivered_at: event.created_at };
+        break;
+      case 'email.bounced':
+        update = { status: 'bounced', last_error: event.data.bounce?.message ?? 'The email bounced' };
+        break;
+      default:
+        console.log(`Ignoring Resend event: ${event.type}`);
+    }
+
+    if (update) {
+      const { error } = await supabase
+        .from('email_messages')
+        .update(update)
+        .eq('provider', 'resend')
+        .eq('provider_message_id', event.data.email_id)
+        // A late delivered event must not overwrite a bounce
+        .neq('status', 'bounced');
+
+      if (error) {
+        throw new Error(`Failed to record ${event.type}: ${error.message}`);
+      }
+    }
+
+    return new Response(JSON.stringify({ received: true }), { status: 200, headers: jsonHeaders });
+  } catch (error) {
+    console.error('Error handling email webhook:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), { status: 500, headers: jsonHeaders });
+  }
+});
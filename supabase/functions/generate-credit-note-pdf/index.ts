@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { authorizeInvoice } from '../_shared/auth.ts';
+import { loadCreditNoteDocument } from '../_shared/invoice-data.ts';
+import { creditNotePdfFilename, renderCreditNotePdf } from '../_shared/invoice-pdf.ts';
+import { renderCreditNoteDocument } from '../_shared/templates/documents.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'content-disposition',
+};
+
+function jsonResponse(body: object, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // format 'pdf' (default) returns the document as a file, 'html' returns a preview
+    const { creditNoteId, format = 'pdf' } = await req.json();
+
+    if (typeof creditNoteId !== 'string' || !creditNoteId) {
+      return jsonResponse({ error: 'Expected parameter creditNoteId to be a string' }, 400);
+    }
+
+    if (format !== 'pdf' && format !== 'html') {
+      return jsonResponse({ error: 'Expected format to be one of pdf, html' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: creditNote, error: creditNoteError } = await supabase
+      .from('credit_notes')
+      .select('invoice_id')
+      .eq('id', creditNoteId)
+      .maybeSingle();
+
+    if (creditNoteError) {
+      console.error('Failed to fetch credit note from the database', creditNoteError);
+      return jsonResponse({ error: 'Failed to fetch credit note' }, 500);
+    }
+
+    if (!creditNote) {
+      return jsonResponse({ error: 'Credit note not found' }, 404);
+    }
+
+    // Whoever may see the credited invoice may see its credit notes
+    const access = await authorizeInvoice(supabase, req, creditNote.invoice_id, ['owner', 'customer']);
+
+    if ('error' in access) {
+      return jsonResponse({ error: access.error }, access.status);
+    }
+
+    const creditNoteDocument = await loadCreditNoteDocument(supabase, creditNoteId);
+
+    if (format === 'pdf') {
+      const pdf = await renderCreditNotePdf(creditNoteDocument);
+
+      return new Response(pdf, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${creditNotePdfFilename(creditNoteDocument.creditNote.number)}"`,
+        },
+      });
+    }
+
+    return new Response(renderCreditNoteDocument(creditNoteDocument).toString(), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/html',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating credit note:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { loadInvoiceDocument } from '../_shared/invoice-data.ts';
+import { sendInvoiceEmail } from '../_shared/invoice-email.ts';
+
+const jsonHeaders = { 'Content-Type': 'application/json' };
+
+// Longer than sending one invoice can take
+const SEND_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Invoked hourly by pg_cron (see the recurring_invoice_generation migration)
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: jsonHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // Bills every due period exactly once; a retried run only generates what is still missing
+    const { data: results, error: generateError } = await supabase.rpc('generate_due_recurring_invoices');
+
+    if (generateError) {
+      throw new Error(`Failed to generate recurring invoices: ${generateError.message}`);
+    }
+
+    const failures: { invoiceId?: string; templateId?: string; error: string }[] = [];
+    let generated = 0;
+
+    // Templates that could not be billed are skipped and tried again on the next run
+    for (const result of results ?? []) {
+      if (result.error) {
+        console.error(`Failed to generate recurring invoice ${result.template_id}:`, result.error);
+        failures.push({ templateId: result.template_id, error: result.error });
+      } else {
+        generated++;
+      }
+    }
+
+    console.info(`Generated ${generated} recurring invoice(s)`);
+
+    // Auto-send picks up every unsent invoice of an auto-send template, so sends that failed on
+    // an earlier run are retried too
+    const { data: pending, error: pendingError } = await supabase
+      .from('invoices')
+      .select('id, recurring_invoices!inner(auto_send)')
+      .eq('status', 'draft')
+      .eq('recurring_invoices.auto_send', true);
+
+    if (pendingError) {
+      throw new Error(`Failed to fetch invoices to send: ${pendingError.message}`);
+    }
+
+    let sent = 0;
+
+    for (const { id } of pending ?? []) {
+      // Claim the invoice first so that overlapping runs never email it twice. A claim left
+      // behind by a run that died is taken over once it is stale.
+      const staleBefore = new Date(Date.now() - SEND_CLAIM_TIMEOUT_MS).toISOString();
+      const { data: claimed, error: claimError } = await supabase
+        .from('invoices')
+        .update({ send_claimed_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'draft')
+        .or(`send_claimed_at.is.null,send_claimed_at.lt.${staleBefore}`)
+        .select('id');
+
+      if (claimError || !claimed?.length) {
+        continue;
+      }
+
+      try {
+        // A run that died after queueing the email only has to issue the invoice
+        const { count: queued, error: queuedError } = await supabase
+          .from('email_messages')
+          .select('id', { count: 'exact', head: true })
+          .eq('invoice_id', id)
+          .eq('template', 'invoice');
+
+        if (queuedError) {
+          throw new Error(`Failed to check for a queued email: ${queuedError.message}`);
+        }
+
+        // Once queued, a rejected message is retried by the outbox, so the invoice is issued
+        if (!queued) {
+          await sendInvoiceEmail(supabase, await loadInvoiceDocument(supabase, id));
+        }
+
+        const { error: issueError } = await supabase.from('invoices').update({ status: 'sent' }).eq('id', id).eq('status', 'draft');
+
+        if (issueError) {
+          throw new Error(`Failed to mark the invoice as sent: ${issueError.message}`);
+        }
+
+        sent++;
+      } catch (error) {
+        const message = (error as Error).message;
+        console.error(`Failed to send recurring invoice ${id}:`, message);
+        failures.push({ invoiceId: id, error: message });
+
+        // Release the claim so the next run tries again
+        await supabase.from('invoices').update({ send_claimed_at: null }).eq('id', id).eq('status', 'draft');
+      }
+    }
+
+    return new Response(JSON.stringify({ generated, sent, failures }), {
+      status: 200,
+      headers: jsonHeaders,
+    });
+  } catch (error) {
+    console.error('Error generating recurring invoices:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), { status: 500, headers: jsonHeaders });
+  }
+});
@@ -0,0 +1,177 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import Stripe from 'npm:stripe@17.7.0';
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { toStripeAmount } from '../_shared/currency.ts';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')!;
+const stripe = new Stripe(stripeSecret, {
+  appInfo: {
+    name: 'Bolt Integration',
+    version: '1.0.0',
+  },
+});
+
+// Helper function to create responses with CORS headers
+function corsResponse(body: string | object | null, status = 200) {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': '*',
+  };
+
+  // For 204 No Content, don't include Content-Type or body
+  if (status === 204) {
+    return new Response(null, { status, headers });
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  try {
+    if (req.method === 'OPTIONS') {
+      return corsResponse({}, 204);
+    }
+
+    if (req.method !== 'POST') {
+      return corsResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const { invoice_id, amount, success_url, cancel_url } = await req.json();
+
+    if (typeof invoice_id !== 'string' || typeof success_url !== 'string' || typeof cancel_url !== 'string') {
+      return corsResponse({ error: 'Expected invoice_id, success_url and cancel_url to be strings' }, 400);
+    }
+
+    if (amount != null && (!Number.isInteger(amount) || !(amount > 0))) {
+      return corsResponse({ error: 'Expected parameter amount to be a positive whole number of minor units' }, 400);
+    }
+
+    const authHeader = req.headers.get('Authorization') ?? '';
+    const token = authHeader.replace('Bearer ', '');
+    const {
+      data: { user },
+      error: getUserError,
+    } = await supabase.auth.getUser(token);
+
+    if (getUserError || !user) {
+      return corsResponse({ error: 'Failed to authenticate user' }, 401);
+    }
+
+    const { data: invoice, error: getInvoiceError } = await supabase
+      .from('invoices')
+      .select('id, user_id, client_id, number, status, currency, balance_due')
+      .eq('id', invoice_id)
+      .maybeSingle();
+
+    if (getInvoiceError) {
+      console.error('Failed to fetch invoice from the database', getInvoiceError);
+
+      return corsResponse({ error: 'Failed to fetch invoice' }, 500);
+    }
+
+    if (!invoice) {
+      return corsResponse({ error: 'Invoice not found' }, 404);
+    }
+
+    // Only portal users linked to the invoice's client may pay it
+    const { data: customerUser, error: getCustomerUserError } = await supabase
+      .from('customer_users')
+      .select('id')
+      .eq('client_id', invoice.client_id)
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (getCustomerUserError) {
+      console.error('Failed to fetch customer portal access from the database', getCustomerUserError);
+
+      return corsResponse({ error: 'Failed to verify portal access' }, 500);
+    }
+
+    if (!customerUser) {
+      return corsResponse({ error: 'You do not have access to this invoice' }, 403);
+    }
+
+    if (!['sent', 'partially_paid', 'overdue'].includes(invoice.status) || !(Number(invoice.balance_due) > 0)) {
+      return corsResponse({ error: `Invoice ${invoice.number} is not open for payment` }, 400);
+    }
+
+    const paymentAmount = amount ?? Number(invoice.balance_due);
+
+    if (paymentAmount > Number(invoice.balance_due)) {
+      return corsResponse({ error: 'Payment amount cannot exceed the balance due' }, 400);
+    }
+
+    const { data: connectAccount, error: getConnectAccountError } = await supabase
+      .from('stripe_connect_accounts')
+      .select('stripe_account_id, is_verified')
+      .eq('user_id', invoice.user_id)
+      .maybeSingle();
+
+    if (getConnectAccountError) {
+      console.error('Failed to fetch connected account from the database', getConnectAccountError);
+
+      return corsResponse({ error: 'Failed to fetch payment account' }, 500);
+    }
+
+    if (!connectAccount?.stripe_account_id || !connectAccount.is_verified) {
+      return corsResponse({ error: 'This business is not accepting online payments yet' }, 409);
+    }
+
+    // Charged in the invoice's own currency
+    const currency = invoice.currency.toLowerCase();
+    const metadata = {
+      invoice_id: invoice.id,
+      user_id: invoice.user_id,
+    };
+
+    // Direct charge on the freelancer's connected account; the payment is only
+    // recorded once stripe-webhook receives payment_intent.succeeded, which finds
+    // the invoice through the payment intent metadata
+    const session = await stripe.checkout.sessions.create(
+      {
+        mode: 'payment',
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price_data: {
+              currency,
+              unit_amount: toStripeAmount(paymentAmount, currency),
+              product_data: {
+                name: `Invoice ${invoice.number}`,
+              },
+            },
+            quantity: 1,
+          },
+        ],
+        customer_email: user.email,
+        client_reference_id: invoice.id,
+        metadata,
+        payment_intent_data: {
+          metadata,
+        },
+        success_url,
+        cancel_url,
+      },
+      {
+        stripeAccount: connectAccount.stripe_account_id,
+      },
+    );
+
+    console.log(`Created checkout session ${session.id} for invoice ${invoice.id} on account ${connectAccount.stripe_account_id}`);
+
+    return corsResponse({ sessionId: session.id, url: session.url });
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`Invoice checkout error: ${message}`);
+    return corsResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,104 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getRequestUser } from '../_shared/auth.ts';
+import { DEFAULT_LOCALE, toMinorUnits } from '../_shared/formatting.ts';
+import { loadBranding } from '../_shared/invoice-data.ts';
+import { defaultReminderTemplates, renderReminderEmail } from '../_shared/templates/emails.ts';
+import type { ReminderType } from '../_shared/templates/models.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How overdue the sample invoice is for each type, matching the default reminder policy
+const sampleDaysOverdue: Record<ReminderType, number> = { gentle: 0, standard: 7, urgent: 14, final: 30 };
+const reminderTypes = Object.keys(sampleDaysOverdue) as ReminderType[];
+
+function jsonResponse(body: object, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Renders a reminder template against a sample invoice, with the caller's own sender details and branding
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { reminderType, subject, body } = await req.json();
+
+    if (!reminderTypes.includes(reminderType)) {
+      return jsonResponse({ error: `Expected parameter reminderType to be one of ${reminderTypes.join(', ')}` }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const user = await getRequestUser(supabase, req);
+
+    if (!user) {
+      return jsonResponse({ error: 'Failed to authenticate user' }, 401);
+    }
+
+    const [{ data: sender }, branding] = await Promise.all([
+      supabase.from('user_settings').select('display_name, company_name, address, currency, locale').eq('user_id', user.id).maybeSingle(),
+      loadBranding(supabase, user.id),
+    ]);
+
+    const daysOverdue = sampleDaysOverdue[reminderType as ReminderType];
+    const dueDate = new Date(Date.now() - daysOverdue * 86_400_000);
+    const issueDate = new Date(dueDate.getTime() - 30 * 86_400_000);
+    const currency = sender?.currency?.toUpperCase() || 'USD';
+
+    // Blank fields fall back to the built-in wording, as they do when sending
+    const defaults = defaultReminderTemplates[reminderType as ReminderType];
+    const template = {
+      subject: typeof subject === 'string' && subject.trim() ? subject : defaults.subject,
+      body: typeof body === 'string' && body.trim() ? body : defaults.body,
+    };
+
+    const rendered = renderReminderEmail({
+      invoice: {
+        id: 'preview',
+        user_id: user.id,
+        client_id: 'preview',
+        number: 'INV-0001',
+        status: daysOverdue > 0 ? 'overdue' : 'sent',
+        issue_date: issueDate.toISOString().slice(0, 10),
+        due_date: dueDate.toISOString().slice(0, 10),
+        currency,
+        subtotal: toMinorUnits(1000, currency),
+        discount_type: 'percent',
+        discount_value: 0,
+        discount: 0,
+        tax: toMinorUnits(100, currency),
+        total: toMinorUnits(1100, currency),
+        amount_paid: toMinorUnits(250, currency),
+        amount_credited: 0,
+        balance_due: toMinorUnits(850, currency),
+        notes: null,
+        view_token: 'preview',
+      },
+      locale: sender?.locale || DEFAULT_LOCALE,
+      client: { name: 'Jordan Example', email: 'jordan@example.com', company: 'Example Co.', address: null },
+      sender,
+      branding,
+      reminderType,
+      daysOverdue,
+      template,
+      payUrl: '#',
+      viewUrl: null,
+    });
+
+    return jsonResponse({ ...rendered, defaults });
+  } catch (error) {
+    console.error('Error previewing reminder email:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,36 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { processEmailOutbox } from '../_shared/email-outbox.ts';
+import { createEmailTransport } from '../_shared/email-transport.ts';
+
+const jsonHeaders = { 'Content-Type': 'application/json' };
+
+// Invoked every minute by pg_cron (see the email_outbox migration)
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: jsonHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const results = await processEmailOutbox(supabase, createEmailTransport());
+
+    const sent = results.filter((message) => message.status === 'sent').length;
+    const failed = results.filter((message) => message.status === 'failed').length;
+
+    if (results.length) {
+      console.info(`Retried ${results.length} email(s): ${sent} sent, ${failed} given up`);
+    }
+
+    return new Response(JSON.stringify({ attempted: results.length, sent, failed }), {
+      status: 200,
+      headers: jsonHeaders,
+    });
+  } catch (error) {
+    console.error('Error processing email outbox:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), { status: 500, headers: jsonHeaders });
+  }
+});
@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getRequestUser } from '../_shared/auth.ts';
+import { loadInvoiceDocument, loadReminderTemplate } from '../_shared/invoice-data.ts';
+import { sendInvoiceEmail } from '../_shared/invoice-email.ts';
+import type { ReminderType } from '../_shared/templates/models.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DueReminder {
+  invoice_id: string;
+  user_id: string;
+  step_id: string;
+  reminder_type: ReminderType;
+  days_overdue: number;
+}
+
+function jsonResponse(body: object, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Runs dunning for every enabled policy when invoked by pg_cron with the service role key,
+// or for the caller's own policy when invoked from the Payment Reminders page
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+    let userId: string | null = null;
+
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      const user = await getRequestUser(supabase, req);
+
+      if (!user) {
+        return jsonResponse({ error: 'Failed to authenticate user' }, 401);
+      }
+
+      userId = user.id;
+    }
+
+    const { data: markedOverdue, error: overdueError } = await supabase.rpc('mark_overdue_invoices', {
+      p_user_id: userId,
+    });
+
+    if (overdueError) {
+      throw new Error(`Failed to mark overdue invoices: ${overdueError.message}`);
+    }
+
+    const { data: due, error: dueError } = await supabase.rpc('due_dunning_reminders', { p_user_id: userId });
+
+    if (dueError) {
+      throw new Error(`Failed to find due reminders: ${dueError.message}`);
+    }
+
+    let sent = 0;
+    const failures: { invoiceId: string; error: string }[] = [];
+
+    for (const reminder of (due ?? []) as DueReminder[]) {
+      // Claim the step before sending; an overlapping run conflicts on (invoice_id, dunning_step_id)
+      const { data: claimed, error: claimError } = await supabase
+        .from('payment_reminders')
+        .upsert(
+          {
+            user_id: reminder.user_id,
+            invoice_id: reminder.invoice_id,
+            dunning_step_id: reminder.step_id,
+            reminder_type: reminder.reminder_type,
+            days_overdue: reminder.days_overdue,
+          },
+          { onConflict: 'invoice_id,dunning_step_id', ignoreDuplicates: true },
+        )
+        .select('id');
+
+      if (claimError || !claimed?.length) {
+        continue;
+      }
+
+      try {
+        const invoiceDocument = await loadInvoiceDocument(supabase, reminder.invoice_id);
+        const template = await loadReminderTemplate(supabase, reminder.user_id, reminder.reminder_type);
+        // Once queued, a rejected message is retried by the outbox, so the step stays claimed
+        await sendInvoiceEmail(supabase, invoiceDocument, {
+          isReminder: true,
+          reminderType: reminder.reminder_type,
+          template,
+        });
+
+        await supabase.from('payment_reminders').update({ sent_at: new Date().toISOString() }).eq('id', claimed[0].id);
+        sent++;
+      } catch (error) {
+        const message = (error as Error).message;
+        console.error(`Failed to send ${reminder.reminder_type} reminder for invoice ${reminder.invoice_id}:`, message);
+        failures.push({ invoiceId: reminder.invoice_id, error: message });
+
+        // Release the claim so the next run tries again
+        await supabase.from('payment_reminders').delete().eq('id', claimed[0].id);
+      }
+    }
+
+    return jsonResponse({ markedOverdue: markedOverdue ?? 0, due: due?.length ?? 0, sent, failures });
+  } catch (error) {
+    console.error('Error running dunning:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -1,6 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
-import { Resend } from 'npm:resend@2.0.0';
+import { authorizeInvoice } from '../_shared/auth.ts';
+import { loadInvoiceDocument, loadReminderTemplate } from '../_shared/invoice-data.ts';
+import { sendInvoiceEmail } from '../_shared/invoice-email.ts';
+import { REMINDER_TYPES } from '../_shared/templates/models.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,101 +16,74 @@ serve(async (req) => {
   }
 
   try {
-    const { invoiceId } = await req.json();
-    
-    const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
-    
+    const {
+      invoiceId,
+      isReminder = false,
+      reminderType = 'standard',
+      attachPdf = true,
+      includeViewLink = false,
+    } = await req.json();
+
+    if (!REMINDER_TYPES.includes(reminderType)) {
+      return new Response(JSON.stringify({ error: `Expected parameter reminderType to be one of ${REMINDER_TYPES.join(', ')}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
     // Create Supabase client
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // 1. Get invoice
-    const { data: invoice, error: invoiceError } = await supabase
-      .from('invoices')
-      .select('*')
-      .eq('id', invoiceId)
-      .single();
+    // Only the invoice's owner may email it to the client
+    const access = await authorizeInvoice(supabase, req, invoiceId, ['owner']);
 
-    if (invoiceError || !invoice) {
-      throw new Error(`Invoice not found: ${invoiceError?.message}`);
+    if ('error' in access) {
+      return new Response(JSON.stringify({ error: access.error }), {
+        status: access.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
     }
 
-    // 2. Get client details
-    const { data: client, error: clientError } = await supabase
-      .from('clients')
-      .select('name, email, company')
-      .eq('id', invoice.client_id)
-      .single();
-
-    if (clientError || !client) {
-      throw new Error(`Client not found for invoice: ${clientError?.message}`);
-    }
+    const invoiceDocument = await loadInvoiceDocument(supabase, invoiceId);
+
+    // Reminders sent from the Payment Reminders page reuse this function
+    const template = isReminder
+      ? await loadReminderTemplate(supabase, invoiceDocument.invoice.user_id, reminderType)
+      : null;
+    const message = await sendInvoiceEmail(supabase, invoiceDocument, {
+      isReminder,
+      reminderType,
+      template,
+      attachPdf: attachPdf !== false,
+      includeViewLink: includeViewLink === true,
+    });
 
-    // 3. Get user settings
-    const { data: userSettings, error: settingsError } = await supabase
-      .from('user_settings')
-      .select('display_name, company_name')
-      .eq('user_id', invoice.user_id)
-      .single();
+    console.log(`Email ${message.id} ${message.status}`);
 
-    if (settingsError) {
-      console.error('Could not fetch user settings:', settingsError.message);
-    }
+    // Emailing a draft issues it. Once queued, a rejected message is retried by the outbox,
+    // so the invoice is issued either way.
+    if (!isReminder && invoiceDocument.invoice.status === 'draft') {
+      const { error: issueError } = await supabase
+        .from('invoices')
+        .update({ status: 'sent' })
+        .eq('id', invoiceId)
+        .eq('status', 'draft');
 
-    if (!client.email) {
-      throw new Error('Client email not found');
+      if (issueError) {
+        throw new Error(`Failed to mark invoice as sent: ${issueError.message}`);
+      }
     }
 
-    const companyName = userSettings?.company_name || userSettings?.display_name || 'Your Business';
-
-    const emailHtml = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <h2 style="color: #333; text-align: center;">Invoice from ${companyName}</h2>
-        
-        <div style="background: #f9f9f9; padding: 20px; border-radius: 8px; margin: 20px 0;">
-          <h3 style="color: #333; margin-top: 0;">Invoice Details</h3>
-          <p><strong>Invoice Number:</strong> ${invoice.number}</p>
-          <p><strong>Date Issued:</strong> ${new Date(invoice.issue_date).toLocaleDateString()}</p>
-          <p><strong>Due Date:</strong> ${invoice.due_date ? new Date(invoice.due_date).toLocaleDateString() : 'No due date'}</p>
-          <p><strong>Status:</strong> <span style="text-transform: capitalize;">${invoice.status}</span></p>
-        </div>
-        
-        <div style="background: #fff; border: 2px solid #e5e5e5; padding: 20px; border-radius: 8px; margin: 20px 0;">
-          <h3 style="color: #333; margin-top: 0;">Amount Due</h3>
-          <div style="display: flex; justify-content: space-between; margin: 10px 0;">
-            <span>Subtotal:</span>
-            <span>$${Number(invoice.subtotal).toFixed(2)}</span>
-          </div>
-          <div style="display: flex; justify-content: space-between; margin: 10px 0;">
-            <span>Tax:</span>
-            <span>$${Number(invoice.tax).toFixed(2)}</span>
-          </div>
-          <hr style="margin: 15px 0;">
-          <div style="display: flex; justify-content: space-between; font-size: 18px; font-weight: bold; color: #333;">
-            <span>Total:</span>
-            <span>$${Number(invoice.total).toFixed(2)}</span>
-          </div>
-        </div>
-        
-        <div style="text-align: center; margin: 30px 0; color: #666;">
-          <p>Thank you for your business!</p>
-          <p style="font-size: 14px;">Please contact us if you have any questions about this invoice.</p>
-        </div>
-      </div>
-    `;
-
-    const emailResponse = await resend.emails.send({
-      from: 'noreply@yourdomain.com', // TODO: Replace with your verified Resend domain
-      to: [client.email],
-      subject: `Invoice ${invoice.number} from ${companyName}`,
-      html: emailHtml,
-    });
-
-    console.log('Email sent successfully:', emailResponse);
-
-    return new Response(JSON.stringify({ success: true, emailResponse }), {
+    // A message the provider rejected is still queued for retry, so the request succeeds
+    return new Response(JSON.stringify({
+      success: true,
+      messageId: message.id,
+      status: message.status,
+      error: message.status === 'sent' ? null : message.last_error,
+    }), {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
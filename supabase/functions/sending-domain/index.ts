@@ -0,0 +1,144 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { Resend } from 'npm:resend@2.0.0';
+import { getRequestUser } from '../_shared/auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DOMAIN_PATTERN = /^(?=.{4,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+function jsonResponse(body: object, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Adds, re-checks or removes the caller's custom sending domain with Resend. 'add' returns
+// the DNS records to publish; 'verify' asks Resend to check them and stores the result.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, domain } = await req.json();
+
+    if (!['add', 'verify', 'remove'].includes(action)) {
+      return jsonResponse({ error: 'Expected parameter action to be one of add, verify, remove' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const user = await getRequestUser(supabase, req);
+
+    if (!user) {
+      return jsonResponse({ error: 'Failed to authenticate user' }, 401);
+    }
+
+    const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
+
+    const { data: existing, error: existingError } = await supabase
+      .from('sending_domains')
+      .select('id, provider_domain_id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (existingError) {
+      throw new Error(`Failed to fetch sending domain: ${existingError.message}`);
+    }
+
+    if (action === 'add') {
+      const name = typeof domain === 'string' ? domain.trim().toLowerCase() : '';
+
+      if (!DOMAIN_PATTERN.test(name)) {
+        return jsonResponse({ error: 'Please enter a domain such as mail.example.com' }, 400);
+      }
+
+      if (existing) {
+        return jsonResponse({ error: 'Remove the current sending domain before adding another' }, 409);
+      }
+
+      const { data: created, error: createError } = await resend.domains.create({ name });
+
+      if (createError || !created) {
+        return jsonResponse({ error: createError?.message ?? 'Failed to add domain' }, 400);
+      }
+
+      const { data: saved, error: saveError } = await supabase
+        .from('sending_domains')
+        .insert({
+          user_id: user.id,
+          domain: created.name,
+          provider: 'resend',
+          provider_domain_id: created.id,
+          status: created.status,
+          dns_records: created.records ?? [],
+        })
+        .select('*')
+        .single();
+
+      if (saveError) {
+        // Keep Resend in step with the database
+        await resend.domains.remove(created.id);
+        throw new Error(`Failed to save sending domain: ${saveError.message}`);
+      }
+
+      return jsonResponse({ domain: saved });
+    }
+
+    if (!existing) {
+      return jsonResponse({ error: 'No sending domain has been added' }, 404);
+    }
+
+    if (action === 'remove') {
+      const { error: removeError } = await resend.domains.remove(existing.provider_domain_id);
+
+      if (removeError) {
+        console.error('Failed to remove domain from Resend:', removeError.message);
+      }
+
+      const { error: deleteError } = await supabase.from('sending_domains').delete().eq('id', existing.id);
+
+      if (deleteError) {
+        throw new Error(`Failed to remove sending domain: ${deleteError.message}`);
+      }
+
+      return jsonResponse({ domain: null });
+    }
+
+    // Verification runs in the background at Resend; the status may still be pending afterwards
+    await resend.domains.verify(existing.provider_domain_id);
+    const { data: current, error: getError } = await resend.domains.get(existing.provider_domain_id);
+
+    if (getError || !current) {
+      return jsonResponse({ error: getError?.message ?? 'Failed to check domain' }, 400);
+    }
+
+    const { data: saved, error: saveError } = await supabase
+      .from('sending_domains')
+      .update({
+        status: current.status,
+        dns_records: current.records ?? [],
+        verified_at: current.status === 'verified' ? new Date().toISOString() : null,
+      })
+      .eq('id', existing.id)
+      .select('*')
+      .single();
+
+    if (saveError) {
+      throw new Error(`Failed to save sending domain: ${saveError.message}`);
+    }
+
+    return jsonResponse({ domain: saved });
+  } catch (error) {
+    console.error('Error managing sending domain:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
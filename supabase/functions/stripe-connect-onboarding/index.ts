@@ -0,0 +1,171 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import Stripe from 'npm:stripe@17.7.0';
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { connectAccountStatus } from '../_shared/connect.ts';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')!;
+const stripe = new Stripe(stripeSecret, {
+  appInfo: {
+    name: 'Bolt Integration',
+    version: '1.0.0',
+  },
+});
+
+// Helper function to create responses with CORS headers
+function corsResponse(body: string | object | null, status = 200) {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': '*',
+  };
+
+  // For 204 No Content, don't include Content-Type or body
+  if (status === 204) {
+    return new Response(null, { status, headers });
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  try {
+    if (req.method === 'OPTIONS') {
+      return corsResponse({}, 204);
+    }
+
+    if (req.method !== 'POST') {
+      return corsResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const { action, account_type = 'express', return_url, refresh_url } = await req.json();
+
+    if (!['onboard', 'status', 'dashboard'].includes(action)) {
+      return corsResponse({ error: 'Expected parameter action to be one of onboard, status, dashboard' }, 400);
+    }
+
+    const authHeader = req.headers.get('Authorization') ?? '';
+    const token = authHeader.replace('Bearer ', '');
+    const {
+      data: { user },
+      error: getUserError,
+    } = await supabase.auth.getUser(token);
+
+    if (getUserError || !user) {
+      return corsResponse({ error: 'Failed to authenticate user' }, 401);
+    }
+
+    const { data: connectAccount, error: getConnectAccountError } = await supabase
+      .from('stripe_connect_accounts')
+      .select('stripe_account_id, account_type')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (getConnectAccountError) {
+      console.error('Failed to fetch connected account from the database', getConnectAccountError);
+
+      return corsResponse({ error: 'Failed to fetch connected account' }, 500);
+    }
+
+    if (action === 'onboard') {
+      if (typeof return_url !== 'string' || typeof refresh_url !== 'string') {
+        return corsResponse({ error: 'Expected return_url and refresh_url to be strings' }, 400);
+      }
+
+      if (account_type !== 'express' && account_type !== 'standard') {
+        return corsResponse({ error: 'Expected parameter account_type to be one of express, standard' }, 400);
+      }
+
+      let accountId = connectAccount?.stripe_account_id;
+
+      /**
+       * In case we don't have a connected account yet, create one and keep the mapping
+       * so that returning to onboarding later continues with the same account.
+       */
+      if (!accountId) {
+        const account = await stripe.accounts.create({
+          type: account_type,
+          email: user.email,
+          metadata: {
+            userId: user.id,
+          },
+        });
+
+        const { error: createAccountError } = await supabase.from('stripe_connect_accounts').insert({
+          user_id: user.id,
+          stripe_account_id: account.id,
+          account_type,
+          ...connectAccountStatus(account),
+        });
+
+        if (createAccountError) {
+          console.error('Failed to save connected account in the database', createAccountError);
+
+          try {
+            await stripe.accounts.del(account.id);
+          } catch (deleteError) {
+            console.error('Failed to delete Stripe account after mapping error:', deleteError);
+          }
+
+          return corsResponse({ error: 'Failed to create connected account mapping' }, 500);
+        }
+
+        console.log(`Created ${account_type} connected account ${account.id} for user ${user.id}`);
+
+        accountId = account.id;
+      }
+
+      // Account links are single-use and expire quickly, so a new one is created on every visit
+      const accountLink = await stripe.accountLinks.create({
+        account: accountId,
+        refresh_url,
+        return_url,
+        type: 'account_onboarding',
+      });
+
+      return corsResponse({ url: accountLink.url });
+    }
+
+    if (!connectAccount) {
+      return corsResponse({ error: 'No connected account found' }, 404);
+    }
+
+    if (action === 'dashboard') {
+      if (connectAccount.account_type !== 'express') {
+        return corsResponse({ url: 'https://dashboard.stripe.com' });
+      }
+
+      const loginLink = await stripe.accounts.createLoginLink(connectAccount.stripe_account_id);
+
+      return corsResponse({ url: loginLink.url });
+    }
+
+    // Sync the verification state after returning from onboarding. The stripe-webhook
+    // function keeps it up to date afterwards through account.updated events.
+    const account = await stripe.accounts.retrieve(connectAccount.stripe_account_id);
+    const status = connectAccountStatus(account);
+
+    const { error: updateAccountError } = await supabase
+      .from('stripe_connect_accounts')
+      .update(status)
+      .eq('stripe_account_id', account.id);
+
+    if (updateAccountError) {
+      console.error('Failed to update connected account in the database', updateAccountError);
+
+      return corsResponse({ error: 'Failed to update connected account' }, 500);
+    }
+
+    return corsResponse(status);
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`Connect onboarding error: ${message}`);
+    return corsResponse({ error: message }, 500);
+  }
+});
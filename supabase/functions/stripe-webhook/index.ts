@@ -1,9 +1,12 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
 import Stripe from 'npm:stripe@17.7.0';
 import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { processConnectEvent } from '../_shared/connect-events.ts';
 
 const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')!;
 const stripeWebhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET')!;
+// Events from connected accounts are delivered to a separate Connect endpoint with its own secret
+const stripeConnectWebhookSecret = Deno.env.get('STRIPE_CONNECT_WEBHOOK_SECRET');
 const stripe = new Stripe(stripeSecret, {
   appInfo: {
     name: 'Bolt Integration',
@@ -38,12 +41,20 @@ Deno.serve(async (req) => {
     let event: Stripe.Event;
 
     try {
-      event = await stripe.webhooks.constructEventAsync(body, signature, stripeWebhookSecret);
+      event = await constructEvent(body, signature);
     } catch (error: any) {
       console.error(`Webhook signature verification failed: ${error.message}`);
       return new Response(`Webhook signature verification failed: ${error.message}`, { status: 400 });
     }
 
+    // Invoice payments on connected accounts are handled before responding so
+    // that Stripe retries the delivery if recording the payment fails
+    if (event.account) {
+      await processConnectEvent(supabase, stripe, event);
+
+      return Response.json({ received: true });
+    }
+
     EdgeRuntime.waitUntil(handleEvent(event));
 
     return Response.json({ received: true });
@@ -53,6 +64,21 @@ Deno.serve(async (req) => {
   }
 });
 
+async function constructEvent(body: string, signature: string): Promise<Stripe.Event> {
+  const secrets = [stripeWebhookSecret, stripeConnectWebhookSecret].filter((secret): secret is string => !!secret);
+  let lastError: unknown;
+
+  for (const secret of secrets) {
+    try {
+      return await stripe.webhooks.constructEventAsync(body, signature, secret);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
 async function handleEvent(event: Stripe.Event) {
   const stripeData = event?.data?.object ?? {};
 
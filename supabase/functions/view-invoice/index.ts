@@ -0,0 +1,79 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { loadInvoiceDocument } from '../_shared/invoice-data.ts';
+import { invoicePdfFilename, renderInvoicePdf } from '../_shared/invoice-pdf.ts';
+import { renderInvoiceDocument } from '../_shared/templates/documents.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'content-disposition',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function jsonResponse(body: object, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Renders an invoice for the "view online" link in invoice emails. The invoice's view_token
+// is the only credential, so this function is public.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // format 'html' (default) returns the document, 'pdf' returns it as a file
+    const { token, format = 'html' } = await req.json();
+
+    if (typeof token !== 'string' || !UUID_PATTERN.test(token)) {
+      return jsonResponse({ error: 'Invoice not found' }, 404);
+    }
+
+    if (format !== 'pdf' && format !== 'html') {
+      return jsonResponse({ error: 'Expected format to be one of pdf, html' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .select('id')
+      .eq('view_token', token)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch invoice: ${error.message}`);
+    }
+
+    if (!invoice) {
+      return jsonResponse({ error: 'Invoice not found' }, 404);
+    }
+
+    const invoiceDocument = await loadInvoiceDocument(supabase, invoice.id);
+
+    if (format === 'pdf') {
+      return new Response(await renderInvoicePdf(invoiceDocument), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${invoicePdfFilename(invoiceDocument.invoice.number)}"`,
+        },
+      });
+    }
+
+    return new Response(renderInvoiceDocument(invoiceDocument).toString(), {
+      headers: { ...corsHeaders, 'Content-Type': 'text/html' },
+    });
+  } catch (error) {
+    console.error('Error viewing invoice:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
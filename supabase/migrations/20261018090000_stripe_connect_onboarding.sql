@@ -0,0 +1,27 @@
+-- Track Stripe Connect onboarding state for invoice payments
+ALTER TABLE public.stripe_connect_accounts
+  ADD COLUMN IF NOT EXISTS account_type TEXT NOT NULL DEFAULT 'express',
+  ADD COLUMN IF NOT EXISTS charges_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS payouts_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS details_submitted BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.stripe_connect_accounts
+ADD CONSTRAINT stripe_connect_accounts_account_type_check
+CHECK (account_type IN ('express', 'standard'));
+
+-- One connected account per user, and each Stripe account maps back to a single user
+CREATE UNIQUE INDEX IF NOT EXISTS stripe_connect_accounts_user_id_key
+ON public.stripe_connect_accounts (user_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stripe_connect_accounts_stripe_account_id_key
+ON public.stripe_connect_accounts (stripe_account_id);
+
+-- Rows are created and verified by the stripe-connect-onboarding and stripe-webhook functions
+ALTER TABLE public.stripe_connect_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own connect account" ON public.stripe_connect_accounts;
+
+CREATE POLICY "Users can view their own connect account"
+ON public.stripe_connect_accounts
+FOR SELECT
+USING (auth.uid() = user_id);
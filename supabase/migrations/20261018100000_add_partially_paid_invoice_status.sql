@@ -0,0 +1,3 @@
+-- Invoices with payments that don't cover the total yet. Added in its own migration
+-- because a new enum value can't be used in the transaction that adds it.
+ALTER TYPE public.invoice_status ADD VALUE IF NOT EXISTS 'partially_paid' AFTER 'sent';
@@ -0,0 +1,112 @@
+-- Payments ledger. Invoice balances and paid/partially_paid status are derived from it.
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  invoice_id UUID NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL DEFAULT 'card',
+  payment_date DATE NOT NULL DEFAULT (timezone('utc', now()))::date,
+  reference TEXT,
+  stripe_payment_intent_id TEXT UNIQUE,
+  stripe_charge_id TEXT UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT payments_method_check CHECK (method IN ('card', 'bank_transfer', 'cash', 'check', 'paypal', 'other'))
+);
+
+CREATE INDEX payments_invoice_id_idx ON public.payments (invoice_id);
+
+ALTER TABLE public.payments
+ADD CONSTRAINT fk_payments_invoice
+FOREIGN KEY (invoice_id) REFERENCES public.invoices(id) ON DELETE CASCADE;
+
+-- Enable RLS
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for payments
+CREATE POLICY "Users can view their own payments" ON public.payments FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own payments" ON public.payments FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM invoices i WHERE i.id = payments.invoice_id AND i.user_id = auth.uid())
+);
+CREATE POLICY "Users can update their own payments" ON public.payments FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own payments" ON public.payments FOR DELETE USING (auth.uid() = user_id);
+
+-- Portal customers can see the payments made against their client's invoices
+CREATE POLICY "Customers can view payments on their invoices" ON public.payments FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM invoices i
+    JOIN customer_users cu ON cu.client_id = i.client_id
+    WHERE i.id = payments.invoice_id
+    AND cu.user_id = auth.uid()
+    AND cu.is_active
+  )
+);
+
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Amount paid is kept in sync with the ledger; the balance is derived from it
+ALTER TABLE public.invoices ADD COLUMN amount_paid NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE public.invoices ADD COLUMN balance_due NUMERIC GENERATED ALWAYS AS (total - amount_paid) STORED;
+
+-- Recompute an invoice's amount paid and payment status from its payments
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  paid numeric;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO paid FROM public.payments WHERE invoice_id = p_invoice_id;
+
+  UPDATE public.invoices SET
+    amount_paid = paid,
+    status = CASE
+      WHEN status IN ('draft', 'void') THEN status
+      WHEN paid > 0 AND paid >= total THEN 'paid'
+      WHEN paid > 0 THEN 'partially_paid'
+      WHEN status IN ('paid', 'partially_paid') AND due_date < CURRENT_DATE THEN 'overdue'
+      WHEN status IN ('paid', 'partially_paid') THEN 'sent'
+      ELSE status
+    END
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Only called by the ledger triggers
+REVOKE EXECUTE ON FUNCTION public.refresh_invoice_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_invoice_balance_from_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_invoice_balance(OLD.invoice_id);
+  END IF;
+
+  -- A payment moved to another invoice changes the balance of both
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.invoice_id <> OLD.invoice_id) THEN
+    PERFORM public.refresh_invoice_balance(NEW.invoice_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_balance_from_payments
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.sync_invoice_balance_from_payments();
+
+-- Invoices marked as paid before the ledger existed get a single payment for their total
+INSERT INTO public.payments (user_id, invoice_id, amount, method, payment_date, reference)
+SELECT user_id, id, total, 'other', updated_at::date, 'Recorded before payments ledger'
+FROM public.invoices
+WHERE status = 'paid' AND total > 0;
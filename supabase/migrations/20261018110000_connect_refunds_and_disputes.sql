@@ -0,0 +1,122 @@
+-- Stripe events already handled by stripe-webhook, so redelivered events are skipped
+CREATE TABLE public.stripe_webhook_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  account_id TEXT,
+  processed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only the stripe-webhook function (service role) reads and writes processed events
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Refunds of invoice payments. They reduce the invoice's amount paid.
+CREATE TABLE public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  invoice_id UUID NOT NULL,
+  payment_id UUID,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'succeeded',
+  stripe_refund_id TEXT UNIQUE,
+  stripe_charge_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT refunds_status_check CHECK (status IN ('pending', 'requires_action', 'succeeded', 'failed', 'canceled'))
+);
+
+CREATE INDEX refunds_invoice_id_idx ON public.refunds (invoice_id);
+
+ALTER TABLE public.refunds
+ADD CONSTRAINT fk_refunds_invoice
+FOREIGN KEY (invoice_id) REFERENCES public.invoices(id) ON DELETE CASCADE;
+
+ALTER TABLE public.refunds
+ADD CONSTRAINT fk_refunds_payment
+FOREIGN KEY (payment_id) REFERENCES public.payments(id) ON DELETE SET NULL;
+
+-- Disputes (chargebacks) opened against invoice payments
+CREATE TABLE public.disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  invoice_id UUID NOT NULL,
+  payment_id UUID,
+  amount NUMERIC NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL,
+  evidence_due_by TIMESTAMPTZ,
+  stripe_dispute_id TEXT NOT NULL UNIQUE,
+  stripe_charge_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX disputes_invoice_id_idx ON public.disputes (invoice_id);
+
+ALTER TABLE public.disputes
+ADD CONSTRAINT fk_disputes_invoice
+FOREIGN KEY (invoice_id) REFERENCES public.invoices(id) ON DELETE CASCADE;
+
+ALTER TABLE public.disputes
+ADD CONSTRAINT fk_disputes_payment
+FOREIGN KEY (payment_id) REFERENCES public.payments(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+
+-- Refunds and disputes are written by stripe-webhook; owners can only read them
+CREATE POLICY "Users can view their own refunds" ON public.refunds FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can view their own disputes" ON public.disputes FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Customers can view refunds on their invoices" ON public.refunds FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM invoices i
+    JOIN customer_users cu ON cu.client_id = i.client_id
+    WHERE i.id = refunds.invoice_id
+    AND cu.user_id = auth.uid()
+    AND cu.is_active
+  )
+);
+
+CREATE TRIGGER update_refunds_updated_at
+BEFORE UPDATE ON public.refunds
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TRIGGER update_disputes_updated_at
+BEFORE UPDATE ON public.disputes
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Amount paid is now the sum of payments less succeeded refunds
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  paid numeric;
+BEGIN
+  SELECT
+    COALESCE((SELECT SUM(amount) FROM public.payments WHERE invoice_id = p_invoice_id), 0)
+    - COALESCE((SELECT SUM(amount) FROM public.refunds WHERE invoice_id = p_invoice_id AND status = 'succeeded'), 0)
+  INTO paid;
+
+  UPDATE public.invoices SET
+    amount_paid = paid,
+    status = CASE
+      WHEN status IN ('draft', 'void') THEN status
+      WHEN paid > 0 AND paid >= total THEN 'paid'
+      WHEN paid > 0 THEN 'partially_paid'
+      WHEN status IN ('paid', 'partially_paid') AND due_date < CURRENT_DATE THEN 'overdue'
+      WHEN status IN ('paid', 'partially_paid') THEN 'sent'
+      ELSE status
+    END
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_balance_from_refunds
+AFTER INSERT OR UPDATE OR DELETE ON public.refunds
+FOR EACH ROW EXECUTE FUNCTION public.sync_invoice_balance_from_payments();
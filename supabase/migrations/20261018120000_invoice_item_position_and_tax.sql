@@ -0,0 +1,24 @@
+-- Line item order and per-line tax rate (as a percentage) for rendered invoices
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_rate NUMERIC NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS invoice_items_invoice_id_position_idx
+ON public.invoice_items (invoice_id, position);
+
+-- Existing items keep the order they were created in
+UPDATE public.invoice_items ii
+SET position = numbered.rn - 1
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY invoice_id ORDER BY created_at, id) AS rn
+  FROM public.invoice_items
+) numbered
+WHERE numbered.id = ii.id;
+
+-- Invoices so far applied a single tax rate to every item, so it can be derived from the totals
+UPDATE public.invoice_items ii
+SET tax_rate = ROUND(i.tax / i.subtotal * 100, 4)
+FROM public.invoices i
+WHERE i.id = ii.invoice_id
+AND i.subtotal > 0
+AND i.tax > 0;
@@ -0,0 +1,56 @@
+-- Custom branding applied to invoice documents, emails and the customer portal
+CREATE TABLE public.branding_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE,
+  company_name TEXT,
+  tagline TEXT,
+  primary_color TEXT NOT NULL DEFAULT '#3b82f6',
+  secondary_color TEXT NOT NULL DEFAULT '#64748b',
+  footer_text TEXT,
+  -- Object path in the branding storage bucket
+  logo_path TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- Colors end up in style attributes of documents and emails, so only plain hex colors are allowed
+  CONSTRAINT branding_settings_primary_color_check CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  CONSTRAINT branding_settings_secondary_color_check CHECK (secondary_color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+-- Enable RLS
+ALTER TABLE public.branding_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own branding" ON public.branding_settings FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own branding" ON public.branding_settings FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own branding" ON public.branding_settings FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own branding" ON public.branding_settings FOR DELETE USING (auth.uid() = user_id);
+
+-- Portal customers see the branding of the business that bills their client
+CREATE POLICY "Customers can view branding of their billing business" ON public.branding_settings FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM clients c
+    JOIN customer_users cu ON cu.client_id = c.id
+    WHERE c.user_id = branding_settings.user_id
+    AND cu.user_id = auth.uid()
+    AND cu.is_active
+  )
+);
+
+CREATE TRIGGER update_branding_settings_updated_at
+BEFORE UPDATE ON public.branding_settings
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Logos are public so that email clients can load them; each user writes to their own folder
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('branding', 'branding', true, 2097152, ARRAY['image/png', 'image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own branding files" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'branding' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+CREATE POLICY "Users can update their own branding files" ON storage.objects FOR UPDATE USING (
+  bucket_id = 'branding' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+CREATE POLICY "Users can delete their own branding files" ON storage.objects FOR DELETE USING (
+  bucket_id = 'branding' AND (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,159 @@
+-- Server-side generation of invoices from recurring invoice templates
+ALTER TABLE public.recurring_invoices ADD COLUMN auto_send BOOLEAN NOT NULL DEFAULT false;
+
+-- Each template bills a period at most once; retried runs hit this index instead of double-billing
+ALTER TABLE public.invoices
+  ADD COLUMN recurring_invoice_id UUID REFERENCES public.recurring_invoices(id) ON DELETE SET NULL,
+  ADD COLUMN recurring_period DATE;
+
+CREATE UNIQUE INDEX invoices_recurring_period_key ON public.invoices (recurring_invoice_id, recurring_period);
+
+CREATE OR REPLACE FUNCTION public.recurring_next_date(p_date date, p_frequency recurring_frequency)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_date + CASE p_frequency
+    WHEN 'weekly' THEN interval '1 week'
+    WHEN 'monthly' THEN interval '1 month'
+    WHEN 'quarterly' THEN interval '3 months'
+    WHEN 'annually' THEN interval '1 year'
+  END)::date;
+$$;
+
+-- Bills the template's current period and advances it to the next one. The caller must hold
+-- a row lock on the template. Returns NULL when the period had already been billed.
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice_period(p_template public.recurring_invoices)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+BEGIN
+  INSERT INTO public.invoices (
+    user_id, client_id, number, subtotal, tax, total, notes, issue_date, status,
+    recurring_invoice_id, recurring_period
+  ) VALUES (
+    p_template.user_id,
+    p_template.client_id,
+    p_template.template_number || '-' || to_char(p_template.next_due_date, 'YYYY-MM-DD'),
+    p_template.subtotal,
+    p_template.tax,
+    p_template.total,
+    p_template.notes,
+    LEAST(p_template.next_due_date, CURRENT_DATE),
+    'draft',
+    p_template.id,
+    p_template.next_due_date
+  )
+  ON CONFLICT (recurring_invoice_id, recurring_period) DO NOTHING
+  RETURNING id INTO new_invoice_id;
+
+  IF new_invoice_id IS NOT NULL THEN
+    INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, amount, position)
+    SELECT new_invoice_id, description, quantity, unit_price, COALESCE(amount, quantity * unit_price), position
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_template.id;
+  END IF;
+
+  UPDATE public.recurring_invoices SET
+    next_due_date = public.recurring_next_date(p_template.next_due_date, p_template.frequency),
+    last_generated_date = CURRENT_DATE
+  WHERE id = p_template.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- Used by the scheduler: bills every period that has come due, including ones missed while it was down
+CREATE OR REPLACE FUNCTION public.generate_due_recurring_invoices(p_as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (generated_invoice_id uuid, template_id uuid)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due_id uuid;
+  template public.recurring_invoices;
+  new_invoice_id uuid;
+BEGIN
+  FOR due_id IN
+    SELECT id FROM public.recurring_invoices
+    WHERE is_active AND next_due_date <= p_as_of
+    ORDER BY next_due_date
+  LOOP
+    LOOP
+      -- Re-read under lock so that concurrent runs see each other's progress
+      SELECT * INTO template FROM public.recurring_invoices WHERE id = due_id FOR UPDATE;
+      EXIT WHEN NOT FOUND OR NOT template.is_active OR template.next_due_date > p_as_of;
+
+      new_invoice_id := public.generate_recurring_invoice_period(template);
+
+      IF new_invoice_id IS NOT NULL THEN
+        generated_invoice_id := new_invoice_id;
+        template_id := template.id;
+        RETURN NEXT;
+      END IF;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Used by the Recurring Invoices page: bills the template's next period now
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice(p_recurring_invoice_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template public.recurring_invoices;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO template FROM public.recurring_invoices
+  WHERE id = p_recurring_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring invoice not found or access denied';
+  END IF;
+
+  IF NOT template.is_active THEN
+    RAISE EXCEPTION 'Recurring invoice is inactive';
+  END IF;
+
+  new_invoice_id := public.generate_recurring_invoice_period(template);
+
+  IF new_invoice_id IS NULL THEN
+    RAISE EXCEPTION 'An invoice for this period has already been generated';
+  END IF;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_invoice_period(public.recurring_invoices) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_due_recurring_invoices(date) FROM PUBLIC, anon, authenticated;
+
+-- Run the generator hourly. The project URL and service role key are read from Vault, e.g.
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'generate-recurring-invoices',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/generate-recurring-invoices',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
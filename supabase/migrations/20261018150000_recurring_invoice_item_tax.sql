@@ -0,0 +1,54 @@
+-- Per-line tax rate (as a percentage) on recurring template items, copied onto generated invoices
+-- together with the rest of each line
+ALTER TABLE public.recurring_invoice_items ADD COLUMN IF NOT EXISTS tax_rate NUMERIC NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS recurring_invoice_items_recurring_invoice_id_position_idx
+ON public.recurring_invoice_items (recurring_invoice_id, position);
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice_period(p_template public.recurring_invoices)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+BEGIN
+  INSERT INTO public.invoices (
+    user_id, client_id, number, subtotal, tax, total, notes, issue_date, status,
+    recurring_invoice_id, recurring_period
+  ) VALUES (
+    p_template.user_id,
+    p_template.client_id,
+    p_template.template_number || '-' || to_char(p_template.next_due_date, 'YYYY-MM-DD'),
+    p_template.subtotal,
+    p_template.tax,
+    p_template.total,
+    p_template.notes,
+    LEAST(p_template.next_due_date, CURRENT_DATE),
+    'draft',
+    p_template.id,
+    p_template.next_due_date
+  )
+  ON CONFLICT (recurring_invoice_id, recurring_period) DO NOTHING
+  RETURNING id INTO new_invoice_id;
+
+  IF new_invoice_id IS NOT NULL THEN
+    -- invoice_items.amount is generated from quantity and unit price
+    INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, tax_rate)
+    SELECT new_invoice_id, description, quantity, unit_price, position, tax_rate
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_template.id
+    ORDER BY position, created_at;
+  END IF;
+
+  UPDATE public.recurring_invoices SET
+    next_due_date = public.recurring_next_date(p_template.next_due_date, p_template.frequency),
+    last_generated_date = CURRENT_DATE
+  WHERE id = p_template.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_invoice_period(public.recurring_invoices) FROM PUBLIC, anon, authenticated;
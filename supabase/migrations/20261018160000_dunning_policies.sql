@@ -0,0 +1,141 @@
+-- Per-user dunning policy run by the run-dunning function: reminder steps at day offsets
+-- from the due date, plus conditions that stop reminders for an invoice
+CREATE TABLE public.dunning_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE,
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  -- Stop conditions, on top of the invoice being paid or void
+  pause_on_partial_payment BOOLEAN NOT NULL DEFAULT false,
+  stop_on_dispute BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.dunning_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  policy_id UUID NOT NULL REFERENCES public.dunning_policies(id) ON DELETE CASCADE,
+  -- Negative offsets send a reminder before the due date
+  days_after_due INTEGER NOT NULL,
+  reminder_type TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT dunning_steps_reminder_type_check CHECK (reminder_type IN ('gentle', 'standard', 'urgent', 'final')),
+  CONSTRAINT dunning_steps_policy_offset_key UNIQUE (policy_id, days_after_due)
+);
+
+-- Enable RLS
+ALTER TABLE public.dunning_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dunning_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own dunning policy" ON public.dunning_policies FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own dunning policy" ON public.dunning_policies FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own dunning policy" ON public.dunning_policies FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own dunning policy" ON public.dunning_policies FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own dunning steps" ON public.dunning_steps FOR SELECT USING (
+  EXISTS (SELECT 1 FROM dunning_policies p WHERE p.id = dunning_steps.policy_id AND p.user_id = auth.uid())
+);
+CREATE POLICY "Users can insert their own dunning steps" ON public.dunning_steps FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM dunning_policies p WHERE p.id = dunning_steps.policy_id AND p.user_id = auth.uid())
+);
+CREATE POLICY "Users can update their own dunning steps" ON public.dunning_steps FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM dunning_policies p WHERE p.id = dunning_steps.policy_id AND p.user_id = auth.uid())
+);
+CREATE POLICY "Users can delete their own dunning steps" ON public.dunning_steps FOR DELETE USING (
+  EXISTS (SELECT 1 FROM dunning_policies p WHERE p.id = dunning_steps.policy_id AND p.user_id = auth.uid())
+);
+
+CREATE TRIGGER update_dunning_policies_updated_at
+BEFORE UPDATE ON public.dunning_policies
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE TRIGGER update_dunning_steps_updated_at
+BEFORE UPDATE ON public.dunning_steps
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Reminders sent by the dunning run record their step; each step is sent at most once per invoice
+ALTER TABLE public.payment_reminders
+  ADD COLUMN dunning_step_id UUID REFERENCES public.dunning_steps(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX payment_reminders_invoice_step_key ON public.payment_reminders (invoice_id, dunning_step_id);
+
+-- Moves sent invoices past their due date to overdue. Returns the number of invoices updated.
+CREATE OR REPLACE FUNCTION public.mark_overdue_invoices(p_user_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  UPDATE public.invoices SET status = 'overdue'
+  WHERE status = 'sent'
+  AND due_date < CURRENT_DATE
+  AND (p_user_id IS NULL OR user_id = p_user_id);
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+-- The reminder each open invoice is due for: the latest step it has reached, unless that step
+-- or a later one was already sent. Without p_user_id only enabled policies are run; with it,
+-- that user's policy is run even while automatic reminders are off.
+CREATE OR REPLACE FUNCTION public.due_dunning_reminders(p_user_id uuid DEFAULT NULL, p_as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (invoice_id uuid, user_id uuid, step_id uuid, reminder_type text, days_overdue integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT due.invoice_id, due.user_id, due.step_id, due.reminder_type, due.days_overdue
+  FROM (
+    SELECT DISTINCT ON (i.id)
+      i.id AS invoice_id,
+      i.user_id,
+      s.id AS step_id,
+      s.reminder_type,
+      s.days_after_due,
+      GREATEST(p_as_of - i.due_date, 0) AS days_overdue
+    FROM public.invoices i
+    JOIN public.dunning_policies p ON p.user_id = i.user_id
+    JOIN public.dunning_steps s ON s.policy_id = p.id AND s.days_after_due <= p_as_of - i.due_date
+    WHERE i.status IN ('sent', 'partially_paid', 'overdue')
+    AND i.due_date IS NOT NULL
+    AND i.balance_due > 0
+    AND (p_user_id IS NULL AND p.is_enabled OR p.user_id = p_user_id)
+    AND NOT (p.pause_on_partial_payment AND i.amount_paid > 0)
+    AND NOT (p.stop_on_dispute AND EXISTS (
+      SELECT 1 FROM public.disputes d
+      WHERE d.invoice_id = i.id AND d.status NOT IN ('won', 'lost', 'warning_closed')
+    ))
+    ORDER BY i.id, s.days_after_due DESC
+  ) due
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.payment_reminders r
+    JOIN public.dunning_steps sent ON sent.id = r.dunning_step_id
+    WHERE r.invoice_id = due.invoice_id
+    AND sent.days_after_due >= due.days_after_due
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_overdue_invoices(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.due_dunning_reminders(uuid, date) FROM PUBLIC, anon, authenticated;
+
+-- Run dunning every morning (UTC), using the Vault secrets set up for recurring invoices
+SELECT cron.schedule(
+  'run-dunning',
+  '0 9 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-dunning',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
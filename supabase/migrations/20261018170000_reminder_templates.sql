@@ -0,0 +1,26 @@
+-- Per-account wording of reminder emails. Types without a row use the built-in wording.
+CREATE TABLE public.reminder_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  reminder_type TEXT NOT NULL,
+  -- Plain text with {{placeholders}}; the body's paragraphs are separated by blank lines
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT reminder_templates_reminder_type_check CHECK (reminder_type IN ('gentle', 'standard', 'urgent', 'final')),
+  CONSTRAINT reminder_templates_user_type_key UNIQUE (user_id, reminder_type)
+);
+
+-- Enable RLS
+ALTER TABLE public.reminder_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reminder templates" ON public.reminder_templates FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own reminder templates" ON public.reminder_templates FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own reminder templates" ON public.reminder_templates FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own reminder templates" ON public.reminder_templates FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_reminder_templates_updated_at
+BEFORE UPDATE ON public.reminder_templates
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
@@ -0,0 +1,80 @@
+-- Outbox of every email sent to clients. Functions queue a message and try to deliver it
+-- right away; process-email-outbox retries failed attempts with backoff, and the provider's
+-- webhook reports delivery and bounces.
+CREATE TABLE public.email_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE,
+  quote_id UUID REFERENCES public.quotes(id) ON DELETE CASCADE,
+  recipient TEXT NOT NULL,
+  -- What was sent, e.g. invoice or reminder:urgent
+  template TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_error TEXT,
+  provider TEXT,
+  provider_message_id TEXT UNIQUE,
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT email_messages_status_check CHECK (status IN ('queued', 'sending', 'sent', 'delivered', 'bounced', 'failed'))
+);
+
+CREATE INDEX email_messages_invoice_id_idx ON public.email_messages (invoice_id, created_at);
+CREATE INDEX email_messages_quote_id_idx ON public.email_messages (quote_id, created_at);
+CREATE INDEX email_messages_pending_idx ON public.email_messages (next_attempt_at) WHERE status IN ('queued', 'sending');
+
+-- Enable RLS
+ALTER TABLE public.email_messages ENABLE ROW LEVEL SECURITY;
+
+-- Messages are written by edge functions; owners can only read them
+CREATE POLICY "Users can view their own email messages" ON public.email_messages FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_email_messages_updated_at
+BEFORE UPDATE ON public.email_messages
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Claims messages that are due for a delivery attempt. Messages left in 'sending' by a run
+-- that crashed are picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_email_messages(p_limit integer DEFAULT 20)
+RETURNS SETOF public.email_messages
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.email_messages SET
+    status = 'sending',
+    attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM public.email_messages
+    WHERE (status = 'queued' AND next_attempt_at <= now())
+    OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_messages(integer) FROM PUBLIC, anon, authenticated;
+
+-- Retry queued messages every minute, using the Vault secrets set up for recurring invoices
+SELECT cron.schedule(
+  'process-email-outbox',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-email-outbox',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,14 @@
+-- Files attached to an outbox message, as [{ "filename", "path", "content_type" }]. The files
+-- live in the email-attachments bucket so retries send exactly what was first queued.
+ALTER TABLE public.email_messages ADD COLUMN attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Only edge functions read and write attachments, so the bucket has no policies
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('email-attachments', 'email-attachments', false, 10485760, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Unguessable token for the "view online" link in invoice emails. Anyone with the link can
+-- view the invoice without signing in, like the PDF attached to the same email.
+ALTER TABLE public.invoices ADD COLUMN view_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX invoices_view_token_key ON public.invoices (view_token);
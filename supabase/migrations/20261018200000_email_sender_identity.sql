@@ -0,0 +1,37 @@
+-- How the account's emails are signed. Blank values fall back to the company name and the
+-- account's login email.
+ALTER TABLE public.user_settings
+  ADD COLUMN email_from_name TEXT,
+  ADD COLUMN email_reply_to TEXT;
+
+-- Custom domain the account sends from once the provider has verified its DNS records.
+-- Written by the sending-domain function only, so an account cannot mark its own domain
+-- as verified.
+CREATE TABLE public.sending_domains (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE,
+  domain TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  provider_domain_id TEXT NOT NULL,
+  -- As reported by the provider: not_started, pending, verified, failed or temporary_failure
+  status TEXT NOT NULL DEFAULT 'not_started',
+  -- DNS records to publish, as [{ "record", "type", "name", "value", "status" }]
+  dns_records JSONB NOT NULL DEFAULT '[]'::jsonb,
+  verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.sending_domains ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sending domain" ON public.sending_domains FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_sending_domains_updated_at
+BEFORE UPDATE ON public.sending_domains
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- The identity is resolved when a message is queued, so retries keep the sender it was queued with
+ALTER TABLE public.email_messages
+  ADD COLUMN sender TEXT,
+  ADD COLUMN reply_to TEXT;
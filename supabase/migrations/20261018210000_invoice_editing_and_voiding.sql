@@ -0,0 +1,163 @@
+-- Invoices can only be edited while they are drafts. Once sent, an invoice is corrected by
+-- voiding it and issuing a replacement, which keeps the sent version on record.
+ALTER TABLE public.invoices
+  ADD COLUMN voided_at TIMESTAMPTZ,
+  ADD COLUMN void_reason TEXT,
+  ADD COLUMN reissued_from_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX invoices_reissued_from_id_idx ON public.invoices (reissued_from_id);
+
+CREATE OR REPLACE FUNCTION public.guard_invoice_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'Invoice % is void and cannot be changed', OLD.number;
+  END IF;
+
+  -- Voiding records when and why; void_invoice sets both
+  IF NEW.status = 'void' AND OLD.status <> 'void' AND NEW.voided_at IS NULL THEN
+    RAISE EXCEPTION 'Use void_invoice to void invoice %', OLD.number;
+  END IF;
+
+  -- Payments and the overdue job still update the balance and status of sent invoices
+  IF OLD.status <> 'draft' AND (
+    NEW.client_id, NEW.number, NEW.issue_date, NEW.due_date, NEW.subtotal, NEW.tax, NEW.total, NEW.notes
+  ) IS DISTINCT FROM (
+    OLD.client_id, OLD.number, OLD.issue_date, OLD.due_date, OLD.subtotal, OLD.tax, OLD.total, OLD.notes
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has been issued and can no longer be edited', OLD.number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_invoice_edits
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.guard_invoice_edits();
+
+CREATE OR REPLACE FUNCTION public.guard_invoice_item_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  invoice_status public.invoice_status;
+  invoice_number text;
+BEGIN
+  SELECT status, number INTO invoice_status, invoice_number
+  FROM public.invoices
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.invoice_id ELSE NEW.invoice_id END;
+
+  -- Not found when the invoice itself is being deleted
+  IF FOUND AND invoice_status <> 'draft' THEN
+    RAISE EXCEPTION 'Invoice % has been issued and its items can no longer be edited', invoice_number;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER guard_invoice_item_edits
+BEFORE INSERT OR UPDATE OR DELETE ON public.invoice_items
+FOR EACH ROW EXECUTE FUNCTION public.guard_invoice_item_edits();
+
+-- Voids an issued invoice. Invoices with payments must have them refunded first.
+CREATE OR REPLACE FUNCTION public.void_invoice(p_invoice_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  IF invoice.status = 'void' THEN
+    RAISE EXCEPTION 'Invoice % is already void', invoice.number;
+  END IF;
+
+  IF invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Invoice % is a draft; edit or delete it instead', invoice.number;
+  END IF;
+
+  IF invoice.amount_paid > 0 THEN
+    RAISE EXCEPTION 'Invoice % has payments recorded; refund them before voiding', invoice.number;
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason for voiding the invoice';
+  END IF;
+
+  UPDATE public.invoices SET
+    status = 'void',
+    voided_at = now(),
+    void_reason = trim(p_reason)
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Voids an issued invoice and creates a draft copy of it, with its items, to correct and
+-- send instead. Returns the new draft's id.
+CREATE OR REPLACE FUNCTION public.reissue_invoice(p_invoice_id uuid, p_reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  reissue_count integer;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  IF invoice.status <> 'void' THEN
+    PERFORM public.void_invoice(p_invoice_id, p_reason);
+  END IF;
+
+  SELECT count(*) INTO reissue_count FROM public.invoices WHERE reissued_from_id = invoice.id;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, number, subtotal, tax, total, notes, issue_date, due_date, status,
+    reissued_from_id
+  ) VALUES (
+    invoice.user_id,
+    invoice.client_id,
+    invoice.number || '-R' || (reissue_count + 1),
+    invoice.subtotal,
+    invoice.tax,
+    invoice.total,
+    invoice.notes,
+    CURRENT_DATE,
+    invoice.due_date,
+    'draft',
+    invoice.id
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, tax_rate)
+  SELECT new_invoice_id, description, quantity, unit_price, position, tax_rate
+  FROM public.invoice_items
+  WHERE invoice_id = invoice.id
+  ORDER BY position, created_at;
+
+  RETURN new_invoice_id;
+END;
+$$;
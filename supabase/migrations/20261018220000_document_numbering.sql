@@ -0,0 +1,362 @@
+-- Per-account numbering of invoices, quotes and credit notes. Documents inserted without a
+-- number get the next one from the account's scheme, e.g. INV-2026-0001.
+CREATE TABLE public.numbering_schemes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  document_type TEXT NOT NULL,
+  prefix TEXT NOT NULL DEFAULT '',
+  include_year BOOLEAN NOT NULL DEFAULT true,
+  -- Minimum number of digits; longer numbers are never truncated
+  padding INTEGER NOT NULL DEFAULT 4,
+  reset_yearly BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT numbering_schemes_user_document_type_key UNIQUE (user_id, document_type),
+  CONSTRAINT numbering_schemes_document_type_check CHECK (document_type IN ('invoice', 'quote', 'credit_note')),
+  CONSTRAINT numbering_schemes_padding_check CHECK (padding BETWEEN 1 AND 10),
+  CONSTRAINT numbering_schemes_prefix_check CHECK (length(prefix) <= 20)
+);
+
+-- Last number handed out per scheme and year (0 for schemes that never reset)
+CREATE TABLE public.numbering_counters (
+  user_id UUID NOT NULL,
+  document_type TEXT NOT NULL,
+  period INTEGER NOT NULL,
+  last_value INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, document_type, period)
+);
+
+-- Enable RLS
+ALTER TABLE public.numbering_schemes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.numbering_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own numbering schemes" ON public.numbering_schemes FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own numbering schemes" ON public.numbering_schemes FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own numbering schemes" ON public.numbering_schemes FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own numbering schemes" ON public.numbering_schemes FOR DELETE USING (auth.uid() = user_id);
+
+-- Counters are only changed by next_document_number
+
+CREATE TRIGGER update_numbering_schemes_updated_at
+BEFORE UPDATE ON public.numbering_schemes
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- The account's scheme for a document type, or the default one
+CREATE OR REPLACE FUNCTION public.numbering_scheme(p_user_id uuid, p_document_type text)
+RETURNS public.numbering_schemes
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  scheme public.numbering_schemes;
+BEGIN
+  SELECT * INTO scheme FROM public.numbering_schemes
+  WHERE user_id = p_user_id AND document_type = p_document_type;
+
+  IF NOT FOUND THEN
+    scheme.user_id := p_user_id;
+    scheme.document_type := p_document_type;
+    scheme.prefix := CASE p_document_type WHEN 'invoice' THEN 'INV-' WHEN 'quote' THEN 'QUO-' ELSE 'CN-' END;
+    scheme.include_year := true;
+    scheme.padding := 4;
+    scheme.reset_yearly := true;
+  END IF;
+
+  RETURN scheme;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.format_document_number(p_scheme public.numbering_schemes, p_year integer, p_value integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_scheme.prefix
+    || CASE WHEN p_scheme.include_year THEN p_year::text || '-' ELSE '' END
+    || CASE
+      WHEN length(p_value::text) >= p_scheme.padding THEN p_value::text
+      ELSE lpad(p_value::text, p_scheme.padding, '0')
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.document_number_taken(p_user_id uuid, p_document_type text, p_number text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN EXISTS (SELECT 1 FROM public.invoices WHERE user_id = p_user_id AND number = p_number)
+    WHEN 'quote' THEN EXISTS (SELECT 1 FROM public.quotes WHERE user_id = p_user_id AND quote_number = p_number)
+    ELSE false
+  END;
+$$;
+
+-- Hands out the next number. The counter row is locked by the upsert until the calling
+-- transaction ends, so concurrent inserts wait for each other, and a rolled back insert
+-- gives its number back. Numbers already used (e.g. after the scheme changed) are skipped.
+CREATE OR REPLACE FUNCTION public.next_document_number(p_user_id uuid, p_document_type text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  scheme public.numbering_schemes;
+  current_year integer := extract(year FROM CURRENT_DATE)::integer;
+  counter_value integer;
+  candidate text;
+BEGIN
+  scheme := public.numbering_scheme(p_user_id, p_document_type);
+
+  LOOP
+    INSERT INTO public.numbering_counters (user_id, document_type, period, last_value)
+    VALUES (p_user_id, p_document_type, CASE WHEN scheme.reset_yearly THEN current_year ELSE 0 END, 1)
+    ON CONFLICT (user_id, document_type, period)
+    DO UPDATE SET last_value = numbering_counters.last_value + 1
+    RETURNING last_value INTO counter_value;
+
+    candidate := public.format_document_number(scheme, current_year, counter_value);
+    EXIT WHEN NOT public.document_number_taken(p_user_id, p_document_type, candidate);
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$;
+
+-- The number the next document would get, for display before it is saved
+CREATE OR REPLACE FUNCTION public.preview_document_number(p_document_type text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  scheme public.numbering_schemes;
+  current_year integer := extract(year FROM CURRENT_DATE)::integer;
+  counter_value integer;
+BEGIN
+  scheme := public.numbering_scheme(auth.uid(), p_document_type);
+
+  SELECT last_value INTO counter_value FROM public.numbering_counters
+  WHERE user_id = auth.uid()
+  AND document_type = p_document_type
+  AND period = CASE WHEN scheme.reset_yearly THEN current_year ELSE 0 END;
+
+  RETURN public.format_document_number(scheme, current_year, COALESCE(counter_value, 0) + 1);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.numbering_scheme(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.document_number_taken(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.next_document_number(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.number, '') = '' THEN
+    NEW.number := public.next_document_number(NEW.user_id, 'invoice');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_invoice_number
+BEFORE INSERT ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.assign_invoice_number();
+
+CREATE OR REPLACE FUNCTION public.assign_quote_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.quote_number, '') = '' THEN
+    NEW.quote_number := public.next_document_number(NEW.user_id, 'quote');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_quote_number
+BEFORE INSERT ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.assign_quote_number();
+
+-- Numbers were picked in the browser until now and may repeat. Keep the oldest document's
+-- number and suffix the others, so they can be made unique per account.
+ALTER TABLE public.invoices DISABLE TRIGGER guard_invoice_edits;
+
+UPDATE public.invoices SET number = invoices.number || '-' || left(invoices.id::text, 8)
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY user_id, number ORDER BY created_at, id) AS occurrence
+  FROM public.invoices
+) duplicates
+WHERE duplicates.id = invoices.id AND duplicates.occurrence > 1;
+
+ALTER TABLE public.invoices ENABLE TRIGGER guard_invoice_edits;
+
+UPDATE public.quotes SET quote_number = quotes.quote_number || '-' || left(quotes.id::text, 8)
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY user_id, quote_number ORDER BY created_at, id) AS occurrence
+  FROM public.quotes
+) duplicates
+WHERE duplicates.id = quotes.id AND duplicates.occurrence > 1;
+
+CREATE UNIQUE INDEX invoices_user_number_key ON public.invoices (user_id, number);
+CREATE UNIQUE INDEX quotes_user_quote_number_key ON public.quotes (user_id, quote_number);
+
+-- Converted quotes, recurring invoices and reissues now take the next number from the scheme
+CREATE OR REPLACE FUNCTION public.convert_quote_to_invoice(quote_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  quote_record public.quotes;
+BEGIN
+  SELECT * INTO quote_record FROM public.quotes
+  WHERE id = convert_quote_to_invoice.quote_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found or access denied';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, subtotal, tax, total, notes, issue_date, status
+  ) VALUES (
+    quote_record.user_id,
+    quote_record.client_id,
+    quote_record.subtotal,
+    quote_record.tax,
+    quote_record.total,
+    quote_record.notes,
+    CURRENT_DATE,
+    'draft'
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position)
+  SELECT new_invoice_id, description, quantity, unit_price, position
+  FROM public.quote_items
+  WHERE quote_items.quote_id = quote_record.id
+  ORDER BY position, created_at;
+
+  UPDATE public.quotes SET status = 'converted' WHERE id = quote_record.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice_period(p_template public.recurring_invoices)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+BEGIN
+  -- Checked first so that a period that was already billed does not use up a number
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE recurring_invoice_id = p_template.id AND recurring_period = p_template.next_due_date
+  ) THEN
+    INSERT INTO public.invoices (
+      user_id, client_id, subtotal, tax, total, notes, issue_date, status,
+      recurring_invoice_id, recurring_period
+    ) VALUES (
+      p_template.user_id,
+      p_template.client_id,
+      p_template.subtotal,
+      p_template.tax,
+      p_template.total,
+      p_template.notes,
+      LEAST(p_template.next_due_date, CURRENT_DATE),
+      'draft',
+      p_template.id,
+      p_template.next_due_date
+    )
+    ON CONFLICT (recurring_invoice_id, recurring_period) DO NOTHING
+    RETURNING id INTO new_invoice_id;
+  END IF;
+
+  IF new_invoice_id IS NOT NULL THEN
+    -- invoice_items.amount is generated from quantity and unit price
+    INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, tax_rate)
+    SELECT new_invoice_id, description, quantity, unit_price, position, tax_rate
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_template.id
+    ORDER BY position, created_at;
+  END IF;
+
+  UPDATE public.recurring_invoices SET
+    next_due_date = public.recurring_next_date(p_template.next_due_date, p_template.frequency),
+    last_generated_date = CURRENT_DATE
+  WHERE id = p_template.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reissue_invoice(p_invoice_id uuid, p_reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  IF invoice.status <> 'void' THEN
+    PERFORM public.void_invoice(p_invoice_id, p_reason);
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, subtotal, tax, total, notes, issue_date, due_date, status,
+    reissued_from_id
+  ) VALUES (
+    invoice.user_id,
+    invoice.client_id,
+    invoice.subtotal,
+    invoice.tax,
+    invoice.total,
+    invoice.notes,
+    CURRENT_DATE,
+    invoice.due_date,
+    'draft',
+    invoice.id
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, tax_rate)
+  SELECT new_invoice_id, description, quantity, unit_price, position, tax_rate
+  FROM public.invoice_items
+  WHERE invoice_id = invoice.id
+  ORDER BY position, created_at;
+
+  RETURN new_invoice_id;
+END;
+$$;
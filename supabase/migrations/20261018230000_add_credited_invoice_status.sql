@@ -0,0 +1,3 @@
+-- Invoices cancelled in full by credit notes. Added in its own migration because a new
+-- enum value can't be used in the transaction that adds it.
+ALTER TYPE public.invoice_status ADD VALUE IF NOT EXISTS 'credited' AFTER 'overdue';
@@ -0,0 +1,482 @@
+-- Credit notes reverse all or part of an issued invoice. They are issued documents with
+-- their own number, and reduce the invoice's balance like payments do. Issued invoices
+-- are no longer voided or deleted; they are cancelled with a credit note instead.
+CREATE TABLE public.credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL,
+  number TEXT NOT NULL,
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reason TEXT NOT NULL,
+  subtotal NUMERIC NOT NULL,
+  tax NUMERIC NOT NULL DEFAULT 0,
+  total NUMERIC NOT NULL CHECK (total > 0),
+  -- Set for credit notes issued automatically for a Stripe refund
+  refund_id UUID UNIQUE REFERENCES public.refunds(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX credit_notes_invoice_id_idx ON public.credit_notes (invoice_id);
+CREATE UNIQUE INDEX credit_notes_user_number_key ON public.credit_notes (user_id, number);
+
+CREATE TABLE public.credit_note_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id UUID NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  quantity NUMERIC NOT NULL DEFAULT 1,
+  unit_price NUMERIC NOT NULL DEFAULT 0,
+  amount NUMERIC GENERATED ALWAYS AS (quantity * unit_price) STORED,
+  tax_rate NUMERIC NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX credit_note_items_credit_note_id_idx ON public.credit_note_items (credit_note_id, position);
+
+-- Enable RLS
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+-- Credit notes are issued through create_credit_note and never change afterwards
+CREATE POLICY "Users can view their own credit notes" ON public.credit_notes FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can view their own credit note items" ON public.credit_note_items FOR SELECT USING (
+  EXISTS (SELECT 1 FROM credit_notes cn WHERE cn.id = credit_note_items.credit_note_id AND cn.user_id = auth.uid())
+);
+
+CREATE POLICY "Customers can view credit notes on their invoices" ON public.credit_notes FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM invoices i
+    JOIN customer_users cu ON cu.client_id = i.client_id
+    WHERE i.id = credit_notes.invoice_id
+    AND cu.user_id = auth.uid()
+    AND cu.is_active
+  )
+);
+
+CREATE POLICY "Customers can view items of credit notes on their invoices" ON public.credit_note_items FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM credit_notes cn
+    JOIN invoices i ON i.id = cn.invoice_id
+    JOIN customer_users cu ON cu.client_id = i.client_id
+    WHERE cn.id = credit_note_items.credit_note_id
+    AND cu.user_id = auth.uid()
+    AND cu.is_active
+  )
+);
+
+CREATE TRIGGER update_credit_notes_updated_at
+BEFORE UPDATE ON public.credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Credit notes are numbered from the account's credit_note scheme
+CREATE OR REPLACE FUNCTION public.document_number_taken(p_user_id uuid, p_document_type text, p_number text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN EXISTS (SELECT 1 FROM public.invoices WHERE user_id = p_user_id AND number = p_number)
+    WHEN 'quote' THEN EXISTS (SELECT 1 FROM public.quotes WHERE user_id = p_user_id AND quote_number = p_number)
+    WHEN 'credit_note' THEN EXISTS (SELECT 1 FROM public.credit_notes WHERE user_id = p_user_id AND number = p_number)
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_credit_note_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.number, '') = '' THEN
+    NEW.number := public.next_document_number(NEW.user_id, 'credit_note');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_credit_note_number
+BEFORE INSERT ON public.credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.assign_credit_note_number();
+
+-- The balance due is now the total less net payments and credit notes
+ALTER TABLE public.invoices ADD COLUMN amount_credited NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE public.invoices DROP COLUMN balance_due;
+ALTER TABLE public.invoices ADD COLUMN balance_due NUMERIC GENERATED ALWAYS AS (total - amount_paid - amount_credited) STORED;
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  paid numeric;
+  credited numeric;
+BEGIN
+  SELECT
+    COALESCE((SELECT SUM(amount) FROM public.payments WHERE invoice_id = p_invoice_id), 0)
+    - COALESCE((SELECT SUM(amount) FROM public.refunds WHERE invoice_id = p_invoice_id AND status = 'succeeded'), 0)
+  INTO paid;
+
+  SELECT COALESCE(SUM(total), 0) INTO credited FROM public.credit_notes WHERE invoice_id = p_invoice_id;
+
+  UPDATE public.invoices SET
+    amount_paid = paid,
+    amount_credited = credited,
+    status = CASE
+      WHEN status IN ('draft', 'void') THEN status
+      WHEN credited > 0 AND credited >= total THEN 'credited'
+      WHEN paid > 0 AND paid + credited >= total THEN 'paid'
+      WHEN paid > 0 THEN 'partially_paid'
+      WHEN status IN ('paid', 'partially_paid', 'credited') AND due_date < CURRENT_DATE THEN 'overdue'
+      WHEN status IN ('paid', 'partially_paid', 'credited') THEN 'sent'
+      ELSE status
+    END
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_balance_from_credit_notes
+AFTER INSERT OR UPDATE OR DELETE ON public.credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.sync_invoice_balance_from_payments();
+
+-- Issues a credit note against an issued invoice. Lines are a JSON array of
+-- {description, quantity, unit_price, tax_rate}; totals are computed from them, and can't
+-- exceed what is left to credit on the invoice. Returns the credit note's id.
+CREATE OR REPLACE FUNCTION public.issue_credit_note(
+  p_invoice_id uuid,
+  p_reason text,
+  p_items jsonb,
+  p_refund_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  credited numeric;
+  credit_subtotal numeric;
+  credit_tax numeric;
+  new_credit_note_id uuid;
+BEGIN
+  -- Locked so that concurrent credit notes can't credit more than the invoice total
+  SELECT * INTO invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF invoice.status IN ('draft', 'void') THEN
+    RAISE EXCEPTION 'Invoice % has not been issued and cannot be credited', invoice.number;
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason for the credit note';
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value)
+    WHERE COALESCE(trim(line.value->>'description'), '') = ''
+    OR COALESCE((line.value->>'quantity')::numeric, 0) <= 0
+    OR COALESCE((line.value->>'unit_price')::numeric, 0) <= 0
+    OR COALESCE((line.value->>'tax_rate')::numeric, 0) < 0
+  ) THEN
+    RAISE EXCEPTION 'Each credit note line needs a description, a quantity and a price';
+  END IF;
+
+  SELECT
+    round(SUM((line.value->>'quantity')::numeric * (line.value->>'unit_price')::numeric), 2),
+    round(SUM(
+      (line.value->>'quantity')::numeric * (line.value->>'unit_price')::numeric
+      * COALESCE((line.value->>'tax_rate')::numeric, 0) / 100
+    ), 2)
+  INTO credit_subtotal, credit_tax
+  FROM jsonb_array_elements(p_items) AS line(value);
+
+  SELECT COALESCE(SUM(total), 0) INTO credited FROM public.credit_notes WHERE invoice_id = invoice.id;
+
+  IF credit_subtotal + credit_tax > round(invoice.total - credited, 2) THEN
+    RAISE EXCEPTION 'Only % is left to credit on invoice %', round(invoice.total - credited, 2), invoice.number;
+  END IF;
+
+  INSERT INTO public.credit_notes (user_id, invoice_id, client_id, reason, subtotal, tax, total, refund_id)
+  VALUES (
+    invoice.user_id,
+    invoice.id,
+    invoice.client_id,
+    trim(p_reason),
+    credit_subtotal,
+    credit_tax,
+    credit_subtotal + credit_tax,
+    p_refund_id
+  ) RETURNING id INTO new_credit_note_id;
+
+  -- credit_note_items.amount is generated from quantity and unit price
+  INSERT INTO public.credit_note_items (credit_note_id, description, quantity, unit_price, tax_rate, position)
+  SELECT
+    new_credit_note_id,
+    trim(line.value->>'description'),
+    (line.value->>'quantity')::numeric,
+    (line.value->>'unit_price')::numeric,
+    COALESCE((line.value->>'tax_rate')::numeric, 0),
+    line.position - 1
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS line(value, position);
+
+  RETURN new_credit_note_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_credit_note(uuid, text, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Credit note for one of the caller's invoices
+CREATE OR REPLACE FUNCTION public.create_credit_note(p_invoice_id uuid, p_reason text, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.invoices WHERE id = p_invoice_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  RETURN public.issue_credit_note(p_invoice_id, p_reason, p_items);
+END;
+$$;
+
+-- Lines crediting an invoice in full: its items, or a single line for invoices without any
+CREATE OR REPLACE FUNCTION public.invoice_credit_lines(p_invoice public.invoices)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'description', description,
+          'quantity', quantity,
+          'unit_price', unit_price,
+          'tax_rate', tax_rate
+        )
+        ORDER BY position, created_at
+      )
+      FROM public.invoice_items
+      WHERE invoice_id = p_invoice.id
+    ),
+    jsonb_build_array(jsonb_build_object(
+      'description', 'Invoice ' || p_invoice.number,
+      'quantity', 1,
+      'unit_price', p_invoice.subtotal,
+      'tax_rate', CASE WHEN p_invoice.subtotal > 0 THEN round(p_invoice.tax / p_invoice.subtotal * 100, 4) ELSE 0 END
+    ))
+  );
+$$;
+
+-- Stripe refunds are credited on their invoice, so the refunded amount isn't owed again.
+-- Only the part of a refund that would reopen the balance is credited; refunding an
+-- overpayment leaves the invoice as it is.
+CREATE OR REPLACE FUNCTION public.credit_refunded_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  paid numeric;
+  credited numeric;
+  creditable numeric;
+  rate numeric;
+  net numeric;
+  remainder numeric;
+  credit_lines jsonb;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF NOT FOUND OR invoice.status IN ('draft', 'void') THEN
+    RETURN NULL;
+  END IF;
+
+  -- Refunds are upserted on every webhook delivery
+  IF EXISTS (SELECT 1 FROM public.credit_notes WHERE refund_id = NEW.id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(amount) FROM public.payments WHERE invoice_id = invoice.id), 0)
+    - COALESCE((SELECT SUM(amount) FROM public.refunds WHERE invoice_id = invoice.id AND status = 'succeeded'), 0)
+  INTO paid;
+
+  SELECT COALESCE(SUM(total), 0) INTO credited FROM public.credit_notes WHERE invoice_id = invoice.id;
+
+  creditable := round(LEAST(NEW.amount, invoice.total - paid - credited), 2);
+
+  IF creditable <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Tax is credited at the invoice's overall rate, with a rounding line if needed so
+  -- that the credit note adds up to the refunded amount
+  rate := CASE WHEN invoice.subtotal > 0 THEN round(invoice.tax / invoice.subtotal * 100, 4) ELSE 0 END;
+  net := round(creditable / (1 + rate / 100), 2);
+  remainder := creditable - net - round(net * rate / 100, 2);
+
+  WHILE remainder < 0 LOOP
+    net := net - 0.01;
+    remainder := creditable - net - round(net * rate / 100, 2);
+  END LOOP;
+
+  credit_lines := jsonb_build_array(jsonb_build_object(
+    'description', 'Refund of payment on invoice ' || invoice.number,
+    'quantity', 1,
+    'unit_price', net,
+    'tax_rate', rate
+  ));
+
+  IF remainder > 0 THEN
+    credit_lines := credit_lines || jsonb_build_object('description', 'Rounding', 'quantity', 1, 'unit_price', remainder, 'tax_rate', 0);
+  END IF;
+
+  PERFORM public.issue_credit_note(
+    invoice.id,
+    'Payment refunded' || COALESCE(' (' || replace(NEW.reason, '_', ' ') || ')', ''),
+    credit_lines,
+    NEW.id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER credit_refunded_invoice
+AFTER INSERT OR UPDATE OF status ON public.refunds
+FOR EACH ROW
+WHEN (NEW.status = 'succeeded')
+EXECUTE FUNCTION public.credit_refunded_invoice();
+
+-- Invoices voided before credit notes existed stay void; nothing can be voided any more
+CREATE OR REPLACE FUNCTION public.guard_invoice_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'Invoice % is void and cannot be changed', OLD.number;
+  END IF;
+
+  IF NEW.status = 'void' AND OLD.status <> 'void' THEN
+    RAISE EXCEPTION 'Invoice % cannot be voided; issue a credit note to cancel it', OLD.number;
+  END IF;
+
+  -- Payments, credit notes and the overdue job still update the balance and status of sent invoices
+  IF OLD.status <> 'draft' AND (
+    NEW.client_id, NEW.number, NEW.issue_date, NEW.due_date, NEW.subtotal, NEW.tax, NEW.total, NEW.notes
+  ) IS DISTINCT FROM (
+    OLD.client_id, OLD.number, OLD.issue_date, OLD.due_date, OLD.subtotal, OLD.tax, OLD.total, OLD.notes
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has been issued and can no longer be edited', OLD.number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_invoice_deletes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'Invoice % has been issued and cannot be deleted; issue a credit note to cancel it', OLD.number;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER guard_invoice_deletes
+BEFORE DELETE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.guard_invoice_deletes();
+
+DROP FUNCTION public.void_invoice(uuid, text);
+
+-- Cancels an issued invoice with a credit note for its full amount and creates a draft
+-- copy of it, with its items, to correct and send instead. Returns the new draft's id.
+CREATE OR REPLACE FUNCTION public.reissue_invoice(p_invoice_id uuid, p_reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  IF invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Invoice % is a draft; edit it instead', invoice.number;
+  END IF;
+
+  -- Void and fully credited invoices are already cancelled
+  IF invoice.status NOT IN ('void', 'credited') THEN
+    IF invoice.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Invoice % has payments recorded; refund them before reissuing', invoice.number;
+    END IF;
+
+    IF invoice.amount_credited > 0 THEN
+      RAISE EXCEPTION 'Invoice % has been partly credited; credit the rest before reissuing', invoice.number;
+    END IF;
+
+    PERFORM public.issue_credit_note(invoice.id, p_reason, public.invoice_credit_lines(invoice));
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, subtotal, tax, total, notes, issue_date, due_date, status,
+    reissued_from_id
+  ) VALUES (
+    invoice.user_id,
+    invoice.client_id,
+    invoice.subtotal,
+    invoice.tax,
+    invoice.total,
+    invoice.notes,
+    CURRENT_DATE,
+    invoice.due_date,
+    'draft',
+    invoice.id
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, tax_rate)
+  SELECT new_invoice_id, description, quantity, unit_price, position, tax_rate
+  FROM public.invoice_items
+  WHERE invoice_id = invoice.id
+  ORDER BY position, created_at;
+
+  RETURN new_invoice_id;
+END;
+$$;
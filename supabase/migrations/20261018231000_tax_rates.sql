@@ -0,0 +1,508 @@
+-- Saved tax rates, applied per line item. Compound taxes are charged on the line amount
+-- plus the taxes before them (e.g. Quebec QST on top of GST); inclusive taxes are already
+-- part of the line's price.
+CREATE TABLE public.tax_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  -- Percentage
+  rate NUMERIC NOT NULL,
+  is_compound BOOLEAN NOT NULL DEFAULT false,
+  is_inclusive BOOLEAN NOT NULL DEFAULT false,
+  -- Default rates are applied to new line items
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT tax_rates_name_check CHECK (length(trim(name)) BETWEEN 1 AND 50),
+  CONSTRAINT tax_rates_rate_check CHECK (rate >= 0 AND rate <= 100)
+);
+
+CREATE INDEX tax_rates_user_id_idx ON public.tax_rates (user_id);
+
+-- Enable RLS
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tax rates" ON public.tax_rates FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own tax rates" ON public.tax_rates FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own tax rates" ON public.tax_rates FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own tax rates" ON public.tax_rates FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_tax_rates_updated_at
+BEFORE UPDATE ON public.tax_rates
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Line items keep a copy of the taxes applied to them, as a JSON array of
+-- {tax_rate_id, name, rate, compound, inclusive} in the order they are charged, so that
+-- editing or deleting a saved rate never changes documents that used it
+ALTER TABLE public.invoice_items ADD COLUMN taxes JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(taxes) = 'array');
+ALTER TABLE public.quote_items ADD COLUMN taxes JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(taxes) = 'array');
+ALTER TABLE public.recurring_invoice_items ADD COLUMN taxes JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(taxes) = 'array');
+ALTER TABLE public.credit_note_items ADD COLUMN taxes JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(taxes) = 'array');
+
+-- Items on issued invoices can't be edited, so the single rates so far are copied over with the guard off
+ALTER TABLE public.invoice_items DISABLE TRIGGER guard_invoice_item_edits;
+
+UPDATE public.invoice_items
+SET taxes = jsonb_build_array(jsonb_build_object('tax_rate_id', NULL, 'name', 'Tax', 'rate', tax_rate, 'compound', false, 'inclusive', false))
+WHERE tax_rate > 0;
+
+ALTER TABLE public.invoice_items ENABLE TRIGGER guard_invoice_item_edits;
+
+UPDATE public.recurring_invoice_items
+SET taxes = jsonb_build_array(jsonb_build_object('tax_rate_id', NULL, 'name', 'Tax', 'rate', tax_rate, 'compound', false, 'inclusive', false))
+WHERE tax_rate > 0;
+
+UPDATE public.credit_note_items
+SET taxes = jsonb_build_array(jsonb_build_object('tax_rate_id', NULL, 'name', 'Tax', 'rate', tax_rate, 'compound', false, 'inclusive', false))
+WHERE tax_rate > 0;
+
+ALTER TABLE public.invoice_items DROP COLUMN tax_rate;
+ALTER TABLE public.recurring_invoice_items DROP COLUMN tax_rate;
+ALTER TABLE public.credit_note_items DROP COLUMN tax_rate;
+
+-- The part of a line amount that isn't tax. Inclusive taxes are taken out of the amount;
+-- lines without them are net already.
+CREATE OR REPLACE FUNCTION public.line_net_amount(p_amount numeric, p_taxes jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  simple_rate numeric := 0;
+  factor numeric;
+  tax jsonb;
+BEGIN
+  SELECT COALESCE(SUM((value->>'rate')::numeric), 0) INTO simple_rate
+  FROM jsonb_array_elements(COALESCE(p_taxes, '[]'))
+  WHERE (value->>'inclusive')::boolean AND NOT COALESCE((value->>'compound')::boolean, false);
+
+  factor := 1 + simple_rate / 100;
+
+  FOR tax IN SELECT value FROM jsonb_array_elements(COALESCE(p_taxes, '[]')) LOOP
+    IF (tax->>'inclusive')::boolean AND COALESCE((tax->>'compound')::boolean, false) THEN
+      factor := factor * (1 + (tax->>'rate')::numeric / 100);
+    END IF;
+  END LOOP;
+
+  RETURN p_amount / factor;
+END;
+$$;
+
+-- The tax charged on a line for each of its taxes, unrounded. Simple taxes are charged on
+-- the net amount, compound taxes on the net amount plus every tax before them.
+CREATE OR REPLACE FUNCTION public.line_tax_amounts(p_amount numeric, p_taxes jsonb)
+RETURNS TABLE (name text, rate numeric, amount numeric)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  net numeric := public.line_net_amount(p_amount, p_taxes);
+  running numeric;
+  tax jsonb;
+BEGIN
+  running := net;
+
+  FOR tax IN SELECT value FROM jsonb_array_elements(COALESCE(p_taxes, '[]')) LOOP
+    IF NOT COALESCE((tax->>'compound')::boolean, false) THEN
+      name := tax->>'name';
+      rate := (tax->>'rate')::numeric;
+      amount := net * rate / 100;
+      running := running + amount;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+
+  FOR tax IN SELECT value FROM jsonb_array_elements(COALESCE(p_taxes, '[]')) LOOP
+    IF COALESCE((tax->>'compound')::boolean, false) THEN
+      name := tax->>'name';
+      rate := (tax->>'rate')::numeric;
+      amount := running * rate / 100;
+      running := running + amount;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Copies taxes with the items of converted quotes, recurring invoices and reissues
+CREATE OR REPLACE FUNCTION public.convert_quote_to_invoice(quote_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  quote_record public.quotes;
+BEGIN
+  SELECT * INTO quote_record FROM public.quotes
+  WHERE id = convert_quote_to_invoice.quote_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found or access denied';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, subtotal, tax, total, notes, issue_date, status
+  ) VALUES (
+    quote_record.user_id,
+    quote_record.client_id,
+    quote_record.subtotal,
+    quote_record.tax,
+    quote_record.total,
+    quote_record.notes,
+    CURRENT_DATE,
+    'draft'
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes)
+  SELECT new_invoice_id, description, quantity, unit_price, position, taxes
+  FROM public.quote_items
+  WHERE quote_items.quote_id = quote_record.id
+  ORDER BY position, created_at;
+
+  UPDATE public.quotes SET status = 'converted' WHERE id = quote_record.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice_period(p_template public.recurring_invoices)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+BEGIN
+  -- Checked first so that a period that was already billed does not use up a number
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE recurring_invoice_id = p_template.id AND recurring_period = p_template.next_due_date
+  ) THEN
+    INSERT INTO public.invoices (
+      user_id, client_id, subtotal, tax, total, notes, issue_date, status,
+      recurring_invoice_id, recurring_period
+    ) VALUES (
+      p_template.user_id,
+      p_template.client_id,
+      p_template.subtotal,
+      p_template.tax,
+      p_template.total,
+      p_template.notes,
+      LEAST(p_template.next_due_date, CURRENT_DATE),
+      'draft',
+      p_template.id,
+      p_template.next_due_date
+    )
+    ON CONFLICT (recurring_invoice_id, recurring_period) DO NOTHING
+    RETURNING id INTO new_invoice_id;
+  END IF;
+
+  IF new_invoice_id IS NOT NULL THEN
+    -- invoice_items.amount is generated from quantity and unit price
+    INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes)
+    SELECT new_invoice_id, description, quantity, unit_price, position, taxes
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_template.id
+    ORDER BY position, created_at;
+  END IF;
+
+  UPDATE public.recurring_invoices SET
+    next_due_date = public.recurring_next_date(p_template.next_due_date, p_template.frequency),
+    last_generated_date = CURRENT_DATE
+  WHERE id = p_template.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reissue_invoice(p_invoice_id uuid, p_reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  IF invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Invoice % is a draft; edit it instead', invoice.number;
+  END IF;
+
+  -- Void and fully credited invoices are already cancelled
+  IF invoice.status NOT IN ('void', 'credited') THEN
+    IF invoice.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Invoice % has payments recorded; refund them before reissuing', invoice.number;
+    END IF;
+
+    IF invoice.amount_credited > 0 THEN
+      RAISE EXCEPTION 'Invoice % has been partly credited; credit the rest before reissuing', invoice.number;
+    END IF;
+
+    PERFORM public.issue_credit_note(invoice.id, p_reason, public.invoice_credit_lines(invoice));
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, subtotal, tax, total, notes, issue_date, due_date, status,
+    reissued_from_id
+  ) VALUES (
+    invoice.user_id,
+    invoice.client_id,
+    invoice.subtotal,
+    invoice.tax,
+    invoice.total,
+    invoice.notes,
+    CURRENT_DATE,
+    invoice.due_date,
+    'draft',
+    invoice.id
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes)
+  SELECT new_invoice_id, description, quantity, unit_price, position, taxes
+  FROM public.invoice_items
+  WHERE invoice_id = invoice.id
+  ORDER BY position, created_at;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- Credit note lines now carry their taxes as {description, quantity, unit_price, taxes}.
+-- Tax is rounded per rate, the same way documents show it.
+CREATE OR REPLACE FUNCTION public.issue_credit_note(
+  p_invoice_id uuid,
+  p_reason text,
+  p_items jsonb,
+  p_refund_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  credited numeric;
+  credit_subtotal numeric;
+  credit_tax numeric;
+  new_credit_note_id uuid;
+BEGIN
+  -- Locked so that concurrent credit notes can't credit more than the invoice total
+  SELECT * INTO invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF invoice.status IN ('draft', 'void') THEN
+    RAISE EXCEPTION 'Invoice % has not been issued and cannot be credited', invoice.number;
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason for the credit note';
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value)
+    WHERE COALESCE(trim(line.value->>'description'), '') = ''
+    OR COALESCE((line.value->>'quantity')::numeric, 0) <= 0
+    OR COALESCE((line.value->>'unit_price')::numeric, 0) <= 0
+    OR jsonb_typeof(COALESCE(line.value->'taxes', '[]')) <> 'array'
+  ) THEN
+    RAISE EXCEPTION 'Each credit note line needs a description, a quantity and a price';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value),
+    jsonb_array_elements(COALESCE(line.value->'taxes', '[]')) AS tax(value)
+    WHERE COALESCE(trim(tax.value->>'name'), '') = ''
+    OR COALESCE((tax.value->>'rate')::numeric, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'Each tax on a credit note line needs a name and a rate';
+  END IF;
+
+  SELECT round(SUM(public.line_net_amount(
+    (line.value->>'quantity')::numeric * (line.value->>'unit_price')::numeric,
+    COALESCE(line.value->'taxes', '[]')
+  )), 2)
+  INTO credit_subtotal
+  FROM jsonb_array_elements(p_items) AS line(value);
+
+  SELECT COALESCE(SUM(rate_total), 0) INTO credit_tax
+  FROM (
+    SELECT round(SUM(tax.amount), 2) AS rate_total
+    FROM jsonb_array_elements(p_items) AS line(value),
+    public.line_tax_amounts(
+      (line.value->>'quantity')::numeric * (line.value->>'unit_price')::numeric,
+      COALESCE(line.value->'taxes', '[]')
+    ) AS tax
+    GROUP BY tax.name, tax.rate
+  ) rates;
+
+  SELECT COALESCE(SUM(total), 0) INTO credited FROM public.credit_notes WHERE invoice_id = invoice.id;
+
+  IF credit_subtotal + credit_tax > round(invoice.total - credited, 2) THEN
+    RAISE EXCEPTION 'Only % is left to credit on invoice %', round(invoice.total - credited, 2), invoice.number;
+  END IF;
+
+  INSERT INTO public.credit_notes (user_id, invoice_id, client_id, reason, subtotal, tax, total, refund_id)
+  VALUES (
+    invoice.user_id,
+    invoice.id,
+    invoice.client_id,
+    trim(p_reason),
+    credit_subtotal,
+    credit_tax,
+    credit_subtotal + credit_tax,
+    p_refund_id
+  ) RETURNING id INTO new_credit_note_id;
+
+  -- credit_note_items.amount is generated from quantity and unit price
+  INSERT INTO public.credit_note_items (credit_note_id, description, quantity, unit_price, taxes, position)
+  SELECT
+    new_credit_note_id,
+    trim(line.value->>'description'),
+    (line.value->>'quantity')::numeric,
+    (line.value->>'unit_price')::numeric,
+    COALESCE(line.value->'taxes', '[]'),
+    line.position - 1
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS line(value, position);
+
+  RETURN new_credit_note_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.invoice_credit_lines(p_invoice public.invoices)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'description', description,
+          'quantity', quantity,
+          'unit_price', unit_price,
+          'taxes', taxes
+        )
+        ORDER BY position, created_at
+      )
+      FROM public.invoice_items
+      WHERE invoice_id = p_invoice.id
+    ),
+    jsonb_build_array(jsonb_build_object(
+      'description', 'Invoice ' || p_invoice.number,
+      'quantity', 1,
+      'unit_price', p_invoice.subtotal,
+      'taxes', CASE
+        WHEN p_invoice.subtotal > 0 AND p_invoice.tax > 0 THEN jsonb_build_array(jsonb_build_object(
+          'tax_rate_id', NULL,
+          'name', 'Tax',
+          'rate', round(p_invoice.tax / p_invoice.subtotal * 100, 4),
+          'compound', false,
+          'inclusive', false
+        ))
+        ELSE '[]'::jsonb
+      END
+    ))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.credit_refunded_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  paid numeric;
+  credited numeric;
+  creditable numeric;
+  rate numeric;
+  net numeric;
+  remainder numeric;
+  credit_lines jsonb;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF NOT FOUND OR invoice.status IN ('draft', 'void') THEN
+    RETURN NULL;
+  END IF;
+
+  -- Refunds are upserted on every webhook delivery
+  IF EXISTS (SELECT 1 FROM public.credit_notes WHERE refund_id = NEW.id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(amount) FROM public.payments WHERE invoice_id = invoice.id), 0)
+    - COALESCE((SELECT SUM(amount) FROM public.refunds WHERE invoice_id = invoice.id AND status = 'succeeded'), 0)
+  INTO paid;
+
+  SELECT COALESCE(SUM(total), 0) INTO credited FROM public.credit_notes WHERE invoice_id = invoice.id;
+
+  creditable := round(LEAST(NEW.amount, invoice.total - paid - credited), 2);
+
+  IF creditable <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Tax is credited at the invoice's overall rate, with a rounding line if needed so
+  -- that the credit note adds up to the refunded amount
+  rate := CASE WHEN invoice.subtotal > 0 THEN round(invoice.tax / invoice.subtotal * 100, 4) ELSE 0 END;
+  net := round(creditable / (1 + rate / 100), 2);
+  remainder := creditable - net - round(net * rate / 100, 2);
+
+  WHILE remainder < 0 LOOP
+    net := net - 0.01;
+    remainder := creditable - net - round(net * rate / 100, 2);
+  END LOOP;
+
+  credit_lines := jsonb_build_array(jsonb_build_object(
+    'description', 'Refund of payment on invoice ' || invoice.number,
+    'quantity', 1,
+    'unit_price', net,
+    'taxes', CASE
+      WHEN rate > 0 THEN jsonb_build_array(jsonb_build_object(
+        'tax_rate_id', NULL, 'name', 'Tax', 'rate', rate, 'compound', false, 'inclusive', false
+      ))
+      ELSE '[]'::jsonb
+    END
+  ));
+
+  IF remainder > 0 THEN
+    credit_lines := credit_lines || jsonb_build_object('description', 'Rounding', 'quantity', 1, 'unit_price', remainder, 'taxes', '[]'::jsonb);
+  END IF;
+
+  PERFORM public.issue_credit_note(
+    invoice.id,
+    'Payment refunded' || COALESCE(' (' || replace(NEW.reason, '_', ' ') || ')', ''),
+    credit_lines,
+    NEW.id
+  );
+
+  RETURN NULL;
+END;
+$$;
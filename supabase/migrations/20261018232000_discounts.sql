@@ -0,0 +1,589 @@
+-- Discounts, as a percentage or a fixed amount, on line items and on whole documents.
+-- Both come off before tax. A document discount is shared between the lines in proportion
+-- to their discounted amounts, so that each line is taxed on what is actually charged.
+ALTER TABLE public.invoice_items
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent',
+  ADD COLUMN discount_value NUMERIC NOT NULL DEFAULT 0,
+  ADD CONSTRAINT invoice_items_discount_check CHECK (
+    discount_type IN ('percent', 'fixed') AND discount_value >= 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  );
+
+ALTER TABLE public.quote_items
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent',
+  ADD COLUMN discount_value NUMERIC NOT NULL DEFAULT 0,
+  ADD CONSTRAINT quote_items_discount_check CHECK (
+    discount_type IN ('percent', 'fixed') AND discount_value >= 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  );
+
+ALTER TABLE public.recurring_invoice_items
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent',
+  ADD COLUMN discount_value NUMERIC NOT NULL DEFAULT 0,
+  ADD CONSTRAINT recurring_invoice_items_discount_check CHECK (
+    discount_type IN ('percent', 'fixed') AND discount_value >= 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  );
+
+ALTER TABLE public.credit_note_items
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent',
+  ADD COLUMN discount_value NUMERIC NOT NULL DEFAULT 0,
+  ADD CONSTRAINT credit_note_items_discount_check CHECK (
+    discount_type IN ('percent', 'fixed') AND discount_value >= 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  );
+
+-- The subtotal stays before discounts; discount is the amount taken off it, from the lines
+-- and the document together, so that total = subtotal - discount + tax
+ALTER TABLE public.invoices
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent',
+  ADD COLUMN discount_value NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN discount NUMERIC NOT NULL DEFAULT 0,
+  ADD CONSTRAINT invoices_discount_check CHECK (
+    discount_type IN ('percent', 'fixed') AND discount_value >= 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  );
+
+ALTER TABLE public.quotes
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent',
+  ADD COLUMN discount_value NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN discount NUMERIC NOT NULL DEFAULT 0,
+  ADD CONSTRAINT quotes_discount_check CHECK (
+    discount_type IN ('percent', 'fixed') AND discount_value >= 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  );
+
+ALTER TABLE public.recurring_invoices
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent',
+  ADD COLUMN discount_value NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN discount NUMERIC NOT NULL DEFAULT 0,
+  ADD CONSTRAINT recurring_invoices_discount_check CHECK (
+    discount_type IN ('percent', 'fixed') AND discount_value >= 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  );
+
+ALTER TABLE public.credit_notes
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent',
+  ADD COLUMN discount_value NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN discount NUMERIC NOT NULL DEFAULT 0,
+  ADD CONSTRAINT credit_notes_discount_check CHECK (
+    discount_type IN ('percent', 'fixed') AND discount_value >= 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  );
+
+-- The amount a discount takes off, unrounded. Fixed discounts never take off more than the amount.
+CREATE OR REPLACE FUNCTION public.discount_amount(p_amount numeric, p_discount_type text, p_discount_value numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN COALESCE(p_discount_value, 0) <= 0 OR p_amount <= 0 THEN 0
+    WHEN p_discount_type = 'fixed' THEN LEAST(p_discount_value, p_amount)
+    ELSE p_amount * LEAST(p_discount_value, 100) / 100
+  END;
+$$;
+
+-- Totals of a set of lines, as {quantity, unit_price, taxes, discount_type, discount_value},
+-- with a discount on the whole document. Amounts are rounded the way documents show them:
+-- the subtotal and the discounted net amount once each, and tax once per rate.
+CREATE OR REPLACE FUNCTION public.document_totals(p_items jsonb, p_discount_type text, p_discount_value numeric)
+RETURNS TABLE (subtotal numeric, discount numeric, tax numeric, total numeric)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH lines AS (
+    SELECT
+      (line.value->>'quantity')::numeric * (line.value->>'unit_price')::numeric AS gross,
+      COALESCE(line.value->'taxes', '[]') AS taxes,
+      line.value->>'discount_type' AS discount_type,
+      COALESCE((line.value->>'discount_value')::numeric, 0) AS discount_value
+    FROM jsonb_array_elements(COALESCE(p_items, '[]')) AS line(value)
+  ),
+  discounted AS (
+    SELECT gross, taxes, gross - public.discount_amount(gross, discount_type, discount_value) AS amount
+    FROM lines
+  ),
+  shared AS (
+    SELECT
+      discounted.gross,
+      discounted.taxes,
+      discounted.amount * CASE
+        WHEN document.amount > 0
+        THEN 1 - public.discount_amount(document.amount, p_discount_type, p_discount_value) / document.amount
+        ELSE 1
+      END AS amount
+    FROM discounted, (SELECT SUM(amount) AS amount FROM discounted) AS document
+  ),
+  sums AS (
+    SELECT
+      round(COALESCE(SUM(public.line_net_amount(gross, taxes)), 0), 2) AS subtotal,
+      round(COALESCE(SUM(public.line_net_amount(amount, taxes)), 0), 2) AS net
+    FROM shared
+  ),
+  rates AS (
+    SELECT COALESCE(SUM(rate_total), 0) AS tax
+    FROM (
+      SELECT round(SUM(line_tax.amount), 2) AS rate_total
+      FROM shared, public.line_tax_amounts(shared.amount, shared.taxes) AS line_tax
+      GROUP BY line_tax.name, line_tax.rate
+    ) per_rate
+  )
+  SELECT sums.subtotal, sums.subtotal - sums.net, rates.tax, sums.net + rates.tax
+  FROM sums, rates;
+$$;
+
+-- Discounts can't change once an invoice has been issued, like its other amounts
+CREATE OR REPLACE FUNCTION public.guard_invoice_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'Invoice % is void and cannot be changed', OLD.number;
+  END IF;
+
+  IF NEW.status = 'void' AND OLD.status <> 'void' THEN
+    RAISE EXCEPTION 'Invoice % cannot be voided; issue a credit note to cancel it', OLD.number;
+  END IF;
+
+  -- Payments, credit notes and the overdue job still update the balance and status of sent invoices
+  IF OLD.status <> 'draft' AND (
+    NEW.client_id, NEW.number, NEW.issue_date, NEW.due_date, NEW.subtotal, NEW.tax, NEW.total, NEW.notes,
+    NEW.discount_type, NEW.discount_value, NEW.discount
+  ) IS DISTINCT FROM (
+    OLD.client_id, OLD.number, OLD.issue_date, OLD.due_date, OLD.subtotal, OLD.tax, OLD.total, OLD.notes,
+    OLD.discount_type, OLD.discount_value, OLD.discount
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has been issued and can no longer be edited', OLD.number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Discounts are copied with converted quotes, recurring invoices and reissues
+CREATE OR REPLACE FUNCTION public.convert_quote_to_invoice(quote_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  quote_record public.quotes;
+BEGIN
+  SELECT * INTO quote_record FROM public.quotes
+  WHERE id = convert_quote_to_invoice.quote_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found or access denied';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, subtotal, discount_type, discount_value, discount, tax, total, notes, issue_date, status
+  ) VALUES (
+    quote_record.user_id,
+    quote_record.client_id,
+    quote_record.subtotal,
+    quote_record.discount_type,
+    quote_record.discount_value,
+    quote_record.discount,
+    quote_record.tax,
+    quote_record.total,
+    quote_record.notes,
+    CURRENT_DATE,
+    'draft'
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+  SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+  FROM public.quote_items
+  WHERE quote_items.quote_id = quote_record.id
+  ORDER BY position, created_at;
+
+  UPDATE public.quotes SET status = 'converted' WHERE id = quote_record.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice_period(p_template public.recurring_invoices)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+BEGIN
+  -- Checked first so that a period that was already billed does not use up a number
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE recurring_invoice_id = p_template.id AND recurring_period = p_template.next_due_date
+  ) THEN
+    INSERT INTO public.invoices (
+      user_id, client_id, subtotal, discount_type, discount_value, discount, tax, total, notes, issue_date, status,
+      recurring_invoice_id, recurring_period
+    ) VALUES (
+      p_template.user_id,
+      p_template.client_id,
+      p_template.subtotal,
+      p_template.discount_type,
+      p_template.discount_value,
+      p_template.discount,
+      p_template.tax,
+      p_template.total,
+      p_template.notes,
+      LEAST(p_template.next_due_date, CURRENT_DATE),
+      'draft',
+      p_template.id,
+      p_template.next_due_date
+    )
+    ON CONFLICT (recurring_invoice_id, recurring_period) DO NOTHING
+    RETURNING id INTO new_invoice_id;
+  END IF;
+
+  IF new_invoice_id IS NOT NULL THEN
+    -- invoice_items.amount is generated from quantity and unit price
+    INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+    SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_template.id
+    ORDER BY position, created_at;
+  END IF;
+
+  UPDATE public.recurring_invoices SET
+    next_due_date = public.recurring_next_date(p_template.next_due_date, p_template.frequency),
+    last_generated_date = CURRENT_DATE
+  WHERE id = p_template.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- Credit notes take a document discount too, so that lines from a discounted invoice are
+-- credited at what was charged for them. The new arguments change the signature, so the
+-- old functions are dropped rather than overloaded.
+DROP FUNCTION public.create_credit_note(uuid, text, jsonb);
+DROP FUNCTION public.issue_credit_note(uuid, text, jsonb, uuid);
+
+-- Lines are {description, quantity, unit_price, taxes, discount_type, discount_value}
+CREATE FUNCTION public.issue_credit_note(
+  p_invoice_id uuid,
+  p_reason text,
+  p_items jsonb,
+  p_refund_id uuid DEFAULT NULL,
+  p_discount_type text DEFAULT 'percent',
+  p_discount_value numeric DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  credited numeric;
+  totals record;
+  new_credit_note_id uuid;
+BEGIN
+  -- Locked so that concurrent credit notes can't credit more than the invoice total
+  SELECT * INTO invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF invoice.status IN ('draft', 'void') THEN
+    RAISE EXCEPTION 'Invoice % has not been issued and cannot be credited', invoice.number;
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason for the credit note';
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value)
+    WHERE COALESCE(trim(line.value->>'description'), '') = ''
+    OR COALESCE((line.value->>'quantity')::numeric, 0) <= 0
+    OR COALESCE((line.value->>'unit_price')::numeric, 0) <= 0
+    OR jsonb_typeof(COALESCE(line.value->'taxes', '[]')) <> 'array'
+  ) THEN
+    RAISE EXCEPTION 'Each credit note line needs a description, a quantity and a price';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value),
+    jsonb_array_elements(COALESCE(line.value->'taxes', '[]')) AS tax(value)
+    WHERE COALESCE(trim(tax.value->>'name'), '') = ''
+    OR COALESCE((tax.value->>'rate')::numeric, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'Each tax on a credit note line needs a name and a rate';
+  END IF;
+
+  SELECT * INTO totals FROM public.document_totals(p_items, p_discount_type, p_discount_value);
+
+  IF totals.total <= 0 THEN
+    RAISE EXCEPTION 'A credit note has to credit more than nothing';
+  END IF;
+
+  SELECT COALESCE(SUM(total), 0) INTO credited FROM public.credit_notes WHERE invoice_id = invoice.id;
+
+  IF totals.total > round(invoice.total - credited, 2) THEN
+    RAISE EXCEPTION 'Only % is left to credit on invoice %', round(invoice.total - credited, 2), invoice.number;
+  END IF;
+
+  INSERT INTO public.credit_notes (
+    user_id, invoice_id, client_id, reason, subtotal, discount_type, discount_value, discount, tax, total, refund_id
+  ) VALUES (
+    invoice.user_id,
+    invoice.id,
+    invoice.client_id,
+    trim(p_reason),
+    totals.subtotal,
+    COALESCE(p_discount_type, 'percent'),
+    COALESCE(p_discount_value, 0),
+    totals.discount,
+    totals.tax,
+    totals.total,
+    p_refund_id
+  ) RETURNING id INTO new_credit_note_id;
+
+  -- credit_note_items.amount is generated from quantity and unit price
+  INSERT INTO public.credit_note_items (
+    credit_note_id, description, quantity, unit_price, taxes, discount_type, discount_value, position
+  )
+  SELECT
+    new_credit_note_id,
+    trim(line.value->>'description'),
+    (line.value->>'quantity')::numeric,
+    (line.value->>'unit_price')::numeric,
+    COALESCE(line.value->'taxes', '[]'),
+    COALESCE(line.value->>'discount_type', 'percent'),
+    COALESCE((line.value->>'discount_value')::numeric, 0),
+    line.position - 1
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS line(value, position);
+
+  RETURN new_credit_note_id;
+END;
+$$;
+
+-- Only called by create_credit_note, reissue_invoice and the refund trigger
+REVOKE EXECUTE ON FUNCTION public.issue_credit_note(uuid, text, jsonb, uuid, text, numeric) FROM PUBLIC, anon, authenticated;
+
+CREATE FUNCTION public.create_credit_note(
+  p_invoice_id uuid,
+  p_reason text,
+  p_items jsonb,
+  p_discount_type text DEFAULT 'percent',
+  p_discount_value numeric DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.invoices WHERE id = p_invoice_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  RETURN public.issue_credit_note(p_invoice_id, p_reason, p_items, NULL, p_discount_type, p_discount_value);
+END;
+$$;
+
+-- Lines crediting an invoice in full, with their discounts; the invoice's own discount is
+-- passed alongside them
+CREATE OR REPLACE FUNCTION public.invoice_credit_lines(p_invoice public.invoices)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'description', description,
+          'quantity', quantity,
+          'unit_price', unit_price,
+          'taxes', taxes,
+          'discount_type', discount_type,
+          'discount_value', discount_value
+        )
+        ORDER BY position, created_at
+      )
+      FROM public.invoice_items
+      WHERE invoice_id = p_invoice.id
+    ),
+    jsonb_build_array(jsonb_build_object(
+      'description', 'Invoice ' || p_invoice.number,
+      'quantity', 1,
+      'unit_price', p_invoice.subtotal - p_invoice.discount,
+      'taxes', CASE
+        WHEN p_invoice.subtotal - p_invoice.discount > 0 AND p_invoice.tax > 0 THEN jsonb_build_array(jsonb_build_object(
+          'tax_rate_id', NULL,
+          'name', 'Tax',
+          'rate', round(p_invoice.tax / (p_invoice.subtotal - p_invoice.discount) * 100, 4),
+          'compound', false,
+          'inclusive', false
+        ))
+        ELSE '[]'::jsonb
+      END
+    ))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.reissue_invoice(p_invoice_id uuid, p_reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  IF invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Invoice % is a draft; edit it instead', invoice.number;
+  END IF;
+
+  -- Void and fully credited invoices are already cancelled
+  IF invoice.status NOT IN ('void', 'credited') THEN
+    IF invoice.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Invoice % has payments recorded; refund them before reissuing', invoice.number;
+    END IF;
+
+    IF invoice.amount_credited > 0 THEN
+      RAISE EXCEPTION 'Invoice % has been partly credited; credit the rest before reissuing', invoice.number;
+    END IF;
+
+    -- Invoices without items are credited with a single line that is already discounted
+    PERFORM public.issue_credit_note(
+      invoice.id,
+      p_reason,
+      public.invoice_credit_lines(invoice),
+      NULL,
+      invoice.discount_type,
+      CASE WHEN EXISTS (SELECT 1 FROM public.invoice_items WHERE invoice_id = invoice.id) THEN invoice.discount_value ELSE 0 END
+    );
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, subtotal, discount_type, discount_value, discount, tax, total, notes, issue_date, due_date,
+    status, reissued_from_id
+  ) VALUES (
+    invoice.user_id,
+    invoice.client_id,
+    invoice.subtotal,
+    invoice.discount_type,
+    invoice.discount_value,
+    invoice.discount,
+    invoice.tax,
+    invoice.total,
+    invoice.notes,
+    CURRENT_DATE,
+    invoice.due_date,
+    'draft',
+    invoice.id
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+  SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+  FROM public.invoice_items
+  WHERE invoice_id = invoice.id
+  ORDER BY position, created_at;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- Refunds are credited at the invoice's overall rate after discounts
+CREATE OR REPLACE FUNCTION public.credit_refunded_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  paid numeric;
+  credited numeric;
+  creditable numeric;
+  rate numeric;
+  net numeric;
+  remainder numeric;
+  credit_lines jsonb;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF NOT FOUND OR invoice.status IN ('draft', 'void') THEN
+    RETURN NULL;
+  END IF;
+
+  -- Refunds are upserted on every webhook delivery
+  IF EXISTS (SELECT 1 FROM public.credit_notes WHERE refund_id = NEW.id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(amount) FROM public.payments WHERE invoice_id = invoice.id), 0)
+    - COALESCE((SELECT SUM(amount) FROM public.refunds WHERE invoice_id = invoice.id AND status = 'succeeded'), 0)
+  INTO paid;
+
+  SELECT COALESCE(SUM(total), 0) INTO credited FROM public.credit_notes WHERE invoice_id = invoice.id;
+
+  creditable := round(LEAST(NEW.amount, invoice.total - paid - credited), 2);
+
+  IF creditable <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Tax is credited at the invoice's overall rate, with a rounding line if needed so
+  -- that the credit note adds up to the refunded amount
+  rate := CASE
+    WHEN invoice.subtotal - invoice.discount > 0 THEN round(invoice.tax / (invoice.subtotal - invoice.discount) * 100, 4)
+    ELSE 0
+  END;
+  net := round(creditable / (1 + rate / 100), 2);
+  remainder := creditable - net - round(net * rate / 100, 2);
+
+  WHILE remainder < 0 LOOP
+    net := net - 0.01;
+    remainder := creditable - net - round(net * rate / 100, 2);
+  END LOOP;
+
+  credit_lines := jsonb_build_array(jsonb_build_object(
+    'description', 'Refund of payment on invoice ' || invoice.number,
+    'quantity', 1,
+    'unit_price', net,
+    'taxes', CASE
+      WHEN rate > 0 THEN jsonb_build_array(jsonb_build_object(
+        'tax_rate_id', NULL, 'name', 'Tax', 'rate', rate, 'compound', false, 'inclusive', false
+      ))
+      ELSE '[]'::jsonb
+    END
+  ));
+
+  IF remainder > 0 THEN
+    credit_lines := credit_lines || jsonb_build_object('description', 'Rounding', 'quantity', 1, 'unit_price', remainder, 'taxes', '[]'::jsonb);
+  END IF;
+
+  PERFORM public.issue_credit_note(
+    invoice.id,
+    'Payment refunded' || COALESCE(' (' || replace(NEW.reason, '_', ' ') || ')', ''),
+    credit_lines,
+    NEW.id
+  );
+
+  RETURN NULL;
+END;
+$$;
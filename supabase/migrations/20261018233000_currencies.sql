@@ -0,0 +1,405 @@
+-- Documents in more than one currency. user_settings.currency is the account's base
+-- currency; invoices, quotes, recurring invoices and expenses each have their own currency
+-- and a snapshot of its exchange rate to the base currency, taken from the account's rate
+-- table when the document is created, so that reports can add them up.
+CREATE TABLE public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  currency TEXT NOT NULL,
+  -- Units of the base currency one unit of this currency is worth
+  rate NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT exchange_rates_currency_check CHECK (currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT exchange_rates_rate_check CHECK (rate > 0),
+  CONSTRAINT exchange_rates_user_id_currency_key UNIQUE (user_id, currency)
+);
+
+-- Enable RLS
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exchange rates" ON public.exchange_rates FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own exchange rates" ON public.exchange_rates FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own exchange rates" ON public.exchange_rates FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own exchange rates" ON public.exchange_rates FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Active recurring invoices need a rate every time they are billed
+CREATE OR REPLACE FUNCTION public.guard_exchange_rate_deletes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.recurring_invoices
+    WHERE user_id = OLD.user_id AND currency = OLD.currency AND is_active
+  ) THEN
+    RAISE EXCEPTION 'The % rate is used by active recurring invoices and cannot be deleted', OLD.currency;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER guard_exchange_rate_deletes
+BEFORE DELETE ON public.exchange_rates
+FOR EACH ROW EXECUTE FUNCTION public.guard_exchange_rate_deletes();
+
+-- Existing documents are in the account's currency
+ALTER TABLE public.invoices ADD COLUMN currency TEXT, ADD COLUMN exchange_rate NUMERIC NOT NULL DEFAULT 1;
+ALTER TABLE public.quotes ADD COLUMN currency TEXT, ADD COLUMN exchange_rate NUMERIC NOT NULL DEFAULT 1;
+ALTER TABLE public.recurring_invoices ADD COLUMN currency TEXT, ADD COLUMN exchange_rate NUMERIC NOT NULL DEFAULT 1;
+ALTER TABLE public.expenses ADD COLUMN currency TEXT, ADD COLUMN exchange_rate NUMERIC NOT NULL DEFAULT 1;
+ALTER TABLE public.credit_notes ADD COLUMN currency TEXT, ADD COLUMN exchange_rate NUMERIC NOT NULL DEFAULT 1;
+
+ALTER TABLE public.invoices DISABLE TRIGGER guard_invoice_edits;
+
+UPDATE public.invoices SET currency = COALESCE(
+  (SELECT upper(currency) FROM public.user_settings WHERE user_settings.user_id = invoices.user_id), 'USD'
+);
+
+ALTER TABLE public.invoices ENABLE TRIGGER guard_invoice_edits;
+
+UPDATE public.quotes SET currency = COALESCE(
+  (SELECT upper(currency) FROM public.user_settings WHERE user_settings.user_id = quotes.user_id), 'USD'
+);
+
+UPDATE public.recurring_invoices SET currency = COALESCE(
+  (SELECT upper(currency) FROM public.user_settings WHERE user_settings.user_id = recurring_invoices.user_id), 'USD'
+);
+
+UPDATE public.expenses SET currency = COALESCE(
+  (SELECT upper(currency) FROM public.user_settings WHERE user_settings.user_id = expenses.user_id), 'USD'
+);
+
+UPDATE public.credit_notes SET currency = invoices.currency
+FROM public.invoices
+WHERE invoices.id = credit_notes.invoice_id;
+
+ALTER TABLE public.invoices
+  ALTER COLUMN currency SET NOT NULL,
+  ADD CONSTRAINT invoices_currency_check CHECK (currency ~ '^[A-Z]{3}$' AND exchange_rate > 0);
+
+ALTER TABLE public.quotes
+  ALTER COLUMN currency SET NOT NULL,
+  ADD CONSTRAINT quotes_currency_check CHECK (currency ~ '^[A-Z]{3}$' AND exchange_rate > 0);
+
+ALTER TABLE public.recurring_invoices
+  ALTER COLUMN currency SET NOT NULL,
+  ADD CONSTRAINT recurring_invoices_currency_check CHECK (currency ~ '^[A-Z]{3}$' AND exchange_rate > 0);
+
+ALTER TABLE public.expenses
+  ALTER COLUMN currency SET NOT NULL,
+  ADD CONSTRAINT expenses_currency_check CHECK (currency ~ '^[A-Z]{3}$' AND exchange_rate > 0);
+
+ALTER TABLE public.credit_notes
+  ALTER COLUMN currency SET NOT NULL,
+  ADD CONSTRAINT credit_notes_currency_check CHECK (currency ~ '^[A-Z]{3}$' AND exchange_rate > 0);
+
+-- The exchange rate from a currency to an account's base currency
+CREATE OR REPLACE FUNCTION public.exchange_rate_to_base(p_user_id uuid, p_currency text)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  base_currency text;
+  exchange_rate numeric;
+BEGIN
+  SELECT upper(currency) INTO base_currency FROM public.user_settings WHERE user_id = p_user_id;
+
+  IF upper(p_currency) = COALESCE(base_currency, 'USD') THEN
+    RETURN 1;
+  END IF;
+
+  SELECT rate INTO exchange_rate FROM public.exchange_rates WHERE user_id = p_user_id AND currency = upper(p_currency);
+
+  IF exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'There is no exchange rate from % to %; add one in Settings', upper(p_currency), COALESCE(base_currency, 'USD');
+  END IF;
+
+  RETURN exchange_rate;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exchange_rate_to_base(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Documents are in the base currency unless they say otherwise. The rate is always
+-- looked up rather than taken from the client, and is taken again when a draft changes
+-- currency; issued invoices can't change currency (see guard_invoice_edits).
+CREATE OR REPLACE FUNCTION public.set_exchange_rate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT upper(currency) INTO NEW.currency FROM public.user_settings WHERE user_id = NEW.user_id;
+    NEW.currency := COALESCE(NEW.currency, 'USD');
+  END IF;
+
+  NEW.currency := upper(NEW.currency);
+
+  IF TG_OP = 'UPDATE' AND NEW.currency = OLD.currency THEN
+    NEW.exchange_rate := OLD.exchange_rate;
+  ELSE
+    NEW.exchange_rate := public.exchange_rate_to_base(NEW.user_id, NEW.currency);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named so that they run after guard_invoice_edits
+CREATE TRIGGER set_invoice_exchange_rate
+BEFORE INSERT OR UPDATE OF currency, exchange_rate ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_exchange_rate();
+
+CREATE TRIGGER set_quote_exchange_rate
+BEFORE INSERT OR UPDATE OF currency, exchange_rate ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.set_exchange_rate();
+
+CREATE TRIGGER set_recurring_invoice_exchange_rate
+BEFORE INSERT OR UPDATE OF currency, exchange_rate ON public.recurring_invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_exchange_rate();
+
+CREATE TRIGGER set_expense_exchange_rate
+BEFORE INSERT OR UPDATE OF currency, exchange_rate ON public.expenses
+FOR EACH ROW EXECUTE FUNCTION public.set_exchange_rate();
+
+-- Credit notes are in the invoice's currency, at the invoice's rate, so that crediting an
+-- invoice in full cancels it out in reports too
+CREATE OR REPLACE FUNCTION public.set_credit_note_currency()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT currency, exchange_rate INTO NEW.currency, NEW.exchange_rate
+  FROM public.invoices
+  WHERE id = NEW.invoice_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_credit_note_currency
+BEFORE INSERT ON public.credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.set_credit_note_currency();
+
+-- The currency is fixed once an invoice has been issued, like its amounts
+CREATE OR REPLACE FUNCTION public.guard_invoice_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'Invoice % is void and cannot be changed', OLD.number;
+  END IF;
+
+  IF NEW.status = 'void' AND OLD.status <> 'void' THEN
+    RAISE EXCEPTION 'Invoice % cannot be voided; issue a credit note to cancel it', OLD.number;
+  END IF;
+
+  -- Payments, credit notes and the overdue job still update the balance and status of sent invoices
+  IF OLD.status <> 'draft' AND (
+    NEW.client_id, NEW.number, NEW.issue_date, NEW.due_date, NEW.subtotal, NEW.tax, NEW.total, NEW.notes,
+    NEW.discount_type, NEW.discount_value, NEW.discount, NEW.currency, NEW.exchange_rate
+  ) IS DISTINCT FROM (
+    OLD.client_id, OLD.number, OLD.issue_date, OLD.due_date, OLD.subtotal, OLD.tax, OLD.total, OLD.notes,
+    OLD.discount_type, OLD.discount_value, OLD.discount, OLD.currency, OLD.exchange_rate
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has been issued and can no longer be edited', OLD.number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Converted quotes, recurring invoices and reissues keep the currency of what they are
+-- made from, at the rate of the day they are made
+CREATE OR REPLACE FUNCTION public.convert_quote_to_invoice(quote_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  quote_record public.quotes;
+BEGIN
+  SELECT * INTO quote_record FROM public.quotes
+  WHERE id = convert_quote_to_invoice.quote_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found or access denied';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, currency, subtotal, discount_type, discount_value, discount, tax, total, notes, issue_date, status
+  ) VALUES (
+    quote_record.user_id,
+    quote_record.client_id,
+    quote_record.currency,
+    quote_record.subtotal,
+    quote_record.discount_type,
+    quote_record.discount_value,
+    quote_record.discount,
+    quote_record.tax,
+    quote_record.total,
+    quote_record.notes,
+    CURRENT_DATE,
+    'draft'
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+  SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+  FROM public.quote_items
+  WHERE quote_items.quote_id = quote_record.id
+  ORDER BY position, created_at;
+
+  UPDATE public.quotes SET status = 'converted' WHERE id = quote_record.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice_period(p_template public.recurring_invoices)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+BEGIN
+  -- Checked first so that a period that was already billed does not use up a number
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE recurring_invoice_id = p_template.id AND recurring_period = p_template.next_due_date
+  ) THEN
+    INSERT INTO public.invoices (
+      user_id, client_id, currency, subtotal, discount_type, discount_value, discount, tax, total, notes, issue_date,
+      status, recurring_invoice_id, recurring_period
+    ) VALUES (
+      p_template.user_id,
+      p_template.client_id,
+      p_template.currency,
+      p_template.subtotal,
+      p_template.discount_type,
+      p_template.discount_value,
+      p_template.discount,
+      p_template.tax,
+      p_template.total,
+      p_template.notes,
+      LEAST(p_template.next_due_date, CURRENT_DATE),
+      'draft',
+      p_template.id,
+      p_template.next_due_date
+    )
+    ON CONFLICT (recurring_invoice_id, recurring_period) DO NOTHING
+    RETURNING id INTO new_invoice_id;
+  END IF;
+
+  IF new_invoice_id IS NOT NULL THEN
+    -- invoice_items.amount is generated from quantity and unit price
+    INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+    SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_template.id
+    ORDER BY position, created_at;
+  END IF;
+
+  UPDATE public.recurring_invoices SET
+    next_due_date = public.recurring_next_date(p_template.next_due_date, p_template.frequency),
+    last_generated_date = CURRENT_DATE
+  WHERE id = p_template.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reissue_invoice(p_invoice_id uuid, p_reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  IF invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Invoice % is a draft; edit it instead', invoice.number;
+  END IF;
+
+  -- Void and fully credited invoices are already cancelled
+  IF invoice.status NOT IN ('void', 'credited') THEN
+    IF invoice.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Invoice % has payments recorded; refund them before reissuing', invoice.number;
+    END IF;
+
+    IF invoice.amount_credited > 0 THEN
+      RAISE EXCEPTION 'Invoice % has been partly credited; credit the rest before reissuing', invoice.number;
+    END IF;
+
+    -- Invoices without items are credited with a single line that is already discounted
+    PERFORM public.issue_credit_note(
+      invoice.id,
+      p_reason,
+      public.invoice_credit_lines(invoice),
+      NULL,
+      invoice.discount_type,
+      CASE WHEN EXISTS (SELECT 1 FROM public.invoice_items WHERE invoice_id = invoice.id) THEN invoice.discount_value ELSE 0 END
+    );
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, currency, subtotal, discount_type, discount_value, discount, tax, total, notes, issue_date,
+    due_date, status, reissued_from_id
+  ) VALUES (
+    invoice.user_id,
+    invoice.client_id,
+    invoice.currency,
+    invoice.subtotal,
+    invoice.discount_type,
+    invoice.discount_value,
+    invoice.discount,
+    invoice.tax,
+    invoice.total,
+    invoice.notes,
+    CURRENT_DATE,
+    invoice.due_date,
+    'draft',
+    invoice.id
+  ) RETURNING id INTO new_invoice_id;
+
+  -- invoice_items.amount is generated from quantity and unit price
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+  SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+  FROM public.invoice_items
+  WHERE invoice_id = invoice.id
+  ORDER BY position, created_at;
+
+  RETURN new_invoice_id;
+END;
+$$;
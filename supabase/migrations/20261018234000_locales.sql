@@ -0,0 +1,10 @@
+-- How amounts and dates are written: the account's locale for its own pages, and each
+-- client's for the documents, emails and portal they see. A client without one gets the
+-- account's. Values are BCP 47 tags such as en-GB or de-DE.
+ALTER TABLE public.user_settings
+  ADD COLUMN locale TEXT NOT NULL DEFAULT 'en-US',
+  ADD CONSTRAINT user_settings_locale_check CHECK (locale ~ '^[a-z]{2,3}-[A-Z]{2}$');
+
+ALTER TABLE public.clients
+  ADD COLUMN locale TEXT,
+  ADD CONSTRAINT clients_locale_check CHECK (locale ~ '^[a-z]{2,3}-[A-Z]{2}$');
@@ -0,0 +1,772 @@
+-- Money is stored as whole numbers of the currency's minor unit, e.g. cents, so that
+-- amounts add up exactly. Item amounts and the totals of invoices, quotes and recurring
+-- invoices are computed by the database from their items; clients no longer send them.
+-- Quantities, tax rates, exchange rates and percentage discounts stay numeric.
+
+-- Decimals of a currency's minor unit, as ISO 4217 gives them. Most currencies have two.
+-- Kept in step with currencyExponent in supabase/functions/_shared/formatting.ts.
+CREATE OR REPLACE FUNCTION public.currency_exponent(p_currency text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN upper(p_currency) IN (
+      'BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG', 'RWF', 'UGX', 'UYI', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'
+    ) THEN 0
+    WHEN upper(p_currency) IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3
+    WHEN upper(p_currency) IN ('CLF', 'UYW') THEN 4
+    ELSE 2
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.to_minor_units(p_amount numeric, p_currency text)
+RETURNS bigint
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT round(p_amount * power(10::numeric, public.currency_exponent(p_currency)))::bigint;
+$$;
+
+-- An amount in minor units as it is written, e.g. 1250 EUR -> 12.50, for error messages
+CREATE OR REPLACE FUNCTION public.from_minor_units(p_amount bigint, p_currency text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT round(p_amount / power(10::numeric, public.currency_exponent(p_currency)), public.currency_exponent(p_currency));
+$$;
+
+-- The balance is generated from the columns being converted, so it is added back afterwards
+ALTER TABLE public.invoices DROP COLUMN balance_due;
+
+-- Documents are converted in their own currency. Fixed discounts are amounts too;
+-- percentages are left as they are.
+ALTER TABLE public.invoices
+  ALTER COLUMN subtotal TYPE BIGINT USING public.to_minor_units(subtotal, currency),
+  ALTER COLUMN discount TYPE BIGINT USING public.to_minor_units(discount, currency),
+  ALTER COLUMN tax TYPE BIGINT USING public.to_minor_units(tax, currency),
+  ALTER COLUMN total TYPE BIGINT USING public.to_minor_units(total, currency),
+  ALTER COLUMN amount_paid TYPE BIGINT USING public.to_minor_units(amount_paid, currency),
+  ALTER COLUMN amount_credited TYPE BIGINT USING public.to_minor_units(amount_credited, currency),
+  ALTER COLUMN discount_value TYPE NUMERIC USING CASE
+    WHEN discount_type = 'fixed' THEN public.to_minor_units(discount_value, currency)
+    ELSE discount_value
+  END;
+
+ALTER TABLE public.quotes
+  ALTER COLUMN subtotal TYPE BIGINT USING public.to_minor_units(subtotal, currency),
+  ALTER COLUMN discount TYPE BIGINT USING public.to_minor_units(discount, currency),
+  ALTER COLUMN tax TYPE BIGINT USING public.to_minor_units(tax, currency),
+  ALTER COLUMN total TYPE BIGINT USING public.to_minor_units(total, currency),
+  ALTER COLUMN discount_value TYPE NUMERIC USING CASE
+    WHEN discount_type = 'fixed' THEN public.to_minor_units(discount_value, currency)
+    ELSE discount_value
+  END;
+
+ALTER TABLE public.recurring_invoices
+  ALTER COLUMN subtotal TYPE BIGINT USING public.to_minor_units(subtotal, currency),
+  ALTER COLUMN discount TYPE BIGINT USING public.to_minor_units(discount, currency),
+  ALTER COLUMN tax TYPE BIGINT USING public.to_minor_units(tax, currency),
+  ALTER COLUMN total TYPE BIGINT USING public.to_minor_units(total, currency),
+  ALTER COLUMN discount_value TYPE NUMERIC USING CASE
+    WHEN discount_type = 'fixed' THEN public.to_minor_units(discount_value, currency)
+    ELSE discount_value
+  END;
+
+ALTER TABLE public.credit_notes
+  ALTER COLUMN subtotal TYPE BIGINT USING public.to_minor_units(subtotal, currency),
+  ALTER COLUMN discount TYPE BIGINT USING public.to_minor_units(discount, currency),
+  ALTER COLUMN tax TYPE BIGINT USING public.to_minor_units(tax, currency),
+  ALTER COLUMN total TYPE BIGINT USING public.to_minor_units(total, currency),
+  ALTER COLUMN discount_value TYPE NUMERIC USING CASE
+    WHEN discount_type = 'fixed' THEN public.to_minor_units(discount_value, currency)
+    ELSE discount_value
+  END;
+
+ALTER TABLE public.expenses
+  ALTER COLUMN amount TYPE BIGINT USING public.to_minor_units(amount, currency);
+
+ALTER TABLE public.invoices
+  ADD COLUMN balance_due BIGINT GENERATED ALWAYS AS (total - amount_paid - amount_credited) STORED;
+
+-- Items, payments and time entries are in the currency of their document or account.
+-- Their triggers are off while they are converted: the guards and balance syncs would
+-- otherwise run against half-converted amounts.
+ALTER TABLE public.invoice_items DISABLE TRIGGER USER;
+ALTER TABLE public.quote_items DISABLE TRIGGER USER;
+ALTER TABLE public.recurring_invoice_items DISABLE TRIGGER USER;
+ALTER TABLE public.credit_note_items DISABLE TRIGGER USER;
+ALTER TABLE public.payments DISABLE TRIGGER USER;
+ALTER TABLE public.refunds DISABLE TRIGGER USER;
+ALTER TABLE public.disputes DISABLE TRIGGER USER;
+ALTER TABLE public.time_entries DISABLE TRIGGER USER;
+
+-- Item amounts are generated from the converted unit prices. Quote and recurring items
+-- had an amount that was never kept up to date; it is generated now too.
+ALTER TABLE public.invoice_items DROP COLUMN amount;
+ALTER TABLE public.quote_items DROP COLUMN amount;
+ALTER TABLE public.recurring_invoice_items DROP COLUMN amount;
+ALTER TABLE public.credit_note_items DROP COLUMN amount;
+
+UPDATE public.invoice_items SET
+  unit_price = public.to_minor_units(unit_price, invoices.currency),
+  discount_value = CASE
+    WHEN invoice_items.discount_type = 'fixed' THEN public.to_minor_units(invoice_items.discount_value, invoices.currency)
+    ELSE invoice_items.discount_value
+  END
+FROM public.invoices
+WHERE invoices.id = invoice_items.invoice_id;
+
+UPDATE public.quote_items SET
+  unit_price = public.to_minor_units(unit_price, quotes.currency),
+  discount_value = CASE
+    WHEN quote_items.discount_type = 'fixed' THEN public.to_minor_units(quote_items.discount_value, quotes.currency)
+    ELSE quote_items.discount_value
+  END
+FROM public.quotes
+WHERE quotes.id = quote_items.quote_id;
+
+UPDATE public.recurring_invoice_items SET
+  unit_price = public.to_minor_units(unit_price, recurring_invoices.currency),
+  discount_value = CASE
+    WHEN recurring_invoice_items.discount_type = 'fixed'
+    THEN public.to_minor_units(recurring_invoice_items.discount_value, recurring_invoices.currency)
+    ELSE recurring_invoice_items.discount_value
+  END
+FROM public.recurring_invoices
+WHERE recurring_invoices.id = recurring_invoice_items.recurring_invoice_id;
+
+UPDATE public.credit_note_items SET
+  unit_price = public.to_minor_units(unit_price, credit_notes.currency),
+  discount_value = CASE
+    WHEN credit_note_items.discount_type = 'fixed'
+    THEN public.to_minor_units(credit_note_items.discount_value, credit_notes.currency)
+    ELSE credit_note_items.discount_value
+  END
+FROM public.credit_notes
+WHERE credit_notes.id = credit_note_items.credit_note_id;
+
+UPDATE public.payments SET amount = public.to_minor_units(amount, invoices.currency)
+FROM public.invoices
+WHERE invoices.id = payments.invoice_id;
+
+UPDATE public.refunds SET amount = public.to_minor_units(amount, invoices.currency)
+FROM public.invoices
+WHERE invoices.id = refunds.invoice_id;
+
+UPDATE public.disputes SET amount = public.to_minor_units(amount, invoices.currency)
+FROM public.invoices
+WHERE invoices.id = disputes.invoice_id;
+
+-- Time is billed in the account's base currency. The total is generated from the hours
+-- and the rate.
+ALTER TABLE public.time_entries DROP COLUMN total_amount;
+
+UPDATE public.time_entries SET hourly_rate = public.to_minor_units(
+  hourly_rate,
+  COALESCE((SELECT upper(currency) FROM public.user_settings WHERE user_settings.user_id = time_entries.user_id), 'USD')
+);
+
+ALTER TABLE public.invoice_items ALTER COLUMN unit_price TYPE BIGINT;
+ALTER TABLE public.quote_items ALTER COLUMN unit_price TYPE BIGINT;
+ALTER TABLE public.recurring_invoice_items ALTER COLUMN unit_price TYPE BIGINT;
+ALTER TABLE public.credit_note_items ALTER COLUMN unit_price TYPE BIGINT;
+ALTER TABLE public.payments ALTER COLUMN amount TYPE BIGINT;
+ALTER TABLE public.refunds ALTER COLUMN amount TYPE BIGINT;
+ALTER TABLE public.disputes ALTER COLUMN amount TYPE BIGINT;
+ALTER TABLE public.time_entries ALTER COLUMN hourly_rate TYPE BIGINT;
+
+-- Before line and document discounts, like the subtotal
+ALTER TABLE public.invoice_items ADD COLUMN amount BIGINT GENERATED ALWAYS AS (round(quantity * unit_price)::bigint) STORED;
+ALTER TABLE public.quote_items ADD COLUMN amount BIGINT GENERATED ALWAYS AS (round(quantity * unit_price)::bigint) STORED;
+ALTER TABLE public.recurring_invoice_items ADD COLUMN amount BIGINT GENERATED ALWAYS AS (round(quantity * unit_price)::bigint) STORED;
+ALTER TABLE public.credit_note_items ADD COLUMN amount BIGINT GENERATED ALWAYS AS (round(quantity * unit_price)::bigint) STORED;
+ALTER TABLE public.time_entries ADD COLUMN total_amount BIGINT GENERATED ALWAYS AS (round(hours_worked * hourly_rate)::bigint) STORED;
+
+-- Documents made before line items only have totals, and their totals are about to be
+-- computed from their items. Each gets one line for its discounted subtotal, taxed at the
+-- rate of its tax, like invoice_credit_lines does for such invoices. Issued invoices keep
+-- the totals they were issued with, so only drafts need one.
+CREATE FUNCTION pg_temp.legacy_line_taxes(p_net bigint, p_tax bigint)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_net > 0 AND p_tax > 0 THEN jsonb_build_array(jsonb_build_object(
+      'tax_rate_id', NULL,
+      'name', 'Tax',
+      'rate', round(p_tax::numeric / p_net * 100, 4),
+      'compound', false,
+      'inclusive', false
+    ))
+    ELSE '[]'::jsonb
+  END;
+$$;
+
+-- Their discount is part of that line, so it must not come off it again. The discount
+-- amount is left as it was until the totals are recomputed, for the line to be priced from.
+UPDATE public.invoices SET discount_type = 'percent', discount_value = 0
+WHERE status = 'draft' AND discount_value <> 0
+AND NOT EXISTS (SELECT 1 FROM public.invoice_items WHERE invoice_id = invoices.id);
+
+UPDATE public.quotes SET discount_type = 'percent', discount_value = 0
+WHERE discount_value <> 0
+AND NOT EXISTS (SELECT 1 FROM public.quote_items WHERE quote_id = quotes.id);
+
+UPDATE public.recurring_invoices SET discount_type = 'percent', discount_value = 0
+WHERE discount_value <> 0
+AND NOT EXISTS (SELECT 1 FROM public.recurring_invoice_items WHERE recurring_invoice_id = recurring_invoices.id);
+
+INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, taxes, position)
+SELECT id, 'Invoice ' || number, 1, subtotal - discount, pg_temp.legacy_line_taxes(subtotal - discount, tax), 0
+FROM public.invoices
+WHERE status = 'draft' AND NOT EXISTS (SELECT 1 FROM public.invoice_items WHERE invoice_id = invoices.id);
+
+INSERT INTO public.quote_items (quote_id, description, quantity, unit_price, taxes, position)
+SELECT id, 'Quote ' || quote_number, 1, subtotal - discount, pg_temp.legacy_line_taxes(subtotal - discount, tax), 0
+FROM public.quotes
+WHERE NOT EXISTS (SELECT 1 FROM public.quote_items WHERE quote_id = quotes.id);
+
+INSERT INTO public.recurring_invoice_items (recurring_invoice_id, description, quantity, unit_price, taxes, position)
+SELECT id, 'Recurring invoice ' || template_number, 1, subtotal - discount, pg_temp.legacy_line_taxes(subtotal - discount, tax), 0
+FROM public.recurring_invoices
+WHERE NOT EXISTS (SELECT 1 FROM public.recurring_invoice_items WHERE recurring_invoice_id = recurring_invoices.id);
+
+ALTER TABLE public.invoice_items ENABLE TRIGGER USER;
+ALTER TABLE public.quote_items ENABLE TRIGGER USER;
+ALTER TABLE public.recurring_invoice_items ENABLE TRIGGER USER;
+ALTER TABLE public.credit_note_items ENABLE TRIGGER USER;
+ALTER TABLE public.payments ENABLE TRIGGER USER;
+ALTER TABLE public.refunds ENABLE TRIGGER USER;
+ALTER TABLE public.disputes ENABLE TRIGGER USER;
+ALTER TABLE public.time_entries ENABLE TRIGGER USER;
+
+-- Totals are whole minor units now: the subtotal and the discounted net amount are
+-- rounded once each, and tax once per rate. The return type changes, so the function is
+-- dropped rather than replaced.
+DROP FUNCTION public.document_totals(jsonb, text, numeric);
+
+CREATE FUNCTION public.document_totals(p_items jsonb, p_discount_type text, p_discount_value numeric)
+RETURNS TABLE (subtotal bigint, discount bigint, tax bigint, total bigint)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH lines AS (
+    SELECT
+      (line.value->>'quantity')::numeric * (line.value->>'unit_price')::numeric AS gross,
+      COALESCE(line.value->'taxes', '[]') AS taxes,
+      line.value->>'discount_type' AS discount_type,
+      COALESCE((line.value->>'discount_value')::numeric, 0) AS discount_value
+    FROM jsonb_array_elements(COALESCE(p_items, '[]')) AS line(value)
+  ),
+  discounted AS (
+    SELECT gross, taxes, gross - public.discount_amount(gross, discount_type, discount_value) AS amount
+    FROM lines
+  ),
+  shared AS (
+    SELECT
+      discounted.gross,
+      discounted.taxes,
+      discounted.amount * CASE
+        WHEN document.amount > 0
+        THEN 1 - public.discount_amount(document.amount, p_discount_type, p_discount_value) / document.amount
+        ELSE 1
+      END AS amount
+    FROM discounted, (SELECT SUM(amount) AS amount FROM discounted) AS document
+  ),
+  sums AS (
+    SELECT
+      round(COALESCE(SUM(public.line_net_amount(gross, taxes)), 0))::bigint AS subtotal,
+      round(COALESCE(SUM(public.line_net_amount(amount, taxes)), 0))::bigint AS net
+    FROM shared
+  ),
+  rates AS (
+    SELECT COALESCE(SUM(rate_total), 0)::bigint AS tax
+    FROM (
+      SELECT round(SUM(line_tax.amount)) AS rate_total
+      FROM shared, public.line_tax_amounts(shared.amount, shared.taxes) AS line_tax
+      GROUP BY line_tax.name, line_tax.rate
+    ) per_rate
+  )
+  SELECT sums.subtotal, sums.subtotal - sums.net, rates.tax, sums.net + rates.tax
+  FROM sums, rates;
+$$;
+
+-- The totals of an invoice, quote or recurring invoice, from its items and its discount.
+-- Whatever a client sends for them is replaced. Issued invoices keep the totals they were
+-- issued with; guard_invoice_edits already stops them from changing.
+CREATE OR REPLACE FUNCTION public.set_document_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lines jsonb;
+  totals record;
+BEGIN
+  IF TG_TABLE_NAME = 'invoices' AND TG_OP = 'UPDATE' AND OLD.status <> 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  lines := CASE TG_TABLE_NAME
+    WHEN 'invoices' THEN (SELECT jsonb_agg(to_jsonb(item)) FROM public.invoice_items item WHERE item.invoice_id = NEW.id)
+    WHEN 'quotes' THEN (SELECT jsonb_agg(to_jsonb(item)) FROM public.quote_items item WHERE item.quote_id = NEW.id)
+    WHEN 'recurring_invoices' THEN (
+      SELECT jsonb_agg(to_jsonb(item)) FROM public.recurring_invoice_items item WHERE item.recurring_invoice_id = NEW.id
+    )
+  END;
+
+  SELECT * INTO totals FROM public.document_totals(lines, NEW.discount_type, NEW.discount_value);
+
+  NEW.subtotal := totals.subtotal;
+  NEW.discount := totals.discount;
+  NEW.tax := totals.tax;
+  NEW.total := totals.total;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named so that they run after guard_invoice_edits
+CREATE TRIGGER set_invoice_totals
+BEFORE INSERT OR UPDATE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_document_totals();
+
+CREATE TRIGGER set_quote_totals
+BEFORE INSERT OR UPDATE ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.set_document_totals();
+
+CREATE TRIGGER set_recurring_invoice_totals
+BEFORE INSERT OR UPDATE ON public.recurring_invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_document_totals();
+
+-- Any change to an item updates its document, which recomputes the document's totals
+CREATE OR REPLACE FUNCTION public.sync_document_totals_from_items()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- OLD is null on insert and NEW on delete; an item moved to another document changes both
+  CASE TG_TABLE_NAME
+    WHEN 'invoice_items' THEN
+      UPDATE public.invoices SET updated_at = now() WHERE id IN (OLD.invoice_id, NEW.invoice_id);
+    WHEN 'quote_items' THEN
+      UPDATE public.quotes SET updated_at = now() WHERE id IN (OLD.quote_id, NEW.quote_id);
+    WHEN 'recurring_invoice_items' THEN
+      UPDATE public.recurring_invoices SET updated_at = now()
+      WHERE id IN (OLD.recurring_invoice_id, NEW.recurring_invoice_id);
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_totals_from_items
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_items
+FOR EACH ROW EXECUTE FUNCTION public.sync_document_totals_from_items();
+
+CREATE TRIGGER sync_quote_totals_from_items
+AFTER INSERT OR UPDATE OR DELETE ON public.quote_items
+FOR EACH ROW EXECUTE FUNCTION public.sync_document_totals_from_items();
+
+CREATE TRIGGER sync_recurring_invoice_totals_from_items
+AFTER INSERT OR UPDATE OR DELETE ON public.recurring_invoice_items
+FOR EACH ROW EXECUTE FUNCTION public.sync_document_totals_from_items();
+
+-- Converted quotes, recurring invoices and reissues copy the items; the totals follow
+CREATE OR REPLACE FUNCTION public.convert_quote_to_invoice(quote_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  quote_record public.quotes;
+BEGIN
+  SELECT * INTO quote_record FROM public.quotes
+  WHERE id = convert_quote_to_invoice.quote_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found or access denied';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, currency, discount_type, discount_value, notes, issue_date, status
+  ) VALUES (
+    quote_record.user_id,
+    quote_record.client_id,
+    quote_record.currency,
+    quote_record.discount_type,
+    quote_record.discount_value,
+    quote_record.notes,
+    CURRENT_DATE,
+    'draft'
+  ) RETURNING id INTO new_invoice_id;
+
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+  SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+  FROM public.quote_items
+  WHERE quote_items.quote_id = quote_record.id
+  ORDER BY position, created_at;
+
+  UPDATE public.quotes SET status = 'converted' WHERE id = quote_record.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice_period(p_template public.recurring_invoices)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+BEGIN
+  -- Checked first so that a period that was already billed does not use up a number
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE recurring_invoice_id = p_template.id AND recurring_period = p_template.next_due_date
+  ) THEN
+    INSERT INTO public.invoices (
+      user_id, client_id, currency, discount_type, discount_value, notes, issue_date, status, recurring_invoice_id,
+      recurring_period
+    ) VALUES (
+      p_template.user_id,
+      p_template.client_id,
+      p_template.currency,
+      p_template.discount_type,
+      p_template.discount_value,
+      p_template.notes,
+      LEAST(p_template.next_due_date, CURRENT_DATE),
+      'draft',
+      p_template.id,
+      p_template.next_due_date
+    )
+    ON CONFLICT (recurring_invoice_id, recurring_period) DO NOTHING
+    RETURNING id INTO new_invoice_id;
+  END IF;
+
+  IF new_invoice_id IS NOT NULL THEN
+    INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+    SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_template.id
+    ORDER BY position, created_at;
+  END IF;
+
+  UPDATE public.recurring_invoices SET
+    next_due_date = public.recurring_next_date(p_template.next_due_date, p_template.frequency),
+    last_generated_date = CURRENT_DATE
+  WHERE id = p_template.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reissue_invoice(p_invoice_id uuid, p_reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  new_invoice_id uuid;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  IF invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Invoice % is a draft; edit it instead', invoice.number;
+  END IF;
+
+  -- Void and fully credited invoices are already cancelled
+  IF invoice.status NOT IN ('void', 'credited') THEN
+    IF invoice.amount_paid > 0 THEN
+      RAISE EXCEPTION 'Invoice % has payments recorded; refund them before reissuing', invoice.number;
+    END IF;
+
+    IF invoice.amount_credited > 0 THEN
+      RAISE EXCEPTION 'Invoice % has been partly credited; credit the rest before reissuing', invoice.number;
+    END IF;
+
+    -- Invoices without items are credited with a single line that is already discounted
+    PERFORM public.issue_credit_note(
+      invoice.id,
+      p_reason,
+      public.invoice_credit_lines(invoice),
+      NULL,
+      invoice.discount_type,
+      CASE WHEN EXISTS (SELECT 1 FROM public.invoice_items WHERE invoice_id = invoice.id) THEN invoice.discount_value ELSE 0 END
+    );
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, currency, discount_type, discount_value, notes, issue_date, due_date, status, reissued_from_id
+  ) VALUES (
+    invoice.user_id,
+    invoice.client_id,
+    invoice.currency,
+    invoice.discount_type,
+    invoice.discount_value,
+    invoice.notes,
+    CURRENT_DATE,
+    invoice.due_date,
+    'draft',
+    invoice.id
+  ) RETURNING id INTO new_invoice_id;
+
+  INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+  SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+  FROM public.invoice_items
+  WHERE invoice_id = invoice.id
+  ORDER BY position, created_at;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- Lines are {description, quantity, unit_price, taxes, discount_type, discount_value},
+-- with unit prices and fixed discounts in minor units of the invoice's currency
+CREATE OR REPLACE FUNCTION public.issue_credit_note(
+  p_invoice_id uuid,
+  p_reason text,
+  p_items jsonb,
+  p_refund_id uuid DEFAULT NULL,
+  p_discount_type text DEFAULT 'percent',
+  p_discount_value numeric DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  credited bigint;
+  totals record;
+  new_credit_note_id uuid;
+BEGIN
+  -- Locked so that concurrent credit notes can't credit more than the invoice total
+  SELECT * INTO invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF invoice.status IN ('draft', 'void') THEN
+    RAISE EXCEPTION 'Invoice % has not been issued and cannot be credited', invoice.number;
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason for the credit note';
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value)
+    WHERE COALESCE(trim(line.value->>'description'), '') = ''
+    OR COALESCE((line.value->>'quantity')::numeric, 0) <= 0
+    OR COALESCE((line.value->>'unit_price')::numeric, 0) <= 0
+    OR (line.value->>'unit_price')::numeric % 1 <> 0
+    OR jsonb_typeof(COALESCE(line.value->'taxes', '[]')) <> 'array'
+  ) THEN
+    RAISE EXCEPTION 'Each credit note line needs a description, a quantity and a price in minor units';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value),
+    jsonb_array_elements(COALESCE(line.value->'taxes', '[]')) AS tax(value)
+    WHERE COALESCE(trim(tax.value->>'name'), '') = ''
+    OR COALESCE((tax.value->>'rate')::numeric, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'Each tax on a credit note line needs a name and a rate';
+  END IF;
+
+  SELECT * INTO totals FROM public.document_totals(p_items, p_discount_type, p_discount_value);
+
+  IF totals.total <= 0 THEN
+    RAISE EXCEPTION 'A credit note has to credit more than nothing';
+  END IF;
+
+  SELECT COALESCE(SUM(total), 0) INTO credited FROM public.credit_notes WHERE invoice_id = invoice.id;
+
+  IF totals.total > invoice.total - credited THEN
+    RAISE EXCEPTION 'Only % % is left to credit on invoice %',
+      public.from_minor_units(invoice.total - credited, invoice.currency), invoice.currency, invoice.number;
+  END IF;
+
+  INSERT INTO public.credit_notes (
+    user_id, invoice_id, client_id, reason, subtotal, discount_type, discount_value, discount, tax, total, refund_id
+  ) VALUES (
+    invoice.user_id,
+    invoice.id,
+    invoice.client_id,
+    trim(p_reason),
+    totals.subtotal,
+    COALESCE(p_discount_type, 'percent'),
+    COALESCE(p_discount_value, 0),
+    totals.discount,
+    totals.tax,
+    totals.total,
+    p_refund_id
+  ) RETURNING id INTO new_credit_note_id;
+
+  -- credit_note_items.amount is generated from quantity and unit price
+  INSERT INTO public.credit_note_items (
+    credit_note_id, description, quantity, unit_price, taxes, discount_type, discount_value, position
+  )
+  SELECT
+    new_credit_note_id,
+    trim(line.value->>'description'),
+    (line.value->>'quantity')::numeric,
+    (line.value->>'unit_price')::bigint,
+    COALESCE(line.value->'taxes', '[]'),
+    COALESCE(line.value->>'discount_type', 'percent'),
+    COALESCE((line.value->>'discount_value')::numeric, 0),
+    line.position - 1
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS line(value, position);
+
+  RETURN new_credit_note_id;
+END;
+$$;
+
+-- The tax rate of invoices without items is worked out from their totals, which are
+-- whole numbers now
+CREATE OR REPLACE FUNCTION public.invoice_credit_lines(p_invoice public.invoices)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'description', description,
+          'quantity', quantity,
+          'unit_price', unit_price,
+          'taxes', taxes,
+          'discount_type', discount_type,
+          'discount_value', discount_value
+        )
+        ORDER BY position, created_at
+      )
+      FROM public.invoice_items
+      WHERE invoice_id = p_invoice.id
+    ),
+    jsonb_build_array(jsonb_build_object(
+      'description', 'Invoice ' || p_invoice.number,
+      'quantity', 1,
+      'unit_price', p_invoice.subtotal - p_invoice.discount,
+      'taxes', CASE
+        WHEN p_invoice.subtotal - p_invoice.discount > 0 AND p_invoice.tax > 0 THEN jsonb_build_array(jsonb_build_object(
+          'tax_rate_id', NULL,
+          'name', 'Tax',
+          'rate', round(p_invoice.tax::numeric / (p_invoice.subtotal - p_invoice.discount) * 100, 4),
+          'compound', false,
+          'inclusive', false
+        ))
+        ELSE '[]'::jsonb
+      END
+    ))
+  );
+$$;
+
+-- Refunds are credited in whole minor units; the rounding line makes up any difference
+CREATE OR REPLACE FUNCTION public.credit_refunded_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+  paid bigint;
+  credited bigint;
+  creditable bigint;
+  rate numeric;
+  net bigint;
+  remainder bigint;
+  credit_lines jsonb;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF NOT FOUND OR invoice.status IN ('draft', 'void') THEN
+    RETURN NULL;
+  END IF;
+
+  -- Refunds are upserted on every webhook delivery
+  IF EXISTS (SELECT 1 FROM public.credit_notes WHERE refund_id = NEW.id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE((SELECT SUM(amount) FROM public.payments WHERE invoice_id = invoice.id), 0)
+    - COALESCE((SELECT SUM(amount) FROM public.refunds WHERE invoice_id = invoice.id AND status = 'succeeded'), 0)
+  INTO paid;
+
+  SELECT COALESCE(SUM(total), 0) INTO credited FROM public.credit_notes WHERE invoice_id = invoice.id;
+
+  creditable := LEAST(NEW.amount, invoice.total - paid - credited);
+
+  IF creditable <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Tax is credited at the invoice's overall rate, with a rounding line if needed so
+  -- that the credit note adds up to the refunded amount
+  rate := CASE
+    WHEN invoice.subtotal - invoice.discount > 0 THEN round(invoice.tax::numeric / (invoice.subtotal - invoice.discount) * 100, 4)
+    ELSE 0
+  END;
+  net := round(creditable / (1 + rate / 100));
+  remainder := creditable - net - round(net * rate / 100);
+
+  WHILE remainder < 0 LOOP
+    net := net - 1;
+    remainder := creditable - net - round(net * rate / 100);
+  END LOOP;
+
+  credit_lines := jsonb_build_array(jsonb_build_object(
+    'description', 'Refund of payment on invoice ' || invoice.number,
+    'quantity', 1,
+    'unit_price', net,
+    'taxes', CASE
+      WHEN rate > 0 THEN jsonb_build_array(jsonb_build_object(
+        'tax_rate_id', NULL, 'name', 'Tax', 'rate', rate, 'compound', false, 'inclusive', false
+      ))
+      ELSE '[]'::jsonb
+    END
+  ));
+
+  IF remainder > 0 THEN
+    credit_lines := credit_lines || jsonb_build_object('description', 'Rounding', 'quantity', 1, 'unit_price', remainder, 'taxes', '[]'::jsonb);
+  END IF;
+
+  PERFORM public.issue_credit_note(
+    invoice.id,
+    'Payment refunded' || COALESCE(' (' || replace(NEW.reason, '_', ' ') || ')', ''),
+    credit_lines,
+    NEW.id
+  );
+
+  RETURN NULL;
+END;
+$$;
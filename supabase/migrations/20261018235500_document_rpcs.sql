@@ -0,0 +1,297 @@
+-- Invoices and quotes are written together with their items, in one transaction, so that a
+-- failure never leaves a document without its lines. Lines are
+-- {description, quantity, unit_price, taxes, discount_type, discount_value}, with the price
+-- and fixed discounts in minor units; the totals follow from them (see set_document_totals).
+
+-- Raises unless the client is the caller's and the lines and discount are complete
+CREATE OR REPLACE FUNCTION public.check_document_input(
+  p_document text,
+  p_client_id uuid,
+  p_items jsonb,
+  p_discount_type text,
+  p_discount_value numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.clients WHERE id = p_client_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Client not found or access denied';
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A % needs at least one line', p_document;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value)
+    WHERE COALESCE(trim(line.value->>'description'), '') = ''
+    OR COALESCE((line.value->>'quantity')::numeric, 0) <= 0
+    OR COALESCE((line.value->>'unit_price')::numeric, -1) < 0
+    OR (line.value->>'unit_price')::numeric % 1 <> 0
+    OR jsonb_typeof(COALESCE(line.value->'taxes', '[]')) <> 'array'
+  ) THEN
+    RAISE EXCEPTION 'Each % line needs a description, a quantity and a price in minor units', p_document;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value),
+    jsonb_array_elements(COALESCE(line.value->'taxes', '[]')) AS tax(value)
+    WHERE COALESCE(trim(tax.value->>'name'), '') = ''
+    OR COALESCE((tax.value->>'rate')::numeric, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'Each tax on a % line needs a name and a rate', p_document;
+  END IF;
+
+  -- The ranges are checked by the discount constraints; fixed amounts are whole minor units
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line(value)
+    WHERE line.value->>'discount_type' = 'fixed' AND (line.value->>'discount_value')::numeric % 1 <> 0
+  ) OR (p_discount_type = 'fixed' AND p_discount_value % 1 <> 0) THEN
+    RAISE EXCEPTION 'Fixed discounts on a % are in minor units', p_document;
+  END IF;
+END;
+$$;
+
+-- Only called by the functions below
+REVOKE EXECUTE ON FUNCTION public.check_document_input(text, uuid, jsonb, text, numeric) FROM PUBLIC, anon, authenticated;
+
+-- The lines of p_items as columns, positioned in the order given
+CREATE OR REPLACE FUNCTION public.document_lines(p_items jsonb)
+RETURNS TABLE (
+  description text,
+  quantity numeric,
+  unit_price bigint,
+  taxes jsonb,
+  discount_type text,
+  discount_value numeric,
+  "position" integer
+)
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT
+    trim(line.value->>'description'),
+    (line.value->>'quantity')::numeric,
+    (line.value->>'unit_price')::bigint,
+    COALESCE(line.value->'taxes', '[]'),
+    COALESCE(line.value->>'discount_type', 'percent'),
+    COALESCE((line.value->>'discount_value')::numeric, 0),
+    (line.position - 1)::integer
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS line(value, position);
+$$;
+
+-- Items can only be added to drafts, so an invoice created as sent is created as a draft
+-- first and issued once its items are in
+CREATE OR REPLACE FUNCTION public.create_invoice(
+  p_client_id uuid,
+  p_items jsonb,
+  p_currency text DEFAULT NULL,
+  p_due_date date DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_discount_type text DEFAULT 'percent',
+  p_discount_value numeric DEFAULT 0,
+  p_status public.invoice_status DEFAULT 'draft'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_status NOT IN ('draft', 'sent', 'overdue') THEN
+    RAISE EXCEPTION 'A new invoice can only be a draft, sent or overdue';
+  END IF;
+
+  PERFORM public.check_document_input('invoice', p_client_id, p_items, p_discount_type, p_discount_value);
+
+  -- The number and exchange rate are assigned on insert, and a missing currency is the
+  -- account's base currency
+  INSERT INTO public.invoices (
+    user_id, client_id, status, currency, due_date, notes, discount_type, discount_value
+  ) VALUES (
+    auth.uid(),
+    p_client_id,
+    'draft',
+    p_currency,
+    p_due_date,
+    NULLIF(trim(p_notes), ''),
+    COALESCE(p_discount_type, 'percent'),
+    COALESCE(p_discount_value, 0)
+  ) RETURNING id INTO new_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, description, quantity, unit_price, taxes, discount_type, discount_value, position
+  )
+  SELECT new_invoice_id, line.description, line.quantity, line.unit_price, line.taxes, line.discount_type, line.discount_value, line.position
+  FROM public.document_lines(p_items) AS line;
+
+  IF p_status <> 'draft' THEN
+    UPDATE public.invoices SET status = p_status WHERE id = new_invoice_id;
+  END IF;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- Replaces a draft's details and all of its items
+CREATE OR REPLACE FUNCTION public.update_invoice(
+  p_invoice_id uuid,
+  p_client_id uuid,
+  p_items jsonb,
+  p_currency text,
+  p_due_date date DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_discount_type text DEFAULT 'percent',
+  p_discount_value numeric DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice public.invoices;
+BEGIN
+  SELECT * INTO invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found or access denied';
+  END IF;
+
+  IF invoice.status <> 'draft' THEN
+    RAISE EXCEPTION 'Invoice % has been issued and can no longer be edited', invoice.number;
+  END IF;
+
+  PERFORM public.check_document_input('invoice', p_client_id, p_items, p_discount_type, p_discount_value);
+
+  -- Changing the currency of a draft takes the current exchange rate
+  UPDATE public.invoices SET
+    client_id = p_client_id,
+    currency = COALESCE(p_currency, invoice.currency),
+    due_date = p_due_date,
+    notes = NULLIF(trim(p_notes), ''),
+    discount_type = COALESCE(p_discount_type, 'percent'),
+    discount_value = COALESCE(p_discount_value, 0)
+  WHERE id = invoice.id;
+
+  DELETE FROM public.invoice_items WHERE invoice_id = invoice.id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, description, quantity, unit_price, taxes, discount_type, discount_value, position
+  )
+  SELECT invoice.id, line.description, line.quantity, line.unit_price, line.taxes, line.discount_type, line.discount_value, line.position
+  FROM public.document_lines(p_items) AS line;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_quote(
+  p_client_id uuid,
+  p_items jsonb,
+  p_currency text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_discount_type text DEFAULT 'percent',
+  p_discount_value numeric DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_quote_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM public.check_document_input('quote', p_client_id, p_items, p_discount_type, p_discount_value);
+
+  -- The number and exchange rate are assigned on insert, and a missing currency is the
+  -- account's base currency
+  INSERT INTO public.quotes (
+    user_id, client_id, currency, expiry_date, notes, discount_type, discount_value
+  ) VALUES (
+    auth.uid(),
+    p_client_id,
+    p_currency,
+    p_expiry_date,
+    NULLIF(trim(p_notes), ''),
+    COALESCE(p_discount_type, 'percent'),
+    COALESCE(p_discount_value, 0)
+  ) RETURNING id INTO new_quote_id;
+
+  INSERT INTO public.quote_items (
+    quote_id, description, quantity, unit_price, taxes, discount_type, discount_value, position
+  )
+  SELECT new_quote_id, line.description, line.quantity, line.unit_price, line.taxes, line.discount_type, line.discount_value, line.position
+  FROM public.document_lines(p_items) AS line;
+
+  RETURN new_quote_id;
+END;
+$$;
+
+-- Replaces a quote's details and all of its items until the client has approved it
+CREATE OR REPLACE FUNCTION public.update_quote(
+  p_quote_id uuid,
+  p_client_id uuid,
+  p_items jsonb,
+  p_currency text,
+  p_expiry_date date DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_discount_type text DEFAULT 'percent',
+  p_discount_value numeric DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quote public.quotes;
+BEGIN
+  SELECT * INTO quote FROM public.quotes
+  WHERE id = p_quote_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found or access denied';
+  END IF;
+
+  IF quote.status IN ('approved', 'converted') THEN
+    RAISE EXCEPTION 'Quote % has been % and can no longer be edited', quote.quote_number, quote.status;
+  END IF;
+
+  PERFORM public.check_document_input('quote', p_client_id, p_items, p_discount_type, p_discount_value);
+
+  UPDATE public.quotes SET
+    client_id = p_client_id,
+    currency = COALESCE(p_currency, quote.currency),
+    expiry_date = p_expiry_date,
+    notes = NULLIF(trim(p_notes), ''),
+    discount_type = COALESCE(p_discount_type, 'percent'),
+    discount_value = COALESCE(p_discount_value, 0)
+  WHERE id = quote.id;
+
+  DELETE FROM public.quote_items WHERE quote_id = quote.id;
+
+  INSERT INTO public.quote_items (
+    quote_id, description, quantity, unit_price, taxes, discount_type, discount_value, position
+  )
+  SELECT quote.id, line.description, line.quantity, line.unit_price, line.taxes, line.discount_type, line.discount_value, line.position
+  FROM public.document_lines(p_items) AS line;
+END;
+$$;
@@ -0,0 +1,38 @@
+-- Issued invoices can't go back to being drafts, which would make them editable and
+-- deletable again. Recurring auto-send used to claim a draft by marking it sent and put it
+-- back when the email failed; it claims it with send_claimed_at instead, and the invoice
+-- is only marked sent once its email has been queued.
+ALTER TABLE public.invoices ADD COLUMN send_claimed_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.guard_invoice_edits()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'Invoice % is void and cannot be changed', OLD.number;
+  END IF;
+
+  IF NEW.status = 'void' AND OLD.status <> 'void' THEN
+    RAISE EXCEPTION 'Invoice % cannot be voided; issue a credit note to cancel it', OLD.number;
+  END IF;
+
+  IF OLD.status <> 'draft' AND NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'Invoice % has been issued and cannot be made a draft again', OLD.number;
+  END IF;
+
+  -- Payments, credit notes and the overdue job still update the balance and status of sent invoices
+  IF OLD.status <> 'draft' AND (
+    NEW.client_id, NEW.number, NEW.issue_date, NEW.due_date, NEW.subtotal, NEW.tax, NEW.total, NEW.notes,
+    NEW.discount_type, NEW.discount_value, NEW.discount, NEW.currency, NEW.exchange_rate
+  ) IS DISTINCT FROM (
+    OLD.client_id, OLD.number, OLD.issue_date, OLD.due_date, OLD.subtotal, OLD.tax, OLD.total, OLD.notes,
+    OLD.discount_type, OLD.discount_value, OLD.discount, OLD.currency, OLD.exchange_rate
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has been issued and can no longer be edited', OLD.number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
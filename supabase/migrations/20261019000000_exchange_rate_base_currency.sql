@@ -0,0 +1,251 @@
+-- Exchange rates are to the account's base currency at the time, so each document also
+-- records which currency that was. Reports convert documents from before a change of base
+-- currency once more, at the rate of the old base currency to the new one.
+ALTER TABLE public.invoices ADD COLUMN base_currency TEXT;
+ALTER TABLE public.quotes ADD COLUMN base_currency TEXT;
+ALTER TABLE public.recurring_invoices ADD COLUMN base_currency TEXT;
+ALTER TABLE public.expenses ADD COLUMN base_currency TEXT;
+ALTER TABLE public.credit_notes ADD COLUMN base_currency TEXT;
+
+ALTER TABLE public.invoices DISABLE TRIGGER guard_invoice_edits;
+
+UPDATE public.invoices SET base_currency = COALESCE(
+  (SELECT upper(currency) FROM public.user_settings WHERE user_settings.user_id = invoices.user_id), 'USD'
+);
+
+ALTER TABLE public.invoices ENABLE TRIGGER guard_invoice_edits;
+
+UPDATE public.quotes SET base_currency = COALESCE(
+  (SELECT upper(currency) FROM public.user_settings WHERE user_settings.user_id = quotes.user_id), 'USD'
+);
+
+UPDATE public.recurring_invoices SET base_currency = COALESCE(
+  (SELECT upper(currency) FROM public.user_settings WHERE user_settings.user_id = recurring_invoices.user_id), 'USD'
+);
+
+UPDATE public.expenses SET base_currency = COALESCE(
+  (SELECT upper(currency) FROM public.user_settings WHERE user_settings.user_id = expenses.user_id), 'USD'
+);
+
+UPDATE public.credit_notes SET base_currency = invoices.base_currency
+FROM public.invoices
+WHERE invoices.id = credit_notes.invoice_id;
+
+ALTER TABLE public.invoices
+  ALTER COLUMN base_currency SET NOT NULL,
+  ADD CONSTRAINT invoices_base_currency_check CHECK (base_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.quotes
+  ALTER COLUMN base_currency SET NOT NULL,
+  ADD CONSTRAINT quotes_base_currency_check CHECK (base_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.recurring_invoices
+  ALTER COLUMN base_currency SET NOT NULL,
+  ADD CONSTRAINT recurring_invoices_base_currency_check CHECK (base_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.expenses
+  ALTER COLUMN base_currency SET NOT NULL,
+  ADD CONSTRAINT expenses_base_currency_check CHECK (base_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.credit_notes
+  ALTER COLUMN base_currency SET NOT NULL,
+  ADD CONSTRAINT credit_notes_base_currency_check CHECK (base_currency ~ '^[A-Z]{3}$');
+
+-- The base currency is taken with the rate, and kept with it
+CREATE OR REPLACE FUNCTION public.set_exchange_rate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT upper(currency) INTO NEW.currency FROM public.user_settings WHERE user_id = NEW.user_id;
+    NEW.currency := COALESCE(NEW.currency, 'USD');
+  END IF;
+
+  NEW.currency := upper(NEW.currency);
+
+  IF TG_OP = 'UPDATE' AND NEW.currency = OLD.currency THEN
+    NEW.exchange_rate := OLD.exchange_rate;
+    NEW.base_currency := OLD.base_currency;
+  ELSE
+    NEW.exchange_rate := public.exchange_rate_to_base(NEW.user_id, NEW.currency);
+    SELECT upper(currency) INTO NEW.base_currency FROM public.user_settings WHERE user_id = NEW.user_id;
+    NEW.base_currency := COALESCE(NEW.base_currency, 'USD');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER set_invoice_exchange_rate ON public.invoices;
+DROP TRIGGER set_quote_exchange_rate ON public.quotes;
+DROP TRIGGER set_recurring_invoice_exchange_rate ON public.recurring_invoices;
+DROP TRIGGER set_expense_exchange_rate ON public.expenses;
+
+-- Named so that they run after guard_invoice_edits
+CREATE TRIGGER set_invoice_exchange_rate
+BEFORE INSERT OR UPDATE OF currency, exchange_rate, base_currency ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_exchange_rate();
+
+CREATE TRIGGER set_quote_exchange_rate
+BEFORE INSERT OR UPDATE OF currency, exchange_rate, base_currency ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.set_exchange_rate();
+
+CREATE TRIGGER set_recurring_invoice_exchange_rate
+BEFORE INSERT OR UPDATE OF currency, exchange_rate, base_currency ON public.recurring_invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_exchange_rate();
+
+CREATE TRIGGER set_expense_exchange_rate
+BEFORE INSERT OR UPDATE OF currency, exchange_rate, base_currency ON public.expenses
+FOR EACH ROW EXECUTE FUNCTION public.set_exchange_rate();
+
+CREATE OR REPLACE FUNCTION public.set_credit_note_currency()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT currency, exchange_rate, base_currency INTO NEW.currency, NEW.exchange_rate, NEW.base_currency
+  FROM public.invoices
+  WHERE id = NEW.invoice_id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Active recurring invoices need a rate every time they are billed, and reports need one for
+-- each earlier base currency. The base currency itself never needs one.
+CREATE OR REPLACE FUNCTION public.guard_exchange_rate_deletes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.currency = COALESCE((SELECT upper(currency) FROM public.user_settings WHERE user_id = OLD.user_id), 'USD') THEN
+    RETURN OLD;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.recurring_invoices
+    WHERE user_id = OLD.user_id AND currency = OLD.currency AND is_active
+  ) THEN
+    RAISE EXCEPTION 'The % rate is used by active recurring invoices and cannot be deleted', OLD.currency;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.invoices WHERE user_id = OLD.user_id AND base_currency = OLD.currency)
+    OR EXISTS (SELECT 1 FROM public.quotes WHERE user_id = OLD.user_id AND base_currency = OLD.currency)
+    OR EXISTS (SELECT 1 FROM public.expenses WHERE user_id = OLD.user_id AND base_currency = OLD.currency)
+  THEN
+    RAISE EXCEPTION 'The % rate converts documents from when % was the base currency and cannot be deleted', OLD.currency, OLD.currency;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+-- Changing the base currency restates every rate against the new one, using the rate of the
+-- new base currency to the old one, which the account must have unless it has nothing to
+-- convert yet. The old base currency gets a rate like any other.
+CREATE OR REPLACE FUNCTION public.rebase_exchange_rates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_base text := 'USD';
+  new_base text := upper(COALESCE(NEW.currency, 'USD'));
+  new_base_rate numeric;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    old_base := upper(COALESCE(OLD.currency, 'USD'));
+  END IF;
+
+  IF new_base = old_base THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT rate INTO new_base_rate FROM public.exchange_rates WHERE user_id = NEW.user_id AND currency = new_base;
+
+  IF new_base_rate IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.exchange_rates WHERE user_id = NEW.user_id)
+      OR EXISTS (SELECT 1 FROM public.invoices WHERE user_id = NEW.user_id AND base_currency <> new_base)
+      OR EXISTS (SELECT 1 FROM public.quotes WHERE user_id = NEW.user_id AND base_currency <> new_base)
+      OR EXISTS (SELECT 1 FROM public.recurring_invoices WHERE user_id = NEW.user_id AND base_currency <> new_base)
+      OR EXISTS (SELECT 1 FROM public.expenses WHERE user_id = NEW.user_id AND base_currency <> new_base)
+    THEN
+      RAISE EXCEPTION 'Add an exchange rate from % to % before making % the base currency', new_base, old_base, new_base;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.exchange_rates SET rate = rate / new_base_rate
+  WHERE user_id = NEW.user_id AND currency <> new_base;
+
+  INSERT INTO public.exchange_rates (user_id, currency, rate)
+  VALUES (NEW.user_id, old_base, 1 / new_base_rate)
+  ON CONFLICT (user_id, currency) DO UPDATE SET rate = EXCLUDED.rate;
+
+  DELETE FROM public.exchange_rates WHERE user_id = NEW.user_id AND currency = new_base;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rebase_exchange_rates
+AFTER INSERT OR UPDATE OF currency ON public.user_settings
+FOR EACH ROW EXECUTE FUNCTION public.rebase_exchange_rates();
+
+-- Used by the scheduler: bills every period that has come due, including ones missed while
+-- it was down. Each period is billed in a subtransaction, so a template that can't be billed,
+-- e.g. for want of an exchange rate, is reported and skipped instead of failing the whole run.
+DROP FUNCTION public.generate_due_recurring_invoices(date);
+
+CREATE FUNCTION public.generate_due_recurring_invoices(p_as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (generated_invoice_id uuid, template_id uuid, error text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due_id uuid;
+  template public.recurring_invoices;
+  new_invoice_id uuid;
+BEGIN
+  FOR due_id IN
+    SELECT id FROM public.recurring_invoices
+    WHERE is_active AND next_due_date <= p_as_of
+    ORDER BY next_due_date
+  LOOP
+    LOOP
+      BEGIN
+        -- Re-read under lock so that concurrent runs see each other's progress
+        SELECT * INTO template FROM public.recurring_invoices WHERE id = due_id FOR UPDATE;
+        EXIT WHEN NOT FOUND OR NOT template.is_active OR template.next_due_date > p_as_of;
+
+        new_invoice_id := public.generate_recurring_invoice_period(template);
+      EXCEPTION WHEN OTHERS THEN
+        -- Its later periods would fail the same way
+        generated_invoice_id := NULL;
+        template_id := due_id;
+        error := SQLERRM;
+        RETURN NEXT;
+        EXIT;
+      END;
+
+      IF new_invoice_id IS NOT NULL THEN
+        generated_invoice_id := new_invoice_id;
+        template_id := due_id;
+        error := NULL;
+        RETURN NEXT;
+      END IF;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_due_recurring_invoices(date) FROM PUBLIC, anon, authenticated;
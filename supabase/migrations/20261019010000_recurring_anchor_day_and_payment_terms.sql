@@ -0,0 +1,102 @@
+-- Monthly and longer periods fall on the template's anchor day, the day of the month of its
+-- first period, or on the last day of shorter months. Advancing from the previous period
+-- instead drifts for good after a short month, e.g. Jan 31 -> Feb 28 -> Mar 28.
+ALTER TABLE public.recurring_invoices
+  ADD COLUMN anchor_day SMALLINT,
+  -- Generated invoices are due this many days after they are issued
+  ADD COLUMN payment_terms_days INTEGER NOT NULL DEFAULT 30;
+
+UPDATE public.recurring_invoices SET anchor_day = EXTRACT(DAY FROM next_due_date);
+
+ALTER TABLE public.recurring_invoices
+  ALTER COLUMN anchor_day SET NOT NULL,
+  ADD CONSTRAINT recurring_invoices_anchor_day_check CHECK (anchor_day BETWEEN 1 AND 31),
+  ADD CONSTRAINT recurring_invoices_payment_terms_days_check CHECK (payment_terms_days >= 0);
+
+CREATE OR REPLACE FUNCTION public.set_recurring_invoice_anchor_day()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.anchor_day := COALESCE(NEW.anchor_day, EXTRACT(DAY FROM NEW.next_due_date));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_recurring_invoice_anchor_day
+BEFORE INSERT ON public.recurring_invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_recurring_invoice_anchor_day();
+
+DROP FUNCTION public.recurring_next_date(date, recurring_frequency);
+
+CREATE FUNCTION public.recurring_next_date(p_date date, p_frequency recurring_frequency, p_anchor_day integer)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'weekly' THEN p_date + 7
+    ELSE month_start + LEAST(p_anchor_day, EXTRACT(DAY FROM month_start + interval '1 month' - interval '1 day')::integer) - 1
+  END
+  FROM (
+    SELECT (date_trunc('month', p_date) + CASE p_frequency
+      WHEN 'monthly' THEN interval '1 month'
+      WHEN 'quarterly' THEN interval '3 months'
+      ELSE interval '1 year'
+    END)::date AS month_start
+  ) AS next_period;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice_period(p_template public.recurring_invoices)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  period_issue_date date := LEAST(p_template.next_due_date, CURRENT_DATE);
+BEGIN
+  -- Checked first so that a period that was already billed does not use up a number
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE recurring_invoice_id = p_template.id AND recurring_period = p_template.next_due_date
+  ) THEN
+    INSERT INTO public.invoices (
+      user_id, client_id, currency, discount_type, discount_value, notes, issue_date, due_date, status,
+      recurring_invoice_id, recurring_period
+    ) VALUES (
+      p_template.user_id,
+      p_template.client_id,
+      p_template.currency,
+      p_template.discount_type,
+      p_template.discount_value,
+      p_template.notes,
+      period_issue_date,
+      period_issue_date + p_template.payment_terms_days,
+      'draft',
+      p_template.id,
+      p_template.next_due_date
+    )
+    ON CONFLICT (recurring_invoice_id, recurring_period) DO NOTHING
+    RETURNING id INTO new_invoice_id;
+  END IF;
+
+  IF new_invoice_id IS NOT NULL THEN
+    INSERT INTO public.invoice_items (invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value)
+    SELECT new_invoice_id, description, quantity, unit_price, position, taxes, discount_type, discount_value
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_template.id
+    ORDER BY position, created_at;
+  END IF;
+
+  UPDATE public.recurring_invoices SET
+    next_due_date = public.recurring_next_date(p_template.next_due_date, p_template.frequency, p_template.anchor_day),
+    last_generated_date = CURRENT_DATE
+  WHERE id = p_template.id;
+
+  RETURN new_invoice_id;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Japanese is no longer offered, as the PDFs can't draw it. Accounts go back to the
+-- default locale and clients to their account's.
+UPDATE public.user_settings SET locale = 'en-US' WHERE locale = 'ja-JP';
+UPDATE public.clients SET locale = NULL WHERE locale = 'ja-JP';
@@ -30,6 +30,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Modules the edge functions share with the app
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
 }));